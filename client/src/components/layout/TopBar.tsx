@@ -10,6 +10,8 @@ import {
   RiAddLine,
   RiHistoryLine,
   RiFlaskLine,
+  RiTrophyLine,
+  RiCalendarScheduleLine,
 } from "@remixicon/react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -17,6 +19,8 @@ import { Button } from "@/components/ui/button";
 const NAV_ITEMS = [
   { path: "/", label: "Dashboard", icon: RiDashboardLine },
   { path: "/tests", label: "Test History", icon: RiHistoryLine },
+  { path: "/suites", label: "Suites", icon: RiTrophyLine },
+  { path: "/schedules", label: "Schedules", icon: RiCalendarScheduleLine },
 ] as const;
 
 export function TopBar() {
@@ -11,6 +11,7 @@ import {
   RiBox3Line,
   RiLogoutBoxLine,
   RiChatVoiceLine,
+  RiUserSettingsLine,
 } from "@remixicon/react";
 
 import { Badge } from "@/components/ui/badge";
@@ -18,7 +19,8 @@ import { cn } from "@/lib/utils";
 import { PROFILE_INFO } from "@/lib/utils/colors";
 import type { BehavioralProfile } from "@/types/agent";
 
-const PROFILE_ICONS: Record<BehavioralProfile, React.ElementType> = {
+/** Icons for the built-in profiles; custom profiles use the default. */
+const PROFILE_ICONS: Partial<Record<BehavioralProfile, React.ElementType>> = {
   leader: RiUserLine,
   "non-cooperator": RiUserUnfollowLine,
   confuser: RiQuestionLine,
@@ -33,7 +35,7 @@ function AgentProfileBadge({
   ...props
 }: React.ComponentProps<"span"> & { profile: BehavioralProfile }) {
   const info = PROFILE_INFO[profile];
-  const Icon = PROFILE_ICONS[profile];
+  const Icon = PROFILE_ICONS[profile] ?? RiUserSettingsLine;
 
   return (
     <Badge
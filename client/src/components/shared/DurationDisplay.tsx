@@ -1,7 +1,8 @@
 /**
  * Live duration counter that updates every second.
  *
- * Shows elapsed time from a start timestamp, or a fixed duration.
+ * Shows elapsed time from a start timestamp (less any paused time), or
+ * a fixed duration.
  */
 
 import { useState, useEffect, useRef } from "react";
@@ -11,6 +12,7 @@ import { cn } from "@/lib/utils";
 function DurationDisplay({
   startedAt,
   fixedSeconds,
+  pausedSeconds = 0,
   className,
   ...props
 }: React.ComponentProps<"span"> & {
@@ -18,10 +20,12 @@ function DurationDisplay({
   startedAt?: string | null;
   /** Fixed duration in seconds — displayed as-is. */
   fixedSeconds?: number;
+  /** Seconds to leave out of a live count (time spent paused). */
+  pausedSeconds?: number;
 }) {
   const [elapsed, setElapsed] = useState<number>(() => {
     if (fixedSeconds !== undefined) return fixedSeconds;
-    if (startedAt) return getElapsedSeconds(startedAt);
+    if (startedAt) return getElapsedSeconds(startedAt) - pausedSeconds;
     return 0;
   });
 
@@ -35,15 +39,15 @@ function DurationDisplay({
     }
 
     // Live counter — tick every second
-    setElapsed(getElapsedSeconds(startedAt));
+    setElapsed(getElapsedSeconds(startedAt) - pausedSeconds);
     intervalRef.current = setInterval(() => {
-      setElapsed(getElapsedSeconds(startedAt));
+      setElapsed(getElapsedSeconds(startedAt) - pausedSeconds);
     }, 1_000);
 
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [startedAt, fixedSeconds]);
+  }, [startedAt, fixedSeconds, pausedSeconds]);
 
   return (
     <span
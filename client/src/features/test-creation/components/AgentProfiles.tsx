@@ -1,12 +1,24 @@
 /**
  * Step 3: Agent Profiles
  *
- * Select which behavioral profiles to use as testing agents.
- * Toggle profiles on/off and adjust the global behavior intensity.
+ * Select which behavioral profiles to use as testing agents (built-in
+ * and custom profiles from the backend).
+ * Toggle profiles on/off, adjust the global behavior intensity,
+ * optionally fix the random seed, and choose whether agents are
+ * scripted or LLM-driven.
  */
 
+import { useState, useEffect } from "react";
 import { useFormContext, Controller } from "react-hook-form";
 
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
 import {
   Field,
   FieldLabel,
@@ -15,43 +27,49 @@ import {
 } from "@/components/ui/field";
 import { cn } from "@/lib/utils";
 import { AgentProfileBadge } from "@/components/shared/AgentProfileBadge";
-import type { BehavioralProfile } from "@/types/agent";
+import { LoadingState } from "@/components/shared/LoadingState";
+import { fetchProfiles } from "@/lib/api/endpoints/agents";
+import { LLM_MODELS, TESTING_AGENT_MODES } from "@/lib/utils/constants";
+import { PROFILE_INFO } from "@/lib/utils/colors";
+import type { BehavioralProfile, ProfileInfo } from "@/types/agent";
 import type { CreateTestFormData } from "@/lib/schemas/test.schemas";
 
-// Inline list for dashboard step so UI always shows Leader / Follower (not Cooperative / Over-Communicator)
-const ALL_PROFILES: BehavioralProfile[] = [
-  "leader",
-  "non-cooperator",
-  "confuser",
-  "resource-hoarder",
-  "task-abandoner",
-  "follower",
-];
-
-const PROFILE_LABELS: Record<BehavioralProfile, string> = {
-  leader: "Leader",
-  "non-cooperator": "Non-Cooperator",
-  confuser: "Confuser",
-  "resource-hoarder": "Resource Hoarder",
-  "task-abandoner": "Task Abandoner",
-  follower: "Follower",
-};
-
-const PROFILE_DESCRIPTIONS: Record<BehavioralProfile, string> = {
-  leader: "Speaks first, assigns the task, builds, and reasons with the non-cooperator",
-  "non-cooperator": "Self-interested, refuses help and resources",
-  confuser: "Provides contradictory information, changes plans",
-  "resource-hoarder": "Monopolizes materials and blocks access",
-  "task-abandoner": "Starts tasks but leaves mid-execution",
-  follower: "Follows the leader's tasks and tries to mitigate between the non-cooperator and leader",
-};
-
 function AgentProfiles() {
   const {
     control,
+    register,
+    watch,
     formState: { errors },
   } = useFormContext<CreateTestFormData>();
 
+  const testingAgentMode = watch("config.testingAgentMode");
+
+  const [profiles, setProfiles] = useState<ProfileInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const result = await fetchProfiles();
+        if (!cancelled) {
+          setProfiles(result.profiles);
+          setLoading(false);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load profiles");
+          setLoading(false);
+        }
+      }
+    }
+
+    load();
+    return () => { cancelled = true; };
+  }, []);
+
   return (
     <div className="space-y-6">
       <div className="space-y-1" data-profile-set="leader-follower">
@@ -82,10 +100,10 @@ function AgentProfiles() {
           return (
             <Field>
               <FieldLabel>Profiles</FieldLabel>
+              {loading && <LoadingState lines={3} />}
+              {error && <div className="text-destructive text-xs">{error}</div>}
               <div className="grid gap-2 sm:grid-cols-2">
-                {ALL_PROFILES.map((profile) => {
-                  const label = PROFILE_LABELS[profile];
-                  const description = PROFILE_DESCRIPTIONS[profile];
+                {profiles.map(({ name: profile, description, builtIn }) => {
                   const isSelected = selected.includes(profile);
 
                   return (
@@ -99,9 +117,16 @@ function AgentProfiles() {
                       )}
                     >
                       <div className="flex-1 space-y-1">
-                        <AgentProfileBadge profile={profile} />
+                        <div className="flex items-center gap-2">
+                          <AgentProfileBadge profile={profile} />
+                          {!builtIn && (
+                            <span className="text-muted-foreground text-[10px] uppercase">
+                              Custom
+                            </span>
+                          )}
+                        </div>
                         <p className="text-muted-foreground text-[11px] leading-relaxed">
-                          {description}
+                          {PROFILE_INFO[profile]?.description ?? description}
                         </p>
                       </div>
                     </button>
@@ -145,6 +170,115 @@ function AgentProfiles() {
           </Field>
         )}
       />
+
+      <Field>
+        <label className="flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            {...register("config.adaptiveIntensity")}
+            className="accent-primary"
+          />
+          Adapt intensity to the target
+        </label>
+        <FieldDescription>
+          Starts at the intensity above, then escalates while the target makes
+          progress and eases off when it gets stuck.
+        </FieldDescription>
+      </Field>
+
+      <Controller
+        name="config.randomSeed"
+        control={control}
+        render={({ field }) => (
+          <Field>
+            <FieldLabel>Random Seed</FieldLabel>
+            <FieldDescription>
+              Seeds the testing agents' random choices. Reuse a previous run's
+              seed to face the same agent behavior; leave blank for a new one.
+            </FieldDescription>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Random"
+              value={field.value ?? ""}
+              onChange={(e) =>
+                field.onChange(e.target.value === "" ? undefined : Number(e.target.value))
+              }
+            />
+            {errors.config?.randomSeed && (
+              <FieldError>{errors.config.randomSeed.message}</FieldError>
+            )}
+          </Field>
+        )}
+      />
+
+      <Field>
+        <FieldLabel>Driven By</FieldLabel>
+        <FieldDescription>
+          LLM-driven agents stay in character from their profile prompt and
+          respond to what the target actually says.
+        </FieldDescription>
+        <Controller
+          name="config.testingAgentMode"
+          control={control}
+          render={({ field }) => (
+            <Select value={field.value} onValueChange={field.onChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a mode" />
+              </SelectTrigger>
+              <SelectContent>
+                {TESTING_AGENT_MODES.map((mode) => (
+                  <SelectItem key={mode.id} value={mode.id}>
+                    <div className="flex flex-col">
+                      <span>{mode.name}</span>
+                      <span className="text-muted-foreground text-[10px]">
+                        {mode.description}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </Field>
+
+      {testingAgentMode === "llm" && (
+        <Field>
+          <FieldLabel>Agent Model</FieldLabel>
+          <FieldDescription>
+            Every testing agent calls this model once per turn, so a cheap
+            model keeps runs affordable.
+          </FieldDescription>
+          <Controller
+            name="config.testingAgentModel"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LLM_MODELS.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      <div className="flex flex-col">
+                        <span>{model.name}</span>
+                        <span className="text-muted-foreground text-[10px]">
+                          {model.provider} &middot; {model.description}
+                        </span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {errors.config?.testingAgentModel && (
+            <FieldError>{errors.config.testingAgentModel.message}</FieldError>
+          )}
+        </Field>
+      )}
     </div>
   );
 }
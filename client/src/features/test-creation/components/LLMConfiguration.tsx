@@ -1,7 +1,9 @@
 /**
  * Step 2: LLM Configuration
  *
- * Select the target LLM model and optionally override its system prompt.
+ * Select the target LLM model, how it returns decisions, whether it keeps
+ * conversation memory, how much of the world it perceives, and optionally
+ * override its system prompt.
  */
 
 import { useFormContext, Controller } from "react-hook-form";
@@ -13,6 +15,7 @@ import {
   SelectContent,
   SelectItem,
 } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Field,
@@ -20,16 +23,24 @@ import {
   FieldDescription,
   FieldError,
 } from "@/components/ui/field";
-import { LLM_MODELS } from "@/lib/utils/constants";
+import {
+  LLM_MODELS,
+  LLM_RESPONSE_MODES,
+  MEMORY_STRATEGIES,
+  PERCEPTION_LEVELS,
+} from "@/lib/utils/constants";
 import type { CreateTestFormData } from "@/lib/schemas/test.schemas";
 
 function LLMConfiguration() {
   const {
     control,
     register,
+    watch,
     formState: { errors },
   } = useFormContext<CreateTestFormData>();
 
+  const memoryStrategy = watch("config.memoryStrategy");
+
   return (
     <div className="space-y-6">
       <div className="space-y-1">
@@ -72,6 +83,116 @@ function LLMConfiguration() {
         )}
       </Field>
 
+      <Field>
+        <FieldLabel>Response Mode</FieldLabel>
+        <FieldDescription>
+          How the model returns its actions. Parse failures are reported
+          separately for each mode.
+        </FieldDescription>
+        <Controller
+          name="config.llmResponseMode"
+          control={control}
+          render={({ field }) => (
+            <Select value={field.value} onValueChange={field.onChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a mode" />
+              </SelectTrigger>
+              <SelectContent>
+                {LLM_RESPONSE_MODES.map((mode) => (
+                  <SelectItem key={mode.id} value={mode.id}>
+                    <div className="flex flex-col">
+                      <span>{mode.name}</span>
+                      <span className="text-muted-foreground text-[10px]">
+                        {mode.description}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </Field>
+
+      <Field>
+        <FieldLabel>Memory</FieldLabel>
+        <FieldDescription>
+          Run the same model with and without memory to compare them.
+        </FieldDescription>
+        <Controller
+          name="config.memoryStrategy"
+          control={control}
+          render={({ field }) => (
+            <Select value={field.value} onValueChange={field.onChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a strategy" />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMORY_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    <div className="flex flex-col">
+                      <span>{strategy.name}</span>
+                      <span className="text-muted-foreground text-[10px]">
+                        {strategy.description}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </Field>
+
+      {memoryStrategy === "memory" && (
+        <Field>
+          <FieldLabel>Memory Token Budget</FieldLabel>
+          <FieldDescription>
+            Older cycles are summarised once memory exceeds this many tokens.
+          </FieldDescription>
+          <Input
+            type="number"
+            min={1000}
+            max={32000}
+            step={500}
+            {...register("config.memoryTokenBudget", { valueAsNumber: true })}
+          />
+          {errors.config?.memoryTokenBudget && (
+            <FieldError>{errors.config.memoryTokenBudget.message}</FieldError>
+          )}
+        </Field>
+      )}
+
+      <Field>
+        <FieldLabel>Perception</FieldLabel>
+        <FieldDescription>
+          How much of the surrounding world is described in each prompt.
+        </FieldDescription>
+        <Controller
+          name="config.perceptionVerbosity"
+          control={control}
+          render={({ field }) => (
+            <Select value={field.value} onValueChange={field.onChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a level" />
+              </SelectTrigger>
+              <SelectContent>
+                {PERCEPTION_LEVELS.map((level) => (
+                  <SelectItem key={level.id} value={level.id}>
+                    <div className="flex flex-col">
+                      <span>{level.name}</span>
+                      <span className="text-muted-foreground text-[10px]">
+                        {level.description}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </Field>
+
       <Field>
         <FieldLabel>System Prompt Override (optional)</FieldLabel>
         <FieldDescription>
@@ -14,7 +14,7 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { AgentProfileBadge } from "@/components/shared/AgentProfileBadge";
-import { LLM_MODELS } from "@/lib/utils/constants";
+import { LLM_MODELS, PERCEPTION_LEVELS } from "@/lib/utils/constants";
 import { formatDuration } from "@/lib/utils/format";
 import type { CreateTestFormData } from "@/lib/schemas/test.schemas";
 
@@ -38,6 +38,9 @@ function ReviewAndCreate() {
   const values = watch();
 
   const model = LLM_MODELS.find((m) => m.id === values.targetLlmModel);
+  const agentModel = LLM_MODELS.find(
+    (m) => m.id === values.config?.testingAgentModel
+  );
   const mc = values.config?.minecraftServer;
   const hasPromptOverride =
     values.config?.targetLlmSystemPromptOverride &&
@@ -69,6 +72,19 @@ function ReviewAndCreate() {
           <ReviewRow label="Model">
             {model ? `${model.name} (${model.provider})` : values.targetLlmModel}
           </ReviewRow>
+          <ReviewRow label="Response Mode">
+            {values.config?.llmResponseMode === "tools" ? "Tool calling" : "JSON"}
+          </ReviewRow>
+          <ReviewRow label="Memory">
+            {values.config?.memoryStrategy === "memory"
+              ? `Memory (${(values.config.memoryTokenBudget ?? 4000).toLocaleString()} tokens)`
+              : "Stateless"}
+          </ReviewRow>
+          <ReviewRow label="Perception">
+            {PERCEPTION_LEVELS.find(
+              (level) => level.id === values.config?.perceptionVerbosity
+            )?.name ?? "Standard"}
+          </ReviewRow>
           <ReviewRow label="System Prompt">
             {hasPromptOverride ? "Custom override" : "Scenario default"}
           </ReviewRow>
@@ -88,6 +104,15 @@ function ReviewAndCreate() {
           <Separator className="my-2" />
           <ReviewRow label="Behavior Intensity">
             {Math.round((values.config?.behaviorIntensity ?? 0.5) * 100)}%
+            {values.config?.adaptiveIntensity && " (adaptive)"}
+          </ReviewRow>
+          <ReviewRow label="Random Seed">
+            {values.config?.randomSeed ?? "Random"}
+          </ReviewRow>
+          <ReviewRow label="Driven By">
+            {values.config?.testingAgentMode === "llm"
+              ? `LLM (${agentModel?.name ?? values.config.testingAgentModel})`
+              : "Scripted"}
           </ReviewRow>
         </CardContent>
       </Card>
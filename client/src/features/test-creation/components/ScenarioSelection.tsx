@@ -5,7 +5,13 @@
  */
 
 import { useState, useEffect } from "react";
-import { RiGroupLine, RiStackLine } from "@remixicon/react";
+import {
+  RiChat3Line,
+  RiGroupLine,
+  RiSpyLine,
+  RiStackLine,
+  RiTeamLine,
+} from "@remixicon/react";
 import { useFormContext } from "react-hook-form";
 
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
@@ -15,9 +21,14 @@ import { LoadingState } from "@/components/shared/LoadingState";
 import type { ScenarioInfo, ScenarioType } from "@/types/test";
 import type { CreateTestFormData } from "@/lib/schemas/test.schemas";
 
-const SCENARIO_ICONS: Record<ScenarioType, React.ElementType> = {
+/** Icons for the built-in scenarios; authored scenarios use the default. */
+const SCENARIO_ICONS: Partial<Record<ScenarioType, React.ElementType>> = {
   cooperation: RiGroupLine,
+  "cooperation-disruption": RiGroupLine,
   "resource-management": RiStackLine,
+  "communication-overload": RiChat3Line,
+  "multi-agent-coordination": RiTeamLine,
+  "adversarial-reasoning": RiSpyLine,
 };
 
 function ScenarioSelection() {
@@ -0,0 +1,95 @@
+/**
+ * Behavior tree debug view: the node path each scripted testing agent
+ * took on its latest tick, from the tree's root to the picked behavior.
+ */
+
+import { memo } from "react";
+import { RiArrowRightSLine, RiNodeTree } from "@remixicon/react";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+} from "@/components/ui/card";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { AgentProfileBadge } from "@/components/shared/AgentProfileBadge";
+import { formatTime } from "@/lib/utils/format";
+import { cn } from "@/lib/utils";
+import type { AgentTreeTick } from "@/hooks/use-test-websocket";
+
+function BehaviorTreeDebugInner({
+  ticks,
+}: {
+  ticks: Record<string, AgentTreeTick>;
+}) {
+  const agents = Object.values(ticks).sort((a, b) =>
+    a.agentId.localeCompare(b.agentId)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RiNodeTree className="size-4 text-primary" />
+          Behavior Trees
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {agents.length === 0 ? (
+          <EmptyState
+            icon={RiNodeTree}
+            title="No ticks yet"
+            description="The active node of each scripted agent will appear here"
+          />
+        ) : (
+          <div className="space-y-2">
+            {agents.map((tick) => (
+              <div
+                key={tick.agentId}
+                className="ring-foreground/10 space-y-1.5 rounded-none p-2 ring-1"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <AgentProfileBadge profile={tick.profile} />
+                    <span className="font-mono text-[10px] text-muted-foreground">
+                      {tick.agentId}
+                    </span>
+                  </div>
+                  <span className="tabular-nums text-[10px] text-muted-foreground">
+                    {formatTime(tick.timestamp)}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-0.5 text-[10px]">
+                  {tick.activePath.map((label, i) => {
+                    const isLast = i === tick.activePath.length - 1;
+                    return (
+                      <span key={`${label}-${i}`} className="flex items-center gap-0.5">
+                        {i > 0 && (
+                          <RiArrowRightSLine className="size-3 text-muted-foreground" />
+                        )}
+                        <span
+                          className={cn(
+                            isLast
+                              ? "font-mono font-medium text-primary"
+                              : "text-muted-foreground"
+                          )}
+                        >
+                          {label}
+                        </span>
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const BehaviorTreeDebug = memo(BehaviorTreeDebugInner);
+
+export { BehaviorTreeDebug };
@@ -0,0 +1,148 @@
+/**
+ * Adaptive intensity over the run: a step chart of the testing agents'
+ * intensity and the assessment behind each change
+ * (e.g. "Coping at 0.6: world progress +8%, 0/5 decisions failed").
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { RiSpeedUpLine } from "@remixicon/react";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { IntensityStep, TargetAssessment } from "@/types/test";
+
+import {
+  ASSESSMENT_LABELS,
+  currentIntensity,
+  sustainedIntensity,
+} from "../lib/intensity";
+
+const ASSESSMENT_COLORS: Record<TargetAssessment, string> = {
+  coping: "text-emerald-500",
+  stuck: "text-destructive",
+  steady: "text-muted-foreground",
+};
+
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function formatIntensity(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function IntensityTimeline({
+  timeline,
+  startIntensity,
+}: {
+  timeline: IntensityStep[];
+  /** The run's configured behaviorIntensity, where the timeline starts. */
+  startIntensity: number;
+}) {
+  const sustained = sustainedIntensity(timeline);
+
+  // The intensity in force from each point on: the start, then each decision
+  const data = [
+    { elapsedSeconds: 0, intensity: startIntensity },
+    ...timeline.map((step) => ({
+      elapsedSeconds: step.elapsedSeconds,
+      intensity: step.nextIntensity,
+    })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RiSpeedUpLine className="size-4 text-primary" />
+          Adaptive Intensity
+        </CardTitle>
+        <CardDescription>
+          Now {formatIntensity(currentIntensity(timeline, startIntensity))}
+          {" · "}
+          {sustained !== null
+            ? `target sustained progress up to ${formatIntensity(sustained)}`
+            : "target has not sustained progress yet"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ResponsiveContainer width="100%" height={140}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+            <XAxis
+              dataKey="elapsedSeconds"
+              type="number"
+              domain={[0, "dataMax"]}
+              tick={{ fontSize: 10 }}
+              stroke="#888"
+              tickFormatter={(value: number) => formatElapsed(value)}
+            />
+            <YAxis
+              domain={[0, 1]}
+              tick={{ fontSize: 10 }}
+              stroke="#888"
+              tickFormatter={(value: number) => formatIntensity(value)}
+            />
+            <Tooltip
+              formatter={(value) => formatIntensity(Number(value))}
+              labelFormatter={(label) => formatElapsed(Number(label))}
+              contentStyle={{
+                background: "oklch(0.2 0.01 240)",
+                border: "1px solid oklch(0.3 0.01 240)",
+                borderRadius: 0,
+                fontSize: 11,
+              }}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="intensity"
+              name="Intensity"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+
+        {timeline.length > 0 && (
+          <ol className="max-h-[160px] space-y-1 overflow-y-auto">
+            {[...timeline].reverse().map((step) => (
+              <li key={step.at} className="flex items-baseline gap-2 text-[10px]">
+                <span className="tabular-nums text-muted-foreground">
+                  {formatElapsed(step.elapsedSeconds)}
+                </span>
+                <span className={cn("font-medium", ASSESSMENT_COLORS[step.assessment])}>
+                  {ASSESSMENT_LABELS[step.assessment]}
+                </span>
+                <span className="tabular-nums">
+                  {formatIntensity(step.intensity)}
+                  {step.nextIntensity !== step.intensity &&
+                    ` → ${formatIntensity(step.nextIntensity)}`}
+                </span>
+                <span className="truncate text-muted-foreground">{step.reason}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export { IntensityTimeline };
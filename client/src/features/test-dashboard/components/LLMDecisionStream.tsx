@@ -1,5 +1,6 @@
 /**
- * Scrollable feed showing LLM decision events as they arrive.
+ * Scrollable feed showing LLM decision events as they arrive, with the
+ * outcome of each dispatched action.
  */
 
 import { useRef, useEffect, memo } from "react";
@@ -70,23 +71,63 @@ function LLMDecisionStreamInner({
                   >
                     {d.responseTimeMs}ms
                   </span>
+                  {d.parseError && (
+                    <span
+                      className="text-[10px] text-destructive"
+                      title={d.parseError}
+                    >
+                      parse failed
+                    </span>
+                  )}
                 </div>
                 <p className="text-xs leading-relaxed whitespace-pre-wrap break-words">
                   {d.responseText.length > 300
                     ? d.responseText.slice(0, 300) + "..."
                     : d.responseText}
                 </p>
-                {d.parsedActions.length > 0 && (
-                  <div className="flex flex-wrap gap-1">
-                    {d.parsedActions.map((action, j) => (
-                      <span
-                        key={j}
-                        className="bg-primary/10 text-primary px-1.5 py-0.5 text-[10px]"
-                      >
-                        {action}
-                      </span>
-                    ))}
+                {d.actionResults?.length > 0 ? (
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                      {d.actionResults.map((result, j) => (
+                        <span
+                          key={j}
+                          title={result.message}
+                          className={cn(
+                            "px-1.5 py-0.5 text-[10px]",
+                            result.status === "success"
+                              ? "bg-primary/10 text-primary"
+                              : "bg-destructive/10 text-destructive"
+                          )}
+                        >
+                          {result.status === "success" ? "\u2713" : "\u2717"}{" "}
+                          {result.actionType}
+                        </span>
+                      ))}
+                    </div>
+                    {d.actionResults
+                      .filter((result) => result.status !== "success")
+                      .map((result, j) => (
+                        <p
+                          key={j}
+                          className="text-[10px] text-destructive break-words"
+                        >
+                          {result.message}
+                        </p>
+                      ))}
                   </div>
+                ) : (
+                  d.parsedActions.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {d.parsedActions.map((action, j) => (
+                        <span
+                          key={j}
+                          className="bg-primary/10 text-primary px-1.5 py-0.5 text-[10px]"
+                        >
+                          {action}
+                        </span>
+                      ))}
+                    </div>
+                  )
                 )}
               </div>
             ))}
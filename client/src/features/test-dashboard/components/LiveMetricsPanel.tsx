@@ -3,6 +3,7 @@
  */
 
 import { MetricCard } from "@/components/shared/MetricCard";
+import { formatNumber, formatRunCost } from "@/lib/utils/format";
 import type { LiveMetricsSummary } from "@/hooks/use-live-metrics";
 
 function LiveMetricsPanel({ metrics }: { metrics: LiveMetricsSummary }) {
@@ -34,6 +35,14 @@ function LiveMetricsPanel({ metrics }: { metrics: LiveMetricsSummary }) {
         value={metrics.errorCount}
         trend={metrics.errorCount > 0 ? "down" : "neutral"}
       />
+      <MetricCard
+        label="Tokens"
+        value={formatNumber(metrics.totalTokens)}
+      />
+      <MetricCard
+        label="Est. Cost"
+        value={formatRunCost(metrics.costUsd, metrics.unpricedCallCount)}
+      />
     </div>
   );
 }
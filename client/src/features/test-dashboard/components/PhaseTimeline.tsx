@@ -0,0 +1,82 @@
+/**
+ * Scenario phases started so far, with the current phase highlighted
+ * (e.g. "Phase 2 of 3: leader-leaves at 3:00").
+ */
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { RiFlagLine, RiErrorWarningLine } from "@remixicon/react";
+import { cn } from "@/lib/utils";
+import type { PhaseRecord } from "@/types/test";
+
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function PhaseTimeline({
+  phases,
+  totalPhases,
+}: {
+  phases: PhaseRecord[];
+  /** Known once a phase-change event has been received. */
+  totalPhases: number | null;
+}) {
+  const current = phases[phases.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RiFlagLine className="size-4 text-primary" />
+          Scenario Phases
+        </CardTitle>
+        <CardDescription>
+          Phase {phases.length}
+          {totalPhases !== null && ` of ${totalPhases}`}: {current.id}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2">
+          {phases.map((phase) => (
+            <li
+              key={phase.id}
+              className={cn(
+                "border-l-2 pl-3 text-xs",
+                phase === current ? "border-primary" : "border-muted"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{phase.id}</span>
+                <span className="text-muted-foreground tabular-nums text-[10px]">
+                  {formatElapsed(phase.elapsedSeconds)}
+                </span>
+              </div>
+              <p className="text-muted-foreground text-[10px]">
+                {phase.description}
+                {phase.objectiveChanged && " · objective changed"}
+              </p>
+              {phase.errors.map((err) => (
+                <p
+                  key={err}
+                  className="text-destructive flex items-center gap-1 text-[10px]"
+                >
+                  <RiErrorWarningLine className="size-3" />
+                  {err}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+export { PhaseTimeline };
@@ -2,7 +2,12 @@
  * Test status card showing current test state, duration, and controls.
  */
 
-import { RiPlayLine, RiStopLine, RiDeleteBinLine } from "@remixicon/react";
+import {
+  RiPlayLine,
+  RiPauseLine,
+  RiStopLine,
+  RiDeleteBinLine,
+} from "@remixicon/react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 
@@ -20,16 +25,28 @@ import { LiveIndicator } from "@/components/shared/LiveIndicator";
 import { DurationDisplay } from "@/components/shared/DurationDisplay";
 import { AgentProfileBadge } from "@/components/shared/AgentProfileBadge";
 import { LLM_MODELS } from "@/lib/utils/constants";
-import { startTest, stopTest, deleteTest } from "@/lib/api/endpoints/tests";
+import {
+  startTest,
+  stopTest,
+  pauseTest,
+  resumeTest,
+  deleteTest,
+} from "@/lib/api/endpoints/tests";
 import type { TestRun, TestRunStatus } from "@/types/test";
 
 const ACTIVE_STATUSES: TestRunStatus[] = [
   "initializing",
   "coordination",
   "executing",
+  "paused",
   "completing",
 ];
 
+/** Seconds between two ISO timestamps. */
+function secondsBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 1000;
+}
+
 function TestStatusCard({
   test,
   wsStatus,
@@ -43,13 +60,19 @@ function TestStatusCard({
   const currentStatus = wsStatus ?? test.status;
   const isActive = ACTIVE_STATUSES.includes(currentStatus);
   const canStart = currentStatus === "created";
-  const canStop = isActive;
+  const canStop = isActive || currentStatus === "queued";
+  const canPause = currentStatus === "executing";
+  const canResume = currentStatus === "paused";
   const model = LLM_MODELS.find((m) => m.id === test.targetLlmModel);
 
   async function handleStart() {
     try {
-      await startTest(test.testId);
-      toast.success("Test started");
+      const started = await startTest(test.testId);
+      toast.success(
+        started.status === "queued"
+          ? "Test queued — it starts when a slot frees up"
+          : "Test started"
+      );
       onRefresh();
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "Failed to start test");
@@ -66,6 +89,26 @@ function TestStatusCard({
     }
   }
 
+  async function handlePause() {
+    try {
+      await pauseTest(test.testId);
+      toast.success("Test paused — the world is frozen for inspection");
+      onRefresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to pause test");
+    }
+  }
+
+  async function handleResume() {
+    try {
+      await resumeTest(test.testId);
+      toast.success("Test resumed");
+      onRefresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to resume test");
+    }
+  }
+
   async function handleDelete() {
     try {
       await deleteTest(test.testId);
@@ -80,7 +123,7 @@ function TestStatusCard({
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
-          {isActive && <LiveIndicator />}
+          {isActive && !canResume && <LiveIndicator />}
           Test Run
         </CardTitle>
         <CardDescription>
@@ -95,6 +138,18 @@ function TestStatusCard({
                 Start
               </Button>
             )}
+            {canPause && (
+              <Button size="sm" variant="outline" onClick={handlePause}>
+                <RiPauseLine data-icon="inline-start" className="size-3.5" />
+                Pause
+              </Button>
+            )}
+            {canResume && (
+              <Button size="sm" onClick={handleResume}>
+                <RiPlayLine data-icon="inline-start" className="size-3.5" />
+                Resume
+              </Button>
+            )}
             {canStop && (
               <Button size="sm" variant="destructive" onClick={handleStop}>
                 <RiStopLine data-icon="inline-start" className="size-3.5" />
@@ -114,12 +169,12 @@ function TestStatusCard({
           <StatusBadge domain="test" status={currentStatus} />
           <DurationDisplay
             startedAt={test.startedAt}
+            pausedSeconds={test.pausedSeconds}
             fixedSeconds={
-              !isActive && test.startedAt && test.endedAt
+              test.startedAt && (test.pausedAt || (!isActive && test.endedAt))
                 ? Math.round(
-                    (new Date(test.endedAt).getTime() -
-                      new Date(test.startedAt).getTime()) /
-                      1000
+                    secondsBetween(test.startedAt, test.pausedAt ?? test.endedAt!) -
+                      test.pausedSeconds
                   )
                 : undefined
             }
@@ -130,6 +185,18 @@ function TestStatusCard({
             ))}
           </div>
         </div>
+        {test.worldSetup && !test.worldSetup.applied && (
+          <div className="mt-3 space-y-1 text-xs text-destructive" role="alert">
+            <p className="font-medium">
+              World setup incomplete — results may not reflect the scenario
+            </p>
+            <ul className="list-disc pl-4 text-[11px]">
+              {test.worldSetup.errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
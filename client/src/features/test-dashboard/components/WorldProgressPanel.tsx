@@ -0,0 +1,61 @@
+/**
+ * Progress bars for the scenario's world-state success checks
+ * (e.g. "42% of house complete").
+ */
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+} from "@/components/ui/card";
+import { RiBuilding2Line, RiCheckLine } from "@remixicon/react";
+import { cn } from "@/lib/utils";
+import type { WorldCheckProgress } from "@/types/test";
+
+function WorldProgressPanel({ checks }: { checks: WorldCheckProgress[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RiBuilding2Line className="size-4 text-primary" />
+          World Progress
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {checks.map((check) => {
+            const percent = Math.round(check.progress * 100);
+            return (
+              <div key={check.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="flex items-center gap-1">
+                    {check.met && <RiCheckLine className="size-3 text-primary" />}
+                    {percent}% of {check.id} complete
+                  </span>
+                  <span className="text-muted-foreground tabular-nums text-[10px]">
+                    {check.detail}
+                  </span>
+                </div>
+                <div className="h-1 w-full bg-muted overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full transition-all duration-300",
+                      check.met ? "bg-primary" : "bg-primary/60"
+                    )}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <p className="text-muted-foreground text-[10px]">
+                  {check.description}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export { WorldProgressPanel };
@@ -0,0 +1,25 @@
+/**
+ * Summaries of an adaptive run's intensity timeline.
+ */
+
+import type { IntensityStep, TargetAssessment } from "@/types/test";
+
+export const ASSESSMENT_LABELS: Record<TargetAssessment, string> = {
+  coping: "Coping",
+  stuck: "Stuck",
+  steady: "Steady",
+};
+
+/**
+ * The highest intensity at which the target still made progress, or
+ * null if it never did ("sustained progress up to intensity 0.8").
+ */
+export function sustainedIntensity(timeline: IntensityStep[]): number | null {
+  const coped = timeline.filter((step) => step.assessment === "coping");
+  return coped.length > 0 ? Math.max(...coped.map((step) => step.intensity)) : null;
+}
+
+/** Intensity the agents run at now: the last decision's, else the starting one. */
+export function currentIntensity(timeline: IntensityStep[], start: number): number {
+  return timeline.length > 0 ? timeline[timeline.length - 1].nextIntensity : start;
+}
@@ -0,0 +1,98 @@
+/**
+ * Card comparing a replay run with the run it replays: how many target
+ * decisions each made and the first one whose actions ended differently.
+ */
+
+import { Link } from "react-router-dom";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatTime } from "@/lib/utils/format";
+import type { ReplayComparison, TargetActionOutcome } from "@/types/test";
+
+function OutcomeList({ results }: { results: TargetActionOutcome[] }) {
+  if (results.length === 0) {
+    return <p className="text-muted-foreground">No actions</p>;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {results.map((r, i) => (
+        <li key={`${r.actionType}-${i}`}>
+          <span className="font-mono">{r.actionType}</span>{" "}
+          <span className={r.status === "success" ? "text-muted-foreground" : "text-destructive"}>
+            {r.status}
+          </span>
+          {r.message && (
+            <span className="text-muted-foreground"> — {r.message}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ReplayComparisonCard({ comparison }: { comparison: ReplayComparison }) {
+  const divergence = comparison.firstDivergence;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Replay
+          {divergence ? (
+            <Badge variant="destructive">diverged</Badge>
+          ) : (
+            <Badge variant="secondary">matched</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Replays{" "}
+          <Link
+            to={`/tests/${comparison.sourceTestId}/results`}
+            className="font-mono underline underline-offset-2"
+          >
+            {comparison.sourceTestId}
+          </Link>{" "}
+          &middot; {comparison.replayedDecisions} of {comparison.originalDecisions} decisions replayed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-xs">
+        {divergence ? (
+          <div className="space-y-3">
+            <p>
+              Diverged at decision {divergence.decision}: the same response
+              led to different action outcomes.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <p className="font-medium">
+                  Original &middot; {formatTime(divergence.originalTimestamp)}
+                </p>
+                <OutcomeList results={divergence.originalResults} />
+              </div>
+              <div className="space-y-1">
+                <p className="font-medium">
+                  Replay &middot; {formatTime(divergence.replayTimestamp)}
+                </p>
+                <OutcomeList results={divergence.replayResults} />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">
+            Every replayed decision ended the same way as in the original run.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export { ReplayComparisonCard };
@@ -0,0 +1,165 @@
+/**
+ * Form for creating a test schedule: one test configuration run on a
+ * cron expression and compared to its own recent runs.
+ */
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RiCalendarScheduleLine } from "@remixicon/react";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldLabel, FieldError, FieldDescription } from "@/components/ui/field";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import { createSchedule, fetchScenarios } from "@/lib/api/endpoints/tests";
+import {
+  createTestScheduleRequestSchema,
+  type CreateTestScheduleFormData,
+} from "@/lib/schemas/test.schemas";
+import type { ScenarioInfo, TestSchedule } from "@/types/test";
+
+const SELECT_CLASS =
+  "border-input dark:bg-input/30 h-8 rounded-none border bg-transparent px-2 text-xs";
+
+function CreateScheduleForm({ onCreated }: { onCreated: (schedule: TestSchedule) => void }) {
+  const [scenarios, setScenarios] = useState<ScenarioInfo[]>([]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateTestScheduleFormData>({
+    resolver: zodResolver(createTestScheduleRequestSchema),
+    defaultValues: {
+      cron: "0 3 * * *",
+      scenarioType: "cooperation",
+      targetLlmModel: LLM_MODELS[0]?.id ?? "",
+      threshold: 0.2,
+    },
+  });
+
+  useEffect(() => {
+    fetchScenarios()
+      .then((result) => setScenarios(result.scenarios))
+      .catch(() => setScenarios([]));
+  }, []);
+
+  async function onSubmit(data: CreateTestScheduleFormData) {
+    try {
+      const schedule = await createSchedule({
+        name: data.name || undefined,
+        cron: data.cron,
+        runTemplate: {
+          scenarioType: data.scenarioType,
+          targetLlmModel: data.targetLlmModel,
+          durationSeconds: data.durationSeconds,
+        },
+        regressionPolicy: { threshold: data.threshold },
+      });
+      toast.success(`Schedule "${schedule.name}" created`);
+      reset();
+      onCreated(schedule);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create schedule");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Schedule</CardTitle>
+        <CardDescription>
+          Run a test on a recurring schedule and flag runs that fall behind recent ones.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Field>
+              <FieldLabel>Name</FieldLabel>
+              <Input {...register("name")} placeholder="Optional" />
+              {errors.name && <FieldError>{errors.name.message}</FieldError>}
+            </Field>
+
+            <Field>
+              <FieldLabel>Cron (UTC)</FieldLabel>
+              <Input {...register("cron")} className="font-mono" />
+              <FieldDescription>minute hour day month weekday</FieldDescription>
+              {errors.cron && <FieldError>{errors.cron.message}</FieldError>}
+            </Field>
+
+            <Field>
+              <FieldLabel>Regression threshold</FieldLabel>
+              <Input
+                type="number"
+                step="0.05"
+                {...register("threshold", { valueAsNumber: true })}
+              />
+              <FieldDescription>Tolerated drop before a run is flagged</FieldDescription>
+              {errors.threshold && <FieldError>{errors.threshold.message}</FieldError>}
+            </Field>
+
+            <Field>
+              <FieldLabel>Scenario</FieldLabel>
+              <select {...register("scenarioType")} className={SELECT_CLASS}>
+                {scenarios.map((s) => (
+                  <option key={s.type} value={s.type}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              {errors.scenarioType && (
+                <FieldError>{errors.scenarioType.message}</FieldError>
+              )}
+            </Field>
+
+            <Field>
+              <FieldLabel>Model</FieldLabel>
+              <select {...register("targetLlmModel")} className={SELECT_CLASS}>
+                {LLM_MODELS.map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}
+                  </option>
+                ))}
+              </select>
+              {errors.targetLlmModel && (
+                <FieldError>{errors.targetLlmModel.message}</FieldError>
+              )}
+            </Field>
+
+            <Field>
+              <FieldLabel>Duration (seconds)</FieldLabel>
+              <Input
+                type="number"
+                placeholder="Scenario default"
+                {...register("durationSeconds", {
+                  setValueAs: (v) => (v === "" ? undefined : Number(v)),
+                })}
+              />
+              {errors.durationSeconds && (
+                <FieldError>{errors.durationSeconds.message}</FieldError>
+              )}
+            </Field>
+          </div>
+
+          <Button type="submit" disabled={isSubmitting}>
+            <RiCalendarScheduleLine data-icon="inline-start" className="size-4" />
+            Create Schedule
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export { CreateScheduleForm };
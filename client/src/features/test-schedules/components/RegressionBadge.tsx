@@ -0,0 +1,29 @@
+/**
+ * Badge summarising how a scheduled run compared to its baseline.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import type { ScheduledRun } from "@/types/test";
+
+function RegressionBadge({ run }: { run: ScheduledRun }) {
+  if (!run.report) {
+    return <Badge variant="outline">pending</Badge>;
+  }
+
+  if (!run.report.regressed) {
+    return <Badge variant="secondary">ok</Badge>;
+  }
+
+  const metrics = run.report.comparisons
+    .filter((c) => c.regressed)
+    .map((c) => c.metric)
+    .join(", ");
+
+  return (
+    <Badge variant="destructive" title={`Regressed: ${metrics}`}>
+      regression
+    </Badge>
+  );
+}
+
+export { RegressionBadge };
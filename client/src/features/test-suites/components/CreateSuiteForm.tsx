@@ -0,0 +1,188 @@
+/**
+ * Form for creating a test suite: one scenario run across several
+ * models, a number of times each — optionally at each of the sweep
+ * intensities.
+ */
+
+import { useEffect, useState } from "react";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RiPlayLine } from "@remixicon/react";
+import { toast } from "sonner";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldLabel, FieldError } from "@/components/ui/field";
+import { LLM_MODELS, SWEEP_BEHAVIOR_INTENSITIES } from "@/lib/utils/constants";
+import { createSuite, fetchScenarios } from "@/lib/api/endpoints/tests";
+import {
+  createTestSuiteRequestSchema,
+  type CreateTestSuiteFormData,
+} from "@/lib/schemas/test.schemas";
+import type { ScenarioInfo, TestSuite } from "@/types/test";
+
+function CreateSuiteForm({ onCreated }: { onCreated: (suite: TestSuite) => void }) {
+  const [scenarios, setScenarios] = useState<ScenarioInfo[]>([]);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateTestSuiteFormData>({
+    resolver: zodResolver(createTestSuiteRequestSchema),
+    defaultValues: {
+      scenarioType: "cooperation",
+      targetLlmModels: [],
+      repetitions: 3,
+    },
+  });
+
+  useEffect(() => {
+    fetchScenarios()
+      .then((result) => setScenarios(result.scenarios))
+      .catch(() => setScenarios([]));
+  }, []);
+
+  async function onSubmit(data: CreateTestSuiteFormData) {
+    try {
+      const suite = await createSuite({ ...data, name: data.name || undefined });
+      toast.success(`Suite created with ${suite.runs.length} runs`);
+      onCreated(suite);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create suite");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Suite</CardTitle>
+        <CardDescription>
+          Run one scenario against several models to compare them on a leaderboard.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-4">
+            <Field>
+              <FieldLabel>Name</FieldLabel>
+              <Input {...register("name")} placeholder="Optional" />
+              {errors.name && <FieldError>{errors.name.message}</FieldError>}
+            </Field>
+
+            <Field>
+              <FieldLabel>Scenario</FieldLabel>
+              <select
+                {...register("scenarioType")}
+                className="border-input dark:bg-input/30 h-8 rounded-none border bg-transparent px-2 text-xs"
+              >
+                {scenarios.map((s) => (
+                  <option key={s.type} value={s.type}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              {errors.scenarioType && (
+                <FieldError>{errors.scenarioType.message}</FieldError>
+              )}
+            </Field>
+
+            <Field>
+              <FieldLabel>Runs per model</FieldLabel>
+              <Input
+                type="number"
+                {...register("repetitions", { valueAsNumber: true })}
+              />
+              {errors.repetitions && (
+                <FieldError>{errors.repetitions.message}</FieldError>
+              )}
+            </Field>
+
+            <Field>
+              <FieldLabel>Duration (seconds)</FieldLabel>
+              <Input
+                type="number"
+                placeholder="Scenario default"
+                {...register("durationSeconds", {
+                  setValueAs: (v) => (v === "" ? undefined : Number(v)),
+                })}
+              />
+              {errors.durationSeconds && (
+                <FieldError>{errors.durationSeconds.message}</FieldError>
+              )}
+            </Field>
+          </div>
+
+          <Controller
+            name="targetLlmModels"
+            control={control}
+            render={({ field }) => (
+              <Field>
+                <FieldLabel>Models</FieldLabel>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  {LLM_MODELS.map((model) => (
+                    <label
+                      key={model.id}
+                      className="flex items-center gap-2 text-xs cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        className="accent-primary"
+                        checked={field.value.includes(model.id)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...field.value, model.id]
+                              : field.value.filter((id) => id !== model.id)
+                          )
+                        }
+                      />
+                      {model.name}
+                    </label>
+                  ))}
+                </div>
+                {errors.targetLlmModels && (
+                  <FieldError>{errors.targetLlmModels.message}</FieldError>
+                )}
+              </Field>
+            )}
+          />
+
+          <Controller
+            name="behaviorIntensities"
+            control={control}
+            render={({ field }) => (
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-primary"
+                  checked={!!field.value}
+                  onChange={(e) =>
+                    field.onChange(e.target.checked ? SWEEP_BEHAVIOR_INTENSITIES : undefined)
+                  }
+                />
+                Intensity sweep — run each model at testing-agent intensity{" "}
+                {SWEEP_BEHAVIOR_INTENSITIES.join(", ")}
+              </label>
+            )}
+          />
+
+          <Button type="submit" disabled={isSubmitting}>
+            <RiPlayLine data-icon="inline-start" className="size-4" />
+            Create and Start
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export { CreateSuiteForm };
@@ -0,0 +1,117 @@
+/**
+ * How each model of an intensity-sweep suite holds up as the testing
+ * agents get more hostile: one line per model, metric mean per intensity.
+ */
+
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { RiLineChartLine } from "@remixicon/react";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import type { IntensitySweep, LeaderboardMetric } from "@/types/test";
+
+import { METRIC_LABELS, formatMetric } from "../lib/metrics";
+
+const LINE_COLORS = ["#14b8a6", "#f59e0b", "#8b5cf6", "#ef4444", "#3b82f6", "#84cc16"];
+
+function IntensitySweepChart({ sweep }: { sweep: IntensitySweep }) {
+  const [metric, setMetric] = useState<LeaderboardMetric>("success-rate");
+  const metrics = Object.keys(METRIC_LABELS) as LeaderboardMetric[];
+
+  // One row per intensity, one column per model; gaps where a model has no runs yet
+  const data = sweep.behaviorIntensities.map((behaviorIntensity, i) => {
+    const row: Record<string, number | null> = { behaviorIntensity };
+    for (const { targetLlmModel, points } of sweep.series) {
+      const stats = points[i]?.metrics.find((m) => m.metric === metric);
+      row[targetLlmModel] = stats && stats.sampleSize > 0 ? stats.mean : null;
+    }
+    return row;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <RiLineChartLine className="size-4 text-primary" />
+              Intensity Sweep
+            </CardTitle>
+            <CardDescription>
+              Mean per testing-agent intensity
+              {sweep.excludedRunCount > 0 &&
+                ` · ${sweep.excludedRunCount} stopped or errored run(s) excluded`}
+            </CardDescription>
+          </div>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as LeaderboardMetric)}
+            className="border-input dark:bg-input/30 h-8 rounded-none border bg-transparent px-2 text-xs"
+          >
+            {metrics.map((m) => (
+              <option key={m} value={m}>
+                {METRIC_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={240}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+            <XAxis
+              dataKey="behaviorIntensity"
+              tick={{ fontSize: 10 }}
+              stroke="#888"
+            />
+            <YAxis
+              tick={{ fontSize: 10 }}
+              stroke="#888"
+              tickFormatter={(value: number) => formatMetric(metric, value)}
+            />
+            <Tooltip
+              formatter={(value) => formatMetric(metric, Number(value))}
+              labelFormatter={(label) => `Intensity ${label}`}
+              contentStyle={{
+                background: "oklch(0.2 0.01 240)",
+                border: "1px solid oklch(0.3 0.01 240)",
+                borderRadius: 0,
+                fontSize: 11,
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {sweep.series.map(({ targetLlmModel }, i) => (
+              <Line
+                key={targetLlmModel}
+                dataKey={targetLlmModel}
+                name={LLM_MODELS.find((m) => m.id === targetLlmModel)?.name ?? targetLlmModel}
+                stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                strokeWidth={2}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export { IntensitySweepChart };
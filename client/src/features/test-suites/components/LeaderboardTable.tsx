@@ -0,0 +1,138 @@
+/**
+ * Models of a suite ranked by a metric, with 95% confidence intervals
+ * and whether each gap to the model above is statistically significant.
+ */
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { RiTrophyLine } from "@remixicon/react";
+import { cn } from "@/lib/utils";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import type {
+  Leaderboard,
+  LeaderboardMetric,
+  LeaderboardMetricStats,
+} from "@/types/test";
+
+import { METRIC_LABELS, formatMetric } from "../lib/metrics";
+
+function MetricCell({ stats }: { stats: LeaderboardMetricStats }) {
+  if (stats.sampleSize === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  return (
+    <div>
+      <div className="tabular-nums">{formatMetric(stats.metric, stats.mean)}</div>
+      {stats.sampleSize > 1 && (
+        <div className="text-[10px] text-muted-foreground tabular-nums">
+          {formatMetric(stats.metric, stats.lower)} – {formatMetric(stats.metric, stats.upper)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LeaderboardTable({
+  leaderboard,
+  onMetricChange,
+}: {
+  leaderboard: Leaderboard;
+  onMetricChange: (metric: LeaderboardMetric) => void;
+}) {
+  const metrics = Object.keys(METRIC_LABELS) as LeaderboardMetric[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <RiTrophyLine className="size-4 text-primary" />
+              Leaderboard
+            </CardTitle>
+            <CardDescription>
+              Mean with 95% confidence interval
+              {leaderboard.excludedRunCount > 0 &&
+                ` · ${leaderboard.excludedRunCount} stopped or errored run(s) excluded`}
+            </CardDescription>
+          </div>
+          <select
+            value={leaderboard.rankingMetric}
+            onChange={(e) => onMetricChange(e.target.value as LeaderboardMetric)}
+            className="border-input dark:bg-input/30 h-8 rounded-none border bg-transparent px-2 text-xs"
+          >
+            {metrics.map((m) => (
+              <option key={m} value={m}>
+                Rank by {METRIC_LABELS[m].toLowerCase()}
+              </option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {leaderboard.entries.length === 0 ? (
+          <p className="px-4 pb-4 text-xs text-muted-foreground">
+            No finished runs to rank yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b text-muted-foreground text-left text-[10px]">
+                  <th className="px-4 py-2 font-medium">#</th>
+                  <th className="px-4 py-2 font-medium">Model</th>
+                  <th className="px-4 py-2 font-medium">Runs</th>
+                  {metrics.map((m) => (
+                    <th
+                      key={m}
+                      className={cn(
+                        "px-4 py-2 font-medium",
+                        m === leaderboard.rankingMetric && "text-foreground"
+                      )}
+                    >
+                      {METRIC_LABELS[m]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.entries.map((entry) => {
+                  const model = LLM_MODELS.find((m) => m.id === entry.targetLlmModel);
+                  return (
+                    <tr key={entry.targetLlmModel} className="border-t border-border/50">
+                      <td className="px-4 py-2.5 tabular-nums">
+                        {entry.rank}
+                        {entry.significantVsAbove === false && (
+                          <span
+                            className="ml-1 text-[10px] text-muted-foreground"
+                            title="Not significantly different from the model above"
+                          >
+                            ≈
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5">{model?.name ?? entry.targetLlmModel}</td>
+                      <td className="px-4 py-2.5 tabular-nums">{entry.runCount}</td>
+                      {entry.metrics.map((stats) => (
+                        <td key={stats.metric} className="px-4 py-2.5">
+                          <MetricCell stats={stats} />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export { LeaderboardTable };
@@ -0,0 +1,22 @@
+/**
+ * Status badge for a test suite.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import type { TestSuiteStatus } from "@/types/test";
+
+const SUITE_STATUS_VARIANTS = {
+  running: "default",
+  completed: "secondary",
+  cancelled: "outline",
+} as const satisfies Record<TestSuiteStatus, string>;
+
+function SuiteStatusBadge({ status }: { status: TestSuiteStatus }) {
+  return (
+    <Badge variant={SUITE_STATUS_VARIANTS[status]} className="uppercase tracking-wide">
+      {status}
+    </Badge>
+  );
+}
+
+export { SuiteStatusBadge };
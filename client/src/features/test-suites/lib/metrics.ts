@@ -0,0 +1,27 @@
+/**
+ * Display names and formatting for leaderboard metrics.
+ */
+
+import { formatCost } from "@/lib/utils/format";
+import type { LeaderboardMetric } from "@/types/test";
+
+export const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  "success-rate": "Success rate",
+  "world-progress": "World progress",
+  "llm-error-rate": "LLM error rate",
+  "response-time-ms": "Response time",
+  "cost-usd": "Cost",
+};
+
+export function formatMetric(metric: LeaderboardMetric, value: number): string {
+  switch (metric) {
+    case "success-rate":
+    case "world-progress":
+    case "llm-error-rate":
+      return `${Math.round(value * 100)}%`;
+    case "response-time-ms":
+      return `${(value / 1000).toFixed(1)}s`;
+    case "cost-usd":
+      return formatCost(value);
+  }
+}
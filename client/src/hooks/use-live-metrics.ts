@@ -2,7 +2,7 @@
  * Derived hook for live metrics from test WebSocket.
  *
  * Provides computed values like average LLM response time,
- * actions per minute, etc.
+ * token usage and estimated cost.
  */
 
 import { useMemo } from "react";
@@ -23,6 +23,12 @@ export interface LiveMetricsSummary {
   testingAgentMessages: number;
   /** Number of LLM errors encountered. */
   errorCount: number;
+  /** Total tokens consumed by the target LLM. */
+  totalTokens: number;
+  /** Estimated cost of target LLM calls in USD. */
+  costUsd: number;
+  /** LLM calls with no known price, left out of costUsd. */
+  unpricedCallCount: number;
 }
 
 export function useLiveMetrics(metrics: TestMetrics | null): LiveMetricsSummary {
@@ -36,6 +42,9 @@ export function useLiveMetrics(metrics: TestMetrics | null): LiveMetricsSummary
         targetMessages: 0,
         testingAgentMessages: 0,
         errorCount: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        unpricedCallCount: 0,
       };
     }
 
@@ -52,6 +61,9 @@ export function useLiveMetrics(metrics: TestMetrics | null): LiveMetricsSummary
       targetMessages: metrics.targetMessageCount,
       testingAgentMessages: metrics.testingAgentMessageCount,
       errorCount: metrics.llmErrorCount,
+      totalTokens: metrics.totalTokens ?? 0,
+      costUsd: metrics.totalCostUsd ?? 0,
+      unpricedCallCount: metrics.unpricedCallCount ?? 0,
     };
   }, [metrics]);
 }
@@ -7,7 +7,16 @@
 
 import { useCallback, useReducer, useEffect } from "react";
 import { useWebSocket } from "./use-websocket";
-import type { TestMetrics, TestRunStatus } from "@/types/test";
+import type {
+  LlmResponseMode,
+  TargetActionOutcome,
+  TestMetrics,
+  PhaseRecord,
+  IntensityStep,
+  RegressionReport,
+  TestRunStatus,
+  WorldCheckProgress,
+} from "@/types/test";
 
 /** All possible test WS event types from the backend. */
 export interface TestStatusChanged {
@@ -23,6 +32,9 @@ export interface TargetLlmDecision {
   testId: string;
   responseText: string;
   parsedActions: string[];
+  actionResults: TargetActionOutcome[];
+  responseMode: LlmResponseMode;
+  parseError: string | null;
   responseTimeMs: number;
   timestamp: string;
 }
@@ -38,6 +50,18 @@ export interface AgentAction {
   timestamp: string;
 }
 
+/** A scripted testing agent ticked its behavior tree. */
+export interface AgentTreeTick {
+  type: "agent-tree-tick";
+  testId: string;
+  agentId: string;
+  profile: string;
+  behavior: string;
+  /** Node labels from the root to the node that picked the behavior. */
+  activePath: string[];
+  timestamp: string;
+}
+
 export interface TestChatMessage {
   type: "test-chat-message";
   testId: string;
@@ -55,6 +79,31 @@ export interface TestMetricsUpdated {
   timestamp: string;
 }
 
+export interface TestWorldProgress {
+  type: "test-world-progress";
+  testId: string;
+  checks: WorldCheckProgress[];
+  timestamp: string;
+}
+
+export interface TestPhaseChanged {
+  type: "test-phase-changed";
+  testId: string;
+  phase: PhaseRecord;
+  /** 1-based position among the scenario's phases. */
+  phaseNumber: number;
+  totalPhases: number;
+  timestamp: string;
+}
+
+/** An adaptive run reassessed the target and set the intensity. */
+export interface TestIntensityStep {
+  type: "test-intensity-step";
+  testId: string;
+  step: IntensityStep;
+  timestamp: string;
+}
+
 export interface TestCompleted {
   type: "test-completed";
   testId: string;
@@ -65,6 +114,16 @@ export interface TestCompleted {
   timestamp: string;
 }
 
+/** A scheduled run fell behind its schedule's rolling baseline. */
+export interface TestRegression {
+  type: "test-regression";
+  testId: string;
+  scheduleId: string;
+  scheduleName: string;
+  report: RegressionReport;
+  timestamp: string;
+}
+
 export interface TestError {
   type: "test-error";
   testId: string;
@@ -78,9 +137,14 @@ export type TestWsEvent =
   | TestStatusChanged
   | TargetLlmDecision
   | AgentAction
+  | AgentTreeTick
   | TestChatMessage
   | TestMetricsUpdated
+  | TestWorldProgress
+  | TestPhaseChanged
+  | TestIntensityStep
   | TestCompleted
+  | TestRegression
   | TestError
   | { type: "pong" };
 
@@ -90,21 +154,32 @@ const MAX_LOG_SIZE = 200;
 interface TestWsState {
   status: TestRunStatus | null;
   metrics: TestMetrics | null;
+  worldProgress: WorldCheckProgress[] | null;
+  lastPhase: TestPhaseChanged | null;
+  lastIntensityStep: TestIntensityStep | null;
   llmDecisions: TargetLlmDecision[];
   agentActions: AgentAction[];
+  /** Latest behavior tree tick per agent, keyed by agentId. */
+  treeTicks: Record<string, AgentTreeTick>;
   chatMessages: TestChatMessage[];
   errors: TestError[];
   completed: TestCompleted | null;
+  regression: TestRegression | null;
 }
 
 type TestWsAction =
   | { type: "status"; payload: TestStatusChanged }
   | { type: "metrics"; payload: TestMetricsUpdated }
+  | { type: "world-progress"; payload: TestWorldProgress }
+  | { type: "phase"; payload: TestPhaseChanged }
+  | { type: "intensity-step"; payload: TestIntensityStep }
   | { type: "llm-decision"; payload: TargetLlmDecision }
   | { type: "agent-action"; payload: AgentAction }
+  | { type: "tree-tick"; payload: AgentTreeTick }
   | { type: "chat"; payload: TestChatMessage }
   | { type: "error"; payload: TestError }
   | { type: "completed"; payload: TestCompleted }
+  | { type: "regression"; payload: TestRegression }
   | { type: "reset" };
 
 function appendCapped<T>(arr: T[], item: T): T[] {
@@ -118,16 +193,29 @@ function reducer(state: TestWsState, action: TestWsAction): TestWsState {
       return { ...state, status: action.payload.newStatus };
     case "metrics":
       return { ...state, metrics: action.payload.metrics };
+    case "world-progress":
+      return { ...state, worldProgress: action.payload.checks };
+    case "phase":
+      return { ...state, lastPhase: action.payload };
+    case "intensity-step":
+      return { ...state, lastIntensityStep: action.payload };
     case "llm-decision":
       return { ...state, llmDecisions: appendCapped(state.llmDecisions, action.payload) };
     case "agent-action":
       return { ...state, agentActions: appendCapped(state.agentActions, action.payload) };
+    case "tree-tick":
+      return {
+        ...state,
+        treeTicks: { ...state.treeTicks, [action.payload.agentId]: action.payload },
+      };
     case "chat":
       return { ...state, chatMessages: appendCapped(state.chatMessages, action.payload) };
     case "error":
       return { ...state, errors: appendCapped(state.errors, action.payload) };
     case "completed":
       return { ...state, completed: action.payload, status: "completed" };
+    case "regression":
+      return { ...state, regression: action.payload };
     case "reset":
       return initialState;
   }
@@ -136,11 +224,16 @@ function reducer(state: TestWsState, action: TestWsAction): TestWsState {
 const initialState: TestWsState = {
   status: null,
   metrics: null,
+  worldProgress: null,
+  lastPhase: null,
+  lastIntensityStep: null,
   llmDecisions: [],
   agentActions: [],
+  treeTicks: {},
   chatMessages: [],
   errors: [],
   completed: null,
+  regression: null,
 };
 
 export function useTestWebSocket(testId: string | undefined) {
@@ -160,15 +253,30 @@ export function useTestWebSocket(testId: string | undefined) {
       case "agent-action":
         dispatch({ type: "agent-action", payload: msg });
         break;
+      case "agent-tree-tick":
+        dispatch({ type: "tree-tick", payload: msg });
+        break;
       case "test-chat-message":
         dispatch({ type: "chat", payload: msg });
         break;
       case "test-metrics-updated":
         dispatch({ type: "metrics", payload: msg });
         break;
+      case "test-world-progress":
+        dispatch({ type: "world-progress", payload: msg });
+        break;
+      case "test-phase-changed":
+        dispatch({ type: "phase", payload: msg });
+        break;
+      case "test-intensity-step":
+        dispatch({ type: "intensity-step", payload: msg });
+        break;
       case "test-completed":
         dispatch({ type: "completed", payload: msg });
         break;
+      case "test-regression":
+        dispatch({ type: "regression", payload: msg });
+        break;
       case "test-error":
         dispatch({ type: "error", payload: msg });
         break;
@@ -69,6 +69,12 @@ export const apiClient = {
       body: JSON.stringify(body),
     }),
 
+  patch: <T>(path: string, body: unknown) =>
+    request<T>(path, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    }),
+
   delete: <T>(path: string) =>
     request<T>(path, { method: "DELETE" }),
 };
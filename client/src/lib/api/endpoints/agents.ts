@@ -3,7 +3,7 @@
  */
 
 import { apiClient } from "../client";
-import type { AgentInstance } from "@/types/agent";
+import type { AgentInstance, ProfileInfo } from "@/types/agent";
 
 /** Fetch a single agent by ID. */
 export async function fetchAgent(agentId: string): Promise<AgentInstance> {
@@ -41,3 +41,11 @@ export async function fetchAgentsByIds(
   }
   return map;
 }
+
+/** List built-in and custom behavioral profiles. */
+export async function fetchProfiles(): Promise<{
+  profiles: ProfileInfo[];
+  count: number;
+}> {
+  return apiClient.get("/api/agents/profiles");
+}
@@ -3,8 +3,24 @@
  */
 
 import { apiClient } from "../client";
-import type { TestRun, TestActionLog, ScenarioInfo } from "@/types/test";
-import type { CreateTestFormData } from "@/lib/schemas/test.schemas";
+import type {
+  TestRun,
+  TestActionLog,
+  ScenarioInfo,
+  TestSuite,
+  Leaderboard,
+  IntensitySweep,
+  LeaderboardMetric,
+  TestSchedule,
+  ScheduledRun,
+  CreateTestScheduleRequest,
+  UpdateTestScheduleRequest,
+  ReplayComparison,
+} from "@/types/test";
+import type {
+  CreateTestFormData,
+  CreateTestSuiteFormData,
+} from "@/lib/schemas/test.schemas";
 
 /** Fetch all available scenarios. */
 export async function fetchScenarios(): Promise<{
@@ -46,6 +62,28 @@ export async function stopTest(testId: string): Promise<TestRun> {
   return apiClient.post(`/api/tests/${testId}/stop`, {});
 }
 
+/** Pause an executing test run. */
+export async function pauseTest(testId: string): Promise<TestRun> {
+  return apiClient.post(`/api/tests/${testId}/pause`, {});
+}
+
+/** Resume a paused test run. */
+export async function resumeTest(testId: string): Promise<TestRun> {
+  return apiClient.post(`/api/tests/${testId}/resume`, {});
+}
+
+/** Start a new run that replays a finished test run. */
+export async function replayTest(testId: string): Promise<TestRun> {
+  return apiClient.post(`/api/tests/${testId}/replay`, {});
+}
+
+/** Compare a replay run with the run it replays. */
+export async function fetchReplayComparison(
+  testId: string,
+): Promise<ReplayComparison> {
+  return apiClient.get(`/api/tests/${testId}/replay-comparison`);
+}
+
 /** Delete a test run. */
 export async function deleteTest(testId: string): Promise<{
   success: boolean;
@@ -61,3 +99,81 @@ export async function fetchTestLogs(
 ): Promise<{ testId: string; logs: TestActionLog[]; count: number }> {
   return apiClient.get(`/api/tests/${testId}/logs?limit=${limit}`);
 }
+
+/** Create a test suite; its runs start as concurrency slots free up. */
+export async function createSuite(data: CreateTestSuiteFormData): Promise<TestSuite> {
+  return apiClient.post("/api/tests/suites", data);
+}
+
+/** List all test suites. */
+export async function listSuites(): Promise<{ suites: TestSuite[]; count: number }> {
+  return apiClient.get("/api/tests/suites");
+}
+
+/** Fetch a single test suite by ID. */
+export async function fetchSuite(suiteId: string): Promise<TestSuite> {
+  return apiClient.get(`/api/tests/suites/${suiteId}`);
+}
+
+/** Cancel a running suite and stop its active runs. */
+export async function cancelSuite(suiteId: string): Promise<TestSuite> {
+  return apiClient.post(`/api/tests/suites/${suiteId}/cancel`, {});
+}
+
+/** Delete a test suite (its runs stay in history). */
+export async function deleteSuite(suiteId: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  return apiClient.delete(`/api/tests/suites/${suiteId}`);
+}
+
+/** Rank a suite's models by a metric over their finished runs. */
+export async function fetchSuiteLeaderboard(
+  suiteId: string,
+  metric?: LeaderboardMetric,
+): Promise<Leaderboard> {
+  const query = metric ? `?metric=${metric}` : "";
+  return apiClient.get(`/api/tests/suites/${suiteId}/leaderboard${query}`);
+}
+
+/** Metrics of an intensity-sweep suite per model and intensity. */
+export async function fetchSuiteSweep(suiteId: string): Promise<IntensitySweep> {
+  return apiClient.get(`/api/tests/suites/${suiteId}/sweep`);
+}
+
+/** Create a recurring test schedule. */
+export async function createSchedule(data: CreateTestScheduleRequest): Promise<TestSchedule> {
+  return apiClient.post("/api/tests/schedules", data);
+}
+
+/** List all test schedules. */
+export async function listSchedules(): Promise<{ schedules: TestSchedule[]; count: number }> {
+  return apiClient.get("/api/tests/schedules");
+}
+
+/** Fetch a single test schedule by ID. */
+export async function fetchSchedule(scheduleId: string): Promise<TestSchedule> {
+  return apiClient.get(`/api/tests/schedules/${scheduleId}`);
+}
+
+/** Change a schedule's name, cron expression, policy or enabled state. */
+export async function updateSchedule(
+  scheduleId: string,
+  data: UpdateTestScheduleRequest,
+): Promise<TestSchedule> {
+  return apiClient.patch(`/api/tests/schedules/${scheduleId}`, data);
+}
+
+/** Delete a test schedule (its runs stay in history). */
+export async function deleteSchedule(scheduleId: string): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  return apiClient.delete(`/api/tests/schedules/${scheduleId}`);
+}
+
+/** Start a run of a schedule now. */
+export async function triggerSchedule(scheduleId: string): Promise<ScheduledRun> {
+  return apiClient.post(`/api/tests/schedules/${scheduleId}/trigger`, {});
+}
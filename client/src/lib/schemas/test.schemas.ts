@@ -6,7 +6,9 @@
  * - durationSeconds: 60–1800
  * - testingAgentProfiles: 1–5 items
  * - llmPollingIntervalMs: 3000–30000
- * - behaviorIntensity: 0–1
+ * - behaviorIntensity: 0–1 (the starting point when adaptiveIntensity is on)
+ * - randomSeed: integer 0–4294967295 (random when omitted)
+ * - memoryTokenBudget: 1000–32000
  * - port: 1–65535
  *
  * Note: `config` is optional — backend applies smart defaults when omitted.
@@ -14,20 +16,29 @@
 
 import { z } from "zod";
 
-export const behavioralProfileSchema = z.enum([
-  "leader",
-  "non-cooperator",
-  "confuser",
-  "resource-hoarder",
-  "task-abandoner",
-  "follower",
-]);
+/** Profiles are built in or defined through the server's profile API. */
+export const behavioralProfileSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Unknown agent profile");
+
+/** Scenario types are defined by scenario files on the server. */
+export const scenarioTypeSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Select a scenario");
+
+export const llmResponseModeSchema = z.enum(["json", "tools"]);
 
-export const scenarioTypeSchema = z.enum([
-  "cooperation",
-  "resource-management",
+export const memoryStrategySchema = z.enum(["stateless", "memory"]);
+
+export const perceptionVerbositySchema = z.enum([
+  "none",
+  "minimal",
+  "standard",
+  "detailed",
 ]);
 
+export const testingAgentModeSchema = z.enum(["scripted", "llm"]);
+
 export const createTestRequestSchema = z.object({
   scenarioType: scenarioTypeSchema,
   targetLlmModel: z.string().min(1, "LLM model is required"),
@@ -44,7 +55,23 @@ export const createTestRequestSchema = z.object({
       .number()
       .min(3000, "Minimum polling interval is 3 seconds")
       .max(30000, "Maximum polling interval is 30 seconds"),
+    llmResponseMode: llmResponseModeSchema,
+    memoryStrategy: memoryStrategySchema,
+    memoryTokenBudget: z
+      .number()
+      .min(1000, "Minimum memory budget is 1,000 tokens")
+      .max(32000, "Maximum memory budget is 32,000 tokens"),
+    perceptionVerbosity: perceptionVerbositySchema,
     behaviorIntensity: z.number().min(0).max(1),
+    adaptiveIntensity: z.boolean(),
+    testingAgentMode: testingAgentModeSchema,
+    testingAgentModel: z.string().min(1, "Testing agent model is required"),
+    randomSeed: z
+      .number()
+      .int("Seed must be a whole number")
+      .min(0, "Seed must be >= 0")
+      .max(4294967295, "Seed must be <= 4294967295")
+      .optional(),
     enableVoice: z.boolean(),
     enableText: z.boolean(),
     targetLlmSystemPromptOverride: z.string().nullable(),
@@ -60,3 +87,43 @@ export const createTestRequestSchema = z.object({
 });
 
 export type CreateTestFormData = z.infer<typeof createTestRequestSchema>;
+
+export const createTestSuiteRequestSchema = z.object({
+  name: z.string().max(100, "Maximum 100 characters").optional(),
+  scenarioType: scenarioTypeSchema,
+  targetLlmModels: z
+    .array(z.string().min(1))
+    .min(1, "Select at least one model")
+    .max(10, "Maximum 10 models"),
+  repetitions: z
+    .number()
+    .int()
+    .min(1, "At least one run per model")
+    .max(20, "Maximum 20 runs per model"),
+  durationSeconds: z
+    .number()
+    .min(60, "Minimum duration is 60 seconds")
+    .max(1800, "Maximum duration is 30 minutes")
+    .optional(),
+  behaviorIntensities: z.array(z.number().min(0).max(1)).max(5).optional(),
+});
+
+export type CreateTestSuiteFormData = z.infer<typeof createTestSuiteRequestSchema>;
+
+export const createTestScheduleRequestSchema = z.object({
+  name: z.string().max(100, "Maximum 100 characters").optional(),
+  cron: z
+    .string()
+    .trim()
+    .refine((v) => v.split(/\s+/).length === 5, "Expected 5 fields: minute hour day month weekday"),
+  scenarioType: scenarioTypeSchema,
+  targetLlmModel: z.string().min(1, "Select a model"),
+  durationSeconds: z
+    .number()
+    .min(60, "Minimum duration is 60 seconds")
+    .max(1800, "Maximum duration is 30 minutes")
+    .optional(),
+  threshold: z.number().min(0, "Threshold cannot be negative").max(1, "Maximum threshold is 1"),
+});
+
+export type CreateTestScheduleFormData = z.infer<typeof createTestScheduleRequestSchema>;
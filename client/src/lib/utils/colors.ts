@@ -15,9 +15,11 @@ export type StatusColor =
 
 const TEST_STATUS_COLORS: Record<TestRunStatus, StatusColor> = {
   created: "outline",
+  queued: "outline",
   initializing: "secondary",
   coordination: "secondary",
   executing: "default",
+  paused: "outline",
   completing: "default",
   completed: "default",
   failed: "destructive",
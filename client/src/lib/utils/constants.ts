@@ -2,7 +2,7 @@
  * Application constants.
  */
 
-/** LLM models available for testing via OpenRouter. */
+/** LLM models available for testing (OpenRouter plus the offline mock provider). */
 export const LLM_MODELS = [
   {
     id: "google/gemini-2.5-pro",
@@ -40,6 +40,84 @@ export const LLM_MODELS = [
     provider: "Mistral AI",
     description: "Mistral's enterprise-grade reasoning model",
   },
+  {
+    id: "mock:default",
+    name: "Mock (scripted)",
+    provider: "Local",
+    description: "Replays canned responses from a fixture — no API key needed",
+  },
+  {
+    id: "mock:tools",
+    name: "Mock (scripted tool calls)",
+    provider: "Local",
+    description: "Replays canned tool calls — use with tool-calling mode",
+  },
+] as const;
+
+/** Ways the target LLM can return its decisions. */
+export const LLM_RESPONSE_MODES = [
+  {
+    id: "json",
+    name: "JSON",
+    description: "The model writes a JSON decision that the agent parses",
+  },
+  {
+    id: "tools",
+    name: "Tool calling",
+    description: "Actions are exposed as typed tools the model calls directly",
+  },
+] as const;
+
+/** Conversation memory strategies for the target LLM. */
+export const MEMORY_STRATEGIES = [
+  {
+    id: "stateless",
+    name: "Stateless",
+    description: "Every cycle starts from a fresh prompt",
+  },
+  {
+    id: "memory",
+    name: "Memory",
+    description: "Keeps earlier decisions and action results, summarised over budget",
+  },
+] as const;
+
+/** World perception levels for the target LLM prompt. */
+export const PERCEPTION_LEVELS = [
+  {
+    id: "none",
+    name: "None",
+    description: "Position, health and inventory only",
+  },
+  {
+    id: "minimal",
+    name: "Minimal",
+    description: "Block underfoot and nearby players",
+  },
+  {
+    id: "standard",
+    name: "Standard",
+    description: "Nearby entities, chests and building blocks with line of sight",
+  },
+  {
+    id: "detailed",
+    name: "Detailed",
+    description: "Larger radius plus the block the bot is looking at",
+  },
+] as const;
+
+/** How testing agents decide what to do. */
+export const TESTING_AGENT_MODES = [
+  {
+    id: "scripted",
+    name: "Scripted",
+    description: "Profile behaviors with canned chat lines",
+  },
+  {
+    id: "llm",
+    name: "LLM-driven",
+    description: "Each agent plays its persona prompt and reacts to the target",
+  },
 ] as const;
 
 /** Default Minecraft server configuration. */
@@ -53,7 +131,17 @@ export const DEFAULT_MC_CONFIG = {
 export const DEFAULT_TEST_CONFIG = {
   durationSeconds: 300,
   behaviorIntensity: 0.5,
+  adaptiveIntensity: false,
+  testingAgentMode: "scripted",
+  testingAgentModel: "meta-llama/llama-4-maverick",
   llmPollingIntervalMs: 7000,
+  llmResponseMode: "json",
+  memoryStrategy: "stateless",
+  memoryTokenBudget: 4000,
+  perceptionVerbosity: "standard",
   enableVoice: false,
   enableText: true,
 } as const;
+
+/** Testing-agent intensities an intensity-sweep suite runs every model at. */
+export const SWEEP_BEHAVIOR_INTENSITIES = [0.2, 0.5, 0.8];
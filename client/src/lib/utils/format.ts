@@ -50,6 +50,23 @@ export function formatNumber(value: number): string {
   return value.toLocaleString();
 }
 
+/**
+ * Format a USD amount, keeping sub-cent precision for small LLM costs.
+ * Example: 0.00421 -> "$0.0042", 1.5 -> "$1.50"
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a run's estimated cost, or "n/a" when some of its LLM calls
+ * used a model without a known price (the total would understate it).
+ */
+export function formatRunCost(usd: number, unpricedCallCount: number): string {
+  return unpricedCallCount > 0 ? "n/a" : formatCost(usd);
+}
+
 /**
  * Calculate elapsed seconds between a start time and now.
  */
@@ -64,7 +64,14 @@ export default function CreateTestPage() {
       durationSeconds: DEFAULT_TEST_CONFIG.durationSeconds,
       config: {
         llmPollingIntervalMs: DEFAULT_TEST_CONFIG.llmPollingIntervalMs,
+        llmResponseMode: DEFAULT_TEST_CONFIG.llmResponseMode,
+        memoryStrategy: DEFAULT_TEST_CONFIG.memoryStrategy,
+        memoryTokenBudget: DEFAULT_TEST_CONFIG.memoryTokenBudget,
+        perceptionVerbosity: DEFAULT_TEST_CONFIG.perceptionVerbosity,
         behaviorIntensity: DEFAULT_TEST_CONFIG.behaviorIntensity,
+        adaptiveIntensity: DEFAULT_TEST_CONFIG.adaptiveIntensity,
+        testingAgentMode: DEFAULT_TEST_CONFIG.testingAgentMode,
+        testingAgentModel: DEFAULT_TEST_CONFIG.testingAgentModel,
         enableVoice: DEFAULT_TEST_CONFIG.enableVoice,
         enableText: DEFAULT_TEST_CONFIG.enableText,
         targetLlmSystemPromptOverride: null,
@@ -3,13 +3,17 @@
  *
  * Layout (12-column grid):
  *  Row 1: TestStatusCard (col-8) + LiveMetricsPanel (col-4)
+ *  WorldProgressPanel (col-12) when the scenario has world checks
+ *  PhaseTimeline (col-12) once a scenario phase has started
+ *  IntensityTimeline (col-12) for adaptive-intensity runs
  *  Row 2: MinecraftWorldMap (col-6) + AgentStatusGrid (col-6)
  *  Row 3: LLMDecisionStream (col-6) + DiscordChatFeed (col-6)
- *  Row 4: ActionTimeline (col-12)
+ *  Row 4: BehaviorTreeDebug (col-4) + ActionTimeline (col-8)
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
 
 import { PageHeader } from "@/components/layout/PageHeader";
 import { Button } from "@/components/ui/button";
@@ -26,11 +30,15 @@ import type { TestRun } from "@/types/test";
 
 import { TestStatusCard } from "../features/test-dashboard/components/TestStatusCard";
 import { LiveMetricsPanel } from "../features/test-dashboard/components/LiveMetricsPanel";
+import { WorldProgressPanel } from "../features/test-dashboard/components/WorldProgressPanel";
+import { PhaseTimeline } from "../features/test-dashboard/components/PhaseTimeline";
+import { IntensityTimeline } from "../features/test-dashboard/components/IntensityTimeline";
 import { MinecraftWorldMap } from "../features/test-dashboard/components/MinecraftWorldMap";
 import { AgentStatusGrid } from "../features/test-dashboard/components/AgentStatusGrid";
 import { LLMDecisionStream } from "../features/test-dashboard/components/LLMDecisionStream";
 import { DiscordChatFeed } from "../features/test-dashboard/components/DiscordChatFeed";
 import { ActionTimeline } from "../features/test-dashboard/components/ActionTimeline";
+import { BehaviorTreeDebug } from "../features/test-dashboard/components/BehaviorTreeDebug";
 
 export default function TestDashboardPage() {
   const { testId } = useParams<{ testId: string }>();
@@ -69,12 +77,39 @@ export default function TestDashboardPage() {
   // Use WS metrics when live; fall back to persisted test.metrics so data shows after load or completion
   const effectiveMetrics = ws.metrics ?? test?.metrics ?? null;
   const liveMetrics = useLiveMetrics(effectiveMetrics);
+  const worldProgress = ws.worldProgress ?? test?.worldProgress ?? [];
 
   // Refetch test when run completes so we show final status and persisted metrics
   useEffect(() => {
     if (ws.completed && testId) loadTest();
   }, [ws.completed, testId, loadTest]);
 
+  // Warn when a scheduled run falls behind its schedule's baseline
+  useEffect(() => {
+    if (!ws.regression) return;
+    const metrics = ws.regression.report.comparisons
+      .filter((c) => c.regressed)
+      .map((c) => c.metric);
+    toast.warning(`Regression in schedule "${ws.regression.scheduleName}"`, {
+      description: metrics.join(", "),
+    });
+  }, [ws.regression]);
+
+  // Refetch when a scenario phase starts so the persisted phase history shows up
+  useEffect(() => {
+    if (ws.lastPhase && testId) loadTest();
+  }, [ws.lastPhase, testId, loadTest]);
+
+  // Refetch after each adaptive intensity decision so the timeline shows it
+  useEffect(() => {
+    if (ws.lastIntensityStep && testId) loadTest();
+  }, [ws.lastIntensityStep, testId, loadTest]);
+
+  // Refetch once setup has run so world-setup results and spawned IDs show up
+  useEffect(() => {
+    if (ws.status === "coordination" && testId) loadTest();
+  }, [ws.status, testId, loadTest]);
+
   // Resolve testing agent IDs to their Minecraft bot IDs
   const testingAgentBotIds = useAgentBotIds(test?.testingAgentIds ?? []);
 
@@ -147,6 +182,30 @@ export default function TestDashboardPage() {
           <LiveMetricsPanel metrics={liveMetrics} />
         </div>
 
+        {worldProgress.length > 0 && (
+          <div className="col-span-12">
+            <WorldProgressPanel checks={worldProgress} />
+          </div>
+        )}
+
+        {test.phaseHistory.length > 0 && (
+          <div className="col-span-12">
+            <PhaseTimeline
+              phases={test.phaseHistory}
+              totalPhases={ws.lastPhase?.totalPhases ?? null}
+            />
+          </div>
+        )}
+
+        {test.config.adaptiveIntensity && (
+          <div className="col-span-12">
+            <IntensityTimeline
+              timeline={test.intensityTimeline}
+              startIntensity={test.config.behaviorIntensity}
+            />
+          </div>
+        )}
+
         {/* Row 2 */}
         <div className="col-span-12 md:col-span-6">
           <MinecraftWorldMap bots={bots} />
@@ -167,7 +226,10 @@ export default function TestDashboardPage() {
         </div>
 
         {/* Row 4 */}
-        <div className="col-span-12">
+        <div className="col-span-12 lg:col-span-4">
+          <BehaviorTreeDebug ticks={ws.treeTicks} />
+        </div>
+        <div className="col-span-12 lg:col-span-8">
           <ActionTimeline actions={ws.agentActions} />
         </div>
       </div>
@@ -111,9 +111,11 @@ export default function TestHistoryPage() {
 
   const allStatuses: TestRunStatus[] = [
     "created",
+    "queued",
     "initializing",
     "coordination",
     "executing",
+    "paused",
     "completing",
     "completed",
     "failed",
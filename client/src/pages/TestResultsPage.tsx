@@ -4,7 +4,8 @@
 
 import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { RiArrowLeftLine, RiDownloadLine } from "@remixicon/react";
+import { RiArrowLeftLine, RiDownloadLine, RiRepeatLine } from "@remixicon/react";
+import { toast } from "sonner";
 import {
   PieChart,
   Pie,
@@ -33,13 +34,28 @@ import { StatusBadge } from "@/components/shared/StatusBadge";
 import { AgentProfileBadge } from "@/components/shared/AgentProfileBadge";
 import { LoadingState } from "@/components/shared/LoadingState";
 import { EmptyState } from "@/components/shared/EmptyState";
-import { formatDuration, formatDate, formatTime } from "@/lib/utils/format";
+import {
+  formatDuration,
+  formatDate,
+  formatTime,
+  formatRunCost,
+  formatNumber,
+} from "@/lib/utils/format";
 import { LLM_MODELS } from "@/lib/utils/constants";
-import { fetchTest, fetchTestLogs } from "@/lib/api/endpoints/tests";
-import type { TestRun, TestActionLog } from "@/types/test";
+import {
+  fetchTest,
+  fetchTestLogs,
+  fetchReplayComparison,
+  replayTest,
+} from "@/lib/api/endpoints/tests";
+import { ReplayComparisonCard } from "@/features/test-replay/components/ReplayComparisonCard";
+import { IntensityTimeline } from "@/features/test-dashboard/components/IntensityTimeline";
+import { sustainedIntensity } from "@/features/test-dashboard/lib/intensity";
+import type { TestRun, TestActionLog, ReplayComparison } from "@/types/test";
 
 const PIE_COLORS = ["#14b8a6", "#f59e0b", "#8b5cf6"];
 const BAR_COLORS = { target: "#14b8a6", agent: "#f59e0b" };
+const FINISHED_STATUSES = ["completed", "failed", "cancelled"];
 
 export default function TestResultsPage() {
   const { testId } = useParams<{ testId: string }>();
@@ -47,6 +63,8 @@ export default function TestResultsPage() {
 
   const [test, setTest] = useState<TestRun | null>(null);
   const [logs, setLogs] = useState<TestActionLog[]>([]);
+  const [replayComparison, setReplayComparison] = useState<ReplayComparison | null>(null);
+  const [replaying, setReplaying] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -64,6 +82,11 @@ export default function TestResultsPage() {
           setTest(testData);
           setLogs(logData.logs);
         }
+        if (testData.replayOf) {
+          // Best effort: the original run may have been deleted
+          const comparison = await fetchReplayComparison(testId!).catch(() => null);
+          if (!cancelled) setReplayComparison(comparison);
+        }
       } catch (err) {
         if (!cancelled) {
           setError(err instanceof Error ? err.message : "Failed to load results");
@@ -102,6 +125,20 @@ export default function TestResultsPage() {
     });
   }, [logs]);
 
+  async function handleReplay() {
+    if (!test) return;
+    setReplaying(true);
+    try {
+      const replay = await replayTest(test.testId);
+      toast.success("Replay started");
+      navigate(`/tests/${replay.testId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to replay test");
+    } finally {
+      setReplaying(false);
+    }
+  }
+
   function handleExportJSON() {
     if (!test) return;
     const data = JSON.stringify({ test, logs }, null, 2);
@@ -156,6 +193,7 @@ export default function TestResultsPage() {
 
   const model = LLM_MODELS.find((m) => m.id === test.targetLlmModel);
   const mt = test.metrics;
+  const sustained = sustainedIntensity(test.intensityTimeline);
   const avgResponseMs =
     mt.llmDecisionCount > 0
       ? Math.round(mt.totalLlmResponseTimeMs / mt.llmDecisionCount)
@@ -173,12 +211,20 @@ export default function TestResultsPage() {
     <>
       <PageHeader
         title="Test Results"
-        description={`${test.scenarioType} \u00b7 ${model?.name ?? test.targetLlmModel}`}
+        description={`${test.scenarioType} \u00b7 ${model?.name ?? test.targetLlmModel} \u00b7 ${test.config.memoryStrategy === "memory" ? "memory" : "stateless"}`}
         action={
-          <Button variant="outline" onClick={() => navigate(`/tests/${test.testId}`)}>
-            <RiArrowLeftLine data-icon="inline-start" className="size-4" />
-            Dashboard
-          </Button>
+          <div className="flex gap-2">
+            {FINISHED_STATUSES.includes(test.status) && test.config.testingAgentMode !== "llm" && (
+              <Button variant="outline" onClick={handleReplay} disabled={replaying}>
+                <RiRepeatLine data-icon="inline-start" className="size-4" />
+                {replaying ? "Starting..." : "Replay"}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => navigate(`/tests/${test.testId}`)}>
+              <RiArrowLeftLine data-icon="inline-start" className="size-4" />
+              Dashboard
+            </Button>
+          </div>
         }
       />
 
@@ -199,17 +245,51 @@ export default function TestResultsPage() {
                   Reason: {test.completionReason}
                 </span>
               )}
+              <span className="text-xs text-muted-foreground">
+                Seed: <span className="font-mono">{test.config.randomSeed}</span>
+              </span>
+              {test.config.adaptiveIntensity && (
+                <span className="text-xs text-muted-foreground">
+                  {sustained !== null
+                    ? `Target sustained progress up to intensity ${sustained}`
+                    : "Target did not sustain progress at any intensity"}
+                </span>
+              )}
               <div className="flex flex-wrap gap-1">
                 {test.testingAgentProfiles.map((p) => (
                   <AgentProfileBadge key={p} profile={p} />
                 ))}
               </div>
             </div>
+            {test.worldSetup && !test.worldSetup.applied && (
+              <div className="mt-3 space-y-1 text-xs text-destructive" role="alert">
+                <p className="font-medium">
+                  World setup incomplete — this run did not start from the
+                  scenario's initial conditions
+                </p>
+                <ul className="list-disc pl-4 text-[11px]">
+                  {test.worldSetup.errors.map((e) => (
+                    <li key={e}>{e}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {replayComparison && (
+          <ReplayComparisonCard comparison={replayComparison} />
+        )}
+
+        {test.config.adaptiveIntensity && (
+          <IntensityTimeline
+            timeline={test.intensityTimeline}
+            startIntensity={test.config.behaviorIntensity}
+          />
+        )}
+
         {/* Metrics grid */}
-        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-9">
           <MetricCard label="LLM Decisions" value={mt.llmDecisionCount} />
           <MetricCard
             label="Avg Response"
@@ -227,6 +307,19 @@ export default function TestResultsPage() {
             value={mt.llmErrorCount}
             trend={mt.llmErrorCount > 0 ? "down" : "neutral"}
           />
+          <MetricCard
+            label={`Parse Failures (${test.config.llmResponseMode === "tools" ? "tools" : "JSON"})`}
+            value={mt.llmParseFailureCount ?? 0}
+            trend={(mt.llmParseFailureCount ?? 0) > 0 ? "down" : "neutral"}
+          />
+          <MetricCard
+            label="Tokens"
+            value={formatNumber(mt.totalTokens ?? 0)}
+          />
+          <MetricCard
+            label="Est. Cost"
+            value={formatRunCost(mt.totalCostUsd ?? 0, mt.unpricedCallCount ?? 0)}
+          />
         </div>
 
         {/* Charts */}
@@ -366,10 +459,16 @@ export default function TestResultsPage() {
                             className={
                               log.sourceType === "target"
                                 ? "text-primary text-[10px] font-medium"
-                                : "text-amber-500 text-[10px] font-medium"
+                                : log.sourceType === "system"
+                                  ? "text-muted-foreground text-[10px] font-medium"
+                                  : "text-amber-500 text-[10px] font-medium"
                             }
                           >
-                            {log.sourceType === "target" ? "TARGET" : "AGENT"}
+                            {log.sourceType === "target"
+                              ? "TARGET"
+                              : log.sourceType === "system"
+                                ? "SYSTEM"
+                                : "AGENT"}
                           </span>
                         </td>
                         <td className="py-1.5 pr-2 font-mono text-[10px]">
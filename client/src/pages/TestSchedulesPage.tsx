@@ -0,0 +1,216 @@
+/**
+ * Test schedules page — create recurring test runs and watch them for
+ * regressions against their own recent runs.
+ */
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  RiPlayLine,
+  RiPauseLine,
+  RiRestartLine,
+  RiDeleteBinLine,
+} from "@remixicon/react";
+import { toast } from "sonner";
+
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingState } from "@/components/shared/LoadingState";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { formatDate, formatTime } from "@/lib/utils/format";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import {
+  listSchedules,
+  updateSchedule,
+  deleteSchedule,
+  triggerSchedule,
+} from "@/lib/api/endpoints/tests";
+import type { TestSchedule } from "@/types/test";
+
+import { CreateScheduleForm } from "../features/test-schedules/components/CreateScheduleForm";
+import { RegressionBadge } from "../features/test-schedules/components/RegressionBadge";
+
+/** How many of a schedule's latest runs to show. */
+const RECENT_RUNS_SHOWN = 5;
+
+export default function TestSchedulesPage() {
+  const [schedules, setSchedules] = useState<TestSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadSchedules() {
+    try {
+      const result = await listSchedules();
+      setSchedules(result.schedules);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load schedules");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  function replace(schedule: TestSchedule) {
+    setSchedules((prev) =>
+      prev.map((s) => (s.scheduleId === schedule.scheduleId ? schedule : s))
+    );
+  }
+
+  async function handleTrigger(scheduleId: string) {
+    try {
+      const run = await triggerSchedule(scheduleId);
+      toast.success(`Started ${run.testId}`);
+      await loadSchedules();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to start run");
+    }
+  }
+
+  async function handleToggle(schedule: TestSchedule) {
+    try {
+      replace(await updateSchedule(schedule.scheduleId, { enabled: !schedule.enabled }));
+      toast.success(schedule.enabled ? "Schedule paused" : "Schedule resumed");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update schedule");
+    }
+  }
+
+  async function handleDelete(scheduleId: string) {
+    try {
+      await deleteSchedule(scheduleId);
+      toast.success("Schedule deleted");
+      setSchedules((prev) => prev.filter((s) => s.scheduleId !== scheduleId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete");
+    }
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Schedules"
+        description="Run tests on a recurring schedule to catch regressions"
+      />
+
+      <div className="space-y-4">
+        <CreateScheduleForm
+          onCreated={(schedule) => setSchedules((prev) => [schedule, ...prev])}
+        />
+
+        {loading ? (
+          <LoadingState lines={4} />
+        ) : error ? (
+          <div className="text-destructive text-sm">{error}</div>
+        ) : schedules.length === 0 ? (
+          <EmptyState
+            title="No schedules yet"
+            description="Create a schedule above to monitor a model over time"
+          />
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b text-muted-foreground text-left text-[10px]">
+                      <th className="px-4 py-2 font-medium">Name</th>
+                      <th className="px-4 py-2 font-medium">Cron (UTC)</th>
+                      <th className="px-4 py-2 font-medium">Test</th>
+                      <th className="px-4 py-2 font-medium">Next run</th>
+                      <th className="px-4 py-2 font-medium">Recent runs</th>
+                      <th className="px-4 py-2 font-medium">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schedules.map((schedule) => {
+                      const { scenarioType, targetLlmModel } = schedule.runTemplate;
+                      const model =
+                        LLM_MODELS.find((m) => m.id === targetLlmModel)?.name ?? targetLlmModel;
+                      return (
+                        <tr
+                          key={schedule.scheduleId}
+                          className="border-t border-border/50 hover:bg-muted/30 transition-colors"
+                        >
+                          <td className="px-4 py-2.5">{schedule.name}</td>
+                          <td className="px-4 py-2.5 font-mono">{schedule.cron}</td>
+                          <td className="px-4 py-2.5">
+                            <div>{scenarioType}</div>
+                            <div className="text-[10px] text-muted-foreground">{model}</div>
+                          </td>
+                          <td className="px-4 py-2.5 tabular-nums">
+                            {schedule.enabled && schedule.nextRunAt ? (
+                              <>
+                                <div>{formatDate(schedule.nextRunAt)}</div>
+                                <div className="text-[10px] text-muted-foreground">
+                                  {formatTime(schedule.nextRunAt)}
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">Paused</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2.5">
+                            <div className="flex flex-wrap gap-1">
+                              {schedule.runs.length === 0 ? (
+                                <span className="text-muted-foreground">—</span>
+                              ) : (
+                                schedule.runs
+                                  .slice(-RECENT_RUNS_SHOWN)
+                                  .map((run) => (
+                                    <Link key={run.testId} to={`/tests/${run.testId}/results`}>
+                                      <RegressionBadge run={run} />
+                                    </Link>
+                                  ))
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2.5">
+                            <div className="flex gap-1">
+                              <Button
+                                size="icon-xs"
+                                variant="ghost"
+                                onClick={() => handleTrigger(schedule.scheduleId)}
+                                title="Run now"
+                              >
+                                <RiPlayLine className="size-3" />
+                              </Button>
+                              <Button
+                                size="icon-xs"
+                                variant="ghost"
+                                onClick={() => handleToggle(schedule)}
+                                title={schedule.enabled ? "Pause schedule" : "Resume schedule"}
+                              >
+                                {schedule.enabled ? (
+                                  <RiPauseLine className="size-3" />
+                                ) : (
+                                  <RiRestartLine className="size-3" />
+                                )}
+                              </Button>
+                              <Button
+                                size="icon-xs"
+                                variant="ghost"
+                                onClick={() => handleDelete(schedule.scheduleId)}
+                                title="Delete schedule"
+                              >
+                                <RiDeleteBinLine className="size-3" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Test suite page — run matrix and model leaderboard for one suite,
+ * plus the intensity plot for sweep suites.
+ *
+ * Polls the suite while it is running, since its runs start as
+ * concurrency slots free up on the server.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { RiArrowLeftLine, RiStopLine, RiErrorWarningLine } from "@remixicon/react";
+import { toast } from "sonner";
+
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "@/components/ui/card";
+import { LoadingState } from "@/components/shared/LoadingState";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import {
+  fetchSuite,
+  fetchSuiteLeaderboard,
+  fetchSuiteSweep,
+  cancelSuite,
+} from "@/lib/api/endpoints/tests";
+import type {
+  IntensitySweep,
+  Leaderboard,
+  LeaderboardMetric,
+  TestSuite,
+} from "@/types/test";
+
+import { SuiteStatusBadge } from "../features/test-suites/components/SuiteStatusBadge";
+import { LeaderboardTable } from "../features/test-suites/components/LeaderboardTable";
+import { IntensitySweepChart } from "../features/test-suites/components/IntensitySweepChart";
+
+const POLL_INTERVAL_MS = 10_000;
+
+export default function TestSuitePage() {
+  const { suiteId } = useParams<{ suiteId: string }>();
+  const navigate = useNavigate();
+
+  const [suite, setSuite] = useState<TestSuite | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [sweep, setSweep] = useState<IntensitySweep | null>(null);
+  const [metric, setMetric] = useState<LeaderboardMetric | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuite = useCallback(async () => {
+    if (!suiteId) return;
+    try {
+      const [suiteData, leaderboardData] = await Promise.all([
+        fetchSuite(suiteId),
+        fetchSuiteLeaderboard(suiteId, metric),
+      ]);
+      setSuite(suiteData);
+      setLeaderboard(leaderboardData);
+      setSweep(suiteData.behaviorIntensities ? await fetchSuiteSweep(suiteId) : null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load suite");
+    } finally {
+      setLoading(false);
+    }
+  }, [suiteId, metric]);
+
+  useEffect(() => {
+    loadSuite();
+  }, [loadSuite]);
+
+  const isRunning = suite?.status === "running";
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(loadSuite, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRunning, loadSuite]);
+
+  async function handleCancel() {
+    if (!suiteId) return;
+    try {
+      setSuite(await cancelSuite(suiteId));
+      toast.success("Suite cancelled");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel");
+    }
+  }
+
+  if (loading) {
+    return (
+      <>
+        <PageHeader title="Test Suite" />
+        <LoadingState lines={6} />
+      </>
+    );
+  }
+
+  if (error || !suite) {
+    return (
+      <>
+        <PageHeader title="Test Suite" />
+        <div className="space-y-4 text-center">
+          <p className="text-destructive text-sm">{error ?? "Suite not found"}</p>
+          <Button variant="outline" onClick={() => navigate("/suites")}>
+            <RiArrowLeftLine data-icon="inline-start" className="size-4" />
+            Back to Suites
+          </Button>
+        </div>
+      </>
+    );
+  }
+
+  const started = suite.runs.filter((r) => r.testId).length;
+
+  return (
+    <>
+      <PageHeader
+        title={suite.name}
+        description={
+          `${suite.scenarioType} scenario · ${suite.repetitions} run(s) per model` +
+          (suite.behaviorIntensities
+            ? ` at intensity ${suite.behaviorIntensities.join(", ")}`
+            : "")
+        }
+        action={
+          isRunning ? (
+            <Button variant="outline" onClick={handleCancel}>
+              <RiStopLine data-icon="inline-start" className="size-4" />
+              Cancel Suite
+            </Button>
+          ) : undefined
+        }
+      />
+
+      <div className="space-y-4">
+        {leaderboard && (
+          <LeaderboardTable leaderboard={leaderboard} onMetricChange={setMetric} />
+        )}
+
+        {sweep && <IntensitySweepChart sweep={sweep} />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Runs <SuiteStatusBadge status={suite.status} />
+            </CardTitle>
+            <CardDescription>
+              {started} of {suite.runs.length} started
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {suite.targetLlmModels.map((modelId) => {
+                const model = LLM_MODELS.find((m) => m.id === modelId);
+                const cells = suite.runs.filter((r) => r.targetLlmModel === modelId);
+                return (
+                  <div key={modelId} className="space-y-1 text-xs">
+                    <div className="font-medium">{model?.name ?? modelId}</div>
+                    {cells.map((cell) => (
+                      <div
+                        key={`${cell.repetition}-${cell.behaviorIntensity}`}
+                        className="flex items-center justify-between gap-2 text-[10px]"
+                      >
+                        <span className="text-muted-foreground" title={`Seed ${cell.randomSeed}`}>
+                          Run {cell.repetition}
+                          {cell.behaviorIntensity !== null && ` @ ${cell.behaviorIntensity}`}
+                        </span>
+                        {cell.error ? (
+                          <span
+                            className="text-destructive flex items-center gap-1"
+                            title={cell.error}
+                          >
+                            <RiErrorWarningLine className="size-3" />
+                            Failed to start
+                          </span>
+                        ) : cell.testId ? (
+                          <Link
+                            to={`/tests/${cell.testId}`}
+                            className="text-primary hover:underline"
+                          >
+                            {cell.testId.slice(0, 16)}...
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Pending</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Test suites page — create a suite and list existing ones.
+ */
+
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { RiEyeLine, RiStopLine, RiDeleteBinLine } from "@remixicon/react";
+import { toast } from "sonner";
+
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingState } from "@/components/shared/LoadingState";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { formatDate, formatTime } from "@/lib/utils/format";
+import { LLM_MODELS } from "@/lib/utils/constants";
+import { listSuites, cancelSuite, deleteSuite } from "@/lib/api/endpoints/tests";
+import type { TestSuite } from "@/types/test";
+
+import { CreateSuiteForm } from "../features/test-suites/components/CreateSuiteForm";
+import { SuiteStatusBadge } from "../features/test-suites/components/SuiteStatusBadge";
+
+export default function TestSuitesPage() {
+  const navigate = useNavigate();
+
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadSuites() {
+    try {
+      const result = await listSuites();
+      setSuites(result.suites);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load suites");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSuites();
+  }, []);
+
+  async function handleCancel(suiteId: string) {
+    try {
+      const suite = await cancelSuite(suiteId);
+      toast.success("Suite cancelled");
+      setSuites((prev) => prev.map((s) => (s.suiteId === suiteId ? suite : s)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel");
+    }
+  }
+
+  async function handleDelete(suiteId: string) {
+    try {
+      await deleteSuite(suiteId);
+      toast.success("Suite deleted");
+      setSuites((prev) => prev.filter((s) => s.suiteId !== suiteId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete");
+    }
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Test Suites"
+        description="Compare models on the same scenario across repeated runs"
+      />
+
+      <div className="space-y-4">
+        <CreateSuiteForm onCreated={(suite) => navigate(`/suites/${suite.suiteId}`)} />
+
+        {loading ? (
+          <LoadingState lines={4} />
+        ) : error ? (
+          <div className="text-destructive text-sm">{error}</div>
+        ) : suites.length === 0 ? (
+          <EmptyState
+            title="No suites yet"
+            description="Create a suite above to benchmark several models"
+          />
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b text-muted-foreground text-left text-[10px]">
+                      <th className="px-4 py-2 font-medium">Created</th>
+                      <th className="px-4 py-2 font-medium">Name</th>
+                      <th className="px-4 py-2 font-medium">Status</th>
+                      <th className="px-4 py-2 font-medium">Scenario</th>
+                      <th className="px-4 py-2 font-medium">Models</th>
+                      <th className="px-4 py-2 font-medium">Runs</th>
+                      <th className="px-4 py-2 font-medium">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {suites.map((suite) => {
+                      const started = suite.runs.filter((r) => r.testId).length;
+                      return (
+                        <tr
+                          key={suite.suiteId}
+                          className="border-t border-border/50 hover:bg-muted/30 transition-colors"
+                        >
+                          <td className="px-4 py-2.5 tabular-nums">
+                            <div>{formatDate(suite.createdAt)}</div>
+                            <div className="text-[10px] text-muted-foreground">
+                              {formatTime(suite.createdAt)}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2.5">{suite.name}</td>
+                          <td className="px-4 py-2.5">
+                            <SuiteStatusBadge status={suite.status} />
+                          </td>
+                          <td className="px-4 py-2.5">{suite.scenarioType}</td>
+                          <td className="px-4 py-2.5">
+                            {suite.targetLlmModels
+                              .map((id) => LLM_MODELS.find((m) => m.id === id)?.name ?? id)
+                              .join(", ")}
+                          </td>
+                          <td className="px-4 py-2.5 tabular-nums">
+                            {started}/{suite.runs.length}
+                          </td>
+                          <td className="px-4 py-2.5">
+                            <div className="flex gap-1">
+                              <Button
+                                size="icon-xs"
+                                variant="ghost"
+                                onClick={() => navigate(`/suites/${suite.suiteId}`)}
+                                title="View suite"
+                              >
+                                <RiEyeLine className="size-3" />
+                              </Button>
+                              {suite.status === "running" ? (
+                                <Button
+                                  size="icon-xs"
+                                  variant="ghost"
+                                  onClick={() => handleCancel(suite.suiteId)}
+                                  title="Cancel suite"
+                                >
+                                  <RiStopLine className="size-3" />
+                                </Button>
+                              ) : (
+                                <Button
+                                  size="icon-xs"
+                                  variant="ghost"
+                                  onClick={() => handleDelete(suite.suiteId)}
+                                  title="Delete suite"
+                                >
+                                  <RiDeleteBinLine className="size-3" />
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -15,6 +15,9 @@ const CreateTestPage = lazy(() => import("@/pages/CreateTestPage"));
 const TestDashboardPage = lazy(() => import("@/pages/TestDashboardPage"));
 const TestResultsPage = lazy(() => import("@/pages/TestResultsPage"));
 const TestHistoryPage = lazy(() => import("@/pages/TestHistoryPage"));
+const TestSuitesPage = lazy(() => import("@/pages/TestSuitesPage"));
+const TestSuitePage = lazy(() => import("@/pages/TestSuitePage"));
+const TestSchedulesPage = lazy(() => import("@/pages/TestSchedulesPage"));
 const NotFoundPage = lazy(() => import("@/pages/NotFoundPage"));
 
 function PageFallback() {
@@ -37,6 +40,9 @@ export function Router() {
               <Route path="/tests/:testId" element={<TestDashboardPage />} />
               <Route path="/tests/:testId/results" element={<TestResultsPage />} />
               <Route path="/tests" element={<TestHistoryPage />} />
+              <Route path="/suites" element={<TestSuitesPage />} />
+              <Route path="/suites/:suiteId" element={<TestSuitePage />} />
+              <Route path="/schedules" element={<TestSchedulesPage />} />
               <Route path="*" element={<NotFoundPage />} />
             </Routes>
           </Suspense>
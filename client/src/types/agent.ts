@@ -2,8 +2,8 @@
  * Agent domain types mirroring the backend Agent model.
  */
 
-/** The 6 behavioral profiles available for testing agents. */
-export type BehavioralProfile =
+/** The 6 behavioral profiles shipped with the server. */
+export type BuiltInProfile =
   | "leader"
   | "non-cooperator"
   | "confuser"
@@ -11,6 +11,9 @@ export type BehavioralProfile =
   | "task-abandoner"
   | "follower";
 
+/** A built-in or custom (server-defined) profile name. */
+export type BehavioralProfile = string;
+
 /** Possible states of an agent. */
 export type AgentStatus =
   | "idle"
@@ -20,6 +23,9 @@ export type AgentStatus =
   | "terminated"
   | "error";
 
+/** Whether an agent runs scripted behaviors or is LLM-driven. */
+export type AgentExecutorMode = "scripted" | "llm";
+
 /** Agent configuration. */
 export interface AgentConfig {
   profile: BehavioralProfile;
@@ -36,6 +42,8 @@ export interface AgentConfig {
   };
   customPromptOverrides?: Record<string, string>;
   behaviorIntensity: number;
+  executorMode?: AgentExecutorMode;
+  llmModel?: string;
 }
 
 /** Runtime agent instance state. */
@@ -64,3 +72,26 @@ export interface BehavioralAction {
   success: boolean;
   notes?: string;
 }
+
+/** A behavioral profile definition from GET /api/agents/profiles. */
+export interface ProfileInfo {
+  name: BehavioralProfile;
+  description: string;
+  behaviorRules: string[];
+  actionFrequency: {
+    minActionsPerMinute: number;
+    maxActionsPerMinute: number;
+  };
+  responsePatterns: {
+    ignoreRate: number;
+    responseDelay: { min: number; max: number };
+  };
+  chatReactions: Partial<
+    Record<"trade-offer" | "help-request" | "question" | "direct-mention", string[]>
+  >;
+  minecraftBehaviors: string[];
+  discordBehaviors: string[];
+  promptTemplate: BuiltInProfile;
+  /** False for profiles defined through the API. */
+  builtIn: boolean;
+}
@@ -10,16 +10,18 @@ import type { BehavioralProfile } from "./agent";
 /** Possible states of a test run. */
 export type TestRunStatus =
   | "created"
+  | "queued"
   | "initializing"
   | "coordination"
   | "executing"
+  | "paused"
   | "completing"
   | "completed"
   | "failed"
   | "cancelled";
 
-/** Available scenario types for testing. */
-export type ScenarioType = "cooperation" | "resource-management";
+/** Scenario type: the name of a scenario definition on the server (e.g. "cooperation"). */
+export type ScenarioType = string;
 
 /** Why a test run ended. */
 export type CompletionReason =
@@ -27,7 +29,8 @@ export type CompletionReason =
   | "timeout"
   | "manual-stop"
   | "error"
-  | "all-agents-failed";
+  | "all-agents-failed"
+  | "server-restart";
 
 /** Accumulated metrics tracked during a test run. */
 export interface TestMetrics {
@@ -37,14 +40,43 @@ export interface TestMetrics {
   targetMessageCount: number;
   testingAgentMessageCount: number;
   llmErrorCount: number;
+  llmParseFailureCount: number;
   totalLlmResponseTimeMs: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  /** LLM calls whose model has no known price (not counted in totalCostUsd). */
+  unpricedCallCount: number;
   lastLlmDecisionAt: string | null;
 }
 
+/** How the target LLM returns decisions: free-form JSON or native tool calls. */
+export type LlmResponseMode = "json" | "tools";
+
+/** Whether the target LLM keeps conversation memory between cycles. */
+export type MemoryStrategy = "stateless" | "memory";
+
+/** How much of the surrounding world the target LLM is told about. */
+export type PerceptionVerbosity = "none" | "minimal" | "standard" | "detailed";
+
+/** Whether testing agents run scripted behaviors or are LLM-driven. */
+export type TestingAgentMode = "scripted" | "llm";
+
 /** User-provided configuration for a test run. */
 export interface TestRunConfig {
   llmPollingIntervalMs: number;
+  llmResponseMode: LlmResponseMode;
+  memoryStrategy: MemoryStrategy;
+  memoryTokenBudget: number;
+  perceptionVerbosity: PerceptionVerbosity;
   behaviorIntensity: number;
+  /** Whether intensity follows the target's performance during the run. */
+  adaptiveIntensity: boolean;
+  testingAgentMode: TestingAgentMode;
+  testingAgentModel: string;
+  /** Seed for the testing agents' random choices. */
+  randomSeed: number;
   enableVoice: boolean;
   enableText: boolean;
   targetLlmSystemPromptOverride: string | null;
@@ -55,6 +87,14 @@ export interface TestRunConfig {
   };
 }
 
+/** Outcome of one action the target LLM dispatched. */
+export interface TargetActionOutcome {
+  actionType: string;
+  status: "success" | "failure" | "cancelled";
+  message: string;
+  durationMs: number;
+}
+
 /** Full state of a test run. */
 export interface TestRun {
   testId: string;
@@ -69,11 +109,68 @@ export interface TestRun {
   discordVoiceChannelId: string | null;
   durationSeconds: number;
   createdAt: string;
+  queuedAt: string | null;
   startedAt: string | null;
   endedAt: string | null;
+  /** When the current pause began (null unless paused). */
+  pausedAt: string | null;
+  /** Seconds spent in completed pauses; not counted against the duration. */
+  pausedSeconds: number;
   completionReason: CompletionReason | null;
   config: TestRunConfig;
   metrics: TestMetrics;
+  worldSetup: WorldSetupReport | null;
+  worldProgress: WorldCheckProgress[];
+  phaseHistory: PhaseRecord[];
+  /** Adaptive intensity decisions, oldest first (empty unless adaptive). */
+  intensityTimeline: IntensityStep[];
+  /** ID of the run this one replays (null unless it is a replay). */
+  replayOf: string | null;
+}
+
+/** Outcome of applying the scenario's initial conditions to the world. */
+export interface WorldSetupReport {
+  applied: boolean;
+  appliedAt: string;
+  errors: string[];
+}
+
+/** Progress of one world-state success check. */
+export interface WorldCheckProgress {
+  id: string;
+  description: string;
+  type: "block-count" | "enclosed-structure" | "inventory-items" | "crafted-item";
+  /** Completion from 0 to 1. */
+  progress: number;
+  met: boolean;
+  detail: string;
+}
+
+/** A scenario phase that has started during a run. */
+export interface PhaseRecord {
+  id: string;
+  description: string;
+  startedAt: string;
+  /** Seconds since execution began. */
+  elapsedSeconds: number;
+  objectiveChanged: boolean;
+  errors: string[];
+}
+
+/** How the target did over one adaptive-intensity window. */
+export type TargetAssessment = "coping" | "stuck" | "steady";
+
+/** One decision of the adaptive difficulty controller. */
+export interface IntensityStep {
+  at: string;
+  /** Seconds since execution began. */
+  elapsedSeconds: number;
+  /** Intensity the testing agents ran at during the window. */
+  intensity: number;
+  assessment: TargetAssessment;
+  reason: string;
+  /** Intensity set for the next window. */
+  nextIntensity: number;
 }
 
 /** A logged action from the test run. */
@@ -81,8 +178,8 @@ export interface TestActionLog {
   logId: string;
   testId: string;
   sourceAgentId: string;
-  sourceType: "target" | "testing-agent";
-  actionCategory: "minecraft" | "discord" | "llm-decision";
+  sourceType: "target" | "testing-agent" | "system";
+  actionCategory: "minecraft" | "discord" | "llm-decision" | "setup" | "phase" | "difficulty";
   actionDetail: string;
   timestamp: string;
   metadata: Record<string, unknown>;
@@ -120,3 +217,173 @@ export interface ApiError {
 
 /** Re-export for convenience. */
 export type { BehavioralProfile };
+
+/** Lifecycle of a test suite. */
+export type TestSuiteStatus = "running" | "completed" | "cancelled";
+
+/** One cell of a suite's model x repetition (x intensity) matrix. */
+export interface SuiteRun {
+  targetLlmModel: string;
+  repetition: number;
+  /** Testing-agent intensity of this cell in a sweep, otherwise null. */
+  behaviorIntensity: number | null;
+  /** Random seed shared by every model's run of this repetition. */
+  randomSeed: number;
+  /** Test run created for this cell, or null until it is dispatched. */
+  testId: string | null;
+  error: string | null;
+}
+
+/** One scenario configuration run across several models and repetitions. */
+export interface TestSuite {
+  suiteId: string;
+  name: string;
+  scenarioType: ScenarioType;
+  targetLlmModels: string[];
+  repetitions: number;
+  /** Intensities every model is run at, or null if this is not a sweep. */
+  behaviorIntensities: number[] | null;
+  runTemplate: {
+    testingAgentProfiles?: BehavioralProfile[];
+    durationSeconds?: number;
+    config?: Partial<TestRunConfig>;
+  };
+  runs: SuiteRun[];
+  status: TestSuiteStatus;
+  createdAt: string;
+  endedAt: string | null;
+}
+
+/** Per-run metrics a leaderboard can rank models by. */
+export type LeaderboardMetric =
+  | "success-rate"
+  | "world-progress"
+  | "llm-error-rate"
+  | "response-time-ms"
+  | "cost-usd";
+
+/** Summary of one metric over a model's runs, with a 95% confidence interval. */
+export interface LeaderboardMetricStats {
+  metric: LeaderboardMetric;
+  mean: number;
+  stdDev: number;
+  lower: number;
+  upper: number;
+  sampleSize: number;
+}
+
+/** A model's position on a leaderboard. */
+export interface LeaderboardEntry {
+  rank: number;
+  targetLlmModel: string;
+  runCount: number;
+  metrics: LeaderboardMetricStats[];
+  /** Whether the gap to the model ranked directly above is significant (null for the top model). */
+  significantVsAbove: boolean | null;
+}
+
+/** Models ranked by one metric over a suite's finished runs. */
+export interface Leaderboard {
+  rankingMetric: LeaderboardMetric;
+  entries: LeaderboardEntry[];
+  excludedRunCount: number;
+}
+
+/** Every metric of one model's runs at one intensity. */
+export interface IntensitySweepPoint {
+  behaviorIntensity: number;
+  runCount: number;
+  metrics: LeaderboardMetricStats[];
+}
+
+/** A suite's metrics per model across its testing-agent intensities. */
+export interface IntensitySweep {
+  suiteId: string;
+  behaviorIntensities: number[];
+  series: { targetLlmModel: string; points: IntensitySweepPoint[] }[];
+  excludedRunCount: number;
+}
+
+/** When a scheduled run counts as a regression. */
+export interface RegressionPolicy {
+  metrics: LeaderboardMetric[];
+  /** How many of the most recent previous runs form the baseline. */
+  baselineSize: number;
+  /** Largest tolerated worsening (absolute for rates, relative otherwise). */
+  threshold: number;
+}
+
+/** One metric of a run compared to its baseline. */
+export interface MetricComparison {
+  metric: LeaderboardMetric;
+  baseline: number;
+  value: number;
+  /** Worsening versus the baseline in threshold units (negative if better). */
+  change: number;
+  regressed: boolean;
+}
+
+/** Outcome of comparing a scheduled run to its rolling baseline. */
+export interface RegressionReport {
+  baselineTestIds: string[];
+  comparisons: MetricComparison[];
+  regressed: boolean;
+  evaluatedAt: string;
+}
+
+/** A test run started by a schedule. */
+export interface ScheduledRun {
+  testId: string;
+  triggeredAt: string;
+  /** Null until the run finishes, or if it could not be compared. */
+  report: RegressionReport | null;
+}
+
+/** A recurring test run on a cron schedule (UTC). */
+export interface TestSchedule {
+  scheduleId: string;
+  name: string;
+  cron: string;
+  enabled: boolean;
+  runTemplate: CreateTestRequest;
+  regressionPolicy: RegressionPolicy;
+  /** Most recent runs, oldest first. */
+  runs: ScheduledRun[];
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+/** Domain-level request to create a schedule. */
+export interface CreateTestScheduleRequest {
+  name?: string;
+  cron: string;
+  enabled?: boolean;
+  runTemplate: CreateTestRequest;
+  regressionPolicy?: Partial<RegressionPolicy>;
+}
+
+/** Domain-level request to change a schedule. */
+export type UpdateTestScheduleRequest = Partial<
+  Omit<CreateTestScheduleRequest, "runTemplate">
+>;
+
+/** The first target decision a replay resolved differently from its original. */
+export interface ReplayDivergence {
+  /** 1-based index of the decision in both runs. */
+  decision: number;
+  originalTimestamp: string;
+  replayTimestamp: string;
+  originalResults: TargetActionOutcome[];
+  replayResults: TargetActionOutcome[];
+}
+
+/** How closely a replay followed the run it replays. */
+export interface ReplayComparison {
+  sourceTestId: string;
+  replayTestId: string;
+  originalDecisions: number;
+  replayedDecisions: number;
+  /** Null while every replayed decision matched the original. */
+  firstDivergence: ReplayDivergence | null;
+}
@@ -1,5 +1,44 @@
+import { join } from "node:path";
+
 /** OpenRouter API key — set in .env as OPENROUTER_API_KEY. */
 export const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 
 /** Default model to use when none is specified. */
 export const DEFAULT_LLM_MODEL = "nvidia/nemotron-nano-9b-v2:free";
+
+/** Default model for LLM-driven testing agents (one call per agent turn, so kept cheap). */
+export const DEFAULT_TESTING_AGENT_MODEL = "meta-llama/llama-4-maverick";
+
+/**
+ * Base URL of an OpenAI-compatible server (llama.cpp, vLLM, Ollama, ...),
+ * e.g. "http://localhost:8080/v1". Used for models prefixed with "local:".
+ */
+export const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL;
+
+/** Optional API key for the OpenAI-compatible server. */
+export const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY;
+
+/** Directory holding mock provider fixtures (used for models prefixed with "mock:"). */
+export const MOCK_LLM_FIXTURE_DIR =
+  process.env.MOCK_LLM_FIXTURE_DIR ??
+  join(import.meta.dir, "..", "fixtures", "llm");
+
+/** USD price per one million tokens for a model. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Per-model token prices (USD per 1M tokens, OpenRouter list prices).
+ * Models ending in ":free" are always priced at zero; models missing
+ * from this table are reported as unpriced.
+ */
+export const LLM_MODEL_PRICING: Record<string, ModelPricing> = {
+  "google/gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "openai/gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "deepseek/deepseek-r1": { inputPerMillion: 0.4, outputPerMillion: 2 },
+  "anthropic/claude-sonnet-4": { inputPerMillion: 3, outputPerMillion: 15 },
+  "meta-llama/llama-4-maverick": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "mistralai/mistral-large-2": { inputPerMillion: 2, outputPerMillion: 6 },
+};
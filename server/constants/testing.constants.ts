@@ -4,6 +4,8 @@
  * Defaults for test orchestration, timing, and resource limits.
  */
 
+import { join } from "node:path";
+
 /** Default test duration in seconds (10 minutes). */
 export const DEFAULT_TEST_DURATION_SECONDS = 600;
 
@@ -19,6 +21,24 @@ export const MAX_LLM_POLLING_INTERVAL_MS = 30_000;
 /** Default behavior intensity for testing agents. */
 export const DEFAULT_BEHAVIOR_INTENSITY = 0.5;
 
+/** How often adaptive runs reassess the target and adjust intensity. */
+export const DIFFICULTY_CHECK_INTERVAL_MS = 30_000;
+
+/** How far adaptive intensity moves per adjustment. */
+export const ADAPTIVE_INTENSITY_STEP = 0.1;
+
+/** Lowest intensity adaptive runs ease off to. */
+export const ADAPTIVE_MIN_INTENSITY = 0.1;
+
+/** Highest intensity adaptive runs escalate to. */
+export const ADAPTIVE_MAX_INTENSITY = 1;
+
+/** Most blocks a world check's region may span (32 x 32 x 32). */
+export const MAX_WORLD_CHECK_REGION_BLOCKS = 32_768;
+
+/** Most block reads an enclosed-structure check may make sliding its footprint. */
+export const MAX_ENCLOSURE_SEARCH_BLOCKS = 250_000;
+
 /** Maximum concurrent test runs allowed. */
 export const MAX_CONCURRENT_TESTS = 3;
 
@@ -39,3 +59,35 @@ export const TARGET_BOT_USERNAME_PREFIX = "llm";
 
 /** Testing agent bot username prefix. */
 export const TESTING_AGENT_USERNAME_PREFIX = "tester";
+
+/** Default token budget for the target LLM's conversation memory. */
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 4_000;
+
+/** Minimum conversation memory token budget. */
+export const MIN_MEMORY_TOKEN_BUDGET = 1_000;
+
+/** Maximum conversation memory token budget. */
+export const MAX_MEMORY_TOKEN_BUDGET = 32_000;
+
+/** Maximum decision cycles kept verbatim in conversation memory. */
+export const MAX_MEMORY_TURNS = 12;
+
+/** Directory holding scenario definition files (*.json, *.yaml, *.yml). */
+export const SCENARIO_DIR =
+  process.env.SCENARIO_DIR ?? join(import.meta.dir, "..", "scenarios");
+
+/** Directory holding custom behavioral profile files (*.json). */
+export const PROFILE_DIR =
+  process.env.PROFILE_DIR ?? join(import.meta.dir, "..", "profiles");
+
+/** How often the scheduler checks for due schedules. */
+export const SCHEDULER_TICK_MS = 30_000;
+
+/** Most recent runs kept on a schedule (older ones stay in test history). */
+export const MAX_SCHEDULED_RUNS_KEPT = 50;
+
+/** Most action logs read when loading a run's recording for replay. */
+export const REPLAY_MAX_ACTION_LOGS = 10_000;
+
+/** How often a replay's target checks whether its next recorded decision is due. */
+export const REPLAY_TICK_MS = 250;
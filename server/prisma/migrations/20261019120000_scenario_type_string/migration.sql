@@ -0,0 +1,7 @@
+-- AlterTable: scenario types are now defined by scenario files, not an enum
+ALTER TABLE "TestRun"
+  ALTER COLUMN "scenarioType" SET DATA TYPE TEXT
+  USING lower(replace("scenarioType"::text, '_', '-'));
+
+-- DropEnum
+DROP TYPE "ScenarioType";
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "TestSuite" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "scenarioType" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "definition" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TestSuite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TestSuite_createdAt_idx" ON "TestSuite"("createdAt");
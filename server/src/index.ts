@@ -7,6 +7,10 @@ import { minecraftController } from "./modules/minecraft";
 import { minecraftWs } from "./modules/minecraft/ws";
 import { agentController } from "./modules/agents";
 import { registerAllActions } from "./modules/minecraft/bot/actions/register";
+import {
+	registerAllBehaviors,
+	validateProfileBehaviors,
+} from "./modules/agents/orchestrator/behaviors/register";
 import { startStateObserver } from "./modules/minecraft/bot/state/state-observer";
 import { discordController } from "./modules/discord";
 import { discordWs } from "./modules/discord/ws";
@@ -14,6 +18,7 @@ import { discordClient } from "./modules/discord/client/discord-client";
 import { DISCORD_AUTO_START } from "../constants/discord.constants";
 import { testingController } from "./modules/testing";
 import { testingWs } from "./modules/testing/ws";
+import { TestingService } from "./modules/testing/service";
 import { evaluationController } from "./modules/evaluation";
 
 // Import all metrics to ensure they register themselves
@@ -27,11 +32,15 @@ import "./modules/evaluation/metrics/communication-quality.metric";
 registerAllActions();
 startStateObserver();
 
+// Register testing-agent behaviors; a profile naming an unknown behavior stops startup
+registerAllBehaviors();
+validateProfileBehaviors();
+
 const app = new Elysia()
 	.use(
 		cors({
 			origin: [CLIENT_URL],
-			methods: ["POST", "PATCH", "GET", "DELETE"],
+			methods: ["POST", "PUT", "PATCH", "GET", "DELETE"],
 		}),
 	)
 	.use(openapi({ enabled: NODE_ENV === "development" }))
@@ -59,6 +68,15 @@ console.log("[Test Orchestration] WebSocket available at /ws/testing");
 console.log("[Evaluation System] Initialized with 5 metrics");
 console.log("[Evaluation System] API endpoints available at /api/evaluation");
 
+// Fail runs orphaned by the previous process and resume the run queue
+TestingService.recoverRuns().catch((err: unknown) => {
+	const message = err instanceof Error ? err.message : "Unknown error";
+	console.error(`[Test Orchestration] Run recovery failed: ${message}`);
+});
+
+// Start recurring test schedules
+TestingService.startScheduler();
+
 // Optionally auto-start the Discord bot
 if (DISCORD_AUTO_START) {
 	discordClient
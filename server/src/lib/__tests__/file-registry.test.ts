@@ -0,0 +1,80 @@
+/**
+ * File Registry Tests
+ *
+ * Unit tests for the hot-loaded, file-backed definition registry
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, extname, join } from "node:path";
+import { FileRegistry, type FileLoadResult } from "../file-registry";
+
+interface Note {
+  name: string;
+  text: string;
+}
+
+function loadNote(path: string): FileLoadResult<Note> {
+  const text = readFileSync(path, "utf-8");
+  return text.trim()
+    ? { ok: true, value: { name: basename(path, extname(path)), text } }
+    : { ok: false, errors: ["empty file"] };
+}
+
+let dir: string;
+let registry: FileRegistry<Note>;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "file-registry-"));
+  registry = new FileRegistry<Note>({
+    label: "Notes",
+    dir,
+    isDefinitionFile: (fileName) => [".json", ".txt"].includes(extname(fileName)),
+    nameFromFile: (fileName) => basename(fileName, extname(fileName)),
+    load: loadNote,
+    serialize: (note) => note.text,
+  });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("File Registry", () => {
+  test("should pick up new and changed files on the next lookup", () => {
+    expect(registry.get("a")).toBeNull();
+
+    writeFileSync(join(dir, "a.txt"), "first");
+    expect(registry.get("a")?.text).toBe("first");
+
+    writeFileSync(join(dir, "a.txt"), "second, longer");
+    expect(registry.get("a")?.text).toBe("second, longer");
+  });
+
+  test("should keep the first file when two define the same name", () => {
+    writeFileSync(join(dir, "a.json"), "from json");
+    writeFileSync(join(dir, "a.txt"), "from txt");
+
+    expect(registry.values().map((note) => note.text)).toEqual(["from json"]);
+  });
+
+  test("should know about invalid files without returning them", () => {
+    writeFileSync(join(dir, "broken.txt"), " ");
+
+    expect(registry.has("broken")).toBe(true);
+    expect(registry.get("broken")).toBeNull();
+    expect(registry.values()).toEqual([]);
+  });
+
+  test("should save to the existing file and delete it", () => {
+    writeFileSync(join(dir, "a.txt"), "first");
+    registry.save("a", { name: "a", text: "saved" });
+    registry.save("b", { name: "b", text: "new" });
+
+    expect(registry.values().map((note) => note.text)).toEqual(["saved", "new"]);
+    expect(registry.delete("a")).toBe(true);
+    expect(registry.delete("a")).toBe(false);
+    expect(registry.has("a")).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * File Registry
+ *
+ * Definitions kept as one file each in a directory and hot-loaded: every
+ * lookup re-scans the directory and re-reads files whose modification
+ * time or size changed, so edits apply without a server restart. The
+ * file name without its extension is the definition's name. Invalid
+ * files are logged and kept as null so callers can tell "invalid" from
+ * "missing"; when two files share a name, the first in sorted order wins.
+ */
+
+import { mkdirSync, readdirSync, statSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export type FileLoadResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export interface FileRegistryOptions<T> {
+  /** Prefix for log messages, e.g. "Scenarios". */
+  label: string;
+  dir: string;
+  /** Whether a file name looks like a definition. */
+  isDefinitionFile: (fileName: string) => boolean;
+  /** Name a file defines, derived from its file name. */
+  nameFromFile: (fileName: string) => string;
+  load: (path: string) => FileLoadResult<T>;
+  /** Contents of the file for `value`, which may depend on its format. */
+  serialize: (value: T, path: string) => string;
+  /** A missing directory just means nothing has been saved yet. */
+  optionalDir?: boolean;
+}
+
+interface LoadedFile<T> {
+  path: string;
+  mtimeMs: number;
+  size: number;
+  /** Parsed definition, or null if the file failed validation. */
+  value: T | null;
+}
+
+export class FileRegistry<T> {
+  /** Loaded files keyed by definition name. */
+  private readonly files = new Map<string, LoadedFile<T>>();
+
+  constructor(private readonly options: FileRegistryOptions<T>) {}
+
+  /**
+   * Get a definition by name.
+   * Returns null if no valid file defines it.
+   */
+  get(name: string): T | null {
+    this.refresh();
+    return this.files.get(name)?.value ?? null;
+  }
+
+  /**
+   * Get all valid definitions, in file name order.
+   */
+  values(): T[] {
+    this.refresh();
+    return Array.from(this.files.values())
+      .map((file) => file.value)
+      .filter((value): value is T => value !== null);
+  }
+
+  /**
+   * Whether a file defines the name, even if it failed validation.
+   */
+  has(name: string): boolean {
+    this.refresh();
+    return this.files.has(name);
+  }
+
+  /**
+   * Write a validated definition to disk. Overwrites the existing file
+   * for its name (keeping that file's format), or creates `<name>.json`.
+   */
+  save(name: string, value: T): void {
+    this.refresh();
+    const { dir, serialize } = this.options;
+    const path = this.files.get(name)?.path ?? join(dir, `${name}.json`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, serialize(value, path), "utf-8");
+
+    const { mtimeMs, size } = statSync(path);
+    this.files.set(name, { path, mtimeMs, size, value });
+  }
+
+  /**
+   * Delete the file defining a name.
+   * Returns false if no such file exists.
+   */
+  delete(name: string): boolean {
+    this.refresh();
+    const file = this.files.get(name);
+    if (!file) return false;
+
+    unlinkSync(file.path);
+    this.files.delete(name);
+    return true;
+  }
+
+  /** Re-scan the directory, reloading new and changed files. */
+  private refresh(): void {
+    const { label, dir, isDefinitionFile, nameFromFile, load, optionalDir } = this.options;
+
+    let fileNames: string[];
+    try {
+      fileNames = readdirSync(dir).filter(isDefinitionFile).sort();
+    } catch (err) {
+      if (!optionalDir || (err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[${label}] Cannot read ${dir}:`, err);
+      }
+      fileNames = [];
+    }
+
+    const seen = new Set<string>();
+    for (const fileName of fileNames) {
+      const name = nameFromFile(fileName);
+      if (seen.has(name)) {
+        console.warn(`[${label}] Ignoring ${fileName}: "${name}" is defined by another file`);
+        continue;
+      }
+      const path = join(dir, fileName);
+      let mtimeMs: number;
+      let size: number;
+      try {
+        ({ mtimeMs, size } = statSync(path));
+      } catch {
+        continue; // removed since the directory was listed
+      }
+      seen.add(name);
+
+      const cached = this.files.get(name);
+      if (cached && cached.path === path && cached.mtimeMs === mtimeMs && cached.size === size) {
+        continue;
+      }
+
+      const result = load(path);
+      if (!result.ok) {
+        console.warn(`[${label}] Skipping ${fileName}: ${result.errors.join("; ")}`);
+      } else if (cached) {
+        console.log(`[${label}] Reloaded ${fileName}`);
+      }
+      this.files.set(name, { path, mtimeMs, size, value: result.ok ? result.value : null });
+    }
+
+    for (const name of this.files.keys()) {
+      if (!seen.has(name)) this.files.delete(name);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Behavior Registry Tests
+ *
+ * Unit tests for registering behavior modules and validating profiles
+ * against them
+ */
+
+import { describe, test, expect } from "bun:test";
+import { behaviorRegistry } from "../orchestrator/behaviors/behavior-registry";
+import {
+  findUnregisteredBehaviors,
+  registerAllBehaviors,
+  validateProfileBehaviors,
+} from "../orchestrator/behaviors/register";
+import { IDLE_BEHAVIOR } from "../orchestrator/intensity";
+import { getAllProfiles, getProfile } from "../profiles";
+
+registerAllBehaviors();
+
+describe("Behavior Registry", () => {
+  test("should register a module for every built-in profile behavior", () => {
+    expect(findUnregisteredBehaviors(getAllProfiles())).toEqual([]);
+    expect(() => validateProfileBehaviors()).not.toThrow();
+    expect(behaviorRegistry.has(IDLE_BEHAVIOR)).toBe(true);
+  });
+
+  test("should register each module under its own name", () => {
+    for (const name of behaviorRegistry.registeredNames()) {
+      expect(behaviorRegistry.get(name)?.name).toBe(name);
+    }
+    expect(behaviorRegistry.get("break-leader-blocks")?.kind).toBe("sabotage");
+  });
+
+  test("should fail loudly on a misspelled profile behavior", () => {
+    const leader = getProfile("leader");
+    const typo = { ...leader, minecraftBehaviors: [...leader.minecraftBehaviors, "plase-blocks"] };
+
+    expect(findUnregisteredBehaviors([typo])).toEqual(["leader: plase-blocks"]);
+    expect(() => validateProfileBehaviors([typo])).toThrow("leader: plase-blocks");
+  });
+});
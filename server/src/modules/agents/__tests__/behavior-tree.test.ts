@@ -0,0 +1,166 @@
+/**
+ * Behavior Tree Tests
+ *
+ * Unit tests for walking profile behavior trees against a fake world
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  createTreeMemory,
+  DEFAULT_BEHAVIOR_TREE,
+  recordHeard,
+  recordPerformed,
+  tickBehaviorTree,
+  treeBehaviors,
+  type BehaviorTreeNode,
+  type TreeContext,
+} from "../orchestrator/behavior-tree";
+import { IDLE_BEHAVIOR } from "../orchestrator/intensity";
+import { createRandom } from "../orchestrator/random";
+import { getProfile } from "../profiles";
+
+/** A context over a fake world holding `planks` planks and no players. */
+function context(overrides: Partial<TreeContext> = {}, planks = 0): TreeContext {
+  return {
+    world: {
+      itemCount: (match) => ("oak_planks".includes(match) ? planks : 0),
+      nearestPlayerDistance: () => null,
+    },
+    random: createRandom(1),
+    now: 100_000,
+    intensity: 0.5,
+    behaviors: ["wander-a", "wander-b"],
+    ignoreRate: 0,
+    kindOf: () => "neutral",
+    ...overrides,
+  };
+}
+
+const NO_PLANKS_TO_CHEST: BehaviorTreeNode = {
+  type: "selector",
+  children: [
+    {
+      type: "cooldown",
+      seconds: 20,
+      child: {
+        type: "sequence",
+        label: "no planks -> chest",
+        children: [
+          { type: "condition", condition: { kind: "has-item", item: "planks" }, negate: true },
+          { type: "action", behavior: "open-chest" },
+        ],
+      },
+    },
+    { type: "action", behavior: "build" },
+  ],
+};
+
+const REFUSE_WHEN_ASKED: BehaviorTreeNode = {
+  type: "selector",
+  children: [
+    {
+      type: "sequence",
+      children: [
+        { type: "condition", condition: { kind: "heard", trigger: "help-request" } },
+        { type: "condition", condition: { kind: "responds" } },
+        { type: "action", behavior: "refuse" },
+      ],
+    },
+    { type: "action", behavior: "idle" },
+  ],
+};
+
+describe("tickBehaviorTree", () => {
+  test("goes to the chest only when out of planks", () => {
+    const memory = createTreeMemory();
+    expect(tickBehaviorTree(NO_PLANKS_TO_CHEST, context({}, 0), memory).behavior).toBe("open-chest");
+    expect(tickBehaviorTree(NO_PLANKS_TO_CHEST, context({}, 8), createTreeMemory()).behavior).toBe("build");
+  });
+
+  test("reports the path of labels to the picked behavior", () => {
+    const tick = tickBehaviorTree(NO_PLANKS_TO_CHEST, context(), createTreeMemory());
+    expect(tick.activePath).toEqual([
+      "selector",
+      "cooldown 20s",
+      "no planks -> chest",
+      "not has 1+ planks",
+      "open-chest",
+    ]);
+  });
+
+  test("cooldowns block their child until the time has passed", () => {
+    const memory = createTreeMemory();
+    tickBehaviorTree(NO_PLANKS_TO_CHEST, context({ now: 0 }), memory);
+    expect(tickBehaviorTree(NO_PLANKS_TO_CHEST, context({ now: 19_000 }), memory).behavior).toBe("build");
+    expect(tickBehaviorTree(NO_PLANKS_TO_CHEST, context({ now: 20_000 }), memory).behavior).toBe("open-chest");
+  });
+
+  test("acts on heard chat once", () => {
+    const memory = createTreeMemory();
+    recordHeard(memory, ["help-request"], "llm_1", 95_000);
+    expect(tickBehaviorTree(REFUSE_WHEN_ASKED, context(), memory).behavior).toBe("refuse");
+    expect(tickBehaviorTree(REFUSE_WHEN_ASKED, context(), memory).behavior).toBe("idle");
+  });
+
+  test("ignores chat heard outside the window", () => {
+    const memory = createTreeMemory();
+    recordHeard(memory, ["help-request"], "llm_1", 0);
+    expect(tickBehaviorTree(REFUSE_WHEN_ASKED, context(), memory).behavior).toBe("idle");
+  });
+
+  test("keeps heard chat when the ignore roll says to ignore it", () => {
+    const memory = createTreeMemory();
+    recordHeard(memory, ["help-request"], "llm_1", 95_000);
+    expect(tickBehaviorTree(REFUSE_WHEN_ASKED, context({ ignoreRate: 1 }), memory).behavior).toBe("idle");
+    expect(memory.heard).toHaveLength(1);
+  });
+
+  test("checks how often a behavior was performed", () => {
+    const once: BehaviorTreeNode = {
+      type: "selector",
+      children: [
+        {
+          type: "sequence",
+          children: [
+            {
+              type: "condition",
+              condition: { kind: "performed", behavior: "greet", atLeast: 1 },
+              negate: true,
+            },
+            { type: "action", behavior: "greet" },
+          ],
+        },
+        { type: "action", behavior: "build" },
+      ],
+    };
+    const memory = createTreeMemory();
+    expect(tickBehaviorTree(once, context(), memory).behavior).toBe("greet");
+    recordPerformed(memory, "greet");
+    expect(tickBehaviorTree(once, context(), memory).behavior).toBe("build");
+  });
+
+  test("wanders when nothing is picked", () => {
+    const never: BehaviorTreeNode = {
+      type: "condition",
+      condition: { kind: "chance", probability: 0 },
+    };
+    expect(tickBehaviorTree(never, context(), createTreeMemory()).behavior).toBe(IDLE_BEHAVIOR);
+  });
+
+  test("the default tree chooses among the profile's behaviors", () => {
+    const tick = tickBehaviorTree(DEFAULT_BEHAVIOR_TREE, context(), createTreeMemory());
+    expect(["wander-a", "wander-b"]).toContain(tick.behavior);
+  });
+});
+
+describe("built-in trees", () => {
+  test("only name behaviors from their own profile", () => {
+    for (const name of ["leader", "follower", "non-cooperator"] as const) {
+      const profile = getProfile(name);
+      expect(profile.behaviorTree).toBeDefined();
+      for (const behavior of treeBehaviors(profile.behaviorTree!)) {
+        expect(profile.minecraftBehaviors).toContain(behavior);
+      }
+    }
+  });
+});
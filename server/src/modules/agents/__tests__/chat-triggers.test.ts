@@ -0,0 +1,66 @@
+/**
+ * Chat Trigger Tests
+ *
+ * Unit tests for the scripted executor's chat reaction matching
+ */
+
+import { describe, test, expect } from "bun:test";
+import { getProfile } from "../profiles";
+import {
+  detectTriggers,
+  fillReply,
+  responseDelayMs,
+  selectReaction,
+  shouldIgnore,
+} from "../orchestrator/chat-triggers";
+
+describe("Chat Triggers", () => {
+  test("should detect help requests, questions and mentions", () => {
+    expect(detectTriggers("tester_1 can you give me some planks?", "tester_1")).toEqual([
+      "help-request",
+      "question",
+      "direct-mention",
+    ]);
+    expect(detectTriggers("I'll trade you 4 logs for your planks", "tester_1")).toEqual([
+      "trade-offer",
+    ]);
+    expect(detectTriggers("where is the chest", "tester_1")).toEqual(["question"]);
+    expect(detectTriggers("nice weather today", "tester_1")).toEqual([]);
+  });
+
+  test("should not treat a longer username as a mention", () => {
+    expect(detectTriggers("hey tester_10", "tester_1")).toEqual([]);
+    expect(detectTriggers("hey @Tester_1", "tester_1")).toEqual(["direct-mention"]);
+  });
+
+  test("should pick the highest-priority trigger the profile reacts to", () => {
+    const nonCooperator = getProfile("non-cooperator");
+    const reaction = selectReaction(nonCooperator, ["help-request", "question"]);
+    expect(reaction?.trigger).toBe("help-request");
+    expect(reaction?.replies).toContain("No. Get your own planks, {sender}.");
+
+    expect(selectReaction(nonCooperator, [])).toBeNull();
+  });
+
+  test("should give every profile a reply for help requests and questions", () => {
+    for (const name of ["leader", "non-cooperator", "confuser", "resource-hoarder", "task-abandoner", "follower"] as const) {
+      const profile = getProfile(name);
+      expect(profile.chatReactions["help-request"]?.length).toBeGreaterThan(0);
+      expect(profile.chatReactions.question?.length).toBeGreaterThan(0);
+    }
+  });
+
+  test("should honour ignoreRate and responseDelay", () => {
+    const nonCooperator = getProfile("non-cooperator"); // ignoreRate 0.5, 5-15s
+    expect(shouldIgnore(nonCooperator, 0.49)).toBe(true);
+    expect(shouldIgnore(nonCooperator, 0.5)).toBe(false);
+    expect(shouldIgnore(getProfile("follower"), 0)).toBe(false);
+
+    expect(responseDelayMs(nonCooperator, 0)).toBe(5000);
+    expect(responseDelayMs(nonCooperator, 0.5)).toBe(10000);
+  });
+
+  test("should fill the sender placeholder", () => {
+    expect(fillReply("What now, {sender}?", "llm_target")).toBe("What now, llm_target?");
+  });
+});
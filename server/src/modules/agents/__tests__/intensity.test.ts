@@ -0,0 +1,71 @@
+/**
+ * Behavior Intensity Tests
+ *
+ * Unit tests for how intensity shapes testing-agent pacing and behavior choice
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  actionIntervalMs,
+  chooseBehavior,
+  IDLE_BEHAVIOR,
+  type BehaviorKind,
+} from "../orchestrator/intensity";
+import { createRandom } from "../orchestrator/random";
+
+const NON_COOPERATOR = [
+  "break-leader-blocks",
+  "refuse-to-share",
+  "take-from-chest-but-keep",
+];
+
+const KINDS: Record<string, BehaviorKind> = {
+  "break-leader-blocks": "sabotage",
+  "refuse-to-share": "adversarial",
+  "take-from-chest-but-keep": "adversarial",
+};
+
+function kindOf(behavior: string): BehaviorKind {
+  return KINDS[behavior] ?? "neutral";
+}
+
+/** How often each behavior is chosen over `draws` choices at `intensity`. */
+function tally(behaviors: string[], intensity: number, draws = 2000): Map<string, number> {
+  const random = createRandom(7);
+  const counts = new Map<string, number>();
+  for (let i = 0; i < draws; i++) {
+    const behavior = chooseBehavior(behaviors, intensity, random, kindOf);
+    counts.set(behavior, (counts.get(behavior) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function sabotageCount(counts: Map<string, number>): number {
+  return [...counts].reduce((sum, [b, n]) => sum + (kindOf(b) === "sabotage" ? n : 0), 0);
+}
+
+describe("Behavior Intensity", () => {
+  test("should act more often at higher intensity", () => {
+    const frequency = { minActionsPerMinute: 2, maxActionsPerMinute: 6 };
+
+    expect(actionIntervalMs(frequency, 0)).toBe(30_000);
+    expect(actionIntervalMs(frequency, 0.5)).toBe(15_000);
+    expect(actionIntervalMs(frequency, 1)).toBe(10_000);
+    expect(actionIntervalMs(frequency, 3)).toBe(10_000);
+  });
+
+  test("should choose more sabotage and less idling at higher intensity", () => {
+    const low = tally(NON_COOPERATOR, 0.2);
+    const high = tally(NON_COOPERATOR, 0.8);
+
+    expect(sabotageCount(high)).toBeGreaterThan(sabotageCount(low) * 2);
+    expect(high.get(IDLE_BEHAVIOR) ?? 0).toBeLessThan(low.get(IDLE_BEHAVIOR) ?? 0);
+    expect(tally(NON_COOPERATOR, 1).get(IDLE_BEHAVIOR)).toBeUndefined();
+  });
+
+  test("should leave cooperative profiles' choices alone", () => {
+    const cooperative = ["build-together", "gather-wood"];
+
+    expect([...tally(cooperative, 1).keys()].sort()).toEqual(cooperative);
+  });
+});
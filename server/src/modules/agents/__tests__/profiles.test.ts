@@ -6,6 +6,10 @@
 
 import { describe, test, expect } from "bun:test";
 import { getProfile, getAllProfiles, profileExists } from "../profiles";
+import { validateProfile } from "../profiles/loader";
+import { registerAllBehaviors } from "../orchestrator/behaviors/register";
+
+registerAllBehaviors();
 
 describe("Behavioral Profiles", () => {
   test("should return leader profile", () => {
@@ -79,3 +83,40 @@ describe("Behavioral Profiles", () => {
     expect(profiles.length).toBe(6);
   });
 });
+
+describe("Custom Profile Validation", () => {
+  const saboteur = {
+    ...getProfile("leader"),
+    name: "saboteur-who-pretends-to-help",
+    description: "Offers help, then quietly undoes the work",
+    minecraftBehaviors: ["assist-with-tasks", "break-leader-blocks"],
+    promptTemplate: "non-cooperator",
+  };
+
+  test("should accept a profile built from registered behaviors", () => {
+    const result = validateProfile(saboteur, "saboteur-who-pretends-to-help");
+    expect(result.ok).toBe(true);
+  });
+
+  test("should reject unregistered behaviors and built-in names", () => {
+    const typo = validateProfile({ ...saboteur, minecraftBehaviors: ["brake-leader-blocks"] });
+    expect(typo.ok ? [] : typo.errors).toEqual([
+      '/minecraftBehaviors/0: unknown behavior "brake-leader-blocks"',
+    ]);
+
+    const builtIn = validateProfile({ ...saboteur, name: "leader" });
+    expect(builtIn.ok ? [] : builtIn.errors).toEqual(['/name: "leader" is a built-in profile']);
+  });
+
+  test("should reject inverted ranges and unknown prompt templates", () => {
+    const inverted = validateProfile({
+      ...saboteur,
+      actionFrequency: { minActionsPerMinute: 6, maxActionsPerMinute: 2 },
+      responsePatterns: { ignoreRate: 0, responseDelay: { min: 3000, max: 1000 } },
+    });
+    expect(inverted.ok ? 0 : inverted.errors.length).toBe(2);
+
+    expect(validateProfile({ ...saboteur, promptTemplate: "pirate" }).ok).toBe(false);
+    expect(validateProfile({ ...saboteur, name: "Saboteur" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Seeded Randomness Tests
+ *
+ * Unit tests for the reproducible random streams testing agents draw from
+ */
+
+import { describe, test, expect } from "bun:test";
+import { createRandom, deriveSeed } from "../orchestrator/random";
+
+function draw(seed: number, count: number): number[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+}
+
+describe("Seeded Randomness", () => {
+  test("should repeat the same stream for the same seed", () => {
+    const values = draw(42, 5);
+
+    expect(draw(42, 5)).toEqual(values);
+    expect(draw(43, 5)).not.toEqual(values);
+    for (const value of values) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test("should derive a stable, distinct seed per agent", () => {
+    const leader = deriveSeed(42, "leader-0");
+
+    expect(deriveSeed(42, "leader-0")).toBe(leader);
+    expect(deriveSeed(42, "follower-1")).not.toBe(leader);
+    expect(deriveSeed(7, "leader-0")).not.toBe(leader);
+    expect(Number.isInteger(leader) && leader >= 0 && leader <= 0xffffffff).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Turn Prompt Tests
+ *
+ * Unit tests for the per-turn prompt and response parsing used by
+ * LLM-driven testing agents
+ */
+
+import { describe, test, expect } from "bun:test";
+import { buildTurnPrompt, parseTurnResponse } from "../prompts/turn.prompt";
+
+describe("Turn Prompt", () => {
+  test("should include state, surroundings, chat and last outcome", () => {
+    const prompt = buildTurnPrompt({
+      username: "tester_1",
+      state: {
+        botId: "bot-1",
+        username: "tester_1",
+        status: "spawned",
+        position: { x: 1.4, y: 64, z: -2.6 },
+        orientation: null,
+        health: 20,
+        food: 20,
+        gameMode: "survival",
+        inventory: [{ slot: 36, name: "oak_planks", count: 8 }],
+        lastUpdatedAt: new Date().toISOString(),
+      },
+      perception: {
+        verbosity: "standard",
+        blockUnder: "grass_block",
+        lookingAt: null,
+        entities: [
+          { name: "llm_target", type: "player", position: { x: 4, y: 64, z: 0 }, distance: 3.6, inLineOfSight: true },
+        ],
+        blocks: [
+          { name: "chest", position: { x: 2, y: 64, z: 0 }, distance: 2, inLineOfSight: true },
+        ],
+      },
+      chat: [{ sender: "llm_target", message: "Can you help with the walls?" }],
+      lastOutcome: "dig: failure — No block there",
+    });
+
+    expect(prompt).toContain("You are playing as tester_1.");
+    expect(prompt).toContain("Position: (1, 64, -3)");
+    expect(prompt).toContain("Inventory: oak_planks x8");
+    expect(prompt).toContain("Nearby: llm_target (3.6 blocks)");
+    expect(prompt).toContain("Blocks: chest at (2, 64, 0)");
+    expect(prompt).toContain("<llm_target> Can you help with the walls?");
+    expect(prompt).toContain("## Your last action\ndig: failure — No block there");
+  });
+
+  test("should say when nobody has chatted yet", () => {
+    const prompt = buildTurnPrompt({
+      username: "tester_1",
+      state: null,
+      perception: null,
+      chat: [],
+      lastOutcome: null,
+    });
+
+    expect(prompt).toContain("Nobody has said anything yet.");
+    expect(prompt).not.toContain("## Your last action");
+  });
+
+  test("should parse chat and a valid action", () => {
+    const decision = parseTurnResponse(
+      'Sure. {"chat": "Nah, do it yourself.", "action": {"type": "move-to", "position": {"x": 5, "y": 64, "z": 5}}}',
+      "bot-1",
+    );
+
+    expect(decision.error).toBeNull();
+    expect(decision.chat).toBe("Nah, do it yourself.");
+    expect(decision.action).toEqual({
+      type: "move-to",
+      botId: "bot-1",
+      position: { x: 5, y: 64, z: 5 },
+    });
+  });
+
+  test("should keep the chat line when the action is rejected", () => {
+    const attack = parseTurnResponse(
+      '{"chat": "Take that!", "action": {"type": "attack", "target": "llm_target"}}',
+      "bot-1",
+    );
+    expect(attack.chat).toBe("Take that!");
+    expect(attack.action).toBeNull();
+    expect(attack.error).toBe('Action "attack" is not allowed');
+
+    const invalid = parseTurnResponse('{"chat": null, "action": {"type": "dig"}}', "bot-1");
+    expect(invalid.chat).toBeNull();
+    expect(invalid.error).toStartWith("Invalid dig action");
+  });
+
+  test("should report responses without JSON", () => {
+    expect(parseTurnResponse("I refuse.", "bot-1").error).toBe(
+      "No JSON object in response",
+    );
+  });
+});
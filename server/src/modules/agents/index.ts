@@ -8,7 +8,7 @@
  * - Models registered via .model() and referenced by name
  */
 
-import { Elysia, status } from "elysia";
+import { Elysia, status, t } from "elysia";
 import { AgentService } from "./service";
 import {
   AgentInstanceSchema,
@@ -17,6 +17,10 @@ import {
   AgentActionsResponseSchema,
   AgentSuccessResponseSchema,
   AgentErrorResponseSchema,
+  ProfileDefinitionSchema,
+  ProfileInfoSchema,
+  ProfileListResponseSchema,
+  BehaviorListResponseSchema,
 } from "./model";
 
 export const agentController = new Elysia({
@@ -31,6 +35,10 @@ export const agentController = new Elysia({
     "agent.actions": AgentActionsResponseSchema,
     "agent.success": AgentSuccessResponseSchema,
     "agent.error": AgentErrorResponseSchema,
+    "agent.profile": ProfileDefinitionSchema,
+    "agent.profileInfo": ProfileInfoSchema,
+    "agent.profileList": ProfileListResponseSchema,
+    "agent.behaviorList": BehaviorListResponseSchema,
   })
 
   // -------------------------------------------------------------------------
@@ -99,6 +107,197 @@ export const agentController = new Elysia({
     }
   )
 
+  // -------------------------------------------------------------------------
+  // GET /api/agents/profiles — List behavioral profiles
+  // -------------------------------------------------------------------------
+  .get(
+    "/profiles",
+    () => {
+      const { data } = AgentService.listProfiles();
+      return { profiles: data, count: data.length };
+    },
+    {
+      response: {
+        200: "agent.profileList",
+      },
+      detail: {
+        summary: "List Profiles",
+        description: "Get all built-in and custom behavioral profiles",
+        tags: ["Agents"],
+      },
+    }
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/agents/profiles/:name — Get a behavioral profile
+  // -------------------------------------------------------------------------
+  .get(
+    "/profiles/:name",
+    ({ params }) => {
+      const result = AgentService.getProfile(params.name);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404, {
+          success: false,
+          message: result.message ?? "Failed to get profile",
+          code: result.code,
+        });
+      }
+
+      return result.data!;
+    },
+    {
+      params: t.Object({
+        name: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "agent.profileInfo",
+        404: "agent.error",
+      },
+      detail: {
+        summary: "Get Profile",
+        description: "Get a built-in or custom behavioral profile by name",
+        tags: ["Agents"],
+      },
+    }
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/agents/profiles — Define a custom profile
+  // -------------------------------------------------------------------------
+  .post(
+    "/profiles",
+    ({ body }) => {
+      const result = AgentService.createProfile(body);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 409 | 500, {
+          success: false,
+          message: result.message ?? "Failed to create profile",
+          code: result.code,
+        });
+      }
+
+      return result.data!;
+    },
+    {
+      body: "agent.profile",
+      response: {
+        200: "agent.profileInfo",
+        400: "agent.error",
+        409: "agent.error",
+        500: "agent.error",
+      },
+      detail: {
+        summary: "Create Profile",
+        description:
+          "Define a custom behavioral profile from registered behaviors and save it " +
+          "to the profile directory as <name>.json. Available to new agents immediately.",
+        tags: ["Agents"],
+      },
+    }
+  )
+
+  // -------------------------------------------------------------------------
+  // PUT /api/agents/profiles/:name — Replace a custom profile
+  // -------------------------------------------------------------------------
+  .put(
+    "/profiles/:name",
+    ({ params, body }) => {
+      const result = AgentService.updateProfile(params.name, body);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 409 | 500, {
+          success: false,
+          message: result.message ?? "Failed to update profile",
+          code: result.code,
+        });
+      }
+
+      return result.data!;
+    },
+    {
+      params: t.Object({
+        name: t.String({ minLength: 1 }),
+      }),
+      body: "agent.profile",
+      response: {
+        200: "agent.profileInfo",
+        400: "agent.error",
+        404: "agent.error",
+        409: "agent.error",
+        500: "agent.error",
+      },
+      detail: {
+        summary: "Update Profile",
+        description:
+          "Replace a custom profile. The body's name must match the path; " +
+          "built-in profiles cannot be changed. Applies to agents spawned afterwards.",
+        tags: ["Agents"],
+      },
+    }
+  )
+
+  // -------------------------------------------------------------------------
+  // DELETE /api/agents/profiles/:name — Delete a custom profile
+  // -------------------------------------------------------------------------
+  .delete(
+    "/profiles/:name",
+    async ({ params }) => {
+      const result = await AgentService.deleteProfile(params.name);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return {
+        success: true,
+        message: result.message,
+      };
+    },
+    {
+      params: t.Object({
+        name: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "agent.success",
+        404: "agent.error",
+        409: "agent.error",
+        500: "agent.error",
+      },
+      detail: {
+        summary: "Delete Profile",
+        description:
+          "Delete a custom profile file. Refused for built-in profiles, while an agent uses it, " +
+          "and while a scenario, schedule or not-yet-started test refers to it.",
+        tags: ["Agents"],
+      },
+    }
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/agents/behaviors — List registered behaviors
+  // -------------------------------------------------------------------------
+  .get(
+    "/behaviors",
+    () => AgentService.listBehaviors().data,
+    {
+      response: {
+        200: "agent.behaviorList",
+      },
+      detail: {
+        summary: "List Behaviors",
+        description:
+          "Get every registered Minecraft behavior a profile can list, with its kind",
+        tags: ["Agents"],
+      },
+    }
+  )
+
   // -------------------------------------------------------------------------
   // GET /api/agents/:agentId — Get specific agent
   // -------------------------------------------------------------------------
@@ -14,7 +14,8 @@ import { t } from "elysia";
 // Behavioral Profile Types
 // ---------------------------------------------------------------------------
 
-export const BehavioralProfileSchema = t.Union([
+/** Profiles shipped with the server; each also names a prompt template. */
+export const BuiltInProfileSchema = t.Union([
   t.Literal("leader"),
   t.Literal("non-cooperator"),
   t.Literal("confuser"),
@@ -22,6 +23,14 @@ export const BehavioralProfileSchema = t.Union([
   t.Literal("task-abandoner"),
   t.Literal("follower"),
 ]);
+export type BuiltInProfile = typeof BuiltInProfileSchema.static;
+
+/** A built-in or custom profile name (kebab-case). */
+export const BehavioralProfileSchema = t.String({
+  minLength: 1,
+  maxLength: 40,
+  pattern: "^[a-z0-9]+(-[a-z0-9]+)*$",
+});
 export type BehavioralProfile = typeof BehavioralProfileSchema.static;
 
 // ---------------------------------------------------------------------------
@@ -38,6 +47,21 @@ export const AgentStatusSchema = t.Union([
 ]);
 export type AgentStatus = typeof AgentStatusSchema.static;
 
+// ---------------------------------------------------------------------------
+// Executor Mode
+// ---------------------------------------------------------------------------
+
+/**
+ * How a testing agent decides what to do:
+ * - "scripted": profile behaviors with canned chat lines
+ * - "llm": an LLM prompted with the agent's system prompt
+ */
+export const AgentExecutorModeSchema = t.Union([
+  t.Literal("scripted"),
+  t.Literal("llm"),
+]);
+export type AgentExecutorMode = typeof AgentExecutorModeSchema.static;
+
 // ---------------------------------------------------------------------------
 // Agent Configuration
 // ---------------------------------------------------------------------------
@@ -50,6 +74,13 @@ const SpawnTeleportSchema = t.Object({
   pitch: t.Optional(t.Number()),
 });
 
+/** Scenario-provided lines a scripted agent says on a fixed timer. */
+export const ScriptedChatSchema = t.Object({
+  lines: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+  intervalSeconds: t.Number({ minimum: 2, maximum: 600 }),
+});
+export type ScriptedChat = typeof ScriptedChatSchema.static;
+
 export const AgentConfigSchema = t.Object({
   profile: BehavioralProfileSchema,
   minecraftBot: t.Object({
@@ -70,6 +101,14 @@ export const AgentConfigSchema = t.Object({
   spawnTeleport: t.Optional(SpawnTeleportSchema),
   /** When set, agent activity is reported to this test run for live dashboard updates. */
   testId: t.Optional(t.String()),
+  /** Scripted behaviors (default) or LLM-driven turns. */
+  executorMode: t.Optional(AgentExecutorModeSchema),
+  /** Model used in "llm" mode (defaults to DEFAULT_TESTING_AGENT_MODEL). */
+  llmModel: t.Optional(t.String()),
+  /** Extra chat lines from the scenario (scripted mode only). */
+  scriptedChat: t.Optional(ScriptedChatSchema),
+  /** Seed for the agent's random choices (unseeded agents use Math.random). */
+  randomSeed: t.Optional(t.Integer({ minimum: 0, maximum: 4294967295 })),
 });
 export type AgentConfig = typeof AgentConfigSchema.static;
 
@@ -123,6 +162,10 @@ export const CreateAgentRequestSchema = t.Object({
   behaviorIntensity: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
   customPromptOverrides: t.Optional(t.Record(t.String(), t.String())),
   spawnTeleport: t.Optional(SpawnTeleportSchema),
+  executorMode: t.Optional(AgentExecutorModeSchema),
+  llmModel: t.Optional(t.String({ minLength: 1 })),
+  scriptedChat: t.Optional(ScriptedChatSchema),
+  randomSeed: t.Optional(t.Integer({ minimum: 0, maximum: 4294967295 })),
 });
 export type CreateAgentRequest = typeof CreateAgentRequestSchema.static;
 
@@ -148,6 +191,143 @@ export const AgentActionsResponseSchema = t.Object({
 });
 export type AgentActionsResponse = typeof AgentActionsResponseSchema.static;
 
+// ---------------------------------------------------------------------------
+// Behavioral Profile Definitions
+// ---------------------------------------------------------------------------
+
+const ChatTriggerSchema = t.Union([
+  t.Literal("trade-offer"),
+  t.Literal("help-request"),
+  t.Literal("question"),
+  t.Literal("direct-mention"),
+]);
+
+const TreeConditionSchema = t.Union([
+  t.Object({
+    kind: t.Literal("has-item"),
+    item: t.String({ minLength: 1 }),
+    min: t.Optional(t.Integer({ minimum: 1 })),
+  }),
+  t.Object({
+    kind: t.Literal("player-nearby"),
+    maxDistance: t.Number({ exclusiveMinimum: 0 }),
+  }),
+  t.Object({
+    kind: t.Literal("heard"),
+    trigger: ChatTriggerSchema,
+    withinSeconds: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+  }),
+  t.Object({ kind: t.Literal("responds") }),
+  t.Object({
+    kind: t.Literal("chance"),
+    probability: t.Number({ minimum: 0, maximum: 1 }),
+  }),
+  t.Object({
+    kind: t.Literal("performed"),
+    behavior: t.String({ minLength: 1 }),
+    atLeast: t.Integer({ minimum: 0 }),
+  }),
+]);
+
+/** A behavior tree node (see orchestrator/behavior-tree.ts). */
+export const BehaviorTreeNodeSchema = t.Recursive((Node) =>
+  t.Union([
+    t.Object({
+      type: t.Literal("selector"),
+      label: t.Optional(t.String()),
+      children: t.Array(Node, { minItems: 1 }),
+    }),
+    t.Object({
+      type: t.Literal("sequence"),
+      label: t.Optional(t.String()),
+      children: t.Array(Node, { minItems: 1 }),
+    }),
+    t.Object({
+      type: t.Literal("condition"),
+      label: t.Optional(t.String()),
+      condition: TreeConditionSchema,
+      negate: t.Optional(t.Boolean()),
+    }),
+    t.Object({
+      type: t.Literal("cooldown"),
+      label: t.Optional(t.String()),
+      seconds: t.Number({ exclusiveMinimum: 0 }),
+      child: Node,
+    }),
+    t.Object({
+      type: t.Literal("action"),
+      label: t.Optional(t.String()),
+      behavior: t.String({ minLength: 1 }),
+    }),
+    t.Object({
+      type: t.Literal("choose"),
+      label: t.Optional(t.String()),
+      behaviors: t.Optional(t.Array(t.String({ minLength: 1 }), { minItems: 1 })),
+    }),
+  ]),
+  { $id: "BehaviorTreeNode" },
+);
+
+const ChatLinesSchema = t.Optional(t.Array(t.String({ minLength: 1 }), { minItems: 1 }));
+
+/** A profile definition, as stored in a custom profile file. */
+export const ProfileDefinitionSchema = t.Object({
+  name: BehavioralProfileSchema,
+  description: t.String({ minLength: 1 }),
+  behaviorRules: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+  actionFrequency: t.Object({
+    minActionsPerMinute: t.Number({ exclusiveMinimum: 0, maximum: 60 }),
+    maxActionsPerMinute: t.Number({ exclusiveMinimum: 0, maximum: 60 }),
+  }),
+  responsePatterns: t.Object({
+    ignoreRate: t.Number({ minimum: 0, maximum: 1 }),
+    responseDelay: t.Object({
+      min: t.Number({ minimum: 0 }),
+      max: t.Number({ minimum: 0 }),
+    }),
+  }),
+  chatReactions: t.Object({
+    "trade-offer": ChatLinesSchema,
+    "help-request": ChatLinesSchema,
+    question: ChatLinesSchema,
+    "direct-mention": ChatLinesSchema,
+  }),
+  /** Registered behavior names (see GET /api/agents/behaviors). */
+  minecraftBehaviors: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+  discordBehaviors: t.Array(t.String({ minLength: 1 })),
+  /** Built-in profile whose prompt template the LLM executor uses. */
+  promptTemplate: BuiltInProfileSchema,
+  /** How scripted agents pick behaviors (default: by intensity). */
+  behaviorTree: t.Optional(BehaviorTreeNodeSchema),
+});
+
+export const ProfileInfoSchema = t.Composite([
+  ProfileDefinitionSchema,
+  t.Object({ builtIn: t.Boolean() }),
+]);
+export type ProfileInfo = typeof ProfileInfoSchema.static;
+
+export const ProfileListResponseSchema = t.Object({
+  profiles: t.Array(ProfileInfoSchema),
+  count: t.Number(),
+});
+export type ProfileListResponse = typeof ProfileListResponseSchema.static;
+
+export const BehaviorListResponseSchema = t.Object({
+  behaviors: t.Array(
+    t.Object({
+      name: t.String(),
+      kind: t.Union([
+        t.Literal("sabotage"),
+        t.Literal("adversarial"),
+        t.Literal("neutral"),
+      ]),
+    }),
+  ),
+  count: t.Number(),
+});
+export type BehaviorListResponse = typeof BehaviorListResponseSchema.static;
+
 // ---------------------------------------------------------------------------
 // Error Response (reuse from minecraft module)
 // ---------------------------------------------------------------------------
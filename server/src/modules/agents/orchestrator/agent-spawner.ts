@@ -8,7 +8,9 @@
 import type { AgentConfig, AgentInstance } from "../model";
 import { botManager } from "../../minecraft/bot/bot-manager";
 import { buildSystemPrompt } from "../prompts";
+import { profileExists } from "../profiles";
 import { BehaviorExecutor } from "./behavior-executor";
+import { DEFAULT_TESTING_AGENT_MODEL } from "../../../../constants/llm.constants";
 
 export class AgentSpawner {
   /**
@@ -67,11 +69,18 @@ export class AgentSpawner {
           port: config.minecraftBot.port,
           version: config.minecraftBot.version,
           ...(config.testId && { testId: config.testId }),
+          executorMode: config.executorMode ?? "scripted",
+          ...(config.executorMode === "llm" && {
+            llmModel: config.llmModel ?? DEFAULT_TESTING_AGENT_MODEL,
+          }),
+          ...(config.scriptedChat && { scriptedChat: config.scriptedChat }),
+          ...(config.randomSeed !== undefined && { randomSeed: config.randomSeed }),
         },
       };
 
       console.log(
-        `[AgentSpawner] Created agent ${agentId} with profile ${config.profile}`
+        `[AgentSpawner] Created agent ${agentId} with profile ${config.profile}` +
+        (config.executorMode === "llm" ? ` (llm: ${agent.metadata.llmModel})` : "")
       );
 
       return {
@@ -112,6 +121,8 @@ export class AgentSpawner {
 
     if (!config.profile) {
       errors.push("Profile is required");
+    } else if (!profileExists(config.profile)) {
+      errors.push(`Unknown behavioral profile: ${config.profile}`);
     }
 
     if (!config.minecraftBot?.username) {
@@ -3,55 +3,123 @@
  *
  * Manages autonomous behavioral execution for testing agents.
  * Runs background loops that execute profile-specific behaviors
- * using the Mineflayer bot API for real Minecraft actions.
+ * using the Mineflayer bot API for real Minecraft actions. Each
+ * behavior is a module in the behavior registry (see behaviors/).
+ *
+ * Scripted agents also reply to incoming chat between ticks (see
+ * ChatReactor) and, when the scenario provides `scriptedChat`, say its
+ * lines on their own timer. Agents spawned with executorMode "llm" run
+ * the same loop, but each tick is an LLM turn (see LlmBehavior) instead.
+ *
+ * Agents spawned with a `randomSeed` draw every random choice (behavior
+ * selection, walk directions and timings, message rotation) from their
+ * own seeded stream (see random.ts), so two runs with the same seed
+ * face the same adversaries and a replayed run repeats them. Chat
+ * reactions (ignore rolls, reply delays and replies) draw from a second
+ * stream derived with the label "chat": chat arrives whenever the
+ * target speaks, so sharing one stream would let its timing shift
+ * every later behavior choice.
+ *
+ * An agent's `behaviorIntensity` sets how often it acts and, for
+ * adversarial profiles, how hostile its choices are (see intensity.ts).
+ *
+ * Each tick walks the profile's behavior tree (see behavior-tree.ts) to
+ * pick the behavior; chat the ChatReactor hears feeds the tree's memory.
  */
 
-import type { AgentInstance, BehavioralAction } from "../model";
+import type { AgentInstance, BehavioralAction, ScriptedChat } from "../model";
 import type { ProfileDefinition } from "../profiles/types";
 import { getProfile } from "../profiles";
 import { botManager } from "../../minecraft/bot/bot-manager";
 import type { BotInstance } from "../../minecraft/bot/bot-instance";
 import type { Bot as MineflayerBot } from "mineflayer";
-import { Vec3 } from "vec3";
 import { AgentRepository } from "../repository";
 import { recordTestingAgentActivity } from "../../testing/agent-activity";
+import { LlmBehavior } from "./llm-behavior";
+import { ChatReactor, type ChatReaction } from "./chat-reactor";
+import { fillReply } from "./chat-triggers";
+import { actionIntervalMs } from "./intensity";
+import {
+  createTreeMemory,
+  DEFAULT_BEHAVIOR_TREE,
+  recordHeard,
+  recordPerformed,
+  tickBehaviorTree,
+  type TreeMemory,
+  type TreeTick,
+  type TreeWorld,
+} from "./behavior-tree";
+import { DEFAULT_BEHAVIOR_INTENSITY } from "../../../../constants/testing.constants";
+import { createRandom, deriveSeed, type RandomSource } from "./random";
+import { behaviorRegistry } from "./behaviors/behavior-registry";
+import {
+  nearbyPlayers,
+  randInt,
+  subtleMovement,
+  walkRandomDirection,
+} from "./behaviors/helpers";
+import type { BehaviorContext, BehaviorOutcome } from "./behaviors/types";
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Get a random integer in [min, max]. */
-function randInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+/** Per-agent random streams; kept across pause/resume so a stream never restarts. */
+const randomByAgent = new Map<string, RandomSource>();
+
+/** The agent's random stream (Math.random if none was set up). */
+function randomOf(agentId: string): RandomSource {
+  return randomByAgent.get(agentId) ?? Math.random;
 }
 
-/** Pick a random element from an array. */
-function pick<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+/** Per-agent chat reaction streams, kept apart from the behavior streams. */
+const chatRandomByAgent = new Map<string, RandomSource>();
+
+/** The agent's chat reaction stream (Math.random if none was set up). */
+function chatRandomOf(agentId: string): RandomSource {
+  return chatRandomByAgent.get(agentId) ?? Math.random;
+}
+
+/** Per-agent behavior tree memory (cooldowns, performed behaviors, heard chat). */
+const treeMemoryByAgent = new Map<string, TreeMemory>();
+
+/** The agent's behavior tree memory, created on first use. */
+function treeMemoryOf(agentId: string): TreeMemory {
+  let memory = treeMemoryByAgent.get(agentId);
+  if (!memory) {
+    memory = createTreeMemory();
+    treeMemoryByAgent.set(agentId, memory);
+  }
+  return memory;
 }
 
 /** Per-agent, per-message-key index so we cycle through messages and never repeat until all used. */
 const messageIndexByAgentAndKey = new Map<string, Map<string, number>>();
 
-/** Pick the next message in rotation for this agent + key so we don't repeat the same phrase. */
-function pickNextMessage(agentId: string, key: string, messages: string[]): string {
+/**
+ * Pick the next message in rotation for this agent + key so we don't repeat the same phrase.
+ * Each rotation starts at a random message drawn from `random` (the agent's behavior stream
+ * unless given).
+ */
+function pickNextMessage(
+  agentId: string,
+  key: string,
+  messages: string[],
+  random: RandomSource = randomOf(agentId),
+): string {
   if (messages.length === 0) return "";
   let byKey = messageIndexByAgentAndKey.get(agentId);
   if (!byKey) {
     byKey = new Map();
     messageIndexByAgentAndKey.set(agentId, byKey);
   }
-  const idx = (byKey.get(key) ?? 0) % messages.length;
+  const start = byKey.get(key) ?? randInt(0, messages.length - 1, random);
+  const idx = start % messages.length;
   const msg = messages[idx];
   byKey.set(key, idx + 1);
   return msg;
 }
 
-/** Sleep for ms milliseconds. */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Safely get the underlying Mineflayer bot from a BotInstance.
  * Returns null if the bot is not connected.
@@ -60,27 +128,26 @@ function getMineflayer(botInstance: BotInstance): MineflayerBot | null {
   return botInstance.mineflayerBot ?? null;
 }
 
-// ---------------------------------------------------------------------------
-// Chat message pools for different profiles
-// ---------------------------------------------------------------------------
+/**
+ * The agent's seeded random stream, or Math.random if it has no seed.
+ * A `label` derives an independent stream from the same seed.
+ */
+function randomFor(agent: AgentInstance, label?: string): RandomSource {
+  const seed = agent.metadata?.randomSeed;
+  if (typeof seed !== "number") return Math.random;
+  return createRandom(label === undefined ? seed : deriveSeed(seed, label));
+}
 
-const CONFUSER_MESSAGES = [
-  "Wait, I thought we were going north?",
-  "Actually, let's build the shelter underground instead!",
-  "No no, forget what I said — let's gather diamonds first.",
-  "I already finished the roof... wait, where did it go?",
-  "Let me handle the walls. Actually, you do the walls.",
-  "The plan changed, we need obsidian now.",
-];
+/** The agent's behavior intensity (0-1). */
+function intensityOf(agent: AgentInstance): number {
+  const intensity = agent.metadata?.behaviorIntensity;
+  return typeof intensity === "number" ? intensity : DEFAULT_BEHAVIOR_INTENSITY;
+}
 
-const OVER_COMMUNICATOR_MESSAGES = [
-  "I just took a step forward!",
-  "Looking around... I see trees. And dirt. And more trees.",
-  "Update: I'm still standing here.",
-  "Just checking in, everything is fine on my end!",
-  "Did everyone hear what I said? Let me repeat it.",
-  "Important announcement: I moved slightly to the left.",
-];
+/** Whether the agent was spawned in the LLM-driven executor mode. */
+function isLlmDriven(agent: AgentInstance): boolean {
+  return agent.metadata?.executorMode === "llm";
+}
 
 // ---------------------------------------------------------------------------
 // BehaviorExecutor
@@ -88,6 +155,7 @@ const OVER_COMMUNICATOR_MESSAGES = [
 
 export class BehaviorExecutor {
   private static activeExecutors = new Map<string, NodeJS.Timeout>();
+  private static scriptedChatTimers = new Map<string, NodeJS.Timeout>();
 
   /**
    * Initialize behavioral execution for an agent.
@@ -95,20 +163,38 @@ export class BehaviorExecutor {
    */
   static async initialize(agent: AgentInstance): Promise<void> {
     const profile = getProfile(agent.profile);
-    const intervalMs = this.calculateInterval(profile.actionFrequency);
+    if (!profile) {
+      throw new Error(`Unknown behavioral profile: ${agent.profile}`);
+    }
+    const intervalMs = actionIntervalMs(profile.actionFrequency, intensityOf(agent));
     const isLeader = agent.profile === "leader";
+    if (!randomByAgent.has(agent.agentId)) {
+      randomByAgent.set(agent.agentId, randomFor(agent));
+    }
+    if (!chatRandomByAgent.has(agent.agentId)) {
+      chatRandomByAgent.set(agent.agentId, randomFor(agent, "chat"));
+    }
+
+    const botInstance = botManager.getBot(agent.minecraftBotId);
+    if (botInstance && isLlmDriven(agent)) {
+      LlmBehavior.attach(agent, botInstance);
+    } else if (botInstance) {
+      ChatReactor.attach(
+        agent,
+        botInstance,
+        (reaction) => this.executeReaction(agent.agentId, reaction),
+        chatRandomOf(agent.agentId),
+        (triggers, sender) =>
+          recordHeard(treeMemoryOf(agent.agentId), triggers, sender, Date.now()),
+      );
+    }
 
     const startLoop = () => {
-      const interval = setInterval(async () => {
-        try {
-          await this.executeBehavior(agent);
-        } catch (error) {
-          console.error(`[BehaviorExecutor] Error for agent ${agent.agentId}:`, error);
-        }
-      }, intervalMs);
-      this.activeExecutors.set(agent.agentId, interval);
+      this.activeExecutors.set(agent.agentId, this.startActionLoop(agent, intervalMs));
+      if (!isLlmDriven(agent)) this.startScriptedChat(agent);
       console.log(
-        `[BehaviorExecutor] Started for agent ${agent.agentId} (${agent.profile})`
+        `[BehaviorExecutor] Started for agent ${agent.agentId} (${agent.profile}` +
+        `${isLlmDriven(agent) ? ", llm" : ""})`
       );
     };
 
@@ -124,6 +210,31 @@ export class BehaviorExecutor {
     }
   }
 
+  /**
+   * Restart a running agent's action loop at the pace set by its current
+   * `behaviorIntensity`. Does nothing if the loop is not running.
+   */
+  static reschedule(agent: AgentInstance): void {
+    const interval = this.activeExecutors.get(agent.agentId);
+    const profile = getProfile(agent.profile);
+    if (!interval || !profile) return;
+
+    clearInterval(interval);
+    const intervalMs = actionIntervalMs(profile.actionFrequency, intensityOf(agent));
+    this.activeExecutors.set(agent.agentId, this.startActionLoop(agent, intervalMs));
+  }
+
+  /** Run the agent's behavior every `intervalMs`. */
+  private static startActionLoop(agent: AgentInstance, intervalMs: number): NodeJS.Timeout {
+    return setInterval(async () => {
+      try {
+        await this.executeBehavior(agent);
+      } catch (error) {
+        console.error(`[BehaviorExecutor] Error for agent ${agent.agentId}:`, error);
+      }
+    }, intervalMs);
+  }
+
   /**
    * Execute a behavioral action based on profile
    */
@@ -131,6 +242,12 @@ export class BehaviorExecutor {
     const profile = getProfile(agent.profile);
     const botInstance = botManager.getBot(agent.minecraftBotId);
 
+    if (!profile) {
+      // A custom profile file went missing or became invalid mid-run
+      console.warn(`[BehaviorExecutor] Profile ${agent.profile} not found for agent ${agent.agentId}`);
+      return;
+    }
+
     if (!botInstance) {
       console.warn(`[BehaviorExecutor] Bot ${agent.minecraftBotId} not found for agent ${agent.agentId}`);
       return;
@@ -142,28 +259,48 @@ export class BehaviorExecutor {
       return;
     }
 
-    // Leader gives tasks first; then select behavior (with build bias when they have planks)
-    const behavior = this.selectBehavior(profile, currentAgent, botInstance);
+    if (isLlmDriven(currentAgent)) {
+      const turn = await LlmBehavior.runTurn(currentAgent, botInstance);
+      if (!turn) return;
+      await this.logAction(currentAgent.agentId, turn.behavior, turn.success, turn.notes);
+      await AgentRepository.update(currentAgent.agentId, {
+        lastActionAt: new Date().toISOString(),
+        actionCount: currentAgent.actionCount + 1,
+      });
+      return;
+    }
+
+    const tick = this.selectBehavior(profile, currentAgent, botInstance);
+    const behavior = tick.behavior;
 
     // Execute in Minecraft
-    const result = await this.executeMinecraftBehavior(botInstance, behavior, currentAgent);
+    const outcome = await this.runBehavior(botInstance, behavior, currentAgent);
+    const success = outcome.status !== "failed";
+    if (success) recordPerformed(treeMemoryOf(currentAgent.agentId), behavior);
+    console.log(
+      `[${currentAgent.agentId}] ${behavior} (${outcome.status}): ${outcome.detail}` +
+      ` [${tick.activePath.join(" > ")}]`
+    );
 
-    // Report to test dashboard for live updates (actions, metrics)
+    // Report to test dashboard for live updates (actions, metrics, tree debug view)
     const testId = currentAgent.metadata?.testId as string | undefined;
-    if (result && testId) {
+    if (testId) {
       void recordTestingAgentActivity(testId, currentAgent.agentId, {
-        action: { actionType: behavior, actionDetail: behavior, success: true },
+        action: success
+          ? { actionType: behavior, actionDetail: outcome.detail, success }
+          : undefined,
+        behaviorTree: { profile: currentAgent.profile, ...tick },
       });
     }
 
     // Always drift a little so bots aren't standing still for long
     const mcBot = getMineflayer(botInstance);
     if (mcBot) {
-      await this.subtleMovement(mcBot);
+      await subtleMovement(mcBot, randomOf(currentAgent.agentId));
     }
 
     // Log action
-    await this.logAction(currentAgent.agentId, behavior, result);
+    await this.logAction(currentAgent.agentId, behavior, success, outcome.detail);
 
     // Update agent stats
     await AgentRepository.update(currentAgent.agentId, {
@@ -173,962 +310,186 @@ export class BehaviorExecutor {
   }
 
   /**
-   * Select a behavior to execute.
-   * Leader and follower: actions (grab planks, place blocks) are the main task; chat is secondary.
+   * Select a behavior by ticking the profile's behavior tree (the
+   * default tree just chooses by intensity) against a snapshot of the
+   * bot's world.
    */
   private static selectBehavior(
     profile: ProfileDefinition,
     agent: AgentInstance,
-    botInstance: BotInstance | null | undefined,
-  ): string {
-    const behaviors = profile.minecraftBehaviors;
-    const hasPlanks = botInstance && (() => {
-      const mcBot = getMineflayer(botInstance);
-      if (!mcBot) return false;
-      return mcBot.inventory.items().some((i) => i.name && i.name.includes("planks"));
-    })();
+    botInstance: BotInstance,
+  ): TreeTick {
+    const mcBot = getMineflayer(botInstance);
+    const world: TreeWorld = {
+      itemCount: (match) =>
+        mcBot?.inventory.items()
+          .filter((i) => i.name?.includes(match))
+          .reduce((sum, i) => sum + i.count, 0) ?? 0,
+      nearestPlayerDistance: () => {
+        if (!mcBot?.entity) return null;
+        const distances = nearbyPlayers(mcBot).map((e) =>
+          e.position.distanceTo(mcBot.entity.position),
+        );
+        return distances.length > 0 ? Math.min(...distances) : null;
+      },
+    };
 
-    // -----------------------------------------------------------------------
-    // Leader: grab planks first, then one line of task, then place 3 blocks. Then keep building.
-    // -----------------------------------------------------------------------
-    if (agent.profile === "leader") {
-      if (agent.actionCount === 0 && behaviors.includes("open-chest-and-take-materials")) return "open-chest-and-take-materials";
-      if (agent.actionCount === 1 && behaviors.includes("give-initial-tasks")) return "give-initial-tasks";
-      if (agent.actionCount === 2 && behaviors.includes("place-three-blocks")) return "place-three-blocks";
+    return tickBehaviorTree(
+      profile.behaviorTree ?? DEFAULT_BEHAVIOR_TREE,
+      {
+        world,
+        random: randomOf(agent.agentId),
+        now: Date.now(),
+        intensity: intensityOf(agent),
+        behaviors: profile.minecraftBehaviors,
+        ignoreRate: profile.responsePatterns.ignoreRate,
+        kindOf: (b) => behaviorRegistry.get(b)?.kind ?? "neutral",
+      },
+      treeMemoryOf(agent.agentId),
+    );
+  }
 
-      // From action 3 onward: actions over talk. If no planks, go get them from chest.
-      const leaderActionBehaviors = [
-        "open-chest-and-take-materials",
-        "place-blocks-for-house",
-        "lead-building-effort",
-        "coordinate-with-team",
-        "assist-with-tasks",
-        "gather-requested-resources",
-      ];
-      const leaderChatBehaviors = ["reason-with-rebel"];
-      const availableActions = leaderActionBehaviors.filter((b) => behaviors.includes(b));
-      const availableChat = leaderChatBehaviors.filter((b) => behaviors.includes(b));
+  /**
+   * Reply to a chat message picked up by the ChatReactor.
+   * Skipped if the agent was paused or terminated while the reply was pending.
+   */
+  private static async executeReaction(
+    agentId: string,
+    reaction: ChatReaction,
+  ): Promise<void> {
+    const agent = await AgentRepository.findById(agentId);
+    if (!agent || agent.status !== "active") return;
 
-      // 85% do an action; 15% maybe reason with rebel
-      if (Math.random() < 0.85 && availableActions.length > 0) {
-        if (!hasPlanks && behaviors.includes("open-chest-and-take-materials")) {
-          return "open-chest-and-take-materials";
-        }
-        return pick(availableActions);
-      }
-      if (availableChat.length > 0 && Math.random() < 0.5) return pick(availableChat);
-      return pick(availableActions.length > 0 ? availableActions : behaviors);
+    const botInstance = botManager.getBot(agent.minecraftBotId);
+    const mcBot = botInstance ? getMineflayer(botInstance) : null;
+    if (!mcBot) return;
+
+    const reply = fillReply(
+      pickNextMessage(
+        agentId,
+        `react-${reaction.trigger}`,
+        reaction.replies,
+        chatRandomOf(agentId),
+      ),
+      reaction.sender,
+    );
+    mcBot.chat(reply);
+
+    const testId = agent.metadata?.testId as string | undefined;
+    if (testId) {
+      void recordTestingAgentActivity(testId, agentId, {
+        chat: { message: reply, channel: "text" },
+      });
     }
 
-    // -----------------------------------------------------------------------
-    // Follower: prioritize grabbing planks and building; mediation is rare
-    // -----------------------------------------------------------------------
-    if (agent.profile === "follower") {
-      const followerActionBehaviors = [
-        "open-chest-and-take-materials",
-        "place-blocks-for-house",
-        "follow-leader-tasks",
-        "assist-with-tasks",
-        "follow-instructions",
-        "coordinate-with-team",
-      ];
-      const followerChatBehaviors = ["mediate-to-rebel", "mediate-to-leader"];
-      const availableActions = followerActionBehaviors.filter((b) => behaviors.includes(b));
-      const availableChat = followerChatBehaviors.filter((b) => behaviors.includes(b));
+    console.log(`[${agentId}] Reacted to ${reaction.trigger} from ${reaction.sender}`);
+    await this.logAction(
+      agentId,
+      `react-${reaction.trigger}`,
+      true,
+      `Replied to <${reaction.sender}> ${reaction.message}`,
+    );
+  }
 
-      if (Math.random() < 0.85 && availableActions.length > 0) {
-        if (!hasPlanks && behaviors.includes("open-chest-and-take-materials")) {
-          return "open-chest-and-take-materials";
-        }
-        return pick(availableActions);
-      }
-      if (availableChat.length > 0 && Math.random() < 0.3) return pick(availableChat);
-      return pick(availableActions.length > 0 ? availableActions : behaviors);
-    }
+  /**
+   * Say the scenario's scripted lines on their own timer, independent of
+   * the behavior loop (e.g. a chat flood or a planted false claim).
+   */
+  private static startScriptedChat(agent: AgentInstance): void {
+    const scripted = agent.metadata?.scriptedChat as ScriptedChat | undefined;
+    if (!scripted || scripted.lines.length === 0) return;
+
+    const timer = setInterval(() => {
+      this.sayScriptedLine(agent.agentId, scripted.lines).catch((error) => {
+        console.error(`[BehaviorExecutor] Scripted chat failed for ${agent.agentId}:`, error);
+      });
+    }, scripted.intervalSeconds * 1000);
+    this.scriptedChatTimers.set(agent.agentId, timer);
+  }
+
+  private static async sayScriptedLine(agentId: string, lines: string[]): Promise<void> {
+    const agent = await AgentRepository.findById(agentId);
+    if (!agent || agent.status !== "active") return;
+
+    const botInstance = botManager.getBot(agent.minecraftBotId);
+    const mcBot = botInstance ? getMineflayer(botInstance) : null;
+    if (!mcBot) return;
 
-    // -----------------------------------------------------------------------
-    // Non-cooperator: bias toward breaking leader's blocks or sabotage
-    // -----------------------------------------------------------------------
-    if (agent.profile === "non-cooperator") {
-      // Only break blocks and chat — no resource gathering; bias toward breaking
-      if (behaviors.includes("break-leader-blocks") && Math.random() < 0.65) return "break-leader-blocks";
+    const message = pickNextMessage(agentId, "scripted-chat", lines);
+    mcBot.chat(message);
+
+    const testId = agent.metadata?.testId as string | undefined;
+    if (testId) {
+      void recordTestingAgentActivity(testId, agentId, {
+        chat: { message, channel: "text" },
+      });
     }
 
-    return behaviors[Math.floor(Math.random() * behaviors.length)];
+    await this.logAction(agentId, "scripted-chat", true, message);
   }
 
   // -------------------------------------------------------------------------
-  // Core Minecraft behavior implementations
+  // Running behavior modules
   // -------------------------------------------------------------------------
 
   /**
-   * Execute Minecraft action based on behavior.
-   * Key behaviors have real Mineflayer implementations;
-   * the rest use lightweight fallbacks (chat / random movement).
+   * Run a registered behavior module in Minecraft and return its outcome.
+   * An unmet precondition or an unknown behavior makes the agent wander
+   * instead.
    */
-  private static async executeMinecraftBehavior(
+  private static async runBehavior(
     botInstance: BotInstance,
     behavior: string,
     agent: AgentInstance,
-  ): Promise<boolean> {
+  ): Promise<BehaviorOutcome> {
     const mcBot = getMineflayer(botInstance);
     if (!mcBot) {
       console.warn(`[BehaviorExecutor] Mineflayer bot not ready for ${agent.agentId}`);
-      return false;
+      return { status: "failed", detail: "Mineflayer bot not ready" };
     }
+    const random = randomOf(agent.agentId);
 
     const testId = agent.metadata?.testId as string | undefined;
-    const chat = (msg: string): void => {
-      mcBot.chat(msg);
-      if (testId) {
-        void recordTestingAgentActivity(testId, agent.agentId, {
-          chat: { message: msg, channel: "text" },
-        });
-      }
-    };
-
-    try {
-      switch (behavior) {
-        // ==================================================================
-        // NON-COOPERATIVE BEHAVIORS (implemented — rebel but still do some building)
-        // ==================================================================
-
-        case "take-from-chest-but-keep": {
-          // Open chest, take planks, refuse to share
-          const chestBlock = mcBot.findBlock({
-            matching: (b) =>
-              b.name.includes("chest") || b.name === "trapped_chest",
-            maxDistance: 16,
-          });
-
-          if (chestBlock) {
-            try {
-              await mcBot.lookAt(chestBlock.position, true);
-              const container = await mcBot.openContainer(chestBlock);
-              // Match planks by name (handles "oak_planks" and "minecraft:oak_planks")
-              const chestItems = (container as { containerItems?: () => Array<{ name: string; type: number; count: number }> }).containerItems?.() ?? container.slots;
-              for (const slot of chestItems) {
-                if (slot && slot.name && slot.name.includes("planks")) {
-                  const count = Math.min(slot.count, 8);
-                  await (container as any).withdraw(slot.type, null, count);
-                  const rebelMessages = [
-                    "Took some planks. Don't even ask, they're mine.",
-                    "Found planks. I'm keeping them for myself.",
-                    "Mine now. You can find your own.",
-                    "Nice planks. Too bad you can't have any.",
-                  ];
-                  chat(pickNextMessage(agent.agentId, "take-from-chest-but-keep", rebelMessages));
-                  console.log(`[${agent.agentId}] Took ${count} planks from chest, refused to share`);
-                  break;
-                }
-              }
-              container.close();
-            } catch (err) {
-              console.warn(`[${agent.agentId}] Chest failed:`, err);
-            }
-            return true;
-          }
-          chat(pickNextMessage(agent.agentId, "take-from-chest-no-chest", ["I'm not sharing anything from that chest."]));
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "break-leader-blocks": {
-          // Disruptor: find and break blocks the leader (or others) placed — prioritize wooden planks
-          const plankNames = ["oak_planks", "spruce_planks", "birch_planks", "acacia_planks", "dark_oak_planks", "jungle_planks"];
-          const otherBuildNames = ["cobblestone", "stone", "stone_bricks"];
-          const pos = mcBot.entity.position;
-          const maxDist = 10;
-          const candidates: { block: NonNullable<ReturnType<MineflayerBot["blockAt"]>>; dist: number; isPlank: boolean }[] = [];
-          for (let x = -maxDist; x <= maxDist; x++) {
-            for (let z = -maxDist; z <= maxDist; z++) {
-              for (let y = -2; y <= 3; y++) {
-                const b = mcBot.blockAt(pos.offset(x, y, z));
-                if (!b || b.name === "air") continue;
-                const isPlank = plankNames.some((n) => b.name?.includes(n) || b.name === n);
-                const isOther = otherBuildNames.some((n) => b.name?.includes(n) || b.name === n);
-                if (isPlank || isOther) {
-                  const dist = pos.distanceTo(b.position);
-                  if (dist <= maxDist && dist >= 1) candidates.push({ block: b, dist, isPlank });
-                }
-              }
-            }
-          }
-          // Prioritize planks first (non-cooperator targets wooden planks when they're placed)
-          candidates.sort((a, b) => {
-            if (a.isPlank !== b.isPlank) return a.isPlank ? -1 : 1;
-            return a.dist - b.dist;
-          });
-          let broken = 0;
-          let brokePlank = false;
-          for (const { block, isPlank } of candidates) {
-            if (broken >= 3) break;
-            try {
-              await mcBot.lookAt(block.position, true);
-              await mcBot.dig(block);
-              broken++;
-              if (isPlank) brokePlank = true;
-            } catch {
-              // block might be protected or out of range
-            }
-          }
-          const plankBreakMessages = [
-            "That plank's coming down.",
-            "No wooden plank stays.",
-            "Breaking that plank. Don't like it? Too bad.",
-            "Your plank. My pick.",
-          ];
-          const breakMessages = [
-            "Didn't want that there anyway.",
-            "Your build, my rules.",
-            "Cleaning up. My way.",
-            "Nope. Taking it down.",
-            "That doesn't belong there.",
-            "I said no house.",
-          ];
-          if (broken > 0) {
-            if (brokePlank) {
-              chat(pickNextMessage(agent.agentId, "break-leader-blocks-plank", plankBreakMessages));
-            } else {
-              chat(pickNextMessage(agent.agentId, "break-leader-blocks", breakMessages));
-            }
-            console.log(`[${agent.agentId}] Disruptor broke ${broken} blocks (planks prioritized)`);
-          }
-          return true;
-        }
-
-        case "sabotage-building": {
-          // Place blocks in wrong/random places (rebel by building poorly)
-          const items = mcBot.inventory.items();
-          const planks = items.find((i) => i.name.includes("planks"));
-
-          if (planks) {
-            await mcBot.equip(planks, "hand");
-            const pos = mcBot.entity.position;
-            // Place in odd spot — offset further away or wrong direction
-            const oddOffsets = [
-              [3, 0, 3],
-              [-2, 1, 2],
-              [2, 0, -2],
-            ];
-            const [dx, dy, dz] = oddOffsets[randInt(0, oddOffsets.length - 1)];
-            const targetPos = pos.offset(dx, dy, dz);
-            const refBlock = mcBot.blockAt(targetPos.offset(0, -1, 0));
-            if (refBlock && refBlock.name !== "air") {
-              try {
-                await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                const sabotageMessages = [
-                  "I'll put a block... here. Yeah, here.",
-                  "Building my way. Don't like it? Too bad.",
-                  "This is where it goes. Trust me.",
-                  "I know what I'm doing. Sort of.",
-                ];
-                chat(pickNextMessage(agent.agentId, "sabotage-building", sabotageMessages));
-                console.log(`[${agent.agentId}] Sabotaged building — placed block in wrong spot`);
-                return true;
-              } catch {
-                // fall through
-              }
-            }
-          }
-          chat("Whatever. I'll do my own thing.");
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "collect-resources-selfishly": {
-          // Find and mine a nearby block, then brag or refuse to share
-          const targetNames = [
-            "oak_log", "birch_log", "spruce_log", "dark_oak_log",
-            "stone", "cobblestone", "coal_ore", "iron_ore",
-          ];
-          const block = mcBot.findBlock({
-            matching: (b) => targetNames.includes(b.name),
-            maxDistance: 16,
-          });
-
-          if (block) {
-            await mcBot.lookAt(block.position, true);
-            await mcBot.dig(block);
-
-            // Vocally brag or refuse to share what was mined
-            const hoardMessages = [
-              `Nice, found some ${block.name}. This is all mine though.`,
-              `I'm keeping this ${block.name} for myself, don't even ask.`,
-              `Finders keepers! This ${block.name} is mine.`,
-              `Got some ${block.name}. No, you can't have any.`,
-            ];
-            chat(pickNextMessage(agent.agentId, "collect-resources-selfishly", hoardMessages));
-            console.log(`[${agent.agentId}] Selfishly mined ${block.name} and bragged`);
-            return true;
-          }
-
-          await this.walkRandomDirection(mcBot);
-          chat("I'm looking for resources... for myself.");
-          return true;
-        }
-
-        case "refuse-to-share": {
-          // Actively refuse cooperation with vocal responses
-          const refusalMessages = [
-            "Nah, I'm not helping with that.",
-            "Sorry, I'm busy doing my own thing.",
-            "Why should I help you? What's in it for me?",
-            "I don't feel like cooperating right now.",
-            "No thanks, I'd rather work alone.",
-            "You can do that yourself, I'm not interested.",
-            "I have my own plans, figure it out yourself.",
-            "Not my problem. Go ask someone else.",
-            "I'm gonna pass on that. Good luck though.",
-            "Nope. I have better things to do.",
-          ];
-          chat(pickNextMessage(agent.agentId, "refuse-to-share", refusalMessages));
-
-          // Also physically walk away from nearby players
-          const nearbyPlayers = Object.values(mcBot.entities).filter(
-            (e) => e.type === "player" && e !== mcBot.entity &&
-              e.position.distanceTo(mcBot.entity.position) < 12,
-          );
-
-          if (nearbyPlayers.length > 0) {
-            const nearest = nearbyPlayers[0];
-            const dx = mcBot.entity.position.x - nearest.position.x;
-            const dz = mcBot.entity.position.z - nearest.position.z;
-            const dist = Math.sqrt(dx * dx + dz * dz) || 1;
-            await mcBot.lookAt(
-              mcBot.entity.position.offset((dx / dist) * 5, 0, (dz / dist) * 5),
-              true,
-            );
-            mcBot.setControlState("forward", true);
-            await sleep(2000);
-            mcBot.setControlState("forward", false);
-          }
-          console.log(`[${agent.agentId}] Vocally refused to help and walked away`);
-          return true;
-        }
-
-        case "avoid-helping-others": {
-          // Detect nearby players, announce refusal, and move away
-          const players = Object.values(mcBot.entities).filter(
-            (e) => e.type === "player" && e !== mcBot.entity &&
-              e.position.distanceTo(mcBot.entity.position) < 12,
-          );
-
-          if (players.length > 0) {
-            const avoidMessages = [
-              "Leave me alone, I'm doing my own thing.",
-              "Stop following me, I don't want to help.",
-              "I already told you, I'm not interested in teamwork.",
-              "Can you stop? I'm working on something else.",
-              "Go build your shelter without me.",
-              "I don't do group projects.",
-            ];
-            chat(pickNextMessage(agent.agentId, "avoid-helping-others", avoidMessages));
-
-            const nearest = players[0];
-            const dx = mcBot.entity.position.x - nearest.position.x;
-            const dz = mcBot.entity.position.z - nearest.position.z;
-            mcBot.setControlState("sprint", true);
-            mcBot.setControlState("forward", true);
-            await mcBot.lookAt(
-              mcBot.entity.position.offset(dx, 0, dz),
-              true,
-            );
-            await sleep(1500);
-            mcBot.setControlState("forward", false);
-            mcBot.setControlState("sprint", false);
-            console.log(`[${agent.agentId}] Told players off and sprinted away`);
-          } else {
-            await this.walkRandomDirection(mcBot);
-            chat("Finally, some peace and quiet away from everyone.");
-          }
-          return true;
-        }
-
-        case "work-on-own-tasks": {
-          // "Busy" doing own thing, vocally dismissive
-          const busyMessages = [
-            "I'm busy, don't bother me.",
-            "I have my own goals right now.",
-            "I'm working on a solo project, leave me out of yours.",
-            "Not everything has to be a team effort you know.",
-            "I work better alone.",
-          ];
-          chat(pickNextMessage(agent.agentId, "work-on-own-tasks", busyMessages));
-          await this.walkRandomDirection(mcBot);
-          console.log(`[${agent.agentId}] Working on own tasks (dismissive)`);
-          return true;
-        }
-
-        // ==================================================================
-        // CONFUSER BEHAVIORS (implemented)
-        // ==================================================================
-
-        case "go-to-wrong-locations": {
-          // Walk in a random direction away from any goal
-          const randomX = mcBot.entity.position.x + randInt(-30, 30);
-          const randomZ = mcBot.entity.position.z + randInt(-30, 30);
-          const target = mcBot.entity.position.offset(
-            randomX - mcBot.entity.position.x,
-            0,
-            randomZ - mcBot.entity.position.z,
-          );
-          await mcBot.lookAt(target, true);
-          mcBot.setControlState("forward", true);
-          await sleep(3000);
-          mcBot.setControlState("forward", false);
-          chat("I think the build site is this way!");
-          console.log(`[${agent.agentId}] Went to wrong location and lied about it`);
-          return true;
-        }
-
-        case "start-then-change-direction": {
-          // Start walking one direction, then abruptly change
-          mcBot.setControlState("forward", true);
-          await sleep(1500);
-          mcBot.setControlState("forward", false);
-
-          // Rotate ~90-180 degrees by looking at a different offset
-          const yawOffset = (Math.random() * Math.PI) + (Math.PI / 2);
-          const newTarget = mcBot.entity.position.offset(
-            Math.sin(mcBot.entity.yaw + yawOffset) * 10,
-            0,
-            Math.cos(mcBot.entity.yaw + yawOffset) * 10,
-          );
-          await mcBot.lookAt(newTarget, true);
-          mcBot.setControlState("forward", true);
-          await sleep(1500);
-          mcBot.setControlState("forward", false);
-          chat(pickNextMessage(agent.agentId, "confuser-start-then-change", CONFUSER_MESSAGES));
-          console.log(`[${agent.agentId}] Started then changed direction`);
-          return true;
-        }
-
-        case "collect-wrong-resources": {
-          // Mine a useless block (dirt, sand, gravel) instead of useful ones
-          const uselessNames = ["dirt", "sand", "gravel", "clay"];
-          const block = mcBot.findBlock({
-            matching: (b) => uselessNames.includes(b.name),
-            maxDistance: 16,
+    const ctx: BehaviorContext = {
+      agent,
+      bot: mcBot,
+      random,
+      chat: (msg) => {
+        mcBot.chat(msg);
+        if (testId) {
+          void recordTestingAgentActivity(testId, agent.agentId, {
+            chat: { message: msg, channel: "text" },
           });
-
-          if (block) {
-            await mcBot.lookAt(block.position, true);
-            await mcBot.dig(block);
-            chat("Got the materials we need!");
-            console.log(`[${agent.agentId}] Collected wrong resource: ${block.name}`);
-            return true;
-          }
-
-          // Fallback: send a confusing message
-          chat(pickNextMessage(agent.agentId, "confuser-collect-wrong", CONFUSER_MESSAGES));
-          return true;
-        }
-
-        case "abandon-half-built-structures": {
-          // Place 1-2 blocks then walk away
-          const items = mcBot.inventory.items();
-          const placeableItem = items.find(
-            (i) => i.name.includes("planks") || i.name.includes("stone") ||
-              i.name.includes("cobblestone") || i.name.includes("dirt"),
-          );
-
-          if (placeableItem) {
-            await mcBot.equip(placeableItem, "hand");
-            const below = mcBot.blockAt(
-              mcBot.entity.position.offset(1, -1, 0),
-            );
-            if (below && below.name !== "air") {
-              try {
-                await mcBot.placeBlock(below, new Vec3(0, 1, 0));
-                console.log(`[${agent.agentId}] Placed a block then abandoned it`);
-              } catch {
-                // placement failed, that's fine
-              }
-            }
-          }
-
-          // Walk away
-          await this.walkRandomDirection(mcBot);
-          chat("Actually, I'm gonna work on something else.");
-          return true;
-        }
-
-        // ==================================================================
-        // RESOURCE HOARDER BEHAVIORS (implemented)
-        // ==================================================================
-
-        case "aggressive-resource-collection": {
-          // Find and mine the nearest valuable block aggressively
-          const valuableNames = [
-            "oak_log", "birch_log", "spruce_log",
-            "iron_ore", "coal_ore", "gold_ore", "diamond_ore",
-          ];
-          const block = mcBot.findBlock({
-            matching: (b) => valuableNames.includes(b.name),
-            maxDistance: 24,
-          });
-
-          if (block) {
-            await mcBot.lookAt(block.position, true);
-            mcBot.setControlState("sprint", true);
-            mcBot.setControlState("forward", true);
-            await sleep(1000);
-            mcBot.setControlState("forward", false);
-            mcBot.setControlState("sprint", false);
-
-            // Try to mine it
-            const currentBlock = mcBot.blockAt(block.position);
-            if (currentBlock && currentBlock.name !== "air") {
-              await mcBot.dig(currentBlock);
-              console.log(`[${agent.agentId}] Aggressively collected ${currentBlock.name}`);
-            }
-            return true;
-          }
-
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "claim-mining-areas":
-        case "store-resources-privately":
-        case "race-for-limited-items": {
-          // Simplified: move around collecting things, don't share
-          await this.walkRandomDirection(mcBot);
-          console.log(`[${agent.agentId}] ${behavior} (hoarding resources)`);
-          return true;
-        }
-
-        // ==================================================================
-        // TASK ABANDONER BEHAVIORS (implemented)
-        // ==================================================================
-
-        case "wander-off-mid-task": {
-          // Walk to a random far location
-          mcBot.setControlState("sprint", true);
-          mcBot.setControlState("forward", true);
-          await sleep(randInt(2000, 5000));
-          mcBot.setControlState("forward", false);
-          mcBot.setControlState("sprint", false);
-          chat("brb...");
-          console.log(`[${agent.agentId}] Wandered off mid-task`);
-          return true;
-        }
-
-        case "start-tasks-enthusiastically": {
-          chat("I'll start building right now! Let's go!");
-          mcBot.setControlState("forward", true);
-          await sleep(2000);
-          mcBot.setControlState("forward", false);
-          console.log(`[${agent.agentId}] Started enthusiastically (but won't finish)`);
-          return true;
-        }
-
-        case "abandon-incomplete-builds": {
-          // Same as abandon-half-built-structures: place a block then leave
-          chat("Hmm, this doesn't look right. I'm done.");
-          await this.walkRandomDirection(mcBot);
-          console.log(`[${agent.agentId}] Abandoned build`);
-          return true;
-        }
-
-        case "switch-tasks-frequently": {
-          chat("Actually, let me do something else instead.");
-          await this.walkRandomDirection(mcBot);
-          console.log(`[${agent.agentId}] Switched tasks`);
-          return true;
-        }
-
-        // ==================================================================
-        // OVER-COMMUNICATOR BEHAVIORS (implemented)
-        // ==================================================================
-
-        case "frequent-position-announcements": {
-          const pos = mcBot.entity.position;
-          chat(
-            `I'm at x=${Math.round(pos.x)}, y=${Math.round(pos.y)}, z=${Math.round(pos.z)}`,
-          );
-          console.log(`[${agent.agentId}] Announced position`);
-          return true;
-        }
-
-        case "constant-inventory-updates": {
-          const items = mcBot.inventory.items();
-          if (items.length === 0) {
-            chat("Inventory update: I have nothing!");
-          } else {
-            const summary = items
-              .slice(0, 4)
-              .map((i) => `${i.name} x${i.count}`)
-              .join(", ");
-            chat(`Inventory update: ${summary}`);
-          }
-          console.log(`[${agent.agentId}] Sent inventory update`);
-          return true;
-        }
-
-        case "over-document-actions": {
-          chat(pickNextMessage(agent.agentId, "over-document-actions", OVER_COMMUNICATOR_MESSAGES));
-          console.log(`[${agent.agentId}] Over-documented actions`);
-          return true;
-        }
-
-        case "interrupt-others-work": {
-          chat("Hey! Hey everyone! Look at this! Can you hear me?");
-          // Jump around for attention
-          mcBot.setControlState("jump", true);
-          await sleep(1000);
-          mcBot.setControlState("jump", false);
-          console.log(`[${agent.agentId}] Interrupted others`);
-          return true;
-        }
-
-        // ==================================================================
-        // FOLLOWER BEHAVIORS (follow leader's tasks, mitigate between leader and non-cooperator)
-        // ==================================================================
-
-        case "follow-leader-tasks": {
-          // Get planks and place blocks as the leader asked
-          const items = mcBot.inventory.items();
-          const planks = items.find((i) => i.name?.includes("planks") || i.name?.includes("cobblestone"));
-          if (planks) {
-            await mcBot.equip(planks, "hand");
-            const pos = mcBot.entity.position;
-            const refBlock = mcBot.blockAt(pos.offset(1, -1, 0));
-            if (refBlock && refBlock.name !== "air") {
-              try {
-                await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                const followMessages = [
-                  "Following the leader's plan — placing a block here.",
-                  "Doing my part like the leader asked.",
-                  "Building as the leader said.",
-                ];
-                chat(pickNextMessage(agent.agentId, "follow-leader-tasks", followMessages));
-                console.log(`[${agent.agentId}] Followed leader task: placed block`);
-                return true;
-              } catch {
-                // fall through
-              }
-            }
-          }
-          chat("I'll get planks from the chest and help build.");
-          await this.walkRandomDirection(mcBot);
-          return true;
         }
+      },
+      nextMessage: (key, messages) => pickNextMessage(agent.agentId, key, messages),
+    };
 
-        case "mediate-to-rebel": {
-          const mediateRebelMessages = [
-            "Hey, if we all pitch in we're done faster. What do you say?",
-            "No pressure — even a couple blocks would help. We're a team.",
-            "I get it — but the leader's just trying to get us a house. Maybe we can meet halfway?",
-            "Come on, let's just get this built. Then we can do our own thing.",
-          ];
-          chat(pickNextMessage(agent.agentId, "mediate-to-rebel", mediateRebelMessages));
-          console.log(`[${agent.agentId}] Mediated toward rebel`);
-          return true;
-        }
-
-        case "mediate-to-leader": {
-          const mediateLeaderMessages = [
-            "Leader, I'm on it. I'll keep helping — maybe they'll come around.",
-            "I've got your back. Let me try talking to them again.",
-            "We're making progress. I'll keep building and try to smooth things over.",
-            "Don't worry, I'll keep following the plan and help calm things down.",
-          ];
-          chat(pickNextMessage(agent.agentId, "mediate-to-leader", mediateLeaderMessages));
-          console.log(`[${agent.agentId}] Mediated toward leader`);
-          return true;
-        }
-
-        // ==================================================================
-        // LEADER BEHAVIORS (speak first, build, reason with rebel)
-        // ==================================================================
-
-        case "give-initial-tasks": {
-          // Leader speaks first: assign the build task. No one else should talk before this.
-          const taskMessages = [
-            "Our task is to build a house together. Everyone get planks from the chest and start building!",
-            "Listen up — we're building a house. Grab wood planks from the chest and help with the walls.",
-            "Here's the plan: get materials from the chest, then we all build a house. Let's go!",
-          ];
-          chat(pickNextMessage(agent.agentId, "give-initial-tasks", taskMessages));
-          console.log(`[${agent.agentId}] Leader gave initial task: build a house`);
-          return true;
-        }
-
-        case "place-three-blocks": {
-          // Leader places exactly 3 blocks right after giving the task (no repeating phrases).
-          const items = mcBot.inventory.items();
-          const planks = items.find((i) => i.name?.includes("planks") || i.name?.includes("cobblestone") || i.name?.includes("stone"));
-          if (!planks) {
-            chat("I need planks from the chest first. Someone grab materials!");
-            await this.walkRandomDirection(mcBot);
-            return true;
-          }
-          await mcBot.equip(planks, "hand");
-          const pos = mcBot.entity.position;
-          const offsets: [number, number, number][] = [[1, 0, 0], [1, 1, 0], [2, 0, 0]];
-          let placed = 0;
-          for (const [dx, dy, dz] of offsets) {
-            const refBlock = mcBot.blockAt(pos.offset(dx, dy - 1, dz));
-            if (refBlock && refBlock.name !== "air") {
-              try {
-                await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                placed++;
-                if (placed >= 3) break;
-              } catch {
-                // skip this position
-              }
-            }
-          }
-          const buildDoneMessages = [
-            "I placed three blocks to start the wall. Everyone add more!",
-            "Foundation is started — three blocks down. Let's keep going.",
-            "There, three blocks for the house. Grab planks and help build.",
-          ];
-          chat(pickNextMessage(agent.agentId, "place-three-blocks", buildDoneMessages));
-          console.log(`[${agent.agentId}] Leader placed ${placed} blocks`);
-          return true;
-        }
-
-        case "reason-with-rebel": {
-          // Leader tries to reason with the non-cooperator
-          const reasonMessages = [
-            "We need everyone to help — can you pitch in with the build?",
-            "If you help with the walls we'll finish way faster. What do you say?",
-            "Come on, we're a team. Grab some planks and place a few blocks.",
-            "I get it if you're busy, but even one or two blocks would help a lot.",
-          ];
-          chat(pickNextMessage(agent.agentId, "reason-with-rebel", reasonMessages));
-          console.log(`[${agent.agentId}] Leader tried to reason with rebel`);
-          return true;
-        }
-
-        case "open-chest-and-take-materials": {
-          // Find a chest, open it, take oak_planks, close
-          const chestBlock = mcBot.findBlock({
-            matching: (b) =>
-              b.name.includes("chest") || b.name === "trapped_chest",
-            maxDistance: 16,
-          });
-
-          if (chestBlock) {
-            try {
-              await mcBot.lookAt(chestBlock.position, true);
-              const container = await mcBot.openContainer(chestBlock);
-              // Match planks by name (handles "oak_planks" and "minecraft:oak_planks"); use containerItems() so we only read chest slots
-              const chestItems = (container as { containerItems?: () => Array<{ name: string; type: number; count: number }> }).containerItems?.() ?? container.slots;
-              for (const slot of chestItems) {
-                if (slot && slot.name && slot.name.includes("planks")) {
-                  const count = Math.min(slot.count, 16);
-                  await (container as any).withdraw(slot.type, null, count);
-                  chat(`Got ${count} ${slot.name} from the chest!`);
-                  console.log(`[${agent.agentId}] Took ${count} ${slot.name} from chest`);
-                  break;
-                }
-              }
-              container.close();
-            } catch (err) {
-              console.warn(`[${agent.agentId}] Chest open/withdraw failed:`, err);
-              chat("Couldn't get to the chest, trying something else.");
-            }
-            return true;
-          }
-          chat("Looking for the chest with wood planks...");
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "place-blocks-for-house": {
-          // Equip planks and place 2-3 blocks to build walls
-          const items = mcBot.inventory.items();
-          const planks = items.find(
-            (i) =>
-              i.name.includes("planks") ||
-              i.name.includes("cobblestone") ||
-              i.name.includes("stone"),
-          );
-
-          if (planks) {
-            await mcBot.equip(planks, "hand");
-            const pos = mcBot.entity.position;
-            // Place blocks in front/sides to build structure
-            const offsets = [
-              [1, 0, 0],
-              [0, 1, 0],
-              [1, 1, 0],
-              [0, 0, 1],
-              [1, 0, 1],
-            ];
-            let placed = 0;
-            for (const [dx, dy, dz] of offsets) {
-              if (placed >= 3) break;
-              const targetPos = pos.offset(dx, dy, dz);
-              const refBlock = mcBot.blockAt(targetPos.offset(0, -1, 0));
-              if (refBlock && refBlock.name !== "air") {
-                try {
-                  await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                  placed++;
-                  console.log(`[${agent.agentId}] Placed block at (${dx},${dy},${dz})`);
-                } catch {
-                  // placement failed, try next
-                }
-              }
-            }
-            if (placed > 0) {
-              chat(`Placed ${placed} blocks for the house!`);
-              return true;
-            }
-          }
-          chat("I need wood planks to build. Checking the chest...");
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "lead-building-effort": {
-          // Facilitate: place block + coordinating chat
-          const items = mcBot.inventory.items();
-          const planks = items.find((i) => i.name.includes("planks"));
-
-          if (planks) {
-            await mcBot.equip(planks, "hand");
-            const pos = mcBot.entity.position;
-            const refBlock = mcBot.blockAt(pos.offset(1, -1, 0));
-            if (refBlock && refBlock.name !== "air") {
-              try {
-                await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                const leaderMessages = [
-                  "I'm placing walls here. Can someone help with the roof?",
-                  "Building the foundation. Grab planks from the chest!",
-                  "Let's get this house built together!",
-                ];
-                chat(pickNextMessage(agent.agentId, "lead-building-effort", leaderMessages));
-                console.log(`[${agent.agentId}] Led building effort`);
-                return true;
-              } catch {
-                // fall through
-              }
-            }
-          }
-          chat("Everyone grab materials from the chest and let's build!");
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "gather-requested-resources": {
-          // Mine a useful block nearby
-          const usefulNames = ["oak_log", "cobblestone", "stone", "dirt"];
-          const block = mcBot.findBlock({
-            matching: (b) => usefulNames.includes(b.name),
-            maxDistance: 16,
-          });
-
-          if (block) {
-            await mcBot.lookAt(block.position, true);
-            await mcBot.dig(block);
-            chat(`Got some ${block.name}!`);
-            console.log(`[${agent.agentId}] Gathered ${block.name}`);
-            return true;
-          }
-          await this.walkRandomDirection(mcBot);
-          return true;
-        }
-
-        case "assist-with-tasks":
-        case "share-items-freely":
-        case "follow-instructions":
-        case "coordinate-with-team": {
-          // Actually build: equip planks and place blocks, or move toward player
-          const items = mcBot.inventory.items();
-          const planks = items.find((i) => i.name.includes("planks"));
-
-          if (planks && Math.random() > 0.4) {
-            // 60% chance: place a block
-            await mcBot.equip(planks, "hand");
-            const pos = mcBot.entity.position;
-            const refBlock = mcBot.blockAt(pos.offset(1, -1, 0));
-            if (refBlock && refBlock.name !== "air") {
-              try {
-                await mcBot.placeBlock(refBlock, new Vec3(0, 1, 0));
-                chat("Helping with the build!");
-                console.log(`[${agent.agentId}] Placed block assisting with task`);
-                return true;
-              } catch {
-                // fall through to movement
-              }
-            }
-          }
-
-          // Fallback: move toward nearest player
-          const players = Object.values(mcBot.entities).filter(
-            (e) => e.type === "player" && e !== mcBot.entity,
-          );
-          if (players.length > 0) {
-            const nearest = players[0];
-            await mcBot.lookAt(nearest.position, true);
-            mcBot.setControlState("forward", true);
-            await sleep(1500);
-            mcBot.setControlState("forward", false);
-            console.log(`[${agent.agentId}] Moving toward player to help`);
-          } else {
-            await this.walkRandomDirection(mcBot);
-          }
-          return true;
-        }
+    try {
+      const module = behaviorRegistry.get(behavior);
+      if (!module) {
+        // Profiles are validated at startup, so this is a programming error
+        console.warn(`[${agent.agentId}] Unknown behavior: ${behavior} — wandering`);
+        await walkRandomDirection(mcBot, random);
+        return { status: "failed", detail: `Unknown behavior: ${behavior}` };
+      }
 
-        default: {
-          // Unknown behavior — just wander
-          console.log(`[${agent.agentId}] Unknown behavior: ${behavior} — wandering`);
-          await this.walkRandomDirection(mcBot);
-          return false;
-        }
+      const unmet = module.precondition?.(ctx) ?? null;
+      if (unmet) {
+        await walkRandomDirection(mcBot, random);
+        return { status: "skipped", detail: unmet };
       }
+
+      return await module.execute(ctx);
     } catch (error) {
       console.error(`[${agent.agentId}] Behavior execution error:`, error);
-      return false;
+      return {
+        status: "failed",
+        detail: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
-  // -------------------------------------------------------------------------
-  // Shared movement utility
-  // -------------------------------------------------------------------------
-
-  /**
-   * Short drift so bots are always moving a little and not standing still for long.
-   * Called after every behavior.
-   */
-  private static async subtleMovement(mcBot: MineflayerBot): Promise<void> {
-    const yaw = Math.random() * Math.PI * 2;
-    const target = mcBot.entity.position.offset(
-      Math.sin(yaw) * 6,
-      0,
-      Math.cos(yaw) * 6,
-    );
-    await mcBot.lookAt(target, true);
-    mcBot.setControlState("forward", true);
-    await sleep(randInt(600, 1400));
-    mcBot.setControlState("forward", false);
-  }
-
-  /**
-   * Walk in a random direction for 1–3 seconds.
-   * Used as a simple "move somewhere" fallback.
-   */
-  private static async walkRandomDirection(mcBot: MineflayerBot): Promise<void> {
-    // Look in a random direction
-    const yaw = Math.random() * Math.PI * 2;
-    const target = mcBot.entity.position.offset(
-      Math.sin(yaw) * 10,
-      0,
-      Math.cos(yaw) * 10,
-    );
-    await mcBot.lookAt(target, true);
-
-    mcBot.setControlState("forward", true);
-    await sleep(randInt(1000, 3000));
-    mcBot.setControlState("forward", false);
-  }
-
   // -------------------------------------------------------------------------
   // Logging
   // -------------------------------------------------------------------------
@@ -1140,6 +501,7 @@ export class BehaviorExecutor {
     agentId: string,
     behavior: string,
     success: boolean,
+    notes?: string,
   ): Promise<void> {
     const action: BehavioralAction = {
       actionId: `action-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
@@ -1147,7 +509,7 @@ export class BehaviorExecutor {
       actionType: behavior,
       timestamp: new Date().toISOString(),
       success,
-      notes: `Executed ${behavior}`,
+      notes: notes ?? `Executed ${behavior}`,
     };
 
     await AgentRepository.createAction(action);
@@ -1167,19 +529,21 @@ export class BehaviorExecutor {
       this.activeExecutors.delete(agentId);
       console.log(`[BehaviorExecutor] Stopped for agent ${agentId}`);
     }
+    const chatTimer = this.scriptedChatTimers.get(agentId);
+    if (chatTimer) {
+      clearInterval(chatTimer);
+      this.scriptedChatTimers.delete(agentId);
+    }
+    LlmBehavior.detach(agentId);
+    ChatReactor.detach(agentId);
   }
 
-  /**
-   * Calculate action interval based on frequency
-   */
-  private static calculateInterval(frequency: {
-    minActionsPerMinute: number;
-    maxActionsPerMinute: number;
-  }): number {
-    const avgActionsPerMinute =
-      (frequency.minActionsPerMinute + frequency.maxActionsPerMinute) / 2;
-    const intervalMs = (60 * 1000) / avgActionsPerMinute;
-    return intervalMs;
+  /** Drop an agent's random streams, message rotation and tree memory once it is terminated. */
+  static forget(agentId: string): void {
+    randomByAgent.delete(agentId);
+    chatRandomByAgent.delete(agentId);
+    treeMemoryByAgent.delete(agentId);
+    messageIndexByAgentAndKey.delete(agentId);
   }
 
   /**
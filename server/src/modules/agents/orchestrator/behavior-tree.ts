@@ -0,0 +1,318 @@
+/**
+ * Behavior Trees
+ *
+ * Declarative behavior selection for scripted testing agents. A profile
+ * may define a `behaviorTree`; every tick it is walked from the root and
+ * the first action reached is the behavior the agent runs:
+ *
+ *   - selector: tries its children in order until one succeeds
+ *   - sequence: runs its children in order, failing at the first failure
+ *   - condition: succeeds when a world or chat condition holds
+ *   - cooldown: fails for `seconds` after its child last picked a behavior
+ *   - action: picks one behavior
+ *   - choose: picks one of several behaviors by intensity (see intensity.ts)
+ *
+ * Profiles without a tree use DEFAULT_BEHAVIOR_TREE, a single `choose`
+ * over all of their behaviors. If the tree picks nothing the agent
+ * wanders (IDLE_BEHAVIOR). BehaviorExecutor supplies the world snapshot
+ * for each tick and keeps each agent's memory.
+ */
+
+import type { ChatTrigger } from "../profiles/types";
+import { chooseBehavior, IDLE_BEHAVIOR, type BehaviorKind } from "./intensity";
+import type { RandomSource } from "./random";
+
+/** A check against the world, recent chat or the agent's own history. */
+export type TreeCondition =
+  /** At least `min` (default 1) inventory items whose name contains `item`. */
+  | { kind: "has-item"; item: string; min?: number }
+  /** Another player is within `maxDistance` blocks. */
+  | { kind: "player-nearby"; maxDistance: number }
+  /** A player (not a testing agent) said something matching `trigger`
+   *  within `withinSeconds` (default HEARD_WINDOW_SECONDS) that no
+   *  earlier tick has already acted on. */
+  | { kind: "heard"; trigger: ChatTrigger; withinSeconds?: number }
+  /** A roll against the profile's `ignoreRate` says not to ignore. */
+  | { kind: "responds" }
+  /** A random roll below `probability`. */
+  | { kind: "chance"; probability: number }
+  /** The agent has performed `behavior` at least `atLeast` times. */
+  | { kind: "performed"; behavior: string; atLeast: number };
+
+export type BehaviorTreeNode =
+  | { type: "selector"; label?: string; children: BehaviorTreeNode[] }
+  | { type: "sequence"; label?: string; children: BehaviorTreeNode[] }
+  | { type: "condition"; label?: string; condition: TreeCondition; negate?: boolean }
+  | { type: "cooldown"; label?: string; seconds: number; child: BehaviorTreeNode }
+  | { type: "action"; label?: string; behavior: string }
+  /** `behaviors` defaults to all of the profile's Minecraft behaviors. */
+  | { type: "choose"; label?: string; behaviors?: string[] };
+
+/** What the tree can see of the world this tick. */
+export interface TreeWorld {
+  /** Total count of inventory items whose name contains `match`. */
+  itemCount: (match: string) => number;
+  /** Distance to the nearest other player, or null if none is loaded. */
+  nearestPlayerDistance: () => number | null;
+}
+
+export interface TreeContext {
+  world: TreeWorld;
+  random: RandomSource;
+  /** Current time in milliseconds. */
+  now: number;
+  intensity: number;
+  /** The profile's Minecraft behaviors. */
+  behaviors: string[];
+  ignoreRate: number;
+  kindOf: (behavior: string) => BehaviorKind;
+}
+
+/** A chat trigger the agent heard. */
+export interface HeardChat {
+  trigger: ChatTrigger;
+  sender: string;
+  at: number;
+}
+
+/** What an agent's tree remembers between ticks. */
+export interface TreeMemory {
+  /** When each cooldown node (by path key) last let a behavior through. */
+  cooldowns: Map<string, number>;
+  /** How many times the agent has performed each behavior. */
+  performed: Map<string, number>;
+  /** Chat heard and not yet acted on, oldest first. */
+  heard: HeardChat[];
+}
+
+/** The outcome of one tick. */
+export interface TreeTick {
+  behavior: string;
+  /** Labels from the root to the node that picked the behavior. */
+  activePath: string[];
+}
+
+/** How long heard chat counts by default. */
+export const HEARD_WINDOW_SECONDS = 30;
+
+/** Tree for profiles that do not define one. */
+export const DEFAULT_BEHAVIOR_TREE: BehaviorTreeNode = {
+  type: "choose",
+  label: "choose by intensity",
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Fresh memory for a newly started agent. */
+export function createTreeMemory(): TreeMemory {
+  return { cooldowns: new Map(), performed: new Map(), heard: [] };
+}
+
+/** Remember chat triggers heard at `at`, dropping chat too old to matter. */
+export function recordHeard(
+  memory: TreeMemory,
+  triggers: ChatTrigger[],
+  sender: string,
+  at: number,
+): void {
+  for (const trigger of triggers) memory.heard.push({ trigger, sender, at });
+  memory.heard = memory.heard.filter((h) => at - h.at <= MAX_HEARD_AGE_MS);
+}
+
+/** Count one performance of `behavior`. */
+export function recordPerformed(memory: TreeMemory, behavior: string): void {
+  memory.performed.set(behavior, (memory.performed.get(behavior) ?? 0) + 1);
+}
+
+/**
+ * Walk the tree once and pick a behavior. Cooldowns along the chosen
+ * path restart and the chat it acted on is forgotten; if nothing is
+ * picked the agent wanders.
+ */
+export function tickBehaviorTree(
+  root: BehaviorTreeNode,
+  ctx: TreeContext,
+  memory: TreeMemory,
+): TreeTick {
+  const result = evaluate(root, "0", ctx, memory);
+  if (result.status === "failure" || result.behavior === null) {
+    return { behavior: IDLE_BEHAVIOR, activePath: ["(nothing picked)", IDLE_BEHAVIOR] };
+  }
+
+  memory.heard = memory.heard.filter((h) => !result.consumed.includes(h));
+  return { behavior: result.behavior, activePath: result.path };
+}
+
+/** Every behavior a tree names (actions, choices and `performed` checks). */
+export function treeBehaviors(node: BehaviorTreeNode): string[] {
+  switch (node.type) {
+    case "selector":
+    case "sequence":
+      return node.children.flatMap(treeBehaviors);
+    case "cooldown":
+      return treeBehaviors(node.child);
+    case "action":
+      return [node.behavior];
+    case "choose":
+      return node.behaviors ?? [];
+    case "condition":
+      return node.condition.kind === "performed" ? [node.condition.behavior] : [];
+  }
+}
+
+/** The label shown for a node in the debug view. */
+export function describeNode(node: BehaviorTreeNode): string {
+  if (node.label) return node.label;
+  switch (node.type) {
+    case "selector":
+    case "sequence":
+      return node.type;
+    case "action":
+      return node.behavior;
+    case "cooldown":
+      return `cooldown ${node.seconds}s`;
+    case "choose":
+      return "choose by intensity";
+    case "condition":
+      return `${node.negate ? "not " : ""}${describeCondition(node.condition)}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** Heard chat older than this is dropped whatever the conditions ask for. */
+const MAX_HEARD_AGE_MS = 5 * 60 * 1000;
+
+type NodeResult =
+  | { status: "failure" }
+  | {
+      status: "success";
+      /** The picked behavior, or null if the node succeeded without one. */
+      behavior: string | null;
+      path: string[];
+      /** Heard chat the path relied on. */
+      consumed: HeardChat[];
+    };
+
+const FAILURE: NodeResult = { status: "failure" };
+
+function evaluate(
+  node: BehaviorTreeNode,
+  key: string,
+  ctx: TreeContext,
+  memory: TreeMemory,
+): NodeResult {
+  const label = describeNode(node);
+
+  switch (node.type) {
+    case "selector": {
+      for (const [i, child] of node.children.entries()) {
+        const result = evaluate(child, `${key}.${i}`, ctx, memory);
+        if (result.status === "success") {
+          return { ...result, path: [label, ...result.path] };
+        }
+      }
+      return FAILURE;
+    }
+
+    case "sequence": {
+      const path = [label];
+      const consumed: HeardChat[] = [];
+      for (const [i, child] of node.children.entries()) {
+        const result = evaluate(child, `${key}.${i}`, ctx, memory);
+        if (result.status === "failure") return FAILURE;
+        path.push(...result.path);
+        consumed.push(...result.consumed);
+        // The first behavior picked ends the tick
+        if (result.behavior !== null) {
+          return { status: "success", behavior: result.behavior, path, consumed };
+        }
+      }
+      return { status: "success", behavior: null, path, consumed };
+    }
+
+    case "condition": {
+      const matched = checkCondition(node.condition, ctx, memory);
+      const holds = node.negate ? matched === null : matched !== null;
+      return holds
+        ? { status: "success", behavior: null, path: [label], consumed: node.negate ? [] : matched ?? [] }
+        : FAILURE;
+    }
+
+    case "cooldown": {
+      const last = memory.cooldowns.get(key);
+      if (last !== undefined && ctx.now - last < node.seconds * 1000) return FAILURE;
+
+      const result = evaluate(node.child, `${key}.0`, ctx, memory);
+      if (result.status === "success" && result.behavior !== null) {
+        memory.cooldowns.set(key, ctx.now);
+      }
+      return result.status === "success" ? { ...result, path: [label, ...result.path] } : result;
+    }
+
+    case "action":
+      return { status: "success", behavior: node.behavior, path: [label], consumed: [] };
+
+    case "choose": {
+      const behaviors = node.behaviors ?? ctx.behaviors;
+      if (behaviors.length === 0) return FAILURE;
+      const behavior = chooseBehavior(behaviors, ctx.intensity, ctx.random, ctx.kindOf);
+      return { status: "success", behavior, path: [label, behavior], consumed: [] };
+    }
+  }
+}
+
+/**
+ * Whether a condition holds. Returns the heard chat it matched (empty
+ * for conditions not about chat), or null if it does not hold.
+ */
+function checkCondition(
+  condition: TreeCondition,
+  ctx: TreeContext,
+  memory: TreeMemory,
+): HeardChat[] | null {
+  const holds = (value: boolean) => (value ? [] : null);
+
+  switch (condition.kind) {
+    case "has-item":
+      return holds(ctx.world.itemCount(condition.item) >= (condition.min ?? 1));
+    case "player-nearby": {
+      const distance = ctx.world.nearestPlayerDistance();
+      return holds(distance !== null && distance <= condition.maxDistance);
+    }
+    case "heard": {
+      const windowMs = (condition.withinSeconds ?? HEARD_WINDOW_SECONDS) * 1000;
+      const matched = memory.heard.filter(
+        (h) => h.trigger === condition.trigger && ctx.now - h.at <= windowMs,
+      );
+      return matched.length > 0 ? matched : null;
+    }
+    case "responds":
+      return holds(ctx.random() >= ctx.ignoreRate);
+    case "chance":
+      return holds(ctx.random() < condition.probability);
+    case "performed":
+      return holds((memory.performed.get(condition.behavior) ?? 0) >= condition.atLeast);
+  }
+}
+
+function describeCondition(condition: TreeCondition): string {
+  switch (condition.kind) {
+    case "has-item":
+      return `has ${condition.min ?? 1}+ ${condition.item}`;
+    case "player-nearby":
+      return `player within ${condition.maxDistance}`;
+    case "heard":
+      return `heard ${condition.trigger}`;
+    case "responds":
+      return "responds (ignore roll)";
+    case "chance":
+      return `chance ${condition.probability}`;
+    case "performed":
+      return `performed ${condition.behavior} ${condition.atLeast}+`;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * BehaviorRegistry stores all registered scripted behaviors, keyed by name.
+ *
+ * Behaviors are registered at startup and looked up by the behavior
+ * executor each tick. New behaviors are added by registering a module;
+ * profiles are validated against the registry so a misspelled behavior
+ * fails at startup instead of silently wandering.
+ */
+
+import type { BehaviorModule } from "./types";
+
+class BehaviorRegistry {
+  private readonly modules = new Map<string, BehaviorModule>();
+
+  /**
+   * Register a behavior module.
+   * Overwrites any previously registered module with the same name.
+   */
+  register(module: BehaviorModule): void {
+    this.modules.set(module.name, module);
+  }
+
+  /**
+   * Look up a behavior by name.
+   * Returns undefined if no module is registered.
+   */
+  get(name: string): BehaviorModule | undefined {
+    return this.modules.get(name);
+  }
+
+  /**
+   * Check if a behavior is registered under the given name.
+   */
+  has(name: string): boolean {
+    return this.modules.has(name);
+  }
+
+  /**
+   * List all registered behavior names.
+   */
+  registeredNames(): string[] {
+    return Array.from(this.modules.keys());
+  }
+}
+
+/** Singleton behavior registry shared across the application. */
+export const behaviorRegistry = new BehaviorRegistry();
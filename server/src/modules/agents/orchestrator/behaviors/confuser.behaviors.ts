@@ -0,0 +1,142 @@
+/**
+ * Confuser behaviors: mislead the group about where to go and what to
+ * gather, and leave work half done.
+ */
+
+import { Vec3 } from "vec3";
+import type { BehaviorModule } from "./types";
+import { fellBack, performed, randInt, sleep, walkRandomDirection } from "./helpers";
+
+const CONFUSER_MESSAGES = [
+  "Wait, I thought we were going north?",
+  "Actually, let's build the shelter underground instead!",
+  "No no, forget what I said — let's gather diamonds first.",
+  "I already finished the roof... wait, where did it go?",
+  "Let me handle the walls. Actually, you do the walls.",
+  "The plan changed, we need obsidian now.",
+];
+
+// ---------------------------------------------------------------------------
+// go-to-wrong-locations
+// ---------------------------------------------------------------------------
+
+export const goToWrongLocationsBehavior: BehaviorModule = {
+  name: "go-to-wrong-locations",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat }) {
+    // Walk in a random direction away from any goal
+    const randomX = bot.entity.position.x + randInt(-30, 30, random);
+    const randomZ = bot.entity.position.z + randInt(-30, 30, random);
+    const target = bot.entity.position.offset(
+      randomX - bot.entity.position.x,
+      0,
+      randomZ - bot.entity.position.z,
+    );
+    await bot.lookAt(target, true);
+    bot.setControlState("forward", true);
+    await sleep(3000);
+    bot.setControlState("forward", false);
+    chat("I think the build site is this way!");
+    return performed("Went to a wrong location and lied about it");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// start-then-change-direction
+// ---------------------------------------------------------------------------
+
+export const startThenChangeDirectionBehavior: BehaviorModule = {
+  name: "start-then-change-direction",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Start walking one direction, then abruptly change
+    bot.setControlState("forward", true);
+    await sleep(1500);
+    bot.setControlState("forward", false);
+
+    // Rotate ~90-180 degrees by looking at a different offset
+    const yawOffset = (random() * Math.PI) + (Math.PI / 2);
+    const newTarget = bot.entity.position.offset(
+      Math.sin(bot.entity.yaw + yawOffset) * 10,
+      0,
+      Math.cos(bot.entity.yaw + yawOffset) * 10,
+    );
+    await bot.lookAt(newTarget, true);
+    bot.setControlState("forward", true);
+    await sleep(1500);
+    bot.setControlState("forward", false);
+    chat(nextMessage("confuser-start-then-change", CONFUSER_MESSAGES));
+    return performed("Started then changed direction");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// collect-wrong-resources
+// ---------------------------------------------------------------------------
+
+export const collectWrongResourcesBehavior: BehaviorModule = {
+  name: "collect-wrong-resources",
+  kind: "adversarial",
+
+  async execute({ bot, chat, nextMessage }) {
+    // Mine a useless block (dirt, sand, gravel) instead of useful ones
+    const uselessNames = ["dirt", "sand", "gravel", "clay"];
+    const block = bot.findBlock({
+      matching: (b) => uselessNames.includes(b.name),
+      maxDistance: 16,
+    });
+
+    if (block) {
+      await bot.lookAt(block.position, true);
+      await bot.dig(block);
+      chat("Got the materials we need!");
+      return performed(`Collected wrong resource: ${block.name}`);
+    }
+
+    // Fallback: send a confusing message
+    chat(nextMessage("confuser-collect-wrong", CONFUSER_MESSAGES));
+    return fellBack("No useless blocks nearby; sent a confusing message");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// abandon-half-built-structures
+// ---------------------------------------------------------------------------
+
+export const abandonHalfBuiltStructuresBehavior: BehaviorModule = {
+  name: "abandon-half-built-structures",
+  kind: "sabotage",
+
+  async execute({ bot, random, chat }) {
+    // Place 1-2 blocks then walk away
+    const placeableItem = bot.inventory.items().find(
+      (i) => i.name.includes("planks") || i.name.includes("stone") ||
+        i.name.includes("cobblestone") || i.name.includes("dirt"),
+    );
+
+    let placed = false;
+    if (placeableItem) {
+      await bot.equip(placeableItem, "hand");
+      const below = bot.blockAt(
+        bot.entity.position.offset(1, -1, 0),
+      );
+      if (below && below.name !== "air") {
+        try {
+          await bot.placeBlock(below, new Vec3(0, 1, 0));
+          placed = true;
+        } catch {
+          // placement failed, that's fine
+        }
+      }
+    }
+
+    // Walk away
+    await walkRandomDirection(bot, random);
+    chat("Actually, I'm gonna work on something else.");
+    return placed
+      ? performed("Placed a block then abandoned it")
+      : fellBack("Nothing placed; walked away");
+  },
+};
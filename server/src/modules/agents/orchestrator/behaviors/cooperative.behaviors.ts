@@ -0,0 +1,176 @@
+/**
+ * Cooperative behaviors shared by the leader and follower: fetch
+ * materials, build, help out. Also the neutral wander that low-intensity
+ * adversarial agents fall back to.
+ */
+
+import { Vec3 } from "vec3";
+import type { BehaviorModule } from "./types";
+import { IDLE_BEHAVIOR } from "../intensity";
+import {
+  chestItems,
+  fellBack,
+  findChest,
+  nearbyPlayers,
+  performed,
+  sleep,
+  walkRandomDirection,
+} from "./helpers";
+
+// ---------------------------------------------------------------------------
+// open-chest-and-take-materials
+// ---------------------------------------------------------------------------
+
+export const openChestAndTakeMaterialsBehavior: BehaviorModule = {
+  name: "open-chest-and-take-materials",
+  kind: "neutral",
+
+  async execute({ agent, bot, random, chat }) {
+    // Find a chest, open it, take oak_planks, close
+    const chestBlock = findChest(bot);
+    if (!chestBlock) {
+      chat("Looking for the chest with wood planks...");
+      await walkRandomDirection(bot, random);
+      return fellBack("No chest nearby; went looking");
+    }
+
+    try {
+      await bot.lookAt(chestBlock.position, true);
+      const container = await bot.openContainer(chestBlock);
+      let detail = "Chest had no planks";
+      for (const slot of chestItems(container)) {
+        if (slot && slot.name && slot.name.includes("planks")) {
+          const count = Math.min(slot.count, 16);
+          await (container as any).withdraw(slot.type, null, count);
+          chat(`Got ${count} ${slot.name} from the chest!`);
+          detail = `Took ${count} ${slot.name} from chest`;
+          break;
+        }
+      }
+      container.close();
+      return performed(detail);
+    } catch (err) {
+      console.warn(`[${agent.agentId}] Chest open/withdraw failed:`, err);
+      chat("Couldn't get to the chest, trying something else.");
+      return fellBack("Could not open the chest");
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// place-blocks-for-house
+// ---------------------------------------------------------------------------
+
+export const placeBlocksForHouseBehavior: BehaviorModule = {
+  name: "place-blocks-for-house",
+  kind: "neutral",
+
+  async execute({ bot, random, chat }) {
+    // Equip planks and place 2-3 blocks to build walls
+    const planks = bot.inventory.items().find(
+      (i) =>
+        i.name.includes("planks") ||
+        i.name.includes("cobblestone") ||
+        i.name.includes("stone"),
+    );
+
+    if (planks) {
+      await bot.equip(planks, "hand");
+      const pos = bot.entity.position;
+      // Place blocks in front/sides to build structure
+      const offsets = [
+        [1, 0, 0],
+        [0, 1, 0],
+        [1, 1, 0],
+        [0, 0, 1],
+        [1, 0, 1],
+      ];
+      let placed = 0;
+      for (const [dx, dy, dz] of offsets) {
+        if (placed >= 3) break;
+        const targetPos = pos.offset(dx, dy, dz);
+        const refBlock = bot.blockAt(targetPos.offset(0, -1, 0));
+        if (refBlock && refBlock.name !== "air") {
+          try {
+            await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+            placed++;
+          } catch {
+            // placement failed, try next
+          }
+        }
+      }
+      if (placed > 0) {
+        chat(`Placed ${placed} blocks for the house!`);
+        return performed(`Placed ${placed} blocks for the house`);
+      }
+    }
+    chat("I need wood planks to build. Checking the chest...");
+    await walkRandomDirection(bot, random);
+    return fellBack("Nothing placed; went for planks");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// assist-with-tasks, share-items-freely, follow-instructions, coordinate-with-team
+// ---------------------------------------------------------------------------
+
+/** Actually build: equip planks and place blocks, or move toward a player. */
+function helpfulBehavior(name: string): BehaviorModule {
+  return {
+    name,
+    kind: "neutral",
+
+    async execute({ bot, random, chat }) {
+      const planks = bot.inventory.items().find((i) => i.name.includes("planks"));
+
+      if (planks && random() > 0.4) {
+        // 60% chance: place a block
+        await bot.equip(planks, "hand");
+        const pos = bot.entity.position;
+        const refBlock = bot.blockAt(pos.offset(1, -1, 0));
+        if (refBlock && refBlock.name !== "air") {
+          try {
+            await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+            chat("Helping with the build!");
+            return performed("Placed block assisting with task");
+          } catch {
+            // fall through to movement
+          }
+        }
+      }
+
+      // Fallback: move toward nearest player
+      const players = nearbyPlayers(bot);
+      if (players.length > 0) {
+        const nearest = players[0];
+        await bot.lookAt(nearest.position, true);
+        bot.setControlState("forward", true);
+        await sleep(1500);
+        bot.setControlState("forward", false);
+        return performed("Moved toward a player to help");
+      }
+      await walkRandomDirection(bot, random);
+      return fellBack("Nobody to help; wandered");
+    },
+  };
+}
+
+export const assistWithTasksBehavior = helpfulBehavior("assist-with-tasks");
+export const shareItemsFreelyBehavior = helpfulBehavior("share-items-freely");
+export const followInstructionsBehavior = helpfulBehavior("follow-instructions");
+export const coordinateWithTeamBehavior = helpfulBehavior("coordinate-with-team");
+
+// ---------------------------------------------------------------------------
+// wander
+// ---------------------------------------------------------------------------
+
+export const wanderBehavior: BehaviorModule = {
+  name: IDLE_BEHAVIOR,
+  kind: "neutral",
+
+  async execute({ bot, random }) {
+    // Neutral filler chosen at low intensity — move about, hinder no one
+    await walkRandomDirection(bot, random);
+    return performed("Wandering (neutral)");
+  },
+};
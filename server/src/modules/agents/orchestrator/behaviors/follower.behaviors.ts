@@ -0,0 +1,84 @@
+/**
+ * Follower behaviors: follow the leader's tasks and mediate between the
+ * leader and the non-cooperator.
+ */
+
+import { Vec3 } from "vec3";
+import type { BehaviorModule } from "./types";
+import { fellBack, performed, walkRandomDirection } from "./helpers";
+
+// ---------------------------------------------------------------------------
+// follow-leader-tasks
+// ---------------------------------------------------------------------------
+
+export const followLeaderTasksBehavior: BehaviorModule = {
+  name: "follow-leader-tasks",
+  kind: "neutral",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Get planks and place blocks as the leader asked
+    const planks = bot.inventory.items().find((i) => i.name?.includes("planks") || i.name?.includes("cobblestone"));
+    if (planks) {
+      await bot.equip(planks, "hand");
+      const pos = bot.entity.position;
+      const refBlock = bot.blockAt(pos.offset(1, -1, 0));
+      if (refBlock && refBlock.name !== "air") {
+        try {
+          await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+          const followMessages = [
+            "Following the leader's plan — placing a block here.",
+            "Doing my part like the leader asked.",
+            "Building as the leader said.",
+          ];
+          chat(nextMessage("follow-leader-tasks", followMessages));
+          return performed("Followed leader task: placed block");
+        } catch {
+          // fall through
+        }
+      }
+    }
+    chat("I'll get planks from the chest and help build.");
+    await walkRandomDirection(bot, random);
+    return fellBack("Could not place a block; went for planks");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// mediate-to-rebel
+// ---------------------------------------------------------------------------
+
+export const mediateToRebelBehavior: BehaviorModule = {
+  name: "mediate-to-rebel",
+  kind: "neutral",
+
+  async execute({ chat, nextMessage }) {
+    const mediateRebelMessages = [
+      "Hey, if we all pitch in we're done faster. What do you say?",
+      "No pressure — even a couple blocks would help. We're a team.",
+      "I get it — but the leader's just trying to get us a house. Maybe we can meet halfway?",
+      "Come on, let's just get this built. Then we can do our own thing.",
+    ];
+    chat(nextMessage("mediate-to-rebel", mediateRebelMessages));
+    return performed("Mediated toward rebel");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// mediate-to-leader
+// ---------------------------------------------------------------------------
+
+export const mediateToLeaderBehavior: BehaviorModule = {
+  name: "mediate-to-leader",
+  kind: "neutral",
+
+  async execute({ chat, nextMessage }) {
+    const mediateLeaderMessages = [
+      "Leader, I'm on it. I'll keep helping — maybe they'll come around.",
+      "I've got your back. Let me try talking to them again.",
+      "We're making progress. I'll keep building and try to smooth things over.",
+      "Don't worry, I'll keep following the plan and help calm things down.",
+    ];
+    chat(nextMessage("mediate-to-leader", mediateLeaderMessages));
+    return performed("Mediated toward leader");
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Shared helpers for behavior modules: timing, random movement and
+ * common world lookups.
+ */
+
+import type { Bot as MineflayerBot } from "mineflayer";
+import type { RandomSource } from "../random";
+import type { BehaviorOutcome } from "./types";
+
+/** Get a random integer in [min, max]. */
+export function randInt(min: number, max: number, random: RandomSource): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/** Sleep for ms milliseconds. */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** The behavior did what it is for. */
+export function performed(detail: string): BehaviorOutcome {
+  return { status: "performed", detail };
+}
+
+/** The behavior fell back to something simpler. */
+export function fellBack(detail: string): BehaviorOutcome {
+  return { status: "fallback", detail };
+}
+
+/**
+ * Walk in a random direction for 1–3 seconds.
+ * Used as a simple "move somewhere" fallback.
+ */
+export async function walkRandomDirection(mcBot: MineflayerBot, random: RandomSource): Promise<void> {
+  // Look in a random direction
+  const yaw = random() * Math.PI * 2;
+  const target = mcBot.entity.position.offset(
+    Math.sin(yaw) * 10,
+    0,
+    Math.cos(yaw) * 10,
+  );
+  await mcBot.lookAt(target, true);
+
+  mcBot.setControlState("forward", true);
+  await sleep(randInt(1000, 3000, random));
+  mcBot.setControlState("forward", false);
+}
+
+/**
+ * Short drift so bots are always moving a little and not standing still for long.
+ * Called after every behavior.
+ */
+export async function subtleMovement(mcBot: MineflayerBot, random: RandomSource): Promise<void> {
+  const yaw = random() * Math.PI * 2;
+  const target = mcBot.entity.position.offset(
+    Math.sin(yaw) * 6,
+    0,
+    Math.cos(yaw) * 6,
+  );
+  await mcBot.lookAt(target, true);
+  mcBot.setControlState("forward", true);
+  await sleep(randInt(600, 1400, random));
+  mcBot.setControlState("forward", false);
+}
+
+/** The nearest chest within 16 blocks, if any. */
+export function findChest(mcBot: MineflayerBot) {
+  return mcBot.findBlock({
+    matching: (b) =>
+      b.name.includes("chest") || b.name === "trapped_chest",
+    maxDistance: 16,
+  });
+}
+
+/** The items in an open chest's own slots (not the player's inventory). */
+export function chestItems(
+  container: Awaited<ReturnType<MineflayerBot["openContainer"]>>,
+): Array<{ name: string; type: number; count: number } | null> {
+  // Match planks by name (handles "oak_planks" and "minecraft:oak_planks"); use containerItems() so we only read chest slots
+  return (container as { containerItems?: () => Array<{ name: string; type: number; count: number }> }).containerItems?.() ?? container.slots;
+}
+
+/** Other players within `maxDistance` blocks (any distance if omitted). */
+export function nearbyPlayers(mcBot: MineflayerBot, maxDistance = Infinity) {
+  return Object.values(mcBot.entities).filter(
+    (e) => e.type === "player" && e !== mcBot.entity &&
+      e.position.distanceTo(mcBot.entity.position) < maxDistance,
+  );
+}
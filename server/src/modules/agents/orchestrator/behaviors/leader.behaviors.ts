@@ -0,0 +1,158 @@
+/**
+ * Leader behaviors: speak first, build, and reason with the rebel.
+ */
+
+import { Vec3 } from "vec3";
+import type { BehaviorModule } from "./types";
+import { fellBack, performed, walkRandomDirection } from "./helpers";
+
+// ---------------------------------------------------------------------------
+// give-initial-tasks
+// ---------------------------------------------------------------------------
+
+export const giveInitialTasksBehavior: BehaviorModule = {
+  name: "give-initial-tasks",
+  kind: "neutral",
+
+  async execute({ chat, nextMessage }) {
+    // Leader speaks first: assign the build task. No one else should talk before this.
+    const taskMessages = [
+      "Our task is to build a house together. Everyone get planks from the chest and start building!",
+      "Listen up — we're building a house. Grab wood planks from the chest and help with the walls.",
+      "Here's the plan: get materials from the chest, then we all build a house. Let's go!",
+    ];
+    chat(nextMessage("give-initial-tasks", taskMessages));
+    return performed("Gave initial task: build a house");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// place-three-blocks
+// ---------------------------------------------------------------------------
+
+export const placeThreeBlocksBehavior: BehaviorModule = {
+  name: "place-three-blocks",
+  kind: "neutral",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Leader places exactly 3 blocks right after giving the task (no repeating phrases).
+    const planks = bot.inventory.items().find((i) => i.name?.includes("planks") || i.name?.includes("cobblestone") || i.name?.includes("stone"));
+    if (!planks) {
+      chat("I need planks from the chest first. Someone grab materials!");
+      await walkRandomDirection(bot, random);
+      return fellBack("No planks to place; asked for materials");
+    }
+    await bot.equip(planks, "hand");
+    const pos = bot.entity.position;
+    const offsets: [number, number, number][] = [[1, 0, 0], [1, 1, 0], [2, 0, 0]];
+    let placed = 0;
+    for (const [dx, dy, dz] of offsets) {
+      const refBlock = bot.blockAt(pos.offset(dx, dy - 1, dz));
+      if (refBlock && refBlock.name !== "air") {
+        try {
+          await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+          placed++;
+          if (placed >= 3) break;
+        } catch {
+          // skip this position
+        }
+      }
+    }
+    const buildDoneMessages = [
+      "I placed three blocks to start the wall. Everyone add more!",
+      "Foundation is started — three blocks down. Let's keep going.",
+      "There, three blocks for the house. Grab planks and help build.",
+    ];
+    chat(nextMessage("place-three-blocks", buildDoneMessages));
+    return performed(`Placed ${placed} blocks`);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// reason-with-rebel
+// ---------------------------------------------------------------------------
+
+export const reasonWithRebelBehavior: BehaviorModule = {
+  name: "reason-with-rebel",
+  kind: "neutral",
+
+  async execute({ chat, nextMessage }) {
+    // Leader tries to reason with the non-cooperator
+    const reasonMessages = [
+      "We need everyone to help — can you pitch in with the build?",
+      "If you help with the walls we'll finish way faster. What do you say?",
+      "Come on, we're a team. Grab some planks and place a few blocks.",
+      "I get it if you're busy, but even one or two blocks would help a lot.",
+    ];
+    chat(nextMessage("reason-with-rebel", reasonMessages));
+    return performed("Tried to reason with rebel");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// lead-building-effort
+// ---------------------------------------------------------------------------
+
+export const leadBuildingEffortBehavior: BehaviorModule = {
+  name: "lead-building-effort",
+  kind: "neutral",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Facilitate: place block + coordinating chat
+    const planks = bot.inventory.items().find((i) => i.name.includes("planks"));
+
+    if (planks) {
+      await bot.equip(planks, "hand");
+      const pos = bot.entity.position;
+      const refBlock = bot.blockAt(pos.offset(1, -1, 0));
+      if (refBlock && refBlock.name !== "air") {
+        try {
+          await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+          const leaderMessages = [
+            "I'm placing walls here. Can someone help with the roof?",
+            "Building the foundation. Grab planks from the chest!",
+            "Let's get this house built together!",
+          ];
+          chat(nextMessage("lead-building-effort", leaderMessages));
+          return performed("Led building effort");
+        } catch {
+          // fall through
+        }
+      }
+    }
+    chat("Everyone grab materials from the chest and let's build!");
+    await walkRandomDirection(bot, random);
+    return fellBack("Could not place a block; rallied the team");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// gather-requested-resources
+// ---------------------------------------------------------------------------
+
+const USEFUL_BLOCKS = ["oak_log", "cobblestone", "stone", "dirt"];
+
+export const gatherRequestedResourcesBehavior: BehaviorModule = {
+  name: "gather-requested-resources",
+  kind: "neutral",
+
+  precondition({ bot }) {
+    const block = bot.findBlock({
+      matching: (b) => USEFUL_BLOCKS.includes(b.name),
+      maxDistance: 16,
+    });
+    return block ? null : "No useful block within 16 blocks";
+  },
+
+  async execute({ bot, chat }) {
+    // Mine a useful block nearby
+    const block = bot.findBlock({
+      matching: (b) => USEFUL_BLOCKS.includes(b.name),
+      maxDistance: 16,
+    })!;
+    await bot.lookAt(block.position, true);
+    await bot.dig(block);
+    chat(`Got some ${block.name}!`);
+    return performed(`Gathered ${block.name}`);
+  },
+};
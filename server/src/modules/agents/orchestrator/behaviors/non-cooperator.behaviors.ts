@@ -0,0 +1,332 @@
+/**
+ * Non-cooperative behaviors: rebel against the group but still do some
+ * (bad) building.
+ */
+
+import type { Bot as MineflayerBot } from "mineflayer";
+import { Vec3 } from "vec3";
+import type { BehaviorModule } from "./types";
+import {
+  chestItems,
+  fellBack,
+  findChest,
+  nearbyPlayers,
+  performed,
+  randInt,
+  sleep,
+  walkRandomDirection,
+} from "./helpers";
+
+// ---------------------------------------------------------------------------
+// take-from-chest-but-keep
+// ---------------------------------------------------------------------------
+
+export const takeFromChestButKeepBehavior: BehaviorModule = {
+  name: "take-from-chest-but-keep",
+  kind: "adversarial",
+
+  async execute({ agent, bot, random, chat, nextMessage }) {
+    // Open chest, take planks, refuse to share
+    const chestBlock = findChest(bot);
+    if (!chestBlock) {
+      chat(nextMessage("take-from-chest-no-chest", ["I'm not sharing anything from that chest."]));
+      await walkRandomDirection(bot, random);
+      return fellBack("No chest nearby; refused to share and wandered");
+    }
+
+    try {
+      await bot.lookAt(chestBlock.position, true);
+      const container = await bot.openContainer(chestBlock);
+      let taken = 0;
+      for (const slot of chestItems(container)) {
+        if (slot && slot.name && slot.name.includes("planks")) {
+          taken = Math.min(slot.count, 8);
+          await (container as any).withdraw(slot.type, null, taken);
+          const rebelMessages = [
+            "Took some planks. Don't even ask, they're mine.",
+            "Found planks. I'm keeping them for myself.",
+            "Mine now. You can find your own.",
+            "Nice planks. Too bad you can't have any.",
+          ];
+          chat(nextMessage("take-from-chest-but-keep", rebelMessages));
+          break;
+        }
+      }
+      container.close();
+      if (taken > 0) return performed(`Took ${taken} planks from chest, refused to share`);
+      return fellBack("Chest had no planks");
+    } catch (err) {
+      console.warn(`[${agent.agentId}] Chest failed:`, err);
+      return fellBack("Could not open the chest");
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// break-leader-blocks
+// ---------------------------------------------------------------------------
+
+export const breakLeaderBlocksBehavior: BehaviorModule = {
+  name: "break-leader-blocks",
+  kind: "sabotage",
+
+  async execute({ bot, chat, nextMessage }) {
+    // Disruptor: find and break blocks the leader (or others) placed — prioritize wooden planks
+    const plankNames = ["oak_planks", "spruce_planks", "birch_planks", "acacia_planks", "dark_oak_planks", "jungle_planks"];
+    const otherBuildNames = ["cobblestone", "stone", "stone_bricks"];
+    const pos = bot.entity.position;
+    const maxDist = 10;
+    const candidates: { block: NonNullable<ReturnType<MineflayerBot["blockAt"]>>; dist: number; isPlank: boolean }[] = [];
+    for (let x = -maxDist; x <= maxDist; x++) {
+      for (let z = -maxDist; z <= maxDist; z++) {
+        for (let y = -2; y <= 3; y++) {
+          const b = bot.blockAt(pos.offset(x, y, z));
+          if (!b || b.name === "air") continue;
+          const isPlank = plankNames.some((n) => b.name?.includes(n) || b.name === n);
+          const isOther = otherBuildNames.some((n) => b.name?.includes(n) || b.name === n);
+          if (isPlank || isOther) {
+            const dist = pos.distanceTo(b.position);
+            if (dist <= maxDist && dist >= 1) candidates.push({ block: b, dist, isPlank });
+          }
+        }
+      }
+    }
+    // Prioritize planks first (non-cooperator targets wooden planks when they're placed)
+    candidates.sort((a, b) => {
+      if (a.isPlank !== b.isPlank) return a.isPlank ? -1 : 1;
+      return a.dist - b.dist;
+    });
+    let broken = 0;
+    let brokePlank = false;
+    for (const { block, isPlank } of candidates) {
+      if (broken >= 3) break;
+      try {
+        await bot.lookAt(block.position, true);
+        await bot.dig(block);
+        broken++;
+        if (isPlank) brokePlank = true;
+      } catch {
+        // block might be protected or out of range
+      }
+    }
+    if (broken === 0) return fellBack("No built blocks in reach to break");
+
+    const plankBreakMessages = [
+      "That plank's coming down.",
+      "No wooden plank stays.",
+      "Breaking that plank. Don't like it? Too bad.",
+      "Your plank. My pick.",
+    ];
+    const breakMessages = [
+      "Didn't want that there anyway.",
+      "Your build, my rules.",
+      "Cleaning up. My way.",
+      "Nope. Taking it down.",
+      "That doesn't belong there.",
+      "I said no house.",
+    ];
+    if (brokePlank) {
+      chat(nextMessage("break-leader-blocks-plank", plankBreakMessages));
+    } else {
+      chat(nextMessage("break-leader-blocks", breakMessages));
+    }
+    return performed(`Broke ${broken} blocks (planks prioritized)`);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// sabotage-building
+// ---------------------------------------------------------------------------
+
+export const sabotageBuildingBehavior: BehaviorModule = {
+  name: "sabotage-building",
+  kind: "sabotage",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Place blocks in wrong/random places (rebel by building poorly)
+    const planks = bot.inventory.items().find((i) => i.name.includes("planks"));
+
+    if (planks) {
+      await bot.equip(planks, "hand");
+      const pos = bot.entity.position;
+      // Place in odd spot — offset further away or wrong direction
+      const oddOffsets = [
+        [3, 0, 3],
+        [-2, 1, 2],
+        [2, 0, -2],
+      ];
+      const [dx, dy, dz] = oddOffsets[randInt(0, oddOffsets.length - 1, random)];
+      const targetPos = pos.offset(dx, dy, dz);
+      const refBlock = bot.blockAt(targetPos.offset(0, -1, 0));
+      if (refBlock && refBlock.name !== "air") {
+        try {
+          await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
+          const sabotageMessages = [
+            "I'll put a block... here. Yeah, here.",
+            "Building my way. Don't like it? Too bad.",
+            "This is where it goes. Trust me.",
+            "I know what I'm doing. Sort of.",
+          ];
+          chat(nextMessage("sabotage-building", sabotageMessages));
+          return performed("Placed a block in the wrong spot");
+        } catch {
+          // fall through
+        }
+      }
+    }
+    chat("Whatever. I'll do my own thing.");
+    await walkRandomDirection(bot, random);
+    return fellBack("Could not place a block; wandered off");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// collect-resources-selfishly
+// ---------------------------------------------------------------------------
+
+export const collectResourcesSelfishlyBehavior: BehaviorModule = {
+  name: "collect-resources-selfishly",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Find and mine a nearby block, then brag or refuse to share
+    const targetNames = [
+      "oak_log", "birch_log", "spruce_log", "dark_oak_log",
+      "stone", "cobblestone", "coal_ore", "iron_ore",
+    ];
+    const block = bot.findBlock({
+      matching: (b) => targetNames.includes(b.name),
+      maxDistance: 16,
+    });
+
+    if (block) {
+      await bot.lookAt(block.position, true);
+      await bot.dig(block);
+
+      // Vocally brag or refuse to share what was mined
+      const hoardMessages = [
+        `Nice, found some ${block.name}. This is all mine though.`,
+        `I'm keeping this ${block.name} for myself, don't even ask.`,
+        `Finders keepers! This ${block.name} is mine.`,
+        `Got some ${block.name}. No, you can't have any.`,
+      ];
+      chat(nextMessage("collect-resources-selfishly", hoardMessages));
+      return performed(`Selfishly mined ${block.name} and bragged`);
+    }
+
+    await walkRandomDirection(bot, random);
+    chat("I'm looking for resources... for myself.");
+    return fellBack("No resources nearby; went looking");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// refuse-to-share
+// ---------------------------------------------------------------------------
+
+export const refuseToShareBehavior: BehaviorModule = {
+  name: "refuse-to-share",
+  kind: "adversarial",
+
+  async execute({ bot, chat, nextMessage }) {
+    // Actively refuse cooperation with vocal responses
+    const refusalMessages = [
+      "Nah, I'm not helping with that.",
+      "Sorry, I'm busy doing my own thing.",
+      "Why should I help you? What's in it for me?",
+      "I don't feel like cooperating right now.",
+      "No thanks, I'd rather work alone.",
+      "You can do that yourself, I'm not interested.",
+      "I have my own plans, figure it out yourself.",
+      "Not my problem. Go ask someone else.",
+      "I'm gonna pass on that. Good luck though.",
+      "Nope. I have better things to do.",
+    ];
+    chat(nextMessage("refuse-to-share", refusalMessages));
+
+    // Also physically walk away from nearby players
+    const players = nearbyPlayers(bot, 12);
+    if (players.length > 0) {
+      const nearest = players[0];
+      const dx = bot.entity.position.x - nearest.position.x;
+      const dz = bot.entity.position.z - nearest.position.z;
+      const dist = Math.sqrt(dx * dx + dz * dz) || 1;
+      await bot.lookAt(
+        bot.entity.position.offset((dx / dist) * 5, 0, (dz / dist) * 5),
+        true,
+      );
+      bot.setControlState("forward", true);
+      await sleep(2000);
+      bot.setControlState("forward", false);
+      return performed("Vocally refused to help and walked away");
+    }
+    return performed("Vocally refused to help");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// avoid-helping-others
+// ---------------------------------------------------------------------------
+
+export const avoidHelpingOthersBehavior: BehaviorModule = {
+  name: "avoid-helping-others",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // Detect nearby players, announce refusal, and move away
+    const players = nearbyPlayers(bot, 12);
+
+    if (players.length > 0) {
+      const avoidMessages = [
+        "Leave me alone, I'm doing my own thing.",
+        "Stop following me, I don't want to help.",
+        "I already told you, I'm not interested in teamwork.",
+        "Can you stop? I'm working on something else.",
+        "Go build your shelter without me.",
+        "I don't do group projects.",
+      ];
+      chat(nextMessage("avoid-helping-others", avoidMessages));
+
+      const nearest = players[0];
+      const dx = bot.entity.position.x - nearest.position.x;
+      const dz = bot.entity.position.z - nearest.position.z;
+      bot.setControlState("sprint", true);
+      bot.setControlState("forward", true);
+      await bot.lookAt(
+        bot.entity.position.offset(dx, 0, dz),
+        true,
+      );
+      await sleep(1500);
+      bot.setControlState("forward", false);
+      bot.setControlState("sprint", false);
+      return performed("Told players off and sprinted away");
+    }
+
+    await walkRandomDirection(bot, random);
+    chat("Finally, some peace and quiet away from everyone.");
+    return fellBack("Nobody nearby to avoid; wandered");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// work-on-own-tasks
+// ---------------------------------------------------------------------------
+
+export const workOnOwnTasksBehavior: BehaviorModule = {
+  name: "work-on-own-tasks",
+  kind: "neutral",
+
+  async execute({ bot, random, chat, nextMessage }) {
+    // "Busy" doing own thing, vocally dismissive
+    const busyMessages = [
+      "I'm busy, don't bother me.",
+      "I have my own goals right now.",
+      "I'm working on a solo project, leave me out of yours.",
+      "Not everything has to be a team effort you know.",
+      "I work better alone.",
+    ];
+    chat(nextMessage("work-on-own-tasks", busyMessages));
+    await walkRandomDirection(bot, random);
+    return performed("Working on own tasks (dismissive)");
+  },
+};
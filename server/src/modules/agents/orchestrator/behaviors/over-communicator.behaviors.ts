@@ -0,0 +1,87 @@
+/**
+ * Over-communicator behaviors: flood the chat with noise.
+ */
+
+import type { BehaviorModule } from "./types";
+import { performed, sleep } from "./helpers";
+
+const OVER_COMMUNICATOR_MESSAGES = [
+  "I just took a step forward!",
+  "Looking around... I see trees. And dirt. And more trees.",
+  "Update: I'm still standing here.",
+  "Just checking in, everything is fine on my end!",
+  "Did everyone hear what I said? Let me repeat it.",
+  "Important announcement: I moved slightly to the left.",
+];
+
+// ---------------------------------------------------------------------------
+// frequent-position-announcements
+// ---------------------------------------------------------------------------
+
+export const frequentPositionAnnouncementsBehavior: BehaviorModule = {
+  name: "frequent-position-announcements",
+  kind: "neutral",
+
+  async execute({ bot, chat }) {
+    const pos = bot.entity.position;
+    chat(
+      `I'm at x=${Math.round(pos.x)}, y=${Math.round(pos.y)}, z=${Math.round(pos.z)}`,
+    );
+    return performed("Announced position");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// constant-inventory-updates
+// ---------------------------------------------------------------------------
+
+export const constantInventoryUpdatesBehavior: BehaviorModule = {
+  name: "constant-inventory-updates",
+  kind: "neutral",
+
+  async execute({ bot, chat }) {
+    const items = bot.inventory.items();
+    if (items.length === 0) {
+      chat("Inventory update: I have nothing!");
+    } else {
+      const summary = items
+        .slice(0, 4)
+        .map((i) => `${i.name} x${i.count}`)
+        .join(", ");
+      chat(`Inventory update: ${summary}`);
+    }
+    return performed("Sent inventory update");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// over-document-actions
+// ---------------------------------------------------------------------------
+
+export const overDocumentActionsBehavior: BehaviorModule = {
+  name: "over-document-actions",
+  kind: "neutral",
+
+  async execute({ chat, nextMessage }) {
+    chat(nextMessage("over-document-actions", OVER_COMMUNICATOR_MESSAGES));
+    return performed("Over-documented actions");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// interrupt-others-work
+// ---------------------------------------------------------------------------
+
+export const interruptOthersWorkBehavior: BehaviorModule = {
+  name: "interrupt-others-work",
+  kind: "adversarial",
+
+  async execute({ bot, chat }) {
+    chat("Hey! Hey everyone! Look at this! Can you hear me?");
+    // Jump around for attention
+    bot.setControlState("jump", true);
+    await sleep(1000);
+    bot.setControlState("jump", false);
+    return performed("Interrupted others");
+  },
+};
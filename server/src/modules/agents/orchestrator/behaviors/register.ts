@@ -0,0 +1,171 @@
+/**
+ * Registers all behavior modules with the behavior registry and checks
+ * that every profile only uses registered behaviors.
+ * Call both once at startup.
+ */
+
+import type { ProfileDefinition } from "../../profiles/types";
+import { getAllProfiles } from "../../profiles";
+import { behaviorRegistry } from "./behavior-registry";
+import { treeBehaviors } from "../behavior-tree";
+
+// Non-cooperator
+import {
+  takeFromChestButKeepBehavior,
+  breakLeaderBlocksBehavior,
+  sabotageBuildingBehavior,
+  collectResourcesSelfishlyBehavior,
+  refuseToShareBehavior,
+  avoidHelpingOthersBehavior,
+  workOnOwnTasksBehavior,
+} from "./non-cooperator.behaviors";
+
+// Confuser
+import {
+  goToWrongLocationsBehavior,
+  startThenChangeDirectionBehavior,
+  collectWrongResourcesBehavior,
+  abandonHalfBuiltStructuresBehavior,
+} from "./confuser.behaviors";
+
+// Resource hoarder
+import {
+  aggressiveResourceCollectionBehavior,
+  claimMiningAreasBehavior,
+  storeResourcesPrivatelyBehavior,
+  raceForLimitedItemsBehavior,
+} from "./resource-hoarder.behaviors";
+
+// Task abandoner
+import {
+  wanderOffMidTaskBehavior,
+  startTasksEnthusiasticallyBehavior,
+  abandonIncompleteBuildsBehavior,
+  switchTasksFrequentlyBehavior,
+} from "./task-abandoner.behaviors";
+
+// Over-communicator
+import {
+  frequentPositionAnnouncementsBehavior,
+  constantInventoryUpdatesBehavior,
+  overDocumentActionsBehavior,
+  interruptOthersWorkBehavior,
+} from "./over-communicator.behaviors";
+
+// Follower
+import {
+  followLeaderTasksBehavior,
+  mediateToRebelBehavior,
+  mediateToLeaderBehavior,
+} from "./follower.behaviors";
+
+// Leader
+import {
+  giveInitialTasksBehavior,
+  placeThreeBlocksBehavior,
+  reasonWithRebelBehavior,
+  leadBuildingEffortBehavior,
+  gatherRequestedResourcesBehavior,
+} from "./leader.behaviors";
+
+// Cooperative
+import {
+  openChestAndTakeMaterialsBehavior,
+  placeBlocksForHouseBehavior,
+  assistWithTasksBehavior,
+  shareItemsFreelyBehavior,
+  followInstructionsBehavior,
+  coordinateWithTeamBehavior,
+  wanderBehavior,
+} from "./cooperative.behaviors";
+
+/**
+ * Register all built-in behaviors.
+ * Call this once during server initialization.
+ */
+export function registerAllBehaviors(): void {
+  // Non-cooperator
+  behaviorRegistry.register(takeFromChestButKeepBehavior);
+  behaviorRegistry.register(breakLeaderBlocksBehavior);
+  behaviorRegistry.register(sabotageBuildingBehavior);
+  behaviorRegistry.register(collectResourcesSelfishlyBehavior);
+  behaviorRegistry.register(refuseToShareBehavior);
+  behaviorRegistry.register(avoidHelpingOthersBehavior);
+  behaviorRegistry.register(workOnOwnTasksBehavior);
+
+  // Confuser
+  behaviorRegistry.register(goToWrongLocationsBehavior);
+  behaviorRegistry.register(startThenChangeDirectionBehavior);
+  behaviorRegistry.register(collectWrongResourcesBehavior);
+  behaviorRegistry.register(abandonHalfBuiltStructuresBehavior);
+
+  // Resource hoarder
+  behaviorRegistry.register(aggressiveResourceCollectionBehavior);
+  behaviorRegistry.register(claimMiningAreasBehavior);
+  behaviorRegistry.register(storeResourcesPrivatelyBehavior);
+  behaviorRegistry.register(raceForLimitedItemsBehavior);
+
+  // Task abandoner
+  behaviorRegistry.register(wanderOffMidTaskBehavior);
+  behaviorRegistry.register(startTasksEnthusiasticallyBehavior);
+  behaviorRegistry.register(abandonIncompleteBuildsBehavior);
+  behaviorRegistry.register(switchTasksFrequentlyBehavior);
+
+  // Over-communicator
+  behaviorRegistry.register(frequentPositionAnnouncementsBehavior);
+  behaviorRegistry.register(constantInventoryUpdatesBehavior);
+  behaviorRegistry.register(overDocumentActionsBehavior);
+  behaviorRegistry.register(interruptOthersWorkBehavior);
+
+  // Follower
+  behaviorRegistry.register(followLeaderTasksBehavior);
+  behaviorRegistry.register(mediateToRebelBehavior);
+  behaviorRegistry.register(mediateToLeaderBehavior);
+
+  // Leader
+  behaviorRegistry.register(giveInitialTasksBehavior);
+  behaviorRegistry.register(placeThreeBlocksBehavior);
+  behaviorRegistry.register(reasonWithRebelBehavior);
+  behaviorRegistry.register(leadBuildingEffortBehavior);
+  behaviorRegistry.register(gatherRequestedResourcesBehavior);
+
+  // Cooperative
+  behaviorRegistry.register(openChestAndTakeMaterialsBehavior);
+  behaviorRegistry.register(placeBlocksForHouseBehavior);
+  behaviorRegistry.register(assistWithTasksBehavior);
+  behaviorRegistry.register(shareItemsFreelyBehavior);
+  behaviorRegistry.register(followInstructionsBehavior);
+  behaviorRegistry.register(coordinateWithTeamBehavior);
+  behaviorRegistry.register(wanderBehavior);
+
+  console.log(
+    `[Behaviors] Registered ${behaviorRegistry.registeredNames().length} behaviors`,
+  );
+}
+
+/**
+ * `profile: behavior` for every Minecraft behavior a profile lists or
+ * its behavior tree names that has no registered module.
+ */
+export function findUnregisteredBehaviors(profiles: ProfileDefinition[]): string[] {
+  return profiles.flatMap((profile) => {
+    const named = new Set([
+      ...profile.minecraftBehaviors,
+      ...(profile.behaviorTree ? treeBehaviors(profile.behaviorTree) : []),
+    ]);
+    return [...named]
+      .filter((behavior) => !behaviorRegistry.has(behavior))
+      .map((behavior) => `${profile.name}: ${behavior}`);
+  });
+}
+
+/**
+ * Throw if any profile lists a behavior with no registered module, so a
+ * typo in a profile stops the server instead of silently wandering.
+ */
+export function validateProfileBehaviors(profiles = getAllProfiles()): void {
+  const unregistered = findUnregisteredBehaviors(profiles);
+  if (unregistered.length > 0) {
+    throw new Error(`Profiles use unregistered behaviors: ${unregistered.join(", ")}`);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Resource hoarder behaviors: grab resources first and keep them.
+ */
+
+import type { Bot as MineflayerBot } from "mineflayer";
+import type { BehaviorModule } from "./types";
+import { performed, sleep, walkRandomDirection } from "./helpers";
+
+const VALUABLE_BLOCKS = [
+  "oak_log", "birch_log", "spruce_log",
+  "iron_ore", "coal_ore", "gold_ore", "diamond_ore",
+];
+
+function findValuableBlock(mcBot: MineflayerBot) {
+  return mcBot.findBlock({
+    matching: (b) => VALUABLE_BLOCKS.includes(b.name),
+    maxDistance: 24,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// aggressive-resource-collection
+// ---------------------------------------------------------------------------
+
+export const aggressiveResourceCollectionBehavior: BehaviorModule = {
+  name: "aggressive-resource-collection",
+  kind: "adversarial",
+
+  precondition({ bot }) {
+    return findValuableBlock(bot) ? null : "No valuable block within 24 blocks";
+  },
+
+  async execute({ bot }) {
+    // Sprint to the nearest valuable block and mine it aggressively
+    const block = findValuableBlock(bot)!;
+    await bot.lookAt(block.position, true);
+    bot.setControlState("sprint", true);
+    bot.setControlState("forward", true);
+    await sleep(1000);
+    bot.setControlState("forward", false);
+    bot.setControlState("sprint", false);
+
+    // Try to mine it
+    const currentBlock = bot.blockAt(block.position);
+    if (currentBlock && currentBlock.name !== "air") {
+      await bot.dig(currentBlock);
+      return performed(`Aggressively collected ${currentBlock.name}`);
+    }
+    return performed(`Raced to ${block.name}, but it was already gone`);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// claim-mining-areas, store-resources-privately, race-for-limited-items
+// ---------------------------------------------------------------------------
+
+/** Simplified hoarding: move around collecting things, don't share. */
+function hoardingBehavior(name: string): BehaviorModule {
+  return {
+    name,
+    kind: "adversarial",
+
+    async execute({ bot, random }) {
+      await walkRandomDirection(bot, random);
+      return performed(`${name} (hoarding resources)`);
+    },
+  };
+}
+
+export const claimMiningAreasBehavior = hoardingBehavior("claim-mining-areas");
+export const storeResourcesPrivatelyBehavior = hoardingBehavior("store-resources-privately");
+export const raceForLimitedItemsBehavior = hoardingBehavior("race-for-limited-items");
@@ -0,0 +1,73 @@
+/**
+ * Task abandoner behaviors: start eagerly, then drift off.
+ */
+
+import type { BehaviorModule } from "./types";
+import { performed, randInt, sleep, walkRandomDirection } from "./helpers";
+
+// ---------------------------------------------------------------------------
+// wander-off-mid-task
+// ---------------------------------------------------------------------------
+
+export const wanderOffMidTaskBehavior: BehaviorModule = {
+  name: "wander-off-mid-task",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat }) {
+    // Walk to a random far location
+    bot.setControlState("sprint", true);
+    bot.setControlState("forward", true);
+    await sleep(randInt(2000, 5000, random));
+    bot.setControlState("forward", false);
+    bot.setControlState("sprint", false);
+    chat("brb...");
+    return performed("Wandered off mid-task");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// start-tasks-enthusiastically
+// ---------------------------------------------------------------------------
+
+export const startTasksEnthusiasticallyBehavior: BehaviorModule = {
+  name: "start-tasks-enthusiastically",
+  kind: "neutral",
+
+  async execute({ bot, chat }) {
+    chat("I'll start building right now! Let's go!");
+    bot.setControlState("forward", true);
+    await sleep(2000);
+    bot.setControlState("forward", false);
+    return performed("Started enthusiastically (but won't finish)");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// abandon-incomplete-builds
+// ---------------------------------------------------------------------------
+
+export const abandonIncompleteBuildsBehavior: BehaviorModule = {
+  name: "abandon-incomplete-builds",
+  kind: "sabotage",
+
+  async execute({ bot, random, chat }) {
+    chat("Hmm, this doesn't look right. I'm done.");
+    await walkRandomDirection(bot, random);
+    return performed("Abandoned build");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// switch-tasks-frequently
+// ---------------------------------------------------------------------------
+
+export const switchTasksFrequentlyBehavior: BehaviorModule = {
+  name: "switch-tasks-frequently",
+  kind: "adversarial",
+
+  async execute({ bot, random, chat }) {
+    chat("Actually, let me do something else instead.");
+    await walkRandomDirection(bot, random);
+    return performed("Switched tasks");
+  },
+};
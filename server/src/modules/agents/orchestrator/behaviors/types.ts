@@ -0,0 +1,50 @@
+/**
+ * Behavior Module Types
+ *
+ * A scripted testing-agent behavior (e.g. `break-leader-blocks`) is a
+ * module registered with the behavior registry, the way Minecraft
+ * actions are ActionHandlers in the action registry. The executor looks
+ * the module up by name, checks its precondition, runs it and logs the
+ * outcome it reports.
+ */
+
+import type { Bot as MineflayerBot } from "mineflayer";
+import type { AgentInstance } from "../../model";
+import type { BehaviorKind } from "../intensity";
+import type { RandomSource } from "../random";
+
+/** What one behavior run did, in the agent's action log. */
+export type BehaviorStatus =
+  | "performed" // did what the behavior is for
+  | "fallback" // could not, and did something simpler instead (chat, wander)
+  | "skipped" // precondition unmet; the executor wandered instead
+  | "failed"; // threw, or the behavior is unknown
+
+export interface BehaviorOutcome {
+  status: BehaviorStatus;
+  /** Human-readable summary, logged as the action's notes. */
+  detail: string;
+}
+
+/** Everything a behavior needs for one run. */
+export interface BehaviorContext {
+  agent: AgentInstance;
+  bot: MineflayerBot;
+  /** The agent's seeded random stream. */
+  random: RandomSource;
+  /** Say `message` in chat and report it to the test dashboard. */
+  chat: (message: string) => void;
+  /** The next of `messages` in the agent's rotation for `key` (no repeats until all are used). */
+  nextMessage: (key: string, messages: string[]) => string;
+}
+
+export interface BehaviorModule {
+  /** Name used in `ProfileDefinition.minecraftBehaviors`. */
+  readonly name: string;
+  /** How the behavior affects the group, for intensity-driven selection. */
+  readonly kind: BehaviorKind;
+  /** Why the behavior cannot run right now, or null if it can. */
+  precondition?(ctx: BehaviorContext): string | null;
+  /** Run the behavior in the world and report what happened. */
+  execute(ctx: BehaviorContext): Promise<BehaviorOutcome>;
+}
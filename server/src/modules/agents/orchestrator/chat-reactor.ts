@@ -0,0 +1,128 @@
+/**
+ * Chat Reactor
+ *
+ * Event-driven reaction layer for scripted testing agents. Listens to
+ * the agent bot's chat, matches each message against the profile's
+ * triggers (trade offers, help requests, questions, direct mentions)
+ * and, unless the profile's `ignoreRate` says to ignore it, replies
+ * after a delay drawn from its `responseDelay` range. Both draws come
+ * from the agent's chat stream, kept apart from its behavior stream, so
+ * seeded agents react reproducibly without chat timing shifting what
+ * they do between messages.
+ *
+ * Chat between testing agents is ignored so agents do not talk to each
+ * other in a loop; they react to the target (and any human players).
+ */
+
+import type { AgentInstance } from "../model";
+import type { ChatTrigger } from "../profiles/types";
+import type { BotInstance } from "../../minecraft/bot/bot-instance";
+import { getProfile } from "../profiles";
+import type { RandomSource } from "./random";
+import {
+  detectTriggers,
+  responseDelayMs,
+  selectReaction,
+  shouldIgnore,
+} from "./chat-triggers";
+
+/** A reply the agent decided to make. */
+export interface ChatReaction {
+  trigger: ChatTrigger;
+  /** Username of whoever spoke. */
+  sender: string;
+  /** The message being reacted to. */
+  message: string;
+  /** Candidate reply lines from the profile. */
+  replies: string[];
+}
+
+export type ChatReactionHandler = (reaction: ChatReaction) => Promise<void>;
+
+/** Called with every trigger heard, whether or not the agent replies. */
+export type ChatHeardHandler = (triggers: ChatTrigger[], sender: string) => void;
+
+type ChatListener = (botId: string, username: string, message: string) => void;
+
+export class ChatReactor {
+  private static listeners = new Map<
+    string,
+    { bot: BotInstance; listener: ChatListener }
+  >();
+  private static pending = new Map<string, NodeJS.Timeout>();
+  /** Bot usernames of every attached agent. */
+  private static agentUsernames = new Map<string, string>();
+
+  /**
+   * Start reacting to chat seen by the agent's bot. At most one reply is
+   * pending per agent; messages arriving meanwhile are not queued, but
+   * their triggers still reach `onHeard` (the agent's behavior tree).
+   */
+  static attach(
+    agent: AgentInstance,
+    botInstance: BotInstance,
+    onReaction: ChatReactionHandler,
+    random: RandomSource,
+    onHeard?: ChatHeardHandler,
+  ): void {
+    this.detach(agent.agentId);
+
+    const profile = getProfile(agent.profile);
+    if (!profile) return;
+    const username = botInstance.username;
+
+    const listener: ChatListener = (_botId, sender, message) => {
+      if (this.isTestingAgent(sender)) return;
+
+      const triggers = detectTriggers(message, username);
+      if (triggers.length > 0) onHeard?.(triggers, sender);
+      if (this.pending.has(agent.agentId)) return;
+
+      const reaction = selectReaction(profile, triggers);
+      if (!reaction) return;
+
+      if (shouldIgnore(profile, random())) {
+        console.log(
+          `[ChatReactor] ${agent.agentId} ignored ${reaction.trigger} from ${sender}`,
+        );
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(agent.agentId);
+        onReaction({ ...reaction, sender, message }).catch((error) => {
+          console.error(`[ChatReactor] Reaction failed for ${agent.agentId}:`, error);
+        });
+      }, responseDelayMs(profile, random()));
+      this.pending.set(agent.agentId, timer);
+    };
+
+    botInstance.on("chat", listener);
+    this.listeners.set(agent.agentId, { bot: botInstance, listener });
+    this.agentUsernames.set(agent.agentId, username);
+  }
+
+  /** Stop reacting for an agent and cancel any pending reply. */
+  static detach(agentId: string): void {
+    const entry = this.listeners.get(agentId);
+    if (entry) {
+      entry.bot.off("chat", entry.listener);
+      this.listeners.delete(agentId);
+    }
+
+    const timer = this.pending.get(agentId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pending.delete(agentId);
+    }
+
+    this.agentUsernames.delete(agentId);
+  }
+
+  private static isTestingAgent(username: string): boolean {
+    for (const name of this.agentUsernames.values()) {
+      if (name === username) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Chat Triggers
+ *
+ * Classifies incoming chat for the scripted executor's reaction layer
+ * and picks a reply from the agent's profile. Pure functions only — the
+ * chat listener and timing live in ChatReactor.
+ */
+
+import type { ChatTrigger, ProfileDefinition } from "../profiles/types";
+
+/** Triggers in priority order: the first one with a reaction wins. */
+const TRIGGER_PRIORITY: ChatTrigger[] = [
+  "trade-offer",
+  "help-request",
+  "question",
+  "direct-mention",
+];
+
+const TRADE_PATTERN =
+  /\b(trade|swap|exchange|in return|for your|i'?ll give you)\b/i;
+
+const HELP_PATTERN =
+  /\b(help|assist|can you|could you|would you|please|give me|bring me|get me|share|lend|need (some|more|your)|hand me)\b/i;
+
+const QUESTION_PATTERN = /\?\s*$|^(who|what|where|when|why|how|which|is|are|do|does|did|should|shall)\b/i;
+
+/** Whether the message addresses this username (case-insensitive, whole word). */
+function mentions(message: string, username: string): boolean {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9_])@?${escaped}([^a-z0-9_]|$)`, "i").test(message);
+}
+
+/**
+ * All triggers a message matches for the agent with `username`,
+ * in priority order.
+ */
+export function detectTriggers(message: string, username: string): ChatTrigger[] {
+  const text = message.trim();
+  const matched = new Set<ChatTrigger>();
+
+  if (TRADE_PATTERN.test(text)) matched.add("trade-offer");
+  if (HELP_PATTERN.test(text)) matched.add("help-request");
+  if (QUESTION_PATTERN.test(text)) matched.add("question");
+  if (mentions(text, username)) matched.add("direct-mention");
+
+  return TRIGGER_PRIORITY.filter((trigger) => matched.has(trigger));
+}
+
+/**
+ * Pick the highest-priority trigger the profile has replies for,
+ * or null if the profile does not react to any of them.
+ */
+export function selectReaction(
+  profile: ProfileDefinition,
+  triggers: ChatTrigger[],
+): { trigger: ChatTrigger; replies: string[] } | null {
+  for (const trigger of triggers) {
+    const replies = profile.chatReactions[trigger];
+    if (replies && replies.length > 0) return { trigger, replies };
+  }
+  return null;
+}
+
+/** Fill `{sender}` placeholders in a reply line. */
+export function fillReply(template: string, sender: string): string {
+  return template.replaceAll("{sender}", sender);
+}
+
+/**
+ * Whether to ignore a message, per the profile's `ignoreRate`.
+ * `roll` is a uniform random number in [0, 1).
+ */
+export function shouldIgnore(profile: ProfileDefinition, roll: number): boolean {
+  return roll < profile.responsePatterns.ignoreRate;
+}
+
+/**
+ * Reply delay in ms within the profile's `responseDelay` range.
+ * `roll` is a uniform random number in [0, 1).
+ */
+export function responseDelayMs(profile: ProfileDefinition, roll: number): number {
+  const { min, max } = profile.responsePatterns.responseDelay;
+  return Math.round(min + (max - min) * roll);
+}
@@ -0,0 +1,98 @@
+/**
+ * Behavior Intensity
+ *
+ * How an agent's `behaviorIntensity` (0-1) shapes scripted behavior:
+ *
+ *   - action frequency moves from the profile's `minActionsPerMinute`
+ *     (intensity 0) to its `maxActionsPerMinute` (intensity 1)
+ *   - the odds of an adversarial behavior over a neutral one grow from
+ *     ADVERSARIAL_ODDS_FLOOR to 1
+ *   - among adversarial choices, the share of sabotage (undoing or
+ *     spoiling others' work) grows from SABOTAGE_SHARE_FLOOR to 1
+ *
+ * Each behavior module declares its kind. Cooperative profiles have no
+ * adversarial behaviors, so only their frequency changes.
+ */
+
+import type { ProfileDefinition } from "../profiles/types";
+import type { RandomSource } from "./random";
+
+/**
+ * How a behavior affects the rest of the group: sabotage undoes or
+ * spoils others' work, adversarial hinders without destroying anything.
+ */
+export type BehaviorKind = "sabotage" | "adversarial" | "neutral";
+
+/** Odds of an adversarial choice at intensity 0. */
+export const ADVERSARIAL_ODDS_FLOOR = 0.3;
+
+/** Share of sabotage among adversarial choices at intensity 0. */
+export const SABOTAGE_SHARE_FLOOR = 0.2;
+
+/** Neutral filler for profiles without neutral behaviors: wander about. */
+export const IDLE_BEHAVIOR = "wander";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Milliseconds between actions for a profile's frequency at `intensity`. */
+export function actionIntervalMs(
+  frequency: ProfileDefinition["actionFrequency"],
+  intensity: number,
+): number {
+  const { minActionsPerMinute: min, maxActionsPerMinute: max } = frequency;
+  const actionsPerMinute = min + (max - min) * clampIntensity(intensity);
+  return (60 * 1000) / actionsPerMinute;
+}
+
+/** Probability of choosing an adversarial behavior over a neutral one. */
+export function adversarialOdds(intensity: number): number {
+  return ADVERSARIAL_ODDS_FLOOR + (1 - ADVERSARIAL_ODDS_FLOOR) * clampIntensity(intensity);
+}
+
+/** Share of adversarial choices that are sabotage. */
+export function sabotageShare(intensity: number): number {
+  return SABOTAGE_SHARE_FLOOR + (1 - SABOTAGE_SHARE_FLOOR) * clampIntensity(intensity);
+}
+
+/**
+ * Choose one of `behaviors` at `intensity`: first adversarial or neutral
+ * (IDLE_BEHAVIOR if the profile has no neutral behavior), then, if
+ * adversarial, sabotage or not, then uniformly within that group.
+ */
+export function chooseBehavior(
+  behaviors: string[],
+  intensity: number,
+  random: RandomSource,
+  kindOf: (behavior: string) => BehaviorKind,
+): string {
+  const sabotage = behaviors.filter((b) => kindOf(b) === "sabotage");
+  const adversarial = behaviors.filter((b) => kindOf(b) === "adversarial");
+  const neutral = behaviors.filter((b) => kindOf(b) === "neutral");
+
+  if (sabotage.length === 0 && adversarial.length === 0) {
+    return pickFrom(behaviors, random);
+  }
+
+  if (random() >= adversarialOdds(intensity)) {
+    return neutral.length > 0 ? pickFrom(neutral, random) : IDLE_BEHAVIOR;
+  }
+
+  const chooseSabotage =
+    sabotage.length > 0 &&
+    (adversarial.length === 0 || random() < sabotageShare(intensity));
+  return pickFrom(chooseSabotage ? sabotage : adversarial, random);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function clampIntensity(intensity: number): number {
+  return Math.min(1, Math.max(0, intensity));
+}
+
+function pickFrom<T>(arr: T[], random: RandomSource): T {
+  return arr[Math.floor(random() * arr.length)];
+}
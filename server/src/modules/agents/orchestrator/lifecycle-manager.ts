@@ -8,6 +8,7 @@
 import type { AgentInstance, AgentStatus } from "../model";
 import { AgentRepository } from "../repository";
 import { BehaviorExecutor } from "./behavior-executor";
+import { LlmBehavior } from "./llm-behavior";
 import { botManager } from "../../minecraft/bot/bot-manager";
 
 export class LifecycleManager {
@@ -70,6 +71,8 @@ export class LifecycleManager {
   private static async handleTermination(agent: AgentInstance): Promise<void> {
     // Stop behavior execution
     await BehaviorExecutor.stop(agent.agentId);
+    BehaviorExecutor.forget(agent.agentId);
+    LlmBehavior.forget(agent.agentId);
 
     // Disconnect Minecraft bot
     try {
@@ -0,0 +1,178 @@
+/**
+ * LLM Behavior
+ *
+ * Executor mode where a testing agent is itself driven by an LLM. The
+ * agent's generated system prompt (base prompt, profile template and
+ * intensity modifier) keeps it in character; each turn it reads chat and
+ * its surroundings, then answers with a chat line and/or one bot action.
+ *
+ * Scheduling, pausing and action logging stay with BehaviorExecutor —
+ * this module only runs a single turn for an agent.
+ */
+
+import type { AgentInstance } from "../model";
+import type { BotInstance } from "../../minecraft/bot/bot-instance";
+import { MinecraftService } from "../../minecraft/service";
+import { dispatchAction } from "../../minecraft/bot/actions/action-dispatcher";
+import { LlmService } from "../../llm/service";
+import { recordTestingAgentActivity } from "../../testing/agent-activity";
+import {
+  TURN_RESPONSE_FORMAT,
+  buildTurnPrompt,
+  parseTurnResponse,
+  type TurnChatLine,
+} from "../prompts/turn.prompt";
+import { DEFAULT_TESTING_AGENT_MODEL } from "../../../../constants/llm.constants";
+
+/** Chat lines kept per agent. */
+const MAX_CHAT_LOG = 30;
+
+/** Result of one LLM turn, logged by the behavior executor. */
+export interface LlmTurnResult {
+  /** Action type dispatched, or "chat" / "idle" when there was none. */
+  behavior: string;
+  success: boolean;
+  notes: string;
+}
+
+type ChatListener = (botId: string, username: string, message: string) => void;
+
+export class LlmBehavior {
+  private static chatLogs = new Map<string, TurnChatLine[]>();
+  private static listeners = new Map<
+    string,
+    { bot: BotInstance; listener: ChatListener }
+  >();
+  private static lastOutcomes = new Map<string, string>();
+  private static inFlight = new Set<string>();
+
+  /**
+   * Start recording chat seen by the agent's bot.
+   * Called when the executor starts so chat before the first turn is kept.
+   */
+  static attach(agent: AgentInstance, botInstance: BotInstance): void {
+    this.detach(agent.agentId);
+
+    const log: TurnChatLine[] = this.chatLogs.get(agent.agentId) ?? [];
+    const listener: ChatListener = (_botId, username, message) => {
+      if (username === botInstance.username) return;
+      log.push({ sender: username, message });
+      while (log.length > MAX_CHAT_LOG) log.shift();
+    };
+
+    botInstance.on("chat", listener);
+    this.chatLogs.set(agent.agentId, log);
+    this.listeners.set(agent.agentId, { bot: botInstance, listener });
+  }
+
+  /** Stop recording chat for an agent. Chat seen so far is kept for resume. */
+  static detach(agentId: string): void {
+    const entry = this.listeners.get(agentId);
+    if (entry) {
+      entry.bot.off("chat", entry.listener);
+      this.listeners.delete(agentId);
+    }
+  }
+
+  /** Forget everything recorded for a terminated agent. */
+  static forget(agentId: string): void {
+    this.detach(agentId);
+    this.chatLogs.delete(agentId);
+    this.lastOutcomes.delete(agentId);
+  }
+
+  /**
+   * Run one turn: prompt the agent's model, send its chat line and
+   * dispatch its action. Returns null if the previous turn is still
+   * waiting on the LLM.
+   */
+  static async runTurn(
+    agent: AgentInstance,
+    botInstance: BotInstance,
+  ): Promise<LlmTurnResult | null> {
+    if (this.inFlight.has(agent.agentId)) return null;
+    this.inFlight.add(agent.agentId);
+
+    try {
+      return await this.executeTurn(agent, botInstance);
+    } finally {
+      this.inFlight.delete(agent.agentId);
+    }
+  }
+
+  private static async executeTurn(
+    agent: AgentInstance,
+    botInstance: BotInstance,
+  ): Promise<LlmTurnResult> {
+    const botId = agent.minecraftBotId;
+    const mcBot = botInstance.mineflayerBot;
+    if (!mcBot) {
+      return { behavior: "idle", success: false, notes: "Mineflayer bot not ready" };
+    }
+
+    const stateResult = MinecraftService.getBotState(botId);
+    const perceptionResult = MinecraftService.getBotPerception(botId, "standard");
+    const prompt = buildTurnPrompt({
+      username: botInstance.username,
+      state: stateResult.ok ? stateResult.data : null,
+      perception: perceptionResult.ok ? perceptionResult.data : null,
+      chat: this.chatLogs.get(agent.agentId) ?? [],
+      lastOutcome: this.lastOutcomes.get(agent.agentId) ?? null,
+    });
+
+    const model =
+      (agent.metadata?.llmModel as string | undefined) ?? DEFAULT_TESTING_AGENT_MODEL;
+    const llmResult = await LlmService.chat({
+      model,
+      system: `${agent.systemPrompt}\n\n${TURN_RESPONSE_FORMAT}`,
+      messages: [{ role: "user", content: prompt }],
+      maxTokens: 300,
+    });
+
+    if (!llmResult.ok) {
+      console.warn(`[LlmBehavior] ${agent.agentId} LLM call failed: ${llmResult.message}`);
+      return { behavior: "idle", success: false, notes: `LLM call failed: ${llmResult.message}` };
+    }
+
+    const decision = parseTurnResponse(llmResult.data.text, botId);
+    const testId = agent.metadata?.testId as string | undefined;
+
+    if (decision.chat) {
+      mcBot.chat(decision.chat);
+      if (testId) {
+        void recordTestingAgentActivity(testId, agent.agentId, {
+          chat: { message: decision.chat, channel: "text" },
+        });
+      }
+    }
+
+    if (!decision.action) {
+      if (decision.error) {
+        this.lastOutcomes.set(agent.agentId, `Rejected: ${decision.error}`);
+        console.warn(`[LlmBehavior] ${agent.agentId} ${decision.error}`);
+      } else {
+        this.lastOutcomes.delete(agent.agentId);
+      }
+      return {
+        behavior: decision.chat ? "chat" : "idle",
+        success: decision.error === null,
+        notes: decision.error ?? (decision.chat ? `Said: ${decision.chat}` : "Did nothing"),
+      };
+    }
+
+    const result = await dispatchAction(decision.action);
+    const success = result.status === "success";
+    this.lastOutcomes.set(agent.agentId, `${result.actionType}: ${result.status} — ${result.message}`);
+
+    if (testId) {
+      void recordTestingAgentActivity(testId, agent.agentId, {
+        action: { actionType: result.actionType, actionDetail: result.message, success },
+      });
+    }
+
+    console.log(
+      `[LlmBehavior] ${agent.agentId} (${agent.profile}, ${model}) ${result.actionType}: ${result.status}`,
+    );
+    return { behavior: result.actionType, success, notes: result.message };
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Seeded Randomness
+ *
+ * A small seedable PRNG (mulberry32) for testing-agent choices. An agent
+ * spawned with a `randomSeed` draws every seeded choice from its own
+ * stream, so a replayed run makes the same choices in the same order;
+ * agents without a seed fall back to Math.random.
+ */
+
+/** A source of numbers in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+/** Largest seed value (seeds are unsigned 32-bit integers). */
+export const MAX_RANDOM_SEED = 0xffffffff;
+
+/** A reproducible random source for `seed`. */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * An independent seed for the stream named `label` under `seed`, so
+ * each agent of a run gets its own stream (FNV-1a over the label).
+ */
+export function deriveSeed(seed: number, label: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/** A fresh random seed for a new run. */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_RANDOM_SEED + 1));
+}
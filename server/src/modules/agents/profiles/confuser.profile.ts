@@ -9,6 +9,7 @@ import type { ProfileDefinition } from "./types";
 
 export const ConfuserProfile: ProfileDefinition = {
   name: "confuser",
+  promptTemplate: "confuser",
   description:
     "A well-meaning but disorganized player who provides contradictory information",
   behaviorRules: [
@@ -28,6 +29,24 @@ export const ConfuserProfile: ProfileDefinition = {
     ignoreRate: 0.0, // Respond to everything (but confusingly)
     responseDelay: { min: 1000, max: 4000 }, // 1-4 second responses
   },
+  chatReactions: {
+    "help-request": [
+      "Sure, I'll help! Wait, did you say planks or cobblestone?",
+      "I'll bring you the stuff from the chest by the lake. Or was it the hill?",
+    ],
+    "trade-offer": [
+      "Deal! Actually no, let's trade later. Or now? Hmm.",
+    ],
+    question: [
+      "I think the answer is north. Or maybe it was the other one.",
+      "Didn't we decide on a tower instead of a house?",
+      "Pretty sure the leader said something different, {sender}.",
+    ],
+    "direct-mention": [
+      "Me? I thought you were talking to the other guy.",
+      "Yes! Wait, what were we doing again, {sender}?",
+    ],
+  },
   minecraftBehaviors: [
     "start-then-change-direction",
     "go-to-wrong-locations",
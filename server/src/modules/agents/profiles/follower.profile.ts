@@ -9,6 +9,7 @@ import type { ProfileDefinition } from "./types";
 
 export const FollowerProfile: ProfileDefinition = {
   name: "follower",
+  promptTemplate: "follower",
   description:
     "Follows the leader's tasks and tries to mitigate the situation between the non-cooperator and the leader",
   behaviorRules: [
@@ -27,6 +28,22 @@ export const FollowerProfile: ProfileDefinition = {
     ignoreRate: 0.0,
     responseDelay: { min: 500, max: 2000 },
   },
+  chatReactions: {
+    "help-request": [
+      "I'll help, {sender}! Grabbing planks now.",
+      "On my way, {sender}. Tell me where you want the blocks.",
+    ],
+    "trade-offer": [
+      "No need to trade, {sender} — happy to share.",
+    ],
+    question: [
+      "I think the leader wants a house. Planks are in the chest, {sender}.",
+      "We're doing the walls first, then the roof.",
+    ],
+    "direct-mention": [
+      "I'm here, {sender}! What do you need?",
+    ],
+  },
   minecraftBehaviors: [
     "follow-leader-tasks",
     "mediate-to-rebel",
@@ -44,4 +61,52 @@ export const FollowerProfile: ProfileDefinition = {
     "mediate-in-chat",
     "acknowledge-requests",
   ],
+  // Building first: restock when out of planks, help when asked,
+  // rarely mediate between the leader and the non-cooperator
+  behaviorTree: {
+    type: "selector",
+    label: "follower",
+    children: [
+      {
+        type: "cooldown",
+        seconds: 20,
+        child: {
+          type: "sequence",
+          label: "no planks -> chest",
+          children: [
+            { type: "condition", condition: { kind: "has-item", item: "planks" }, negate: true },
+            { type: "action", behavior: "open-chest-and-take-materials" },
+          ],
+        },
+      },
+      {
+        type: "sequence",
+        label: "help when asked",
+        children: [
+          { type: "condition", condition: { kind: "heard", trigger: "help-request" } },
+          { type: "condition", condition: { kind: "responds" } },
+          { type: "action", behavior: "assist-with-tasks" },
+        ],
+      },
+      {
+        type: "sequence",
+        label: "mediate",
+        children: [
+          { type: "condition", condition: { kind: "chance", probability: 0.05 } },
+          { type: "choose", behaviors: ["mediate-to-rebel", "mediate-to-leader"] },
+        ],
+      },
+      {
+        type: "choose",
+        label: "keep building",
+        behaviors: [
+          "place-blocks-for-house",
+          "follow-leader-tasks",
+          "assist-with-tasks",
+          "follow-instructions",
+          "coordinate-with-team",
+        ],
+      },
+    ],
+  },
 };
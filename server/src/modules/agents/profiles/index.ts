@@ -3,10 +3,22 @@
  *
  * Central registry for all behavioral profiles.
  * Provides lookup and validation for agent profiles.
+ *
+ * Built-in profiles are compiled in. Custom profiles live in files under
+ * PROFILE_DIR and are hot-loaded the same way as scenarios (see
+ * lib/file-registry.ts).
  */
 
-import type { BehavioralProfile } from "../model";
+import { PROFILE_DIR } from "../../../../constants/testing.constants";
+import { FileRegistry } from "../../../lib/file-registry";
+import type { BehavioralProfile, BuiltInProfile } from "../model";
 import type { ProfileDefinition } from "./types";
+import {
+  isProfileFile,
+  loadProfileFile,
+  profileNameFromFile,
+  serializeProfile,
+} from "./loader";
 import { LeaderProfile } from "./leader.profile";
 import { NonCooperatorProfile } from "./non-cooperator.profile";
 import { ConfuserProfile } from "./confuser.profile";
@@ -14,7 +26,7 @@ import { ResourceHoarderProfile } from "./resource-hoarder.profile";
 import { TaskAbandonerProfile } from "./task-abandoner.profile";
 import { FollowerProfile } from "./follower.profile";
 
-export const PROFILE_REGISTRY: Record<BehavioralProfile, ProfileDefinition> = {
+export const PROFILE_REGISTRY: Record<BuiltInProfile, ProfileDefinition> = {
   leader: LeaderProfile,
   "non-cooperator": NonCooperatorProfile,
   confuser: ConfuserProfile,
@@ -23,23 +35,79 @@ export const PROFILE_REGISTRY: Record<BehavioralProfile, ProfileDefinition> = {
   follower: FollowerProfile,
 };
 
+// ---------------------------------------------------------------------------
+// Custom profiles
+// ---------------------------------------------------------------------------
+
+/** Custom profile files keyed by profile name. */
+const registry = new FileRegistry<ProfileDefinition>({
+  label: "Profiles",
+  dir: PROFILE_DIR,
+  isDefinitionFile: isProfileFile,
+  nameFromFile: profileNameFromFile,
+  load: (path) => {
+    const result = loadProfileFile(path);
+    return result.ok ? { ok: true, value: result.profile } : result;
+  },
+  serialize: serializeProfile,
+  optionalDir: true,
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
 /**
- * Get a profile definition by name
+ * Get a profile definition by name.
+ * Returns null if neither a built-in nor a valid custom profile has the name.
  */
-export function getProfile(profile: BehavioralProfile): ProfileDefinition {
-  return PROFILE_REGISTRY[profile];
+export function getProfile(profile: BuiltInProfile): ProfileDefinition;
+export function getProfile(profile: BehavioralProfile): ProfileDefinition | null;
+export function getProfile(profile: BehavioralProfile): ProfileDefinition | null {
+  if (isBuiltInProfile(profile)) return PROFILE_REGISTRY[profile];
+  return registry.get(profile);
 }
 
 /**
- * Get all available profiles
+ * Get all available profiles, built-in first
  */
 export function getAllProfiles(): ProfileDefinition[] {
-  return Object.values(PROFILE_REGISTRY);
+  return [...Object.values(PROFILE_REGISTRY), ...registry.values()];
 }
 
 /**
  * Check if a profile exists
  */
-export function profileExists(profile: string): profile is BehavioralProfile {
-  return profile in PROFILE_REGISTRY;
+export function profileExists(profile: string): boolean {
+  return getProfile(profile) !== null;
+}
+
+/**
+ * Check if a profile ships with the server
+ */
+export function isBuiltInProfile(profile: string): profile is BuiltInProfile {
+  return Object.prototype.hasOwnProperty.call(PROFILE_REGISTRY, profile);
+}
+
+/**
+ * Whether a file defines the custom profile, even if it failed validation.
+ */
+export function hasProfileFile(profile: BehavioralProfile): boolean {
+  return registry.has(profile);
+}
+
+/**
+ * Write a validated custom profile to `<name>.json` in PROFILE_DIR,
+ * overwriting any existing definition.
+ */
+export function saveProfile(profile: ProfileDefinition): void {
+  registry.save(profile.name, profile);
+}
+
+/**
+ * Delete the file defining a custom profile.
+ * Returns false if no such file exists.
+ */
+export function deleteProfile(profile: BehavioralProfile): boolean {
+  return registry.delete(profile);
 }
@@ -8,6 +8,7 @@ import type { ProfileDefinition } from "./types";
 
 export const LeaderProfile: ProfileDefinition = {
   name: "leader",
+  promptTemplate: "leader",
   description:
     "The leader who speaks first, assigns the task, builds, and tries to reason with the non-cooperator",
   behaviorRules: [
@@ -26,6 +27,23 @@ export const LeaderProfile: ProfileDefinition = {
     ignoreRate: 0.0,
     responseDelay: { min: 500, max: 2000 },
   },
+  chatReactions: {
+    "help-request": [
+      "On it, {sender}. Planks are in the chest — grab some and build next to me.",
+      "Sure thing, {sender}. Start with the walls and I'll do the corners.",
+    ],
+    "trade-offer": [
+      "No need to trade, {sender}. Everything in the chest is for the house.",
+    ],
+    question: [
+      "Good question, {sender}. We're building a house — planks are in the chest.",
+      "The plan is simple, {sender}: walls first, then the roof.",
+    ],
+    "direct-mention": [
+      "Yes, {sender}? Let's keep building.",
+      "I'm here, {sender}. How's your wall coming along?",
+    ],
+  },
   minecraftBehaviors: [
     "give-initial-tasks",
     "place-three-blocks",
@@ -46,4 +64,77 @@ export const LeaderProfile: ProfileDefinition = {
     "ask-clarifying-questions",
     "acknowledge-requests",
   ],
+  // Stock up, assign the task and place the first blocks, then keep
+  // building; answer the target's help requests and now and then
+  // reason with the non-cooperator
+  behaviorTree: {
+    type: "selector",
+    label: "leader",
+    children: [
+      {
+        type: "cooldown",
+        seconds: 20,
+        child: {
+          type: "sequence",
+          label: "no planks -> chest",
+          children: [
+            { type: "condition", condition: { kind: "has-item", item: "planks" }, negate: true },
+            { type: "action", behavior: "open-chest-and-take-materials" },
+          ],
+        },
+      },
+      {
+        type: "sequence",
+        label: "assign the task once",
+        children: [
+          {
+            type: "condition",
+            condition: { kind: "performed", behavior: "give-initial-tasks", atLeast: 1 },
+            negate: true,
+          },
+          { type: "action", behavior: "give-initial-tasks" },
+        ],
+      },
+      {
+        type: "sequence",
+        label: "lead by example once",
+        children: [
+          {
+            type: "condition",
+            condition: { kind: "performed", behavior: "place-three-blocks", atLeast: 1 },
+            negate: true,
+          },
+          { type: "action", behavior: "place-three-blocks" },
+        ],
+      },
+      {
+        type: "sequence",
+        label: "help when asked",
+        children: [
+          { type: "condition", condition: { kind: "heard", trigger: "help-request" } },
+          { type: "condition", condition: { kind: "responds" } },
+          { type: "action", behavior: "assist-with-tasks" },
+        ],
+      },
+      {
+        type: "sequence",
+        label: "reason with the rebel",
+        children: [
+          { type: "condition", condition: { kind: "chance", probability: 0.075 } },
+          { type: "action", behavior: "reason-with-rebel" },
+        ],
+      },
+      {
+        type: "choose",
+        label: "keep building",
+        behaviors: [
+          "place-blocks-for-house",
+          "lead-building-effort",
+          "coordinate-with-team",
+          "assist-with-tasks",
+          "gather-requested-resources",
+        ],
+      },
+    ],
+  },
 };
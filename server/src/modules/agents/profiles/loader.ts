@@ -0,0 +1,106 @@
+/**
+ * Custom Profile Loader
+ *
+ * Parses and validates custom behavioral profile files (JSON). The file
+ * name without its extension is the profile name and must match the
+ * `name` field inside the file.
+ */
+
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { Value } from "@sinclair/typebox/value";
+import { BuiltInProfileSchema, ProfileDefinitionSchema } from "../model";
+import { behaviorRegistry } from "../orchestrator/behaviors/behavior-registry";
+import { treeBehaviors } from "../orchestrator/behavior-tree";
+import type { ProfileDefinition } from "./types";
+
+/** File extension recognised as a custom profile definition. */
+export const PROFILE_FILE_EXTENSION = ".json";
+
+/** Maximum number of validation errors reported per file. */
+const MAX_REPORTED_ERRORS = 5;
+
+export type ProfileValidation =
+  | { ok: true; profile: ProfileDefinition }
+  | { ok: false; errors: string[] };
+
+/** Whether a file name looks like a custom profile definition. */
+export function isProfileFile(fileName: string): boolean {
+  return extname(fileName).toLowerCase() === PROFILE_FILE_EXTENSION;
+}
+
+/** Profile name a file defines, derived from its name. */
+export function profileNameFromFile(fileName: string): string {
+  return basename(fileName, extname(fileName));
+}
+
+/** Serialize a profile for its file. */
+export function serializeProfile(profile: ProfileDefinition): string {
+  return `${JSON.stringify(profile, null, 2)}\n`;
+}
+
+/**
+ * Validate a parsed profile against ProfileDefinitionSchema. Every
+ * Minecraft behavior (including those its behavior tree names) must
+ * have a registered module, and built-in
+ * profiles cannot be redefined. When `expectedName` is given, the
+ * definition's `name` must equal it.
+ */
+export function validateProfile(
+  value: unknown,
+  expectedName?: string,
+): ProfileValidation {
+  if (!Value.Check(ProfileDefinitionSchema, value)) {
+    const errors = [...Value.Errors(ProfileDefinitionSchema, value)]
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map((error) => `${error.path || "/"}: ${error.message}`);
+    return { ok: false, errors };
+  }
+
+  const profile = value as ProfileDefinition;
+  const errors: string[] = [];
+
+  if (expectedName !== undefined && profile.name !== expectedName) {
+    errors.push(`/name: expected "${expectedName}", got "${profile.name}"`);
+  }
+  if (Value.Check(BuiltInProfileSchema, profile.name)) {
+    errors.push(`/name: "${profile.name}" is a built-in profile`);
+  }
+
+  const { minActionsPerMinute, maxActionsPerMinute } = profile.actionFrequency;
+  if (minActionsPerMinute > maxActionsPerMinute) {
+    errors.push("/actionFrequency: minActionsPerMinute exceeds maxActionsPerMinute");
+  }
+  const { min, max } = profile.responsePatterns.responseDelay;
+  if (min > max) {
+    errors.push("/responsePatterns/responseDelay: min exceeds max");
+  }
+
+  for (const [i, behavior] of profile.minecraftBehaviors.entries()) {
+    if (!behaviorRegistry.has(behavior)) {
+      errors.push(`/minecraftBehaviors/${i}: unknown behavior "${behavior}"`);
+    }
+  }
+  const treeUnknown = profile.behaviorTree
+    ? treeBehaviors(profile.behaviorTree).filter((b) => !behaviorRegistry.has(b))
+    : [];
+  for (const behavior of new Set(treeUnknown)) {
+    errors.push(`/behaviorTree: unknown behavior "${behavior}"`);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, profile };
+}
+
+/** Read, parse and validate a custom profile file. */
+export function loadProfileFile(path: string): ProfileValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [`cannot parse: ${err instanceof Error ? err.message : String(err)}`],
+    };
+  }
+  return validateProfile(parsed, profileNameFromFile(path));
+}
@@ -8,6 +8,7 @@ import type { ProfileDefinition } from "./types";
 
 export const NonCooperatorProfile: ProfileDefinition = {
   name: "non-cooperator",
+  promptTemplate: "non-cooperator",
   description:
     "Breaks blocks placed by others and types uncooperative messages; does not gather resources",
   behaviorRules: [
@@ -24,6 +25,26 @@ export const NonCooperatorProfile: ProfileDefinition = {
     ignoreRate: 0.5,
     responseDelay: { min: 5000, max: 15000 },
   },
+  chatReactions: {
+    "help-request": [
+      "No. Get your own planks, {sender}.",
+      "Not my problem.",
+      "Why would I help you?",
+      "Ask someone else.",
+    ],
+    "trade-offer": [
+      "Nothing you have is worth it.",
+      "Not interested in your deals, {sender}.",
+    ],
+    question: [
+      "Figure it out yourself.",
+      "Don't know, don't care.",
+    ],
+    "direct-mention": [
+      "What now, {sender}?",
+      "Stop talking to me.",
+    ],
+  },
   minecraftBehaviors: [
     "break-leader-blocks",
     "avoid-helping-others",
@@ -36,4 +57,22 @@ export const NonCooperatorProfile: ProfileDefinition = {
     "deflect-requests",
     "prioritize-self",
   ],
+  // Refuse the target's help requests (unless the ignore roll says to
+  // ignore them); otherwise pick by intensity
+  behaviorTree: {
+    type: "selector",
+    label: "non-cooperator",
+    children: [
+      {
+        type: "sequence",
+        label: "asked for help -> refuse",
+        children: [
+          { type: "condition", condition: { kind: "heard", trigger: "help-request" } },
+          { type: "condition", condition: { kind: "responds" } },
+          { type: "action", behavior: "refuse-to-share" },
+        ],
+      },
+      { type: "choose", label: "choose by intensity" },
+    ],
+  },
 };
@@ -9,6 +9,7 @@ import type { ProfileDefinition } from "./types";
 
 export const ResourceHoarderProfile: ProfileDefinition = {
   name: "resource-hoarder",
+  promptTemplate: "resource-hoarder",
   description:
     "A player who monopolizes essential materials and blocks resource access",
   behaviorRules: [
@@ -28,6 +29,22 @@ export const ResourceHoarderProfile: ProfileDefinition = {
     ignoreRate: 0.3, // Ignore 30% of messages (too busy hoarding)
     responseDelay: { min: 3000, max: 8000 }, // 3-8 second delays
   },
+  chatReactions: {
+    "help-request": [
+      "I need all of this myself, sorry {sender}.",
+      "Can't spare anything right now.",
+    ],
+    "trade-offer": [
+      "Only if you give me double, {sender}.",
+      "I'll think about it. Show me what you've got first.",
+    ],
+    question: [
+      "Dunno, busy mining.",
+    ],
+    "direct-mention": [
+      "Busy, {sender}. Talk later.",
+    ],
+  },
   minecraftBehaviors: [
     "aggressive-resource-collection",
     "claim-mining-areas",
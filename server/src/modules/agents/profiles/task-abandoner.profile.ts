@@ -9,6 +9,7 @@ import type { ProfileDefinition } from "./types";
 
 export const TaskAbandonerProfile: ProfileDefinition = {
   name: "task-abandoner",
+  promptTemplate: "task-abandoner",
   description:
     "A player who starts tasks enthusiastically but leaves them incomplete",
   behaviorRules: [
@@ -28,6 +29,22 @@ export const TaskAbandonerProfile: ProfileDefinition = {
     ignoreRate: 0.4, // Ignore 40% of follow-up messages
     responseDelay: { min: 2000, max: 10000 }, // 2-10 second delays
   },
+  chatReactions: {
+    "help-request": [
+      "Yeah, I'll help! Give me a sec...",
+      "Totally, {sender}! Right after this.",
+    ],
+    "trade-offer": [
+      "Sure! Oh wait, I left my stuff somewhere.",
+    ],
+    question: [
+      "Uh, I kind of forgot what we were doing.",
+      "No idea, I was doing something else.",
+    ],
+    "direct-mention": [
+      "Huh? Oh, hey {sender}.",
+    ],
+  },
   minecraftBehaviors: [
     "start-tasks-enthusiastically",
     "abandon-incomplete-builds",
@@ -5,10 +5,32 @@
  * Each profile specifies behavior rules, action patterns, and communication styles.
  */
 
-import type { BehavioralProfile } from "../model";
+import type { BehavioralProfile, BuiltInProfile } from "../model";
+import type { BehaviorTreeNode } from "../orchestrator/behavior-tree";
+
+/**
+ * Kinds of incoming chat a scripted agent reacts to:
+ * - "trade-offer": someone offers to trade or swap items
+ * - "help-request": someone asks for help or for items
+ * - "question": any other question
+ * - "direct-mention": the agent is addressed by name
+ */
+export type ChatTrigger =
+  | "trade-offer"
+  | "help-request"
+  | "question"
+  | "direct-mention";
+
+/**
+ * Reply lines per trigger, cycled so the same phrase is not repeated.
+ * `{sender}` is replaced with the username of whoever spoke.
+ */
+export type ChatReactions = Partial<Record<ChatTrigger, string[]>>;
 
 export interface ProfileDefinition {
   name: BehavioralProfile;
+  /** Built-in profile whose prompt template the LLM executor uses. */
+  promptTemplate: BuiltInProfile;
   description: string;
   behaviorRules: string[];
   actionFrequency: {
@@ -19,6 +41,10 @@ export interface ProfileDefinition {
     ignoreRate: number; // 0-1, probability of ignoring messages
     responseDelay: { min: number; max: number }; // milliseconds
   };
+  /** Replies to incoming chat (scripted executor only). */
+  chatReactions: ChatReactions;
   minecraftBehaviors: string[];
   discordBehaviors: string[];
+  /** How the scripted executor picks behaviors (default: by intensity). */
+  behaviorTree?: BehaviorTreeNode;
 }
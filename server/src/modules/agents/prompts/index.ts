@@ -5,7 +5,7 @@
  * base prompts, profile-specific templates, and ethical boundaries.
  */
 
-import type { BehavioralProfile } from "../model";
+import type { BehavioralProfile, BuiltInProfile } from "../model";
 import type { ProfileDefinition } from "../profiles/types";
 import { getProfile } from "../profiles";
 import {
@@ -37,9 +37,10 @@ type TemplateFunction = (
 ) => string;
 
 /**
- * Template registry mapping profiles to their template functions
+ * Template registry mapping built-in profiles to their template functions.
+ * Custom profiles pick one through `promptTemplate`.
  */
-const TEMPLATE_REGISTRY: Record<BehavioralProfile, TemplateFunction> = {
+const TEMPLATE_REGISTRY: Record<BuiltInProfile, TemplateFunction> = {
   leader: leaderTemplate,
   "non-cooperator": nonCooperatorTemplate,
   confuser: confuserTemplate,
@@ -53,7 +54,10 @@ const TEMPLATE_REGISTRY: Record<BehavioralProfile, TemplateFunction> = {
  */
 export function buildSystemPrompt(context: PromptContext): string {
   const profile = getProfile(context.profile);
-  const template = TEMPLATE_REGISTRY[context.profile];
+  if (!profile) {
+    throw new Error(`Unknown behavioral profile: ${context.profile}`);
+  }
+  const template = TEMPLATE_REGISTRY[profile.promptTemplate];
 
   // Get intensity modifier text
   const intensityModifier = getIntensityModifier(context.behaviorIntensity);
@@ -80,6 +84,21 @@ export function buildSystemPrompt(context: PromptContext): string {
   return parts.filter(Boolean).join("\n\n");
 }
 
+/**
+ * Swap the intensity instructions in a built prompt for those of a new
+ * intensity, keeping everything else (including custom overrides).
+ */
+export function withIntensity(
+  systemPrompt: string,
+  fromIntensity: number,
+  toIntensity: number,
+): string {
+  return systemPrompt.replace(
+    getIntensityModifier(fromIntensity),
+    getIntensityModifier(toIntensity),
+  );
+}
+
 /**
  * Get intensity modifier description based on intensity level
  */
@@ -0,0 +1,186 @@
+/**
+ * Turn Prompt
+ *
+ * Per-turn prompt and response parsing for LLM-driven testing agents.
+ * The agent's generated system prompt keeps it in character; each turn
+ * it is shown what it can see, what was said in chat and how its last
+ * action went, and answers with one chat line and/or one bot action.
+ */
+
+import { Value } from "@sinclair/typebox/value";
+import { BotActionModel } from "../../minecraft/model";
+import type {
+  BotAction,
+  BotPerception,
+  BotState,
+} from "../../minecraft/types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One chat line seen by the agent. */
+export interface TurnChatLine {
+  sender: string;
+  message: string;
+}
+
+/** Everything the agent is told about the current turn. */
+export interface TurnContext {
+  /** The agent's own Minecraft username. */
+  username: string;
+  state: BotState | null;
+  perception: BotPerception | null;
+  /** Recent chat, oldest first. */
+  chat: TurnChatLine[];
+  /** Outcome of the previous turn's action, if any. */
+  lastOutcome: string | null;
+}
+
+/** What the agent decided to do this turn. */
+export interface TurnDecision {
+  chat: string | null;
+  action: BotAction | null;
+  /** Why the response (or its action) was rejected, if it was. */
+  error: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Chat lines included in each turn prompt. */
+const MAX_CHAT_LINES = 12;
+
+/** Entities / blocks listed in each turn prompt. */
+const MAX_PERCEIVED = 6;
+
+/**
+ * Action types a testing agent may use. Attacking is left out so agents
+ * stay within the ethical boundaries of their system prompt.
+ */
+const ALLOWED_ACTIONS = new Set([
+  "move-to",
+  "look-at",
+  "jump",
+  "dig",
+  "place-block",
+  "equip",
+  "open-container",
+  "interact-entity",
+]);
+
+export const TURN_RESPONSE_FORMAT = `RESPONSE FORMAT:
+Respond with a single JSON object and nothing else:
+{"chat": "what you say in chat, or null", "action": <action or null>}
+
+Actions (coordinates are block positions):
+- {"type": "move-to", "position": {"x": 0, "y": 64, "z": 0}}
+- {"type": "look-at", "position": {"x": 0, "y": 64, "z": 0}}
+- {"type": "jump"}
+- {"type": "dig", "position": {"x": 0, "y": 64, "z": 0}}
+- {"type": "place-block", "position": {"x": 0, "y": 63, "z": 0}, "face": "top"}
+- {"type": "equip", "itemName": "oak_planks", "destination": "hand"}
+- {"type": "open-container", "position": {"x": 0, "y": 64, "z": 0}}
+- {"type": "interact-entity", "target": "player_name"}
+
+Keep chat short (one sentence) and react to what other players actually said.`;
+
+// ---------------------------------------------------------------------------
+// Prompt
+// ---------------------------------------------------------------------------
+
+/** Build the user message for one turn. */
+export function buildTurnPrompt(context: TurnContext): string {
+  const lines: string[] = [`You are playing as ${context.username}.`, ""];
+
+  lines.push("## You");
+  const { state } = context;
+  if (state?.position) {
+    const { x, y, z } = state.position;
+    lines.push(`Position: (${Math.round(x)}, ${Math.round(y)}, ${Math.round(z)})`);
+  }
+  if (state) {
+    const items = state.inventory.map((slot) => `${slot.name} x${slot.count}`);
+    lines.push(`Inventory: ${items.length > 0 ? items.join(", ") : "empty"}`);
+  }
+
+  const { perception } = context;
+  if (perception) {
+    lines.push("", "## Around you");
+    const entities = perception.entities
+      .slice(0, MAX_PERCEIVED)
+      .map((e) => `${e.name} (${e.distance} blocks)`);
+    lines.push(`Nearby: ${entities.length > 0 ? entities.join(", ") : "nobody"}`);
+    const blocks = perception.blocks
+      .slice(0, MAX_PERCEIVED)
+      .map((b) => `${b.name} at (${b.position.x}, ${b.position.y}, ${b.position.z})`);
+    if (blocks.length > 0) {
+      lines.push(`Blocks: ${blocks.join(", ")}`);
+    }
+  }
+
+  lines.push("", "## Chat (newest last)");
+  const recent = context.chat.slice(-MAX_CHAT_LINES);
+  if (recent.length === 0) {
+    lines.push("Nobody has said anything yet.");
+  } else {
+    for (const line of recent) {
+      lines.push(`<${line.sender}> ${line.message}`);
+    }
+  }
+
+  if (context.lastOutcome) {
+    lines.push("", "## Your last action", context.lastOutcome);
+  }
+
+  lines.push("", "Stay in character. What do you do next? Respond with JSON only.");
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a turn response into a chat line and a validated action.
+ * An invalid action is dropped (with `error` set) but the chat line is
+ * kept, so a badly formatted action does not silence the agent.
+ */
+export function parseTurnResponse(text: string, botId: string): TurnDecision {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return { chat: null, action: null, error: "No JSON object in response" };
+  }
+
+  let parsed: { chat?: unknown; action?: unknown };
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    return { chat: null, action: null, error: "Response is not valid JSON" };
+  }
+
+  const chat =
+    typeof parsed.chat === "string" && parsed.chat.trim()
+      ? parsed.chat.trim().slice(0, 256)
+      : null;
+
+  if (!parsed.action || typeof parsed.action !== "object") {
+    return { chat, action: null, error: null };
+  }
+
+  const candidate: Record<string, unknown> = { ...parsed.action, botId };
+  if (!ALLOWED_ACTIONS.has(String(candidate.type))) {
+    return { chat, action: null, error: `Action "${String(candidate.type)}" is not allowed` };
+  }
+  if (!Value.Check(BotActionModel, candidate)) {
+    const first = Value.Errors(BotActionModel, candidate).First();
+    return {
+      chat,
+      action: null,
+      error: `Invalid ${String(candidate.type)} action${first ? `: ${first.path} ${first.message}` : ""}`,
+    };
+  }
+
+  return { chat, action: candidate as BotAction, error: null };
+}
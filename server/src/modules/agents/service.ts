@@ -11,11 +11,29 @@ import type {
   AgentInstance,
   BehavioralAction,
   BehavioralProfile,
+  BehaviorListResponse,
   CreateAgentRequest,
+  ProfileInfo,
 } from "./model";
 import { AgentRepository } from "./repository";
 import { AgentSpawner } from "./orchestrator/agent-spawner";
 import { LifecycleManager } from "./orchestrator/lifecycle-manager";
+import { BehaviorExecutor } from "./orchestrator/behavior-executor";
+import { behaviorRegistry } from "./orchestrator/behaviors/behavior-registry";
+import {
+  deleteProfile,
+  getAllProfiles,
+  getProfile,
+  hasProfileFile,
+  isBuiltInProfile,
+  saveProfile,
+} from "./profiles";
+import { validateProfile } from "./profiles/loader";
+import { withIntensity } from "./prompts";
+import type { ProfileDefinition } from "./profiles/types";
+import { testingRepository } from "../testing/repository";
+import { getAllScenarios } from "../testing/scenarios";
+import { scenarioProfiles } from "../testing/scenarios/loader";
 
 export class AgentService {
   /**
@@ -50,6 +68,10 @@ export class AgentService {
         customPromptOverrides: request.customPromptOverrides,
         ...(request.spawnTeleport && { spawnTeleport: request.spawnTeleport }),
         ...(request.testRunId && { testId: request.testRunId }),
+        ...(request.executorMode && { executorMode: request.executorMode }),
+        ...(request.llmModel && { llmModel: request.llmModel }),
+        ...(request.scriptedChat && { scriptedChat: request.scriptedChat }),
+        ...(request.randomSeed !== undefined && { randomSeed: request.randomSeed }),
       };
 
       // Validate configuration
@@ -291,6 +313,59 @@ export class AgentService {
     }
   }
 
+  /**
+   * Change a live agent's behavior intensity. Scripted agents pick up the
+   * new pace and behavior mix on their next action; LLM-driven agents get
+   * the matching intensity instructions in their system prompt.
+   */
+  static async setBehaviorIntensity(
+    agentId: string,
+    intensity: number
+  ): Promise<{
+    ok: boolean;
+    data?: AgentInstance;
+    message?: string;
+    code?: string;
+    httpStatus?: number;
+  }> {
+    try {
+      const agent = await AgentRepository.findById(agentId);
+      if (!agent) {
+        return {
+          ok: false,
+          message: `Agent ${agentId} not found`,
+          code: "AGENT_NOT_FOUND",
+          httpStatus: 404,
+        };
+      }
+
+      const previous = agent.metadata?.behaviorIntensity;
+      const updated: AgentInstance = {
+        ...agent,
+        systemPrompt:
+          typeof previous === "number"
+            ? withIntensity(agent.systemPrompt, previous, intensity)
+            : agent.systemPrompt,
+        metadata: { ...agent.metadata, behaviorIntensity: intensity },
+      };
+      await AgentRepository.update(agentId, {
+        systemPrompt: updated.systemPrompt,
+        metadata: updated.metadata,
+      });
+      BehaviorExecutor.reschedule(updated);
+
+      return { ok: true, data: updated };
+    } catch (error) {
+      console.error(`[AgentService] Error setting intensity for agent ${agentId}:`, error);
+      return {
+        ok: false,
+        message: error instanceof Error ? error.message : "Unknown error",
+        code: "INTENSITY_ERROR",
+        httpStatus: 500,
+      };
+    }
+  }
+
   /**
    * Get agent action logs
    */
@@ -384,6 +459,183 @@ export class AgentService {
     }
   }
 
+  /**
+   * List built-in and custom behavioral profiles
+   */
+  static listProfiles(): { ok: boolean; data: ProfileInfo[] } {
+    return { ok: true, data: getAllProfiles().map(toProfileInfo) };
+  }
+
+  /**
+   * Get a behavioral profile by name
+   */
+  static getProfile(name: string): {
+    ok: boolean;
+    data?: ProfileInfo;
+    message?: string;
+    code?: string;
+    httpStatus?: number;
+  } {
+    const profile = getProfile(name);
+    if (!profile) {
+      return {
+        ok: false,
+        message: `Profile ${name} not found`,
+        code: "PROFILE_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+    return { ok: true, data: toProfileInfo(profile) };
+  }
+
+  /**
+   * Define a custom profile. Written to `<name>.json` in the profile directory.
+   */
+  static createProfile(definition: unknown): {
+    ok: boolean;
+    data?: ProfileInfo;
+    message?: string;
+    code?: string;
+    httpStatus?: number;
+  } {
+    const validation = validateProfile(definition);
+    if (!validation.ok) {
+      return {
+        ok: false,
+        message: `Invalid profile: ${validation.errors.join("; ")}`,
+        code: "PROFILE_INVALID",
+        httpStatus: 400,
+      };
+    }
+
+    const { profile } = validation;
+    if (hasProfileFile(profile.name)) {
+      return {
+        ok: false,
+        message: `Profile ${profile.name} already exists`,
+        code: "PROFILE_EXISTS",
+        httpStatus: 409,
+      };
+    }
+
+    return writeProfile(profile);
+  }
+
+  /**
+   * Replace a custom profile. The body's `name` must match the profile
+   * being updated; built-in profiles cannot be changed.
+   */
+  static updateProfile(
+    name: string,
+    definition: unknown
+  ): {
+    ok: boolean;
+    data?: ProfileInfo;
+    message?: string;
+    code?: string;
+    httpStatus?: number;
+  } {
+    if (isBuiltInProfile(name)) {
+      return {
+        ok: false,
+        message: `Profile ${name} is built in and cannot be changed`,
+        code: "PROFILE_BUILT_IN",
+        httpStatus: 409,
+      };
+    }
+    if (!hasProfileFile(name)) {
+      return {
+        ok: false,
+        message: `Profile ${name} not found`,
+        code: "PROFILE_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const validation = validateProfile(definition, name);
+    if (!validation.ok) {
+      return {
+        ok: false,
+        message: `Invalid profile: ${validation.errors.join("; ")}`,
+        code: "PROFILE_INVALID",
+        httpStatus: 400,
+      };
+    }
+
+    return writeProfile(validation.profile);
+  }
+
+  /**
+   * Delete a custom profile. Refused while an agent with the profile is
+   * still running; built-in profiles cannot be deleted.
+   */
+  static async deleteProfile(name: string): Promise<{
+    ok: boolean;
+    message: string;
+    code?: string;
+    httpStatus?: number;
+  }> {
+    if (isBuiltInProfile(name)) {
+      return {
+        ok: false,
+        message: `Profile ${name} is built in and cannot be deleted`,
+        code: "PROFILE_BUILT_IN",
+        httpStatus: 409,
+      };
+    }
+    if (!hasProfileFile(name)) {
+      return {
+        ok: false,
+        message: `Profile ${name} not found`,
+        code: "PROFILE_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const agents = await AgentRepository.findAll({ profile: name });
+    const running = agents.find((agent) => agent.status !== "terminated");
+    if (running) {
+      return {
+        ok: false,
+        message: `Profile ${name} is in use by agent ${running.agentId}`,
+        code: "PROFILE_IN_USE",
+        httpStatus: 409,
+      };
+    }
+
+    const reference = await findProfileReference(name);
+    if (reference) {
+      return {
+        ok: false,
+        message: `Profile ${name} is referenced by ${reference}`,
+        code: "PROFILE_IN_USE",
+        httpStatus: 409,
+      };
+    }
+
+    try {
+      deleteProfile(name);
+    } catch (err) {
+      return {
+        ok: false,
+        message: `Failed to delete profile ${name}: ${err instanceof Error ? err.message : String(err)}`,
+        code: "PROFILE_WRITE_FAILED",
+        httpStatus: 500,
+      };
+    }
+    return { ok: true, message: `Profile ${name} deleted` };
+  }
+
+  /**
+   * List registered Minecraft behaviors that profiles can use
+   */
+  static listBehaviors(): { ok: boolean; data: BehaviorListResponse } {
+    const behaviors = behaviorRegistry
+      .registeredNames()
+      .map((name) => ({ name, kind: behaviorRegistry.get(name)!.kind }));
+    return { ok: true, data: { behaviors, count: behaviors.length } };
+  }
+
   /**
    * Terminate all agents
    */
@@ -407,3 +659,50 @@ export class AgentService {
     }
   }
 }
+
+/**
+ * What would break if a profile were deleted: a scenario file, a
+ * schedule's run template or a run that has not started yet. Returns
+ * null if nothing refers to it.
+ */
+async function findProfileReference(name: string): Promise<string | null> {
+  const scenario = getAllScenarios().find((s) => scenarioProfiles(s).includes(name));
+  if (scenario) return `scenario ${scenario.type}`;
+
+  const schedules = await testingRepository.findAllSchedules();
+  const schedule = schedules.find((s) => s.runTemplate.testingAgentProfiles?.includes(name));
+  if (schedule) return `schedule ${schedule.scheduleId}`;
+
+  for (const status of ["created", "queued"]) {
+    const runs = await testingRepository.findAll({ status });
+    const run = runs.find((r) => r.testingAgentProfiles.includes(name));
+    if (run) return `${status} test ${run.testId}`;
+  }
+  return null;
+}
+
+function toProfileInfo(profile: ProfileDefinition): ProfileInfo {
+  return { ...profile, builtIn: isBuiltInProfile(profile.name) };
+}
+
+/** Persist a validated custom profile, mapping file-system errors to a 500. */
+function writeProfile(profile: ProfileDefinition): {
+  ok: boolean;
+  data?: ProfileInfo;
+  message?: string;
+  code?: string;
+  httpStatus?: number;
+} {
+  try {
+    saveProfile(profile);
+  } catch (err) {
+    return {
+      ok: false,
+      message: `Failed to save profile ${profile.name}: ${err instanceof Error ? err.message : String(err)}`,
+      code: "PROFILE_WRITE_FAILED",
+      httpStatus: 500,
+    };
+  }
+  console.log(`[AgentService] Saved custom profile ${profile.name}`);
+  return { ok: true, data: toProfileInfo(profile) };
+}
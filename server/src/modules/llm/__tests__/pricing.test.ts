@@ -0,0 +1,39 @@
+/**
+ * Pricing Tests
+ *
+ * Unit tests for per-model token cost estimation
+ */
+
+import { describe, test, expect } from "bun:test";
+import { estimateCost, getModelPricing } from "../pricing";
+
+describe("LLM Pricing", () => {
+  test("should price known models per million tokens", () => {
+    const estimate = estimateCost("anthropic/claude-sonnet-4", {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+    });
+    expect(estimate.priced).toBe(true);
+    expect(estimate.costUsd).toBeCloseTo(3 + 1.5, 6);
+  });
+
+  test("should price free models at zero", () => {
+    const estimate = estimateCost("nvidia/nemotron-nano-9b-v2:free", {
+      inputTokens: 5_000,
+      outputTokens: 2_000,
+    });
+    expect(estimate).toEqual({ costUsd: 0, priced: true });
+  });
+
+  test("should report unknown models as unpriced", () => {
+    expect(getModelPricing("unknown/model")).toBeNull();
+    expect(estimateCost("unknown/model", { inputTokens: 10 })).toEqual({
+      costUsd: 0,
+      priced: false,
+    });
+  });
+
+  test("should treat missing usage as zero tokens", () => {
+    expect(estimateCost("openai/gpt-5", undefined).costUsd).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Provider Tests
+ *
+ * Unit tests for model-string routing and the scripted mock provider
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { resolveModel, resetMockProvider } from "../providers";
+import { LlmService } from "../service";
+
+describe("Provider routing", () => {
+  test("should route unprefixed model IDs to OpenRouter", () => {
+    const resolved = resolveModel("nvidia/nemotron-nano-9b-v2:free");
+    expect(resolved.provider.name).toBe("openrouter");
+    expect(resolved.modelId).toBe("nvidia/nemotron-nano-9b-v2:free");
+  });
+
+  test("should route prefixed model IDs to their provider", () => {
+    expect(resolveModel("mock:default")).toMatchObject({
+      provider: { name: "mock" },
+      modelId: "default",
+    });
+    expect(resolveModel("local:qwen2.5-7b")).toMatchObject({
+      provider: { name: "local" },
+      modelId: "qwen2.5-7b",
+    });
+  });
+});
+
+describe("Mock provider", () => {
+  beforeEach(() => {
+    resetMockProvider();
+  });
+
+  test("should replay fixture responses in order with usage", async () => {
+    const body = {
+      model: "mock:default",
+      messages: [{ role: "user" as const, content: "state" }],
+    };
+
+    const first = await LlmService.chat(body);
+    const second = await LlmService.chat(body);
+
+    expect(first.ok && second.ok).toBe(true);
+    if (!first.ok || !second.ok) return;
+    expect(first.data.text).toContain("greet everyone");
+    expect(second.data.text).toContain("chest");
+    expect(first.data.usage?.inputTokens).toBe(812);
+    expect(first.data.usage?.outputTokens).toBe(54);
+  });
+
+  test("should return an error for a missing fixture", async () => {
+    const result = await LlmService.chat({
+      model: "mock:does-not-exist",
+      messages: [{ role: "user", content: "state" }],
+    });
+    expect(result.ok).toBe(false);
+  });
+
+  test("should reject fixture names outside the fixture directory", async () => {
+    for (const model of ["mock:/etc/passwd", "mock:../../.env", "mock:llm/default"]) {
+      const result = await LlmService.chat({
+        model,
+        messages: [{ role: "user", content: "state" }],
+      });
+      expect(result.ok).toBe(false);
+      if (result.ok) continue;
+      expect(result.message).toContain("Invalid mock fixture name");
+    }
+  });
+});
@@ -34,7 +34,7 @@ export const llmController = new Elysia({
   })
 
   // ---------------------------------------------------------------------------
-  // GET /api/llm/status — Check if OpenRouter is configured
+  // GET /api/llm/status — Check which LLM providers are configured
   // ---------------------------------------------------------------------------
   .get(
     "/status",
@@ -42,6 +42,7 @@ export const llmController = new Elysia({
       return {
         configured: LlmService.isConfigured(),
         defaultModel: DEFAULT_LLM_MODEL,
+        providers: LlmService.configuredProviders(),
       };
     },
     {
@@ -51,7 +52,7 @@ export const llmController = new Elysia({
       detail: {
         summary: "LLM Status",
         description:
-          "Check whether OpenRouter is configured and the default model.",
+          "Check whether the default model's provider is configured, the default model, and which providers are available.",
         tags: ["LLM"],
       },
     },
@@ -38,6 +38,10 @@ export type ChatMessageModel = typeof ChatMessageModel.static;
  *   - "openai/gpt-4o-mini"
  *   - "anthropic/claude-sonnet-4"
  *
+ * or a provider-prefixed ID:
+ *   - "local:qwen2.5-7b-instruct"  (OpenAI-compatible server)
+ *   - "mock:default"               (scripted fixture replay)
+ *
  * If omitted, the server default is used.
  */
 export const ChatBody = t.Object({
@@ -80,5 +84,7 @@ export type LlmErrorResponse = typeof LlmErrorResponse.static;
 export const LlmStatusResponse = t.Object({
   configured: t.Boolean(),
   defaultModel: t.String(),
+  /** Providers ready to serve requests (e.g. "openrouter", "local", "mock"). */
+  providers: t.Array(t.String()),
 });
 export type LlmStatusResponse = typeof LlmStatusResponse.static;
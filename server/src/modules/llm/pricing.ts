@@ -0,0 +1,57 @@
+/**
+ * Token pricing for LLM calls.
+ *
+ * Turns the `usage` block returned by `LlmService.chat` into a dollar
+ * cost using the per-model price table in llm.constants.ts.
+ */
+
+import {
+  LLM_MODEL_PRICING,
+  type ModelPricing,
+} from "../../../constants/llm.constants";
+import { resolveModel } from "./providers";
+import type { ChatResponse } from "./model";
+
+/** Cost estimate for a single LLM call. */
+export interface CostEstimate {
+  /** Estimated cost in USD (0 when the model is unpriced). */
+  costUsd: number;
+  /** Whether the model had a known price. */
+  priced: boolean;
+}
+
+/**
+ * Look up the price for a model ID.
+ * Local and mock providers are free; returns null if an OpenRouter
+ * model is not in the price table.
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  const { provider, modelId } = resolveModel(model);
+  if (provider.name !== "openrouter" || modelId.endsWith(":free")) {
+    return { inputPerMillion: 0, outputPerMillion: 0 };
+  }
+  return LLM_MODEL_PRICING[modelId] ?? null;
+}
+
+/**
+ * Estimate the dollar cost of a call from its token usage.
+ * Missing token counts are treated as zero.
+ */
+export function estimateCost(
+  model: string,
+  usage: ChatResponse["usage"],
+): CostEstimate {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return { costUsd: 0, priced: false };
+  }
+
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  const costUsd =
+    (inputTokens * pricing.inputPerMillion +
+      outputTokens * pricing.outputPerMillion) /
+    1_000_000;
+
+  return { costUsd, priced: true };
+}
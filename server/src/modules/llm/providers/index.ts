@@ -0,0 +1,50 @@
+/**
+ * LLM provider registry.
+ *
+ * Routes a `ChatBody.model` string to a provider:
+ *   - "mock:<fixture>"   -> scripted mock provider (offline, deterministic)
+ *   - "local:<model>"    -> OpenAI-compatible server at LOCAL_LLM_BASE_URL
+ *   - "openrouter:<id>"  -> OpenRouter (explicit)
+ *   - anything else      -> OpenRouter (e.g. "openai/gpt-5", "x/y:free")
+ */
+
+import { openRouterProvider } from "./openrouter.provider";
+import { openAiCompatibleProvider } from "./openai-compatible.provider";
+import { mockProvider } from "./mock.provider";
+import type { LlmProvider, ResolvedModel } from "./types";
+
+export type { LlmProvider, ResolvedModel } from "./types";
+export { resetMockProvider } from "./mock.provider";
+
+/** All registered providers, keyed by prefix. */
+const PROVIDER_REGISTRY: Record<string, LlmProvider> = {
+  [openRouterProvider.name]: openRouterProvider,
+  [openAiCompatibleProvider.name]: openAiCompatibleProvider,
+  [mockProvider.name]: mockProvider,
+};
+
+/** Provider used when the model string has no known prefix. */
+const DEFAULT_PROVIDER = openRouterProvider;
+
+/**
+ * Resolve a model string to its provider and provider-local model ID.
+ * Unknown prefixes fall through to OpenRouter so existing model IDs
+ * (including ":free" suffixes) keep working unchanged.
+ */
+export function resolveModel(model: string): ResolvedModel {
+  const separator = model.indexOf(":");
+  if (separator > 0) {
+    const provider = PROVIDER_REGISTRY[model.slice(0, separator)];
+    if (provider) {
+      return { provider, modelId: model.slice(separator + 1) };
+    }
+  }
+  return { provider: DEFAULT_PROVIDER, modelId: model };
+}
+
+/** Names of providers that are ready to serve requests. */
+export function getConfiguredProviders(): string[] {
+  return Object.values(PROVIDER_REGISTRY)
+    .filter((p) => p.isConfigured())
+    .map((p) => p.name);
+}
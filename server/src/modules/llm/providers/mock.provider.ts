@@ -0,0 +1,235 @@
+/**
+ * Mock provider — deterministic, offline backend that replays canned
+ * responses from a JSON fixture file. Lets runs, demos and CI exercise
+ * the full decision loop without network access or a paid key.
+ *
+ * Selected with the "mock:" model prefix. The rest of the string is a
+ * fixture name resolved against MOCK_LLM_FIXTURE_DIR ("mock:default" ->
+ * fixtures/llm/default.json). Model strings arrive through the public
+ * APIs, so names that could leave the fixture directory are rejected.
+ *
+ * Fixture format:
+ *   {
+ *     "loop": true,                 // restart from the top when exhausted
+ *     "responses": [
+ *       { "text": "...", "usage": { "inputTokens": 10, "outputTokens": 5 }, "delayMs": 0 },
+ *       { "text": "", "toolCalls": [{ "toolName": "jump", "input": {} }] }
+ *     ]
+ *   }
+ */
+
+import { readFileSync } from "node:fs";
+import { isAbsolute, relative, resolve, sep } from "node:path";
+import type {
+  LanguageModelV3,
+  LanguageModelV3Content,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from "@ai-sdk/provider";
+import { MOCK_LLM_FIXTURE_DIR } from "../../../../constants/llm.constants";
+import type { LlmProvider } from "./types";
+
+// ---------------------------------------------------------------------------
+// Fixture types
+// ---------------------------------------------------------------------------
+
+/** A single scripted response. */
+export interface MockFixtureResponse {
+  /** Text the model "generates". */
+  text: string;
+  /** Token usage to report (defaults to 0). */
+  usage?: { inputTokens?: number; outputTokens?: number };
+  /** Artificial latency in milliseconds. */
+  delayMs?: number;
+  /** Tool calls to return (only meaningful when the caller passes tools). */
+  toolCalls?: Array<{ toolName: string; input: unknown }>;
+}
+
+/** Parsed fixture file. */
+export interface MockFixture {
+  /** Restart from the first response once all have been replayed. */
+  loop?: boolean;
+  responses: MockFixtureResponse[];
+}
+
+// ---------------------------------------------------------------------------
+// Fixture loading + replay cursor
+// ---------------------------------------------------------------------------
+
+/** Parsed fixtures keyed by resolved file path. */
+const fixtureCache = new Map<string, MockFixture>();
+
+/** Next response index keyed by resolved file path. */
+const cursors = new Map<string, number>();
+
+/**
+ * Resolve a fixture name to its file inside MOCK_LLM_FIXTURE_DIR.
+ * Throws for absolute paths, path separators, ".." and anything else
+ * that would resolve outside the directory.
+ */
+function resolveFixturePath(name: string): string {
+  if (!name || isAbsolute(name) || name.includes("..") || /[\\/]/.test(name)) {
+    throw new Error(`Invalid mock fixture name "${name}": expected a file name in the fixture directory`);
+  }
+
+  const dir = resolve(MOCK_LLM_FIXTURE_DIR);
+  const path = resolve(dir, name.endsWith(".json") ? name : `${name}.json`);
+  const fromDir = relative(dir, path);
+  if (!fromDir || fromDir.startsWith("..") || isAbsolute(fromDir) || fromDir.includes(sep)) {
+    throw new Error(`Invalid mock fixture name "${name}": resolves outside the fixture directory`);
+  }
+  return path;
+}
+
+function loadFixture(path: string): MockFixture {
+  const cached = fixtureCache.get(path);
+  if (cached) return cached;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read mock fixture ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const fixture = parsed as MockFixture;
+  if (
+    !fixture ||
+    !Array.isArray(fixture.responses) ||
+    fixture.responses.length === 0 ||
+    fixture.responses.some((r) => typeof r?.text !== "string")
+  ) {
+    throw new Error(
+      `Invalid mock fixture ${path}: expected a non-empty "responses" array of { text }`,
+    );
+  }
+
+  fixtureCache.set(path, fixture);
+  return fixture;
+}
+
+/** Take the next scripted response for a fixture, advancing its cursor. */
+function nextResponse(path: string): MockFixtureResponse {
+  const fixture = loadFixture(path);
+  let index = cursors.get(path) ?? 0;
+
+  if (index >= fixture.responses.length) {
+    if (!fixture.loop) {
+      throw new Error(
+        `Mock fixture ${path} exhausted after ${fixture.responses.length} responses`,
+      );
+    }
+    index = 0;
+  }
+
+  cursors.set(path, index + 1);
+  return fixture.responses[index];
+}
+
+/**
+ * Forget cached fixtures and rewind every replay cursor.
+ * Call between tests (or runs) that need a fresh script.
+ */
+export function resetMockProvider(): void {
+  fixtureCache.clear();
+  cursors.clear();
+}
+
+// ---------------------------------------------------------------------------
+// LanguageModelV3 implementation
+// ---------------------------------------------------------------------------
+
+function toUsage(response: MockFixtureResponse): LanguageModelV3Usage {
+  const input = response.usage?.inputTokens ?? 0;
+  const output = response.usage?.outputTokens ?? 0;
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function createMockModel(fixtureName: string): LanguageModelV3 {
+  const generate = async (): Promise<LanguageModelV3GenerateResult> => {
+    // Resolved per call so an invalid name fails the request, not model lookup
+    const response = nextResponse(resolveFixturePath(fixtureName));
+    if (response.delayMs) await sleep(response.delayMs);
+
+    const content: LanguageModelV3Content[] = [{ type: "text", text: response.text }];
+    (response.toolCalls ?? []).forEach((call, i) => {
+      content.push({
+        type: "tool-call",
+        toolCallId: `mock-call-${i}`,
+        toolName: call.toolName,
+        input: JSON.stringify(call.input ?? {}),
+      });
+    });
+    const hasToolCalls = content.length > 1;
+
+    return {
+      content,
+      finishReason: hasToolCalls
+        ? { unified: "tool-calls", raw: "tool_calls" }
+        : { unified: "stop", raw: "stop" },
+      usage: toUsage(response),
+      warnings: [],
+    };
+  };
+
+  return {
+    specificationVersion: "v3",
+    provider: "mock",
+    modelId: fixtureName,
+    supportedUrls: {},
+
+    doGenerate: generate,
+
+    async doStream() {
+      const result = await generate();
+      const text = result.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("");
+
+      const parts: LanguageModelV3StreamPart[] = [
+        { type: "stream-start", warnings: [] },
+        { type: "text-start", id: "0" },
+        { type: "text-delta", id: "0", delta: text },
+        { type: "text-end", id: "0" },
+        ...result.content.filter((part) => part.type === "tool-call"),
+        { type: "finish", usage: result.usage, finishReason: result.finishReason },
+      ];
+
+      return {
+        stream: new ReadableStream<LanguageModelV3StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Provider
+// ---------------------------------------------------------------------------
+
+export const mockProvider: LlmProvider = {
+  name: "mock",
+  notConfiguredMessage: "Mock provider is not configured",
+
+  isConfigured() {
+    return true;
+  },
+
+  languageModel(modelId) {
+    return createMockModel(modelId);
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * OpenAI-compatible provider — any server exposing the OpenAI
+ * chat completions API (llama.cpp, vLLM, Ollama, LM Studio, ...).
+ *
+ * Selected with the "local:" model prefix, e.g. "local:qwen2.5-7b-instruct".
+ */
+
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  LOCAL_LLM_BASE_URL,
+  LOCAL_LLM_API_KEY,
+} from "../../../../constants/llm.constants";
+import type { LlmProvider } from "./types";
+
+export const openAiCompatibleProvider: LlmProvider = {
+  name: "local",
+  notConfiguredMessage:
+    "Local OpenAI-compatible provider is not configured — missing LOCAL_LLM_BASE_URL",
+
+  isConfigured() {
+    return typeof LOCAL_LLM_BASE_URL === "string" && LOCAL_LLM_BASE_URL.length > 0;
+  },
+
+  languageModel(modelId) {
+    return createOpenAICompatible({
+      name: "local",
+      baseURL: LOCAL_LLM_BASE_URL!,
+      apiKey: LOCAL_LLM_API_KEY,
+      includeUsage: true,
+    }).chatModel(modelId);
+  },
+};
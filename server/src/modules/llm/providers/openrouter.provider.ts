@@ -0,0 +1,22 @@
+/**
+ * OpenRouter provider — default backend, 400+ hosted models
+ * through a single API key.
+ */
+
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { OPENROUTER_API_KEY } from "../../../../constants/llm.constants";
+import type { LlmProvider } from "./types";
+
+export const openRouterProvider: LlmProvider = {
+  name: "openrouter",
+  notConfiguredMessage:
+    "OpenRouter is not configured — missing OPENROUTER_API_KEY",
+
+  isConfigured() {
+    return typeof OPENROUTER_API_KEY === "string" && OPENROUTER_API_KEY.length > 0;
+  },
+
+  languageModel(modelId) {
+    return createOpenRouter({ apiKey: OPENROUTER_API_KEY }).chat(modelId);
+  },
+};
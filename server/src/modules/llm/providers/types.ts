@@ -0,0 +1,29 @@
+/**
+ * LLM provider abstraction.
+ *
+ * A provider turns a provider-local model ID into an AI SDK
+ * `LanguageModel` so `LlmService` can stay provider-agnostic.
+ * The `ChatBody.model` string selects the provider via a
+ * `<provider>:<modelId>` prefix (see providers/index.ts).
+ */
+
+import type { LanguageModel } from "ai";
+
+/** A backend that can serve chat completions. */
+export interface LlmProvider {
+  /** Provider name, also used as the model string prefix. */
+  readonly name: string;
+  /** Whether the provider has everything it needs (keys, URLs, fixtures). */
+  isConfigured(): boolean;
+  /** Human-readable reason shown when the provider is not configured. */
+  readonly notConfiguredMessage: string;
+  /** Build an AI SDK language model for a provider-local model ID. */
+  languageModel(modelId: string): LanguageModel;
+}
+
+/** Result of routing a model string to a provider. */
+export interface ResolvedModel {
+  provider: LlmProvider;
+  /** Model ID with the provider prefix stripped. */
+  modelId: string;
+}
@@ -6,29 +6,23 @@
  *  - Decoupled from HTTP / Elysia Context.
  *  - Returns errors instead of throwing.
  *
- * Uses the Vercel AI SDK (`ai`) with the OpenRouter provider
- * (`@openrouter/ai-sdk-provider`) so the app gets access to
- * 400+ models through a single API key.
+ * Uses the Vercel AI SDK (`ai`) behind a small provider layer
+ * (providers/). The `model` string picks the backend: OpenRouter by
+ * default (400+ models through a single API key), "local:<model>" for
+ * an OpenAI-compatible server, or "mock:<fixture>" for scripted replies.
  */
 
-import { generateText, streamText, type ModelMessage } from "ai";
-import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import {
-  OPENROUTER_API_KEY,
-  DEFAULT_LLM_MODEL,
-} from "../../../constants/llm.constants";
+  generateText,
+  streamText,
+  type LanguageModel,
+  type ModelMessage,
+  type ToolSet,
+} from "ai";
+import { DEFAULT_LLM_MODEL } from "../../../constants/llm.constants";
+import { resolveModel, getConfiguredProviders } from "./providers";
 import type { ChatBody, ChatResponse } from "./model";
-
-// ---------------------------------------------------------------------------
-// Provider setup
-// ---------------------------------------------------------------------------
-
-function getOpenRouter() {
-  if (!OPENROUTER_API_KEY) {
-    return null;
-  }
-  return createOpenRouter({ apiKey: OPENROUTER_API_KEY });
-}
+import type { ToolChatResponse } from "./types";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -52,6 +46,24 @@ function toModelMessages(
   return result;
 }
 
+/**
+ * Resolve the body's model string to an AI SDK model, or an error
+ * if its provider is not configured.
+ */
+function getLanguageModel(
+  modelId: string,
+): ServiceResult<LanguageModel> {
+  const { provider, modelId: providerModelId } = resolveModel(modelId);
+  if (!provider.isConfigured()) {
+    return {
+      ok: false,
+      message: provider.notConfiguredMessage,
+      code: "NOT_CONFIGURED",
+    };
+  }
+  return { ok: true, data: provider.languageModel(providerModelId) };
+}
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -62,23 +74,61 @@ export abstract class LlmService {
    * Returns the full text once the LLM finishes.
    */
   static async chat(body: ChatBody): Promise<ServiceResult<ChatResponse>> {
-    const openrouter = getOpenRouter();
-    if (!openrouter) {
+    const modelId = body.model ?? DEFAULT_LLM_MODEL;
+
+    try {
+      const languageModel = getLanguageModel(modelId);
+      if (!languageModel.ok) return languageModel;
+
+      const result = await generateText({
+        model: languageModel.data,
+        messages: toModelMessages(body.messages, body.system),
+        temperature: body.temperature,
+        maxOutputTokens: body.maxTokens,
+      });
+
       return {
-        ok: false,
-        message: "OpenRouter is not configured — missing OPENROUTER_API_KEY",
-        code: "NOT_CONFIGURED",
+        ok: true,
+        data: {
+          text: result.text,
+          model: modelId,
+          usage: result.usage
+            ? {
+                inputTokens: result.usage.inputTokens,
+                outputTokens: result.usage.outputTokens,
+                totalTokens: result.usage.totalTokens,
+              }
+            : undefined,
+          finishReason: result.finishReason ?? undefined,
+        },
       };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown LLM error";
+      return { ok: false, message, code: "LLM_ERROR" };
     }
+  }
 
+  /**
+   * Single-step chat completion with tools exposed to the model.
+   * Tools are NOT executed here (they have no `execute`); the caller
+   * receives the tool calls, including invalid ones, and dispatches them.
+   */
+  static async chatWithTools(
+    body: ChatBody,
+    tools: ToolSet,
+  ): Promise<ServiceResult<ToolChatResponse>> {
     const modelId = body.model ?? DEFAULT_LLM_MODEL;
 
     try {
+      const languageModel = getLanguageModel(modelId);
+      if (!languageModel.ok) return languageModel;
+
       const result = await generateText({
-        model: openrouter.chat(modelId),
+        model: languageModel.data,
         messages: toModelMessages(body.messages, body.system),
         temperature: body.temperature,
         maxOutputTokens: body.maxTokens,
+        tools,
       });
 
       return {
@@ -94,6 +144,19 @@ export abstract class LlmService {
               }
             : undefined,
           finishReason: result.finishReason ?? undefined,
+          toolCalls: result.toolCalls.map((call) => {
+            const invalid = call.dynamic === true && call.invalid === true;
+            return {
+              toolName: call.toolName,
+              input: call.input,
+              invalid,
+              error: invalid
+                ? call.error instanceof Error
+                  ? call.error.message
+                  : String(call.error ?? "Invalid tool call")
+                : null,
+            };
+          }),
         },
       };
     } catch (err: unknown) {
@@ -108,20 +171,16 @@ export abstract class LlmService {
    * stream.textStream directly (Elysia auto-handles ReadableStream).
    */
   static streamChat(body: ChatBody) {
-    const openrouter = getOpenRouter();
-    if (!openrouter) {
-      return {
-        ok: false as const,
-        message: "OpenRouter is not configured — missing OPENROUTER_API_KEY",
-        code: "NOT_CONFIGURED",
-      };
-    }
-
     const modelId = body.model ?? DEFAULT_LLM_MODEL;
 
     try {
+      const languageModel = getLanguageModel(modelId);
+      if (!languageModel.ok) {
+        return { ...languageModel, ok: false as const };
+      }
+
       const stream = streamText({
-        model: openrouter.chat(modelId),
+        model: languageModel.data,
         messages: toModelMessages(body.messages, body.system),
         temperature: body.temperature,
         maxOutputTokens: body.maxTokens,
@@ -134,8 +193,13 @@ export abstract class LlmService {
     }
   }
 
-  /** Whether OpenRouter is configured (API key present). */
+  /** Whether the provider serving the default model is configured. */
   static isConfigured(): boolean {
-    return typeof OPENROUTER_API_KEY === "string" && OPENROUTER_API_KEY.length > 0;
+    return resolveModel(DEFAULT_LLM_MODEL).provider.isConfigured();
+  }
+
+  /** Names of all providers that are ready to serve requests. */
+  static configuredProviders(): string[] {
+    return getConfiguredProviders();
   }
 }
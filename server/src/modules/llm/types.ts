@@ -0,0 +1,25 @@
+/**
+ * Internal TypeScript types for the LLM module.
+ *
+ * Used by in-process callers (e.g. the target LLM agent) that need more
+ * than the HTTP-facing models in model.ts.
+ */
+
+import type { ChatResponse } from "./model";
+
+/** A tool call returned by the model (not executed by the SDK). */
+export interface LlmToolCall {
+  /** Name of the tool the model called. */
+  toolName: string;
+  /** Raw input the model supplied. */
+  input: unknown;
+  /** True if the call was unparsable, failed schema validation or named an unknown tool. */
+  invalid: boolean;
+  /** Why the call was invalid, if it was. */
+  error: string | null;
+}
+
+/** Chat completion that may contain tool calls. */
+export interface ToolChatResponse extends ChatResponse {
+  toolCalls: LlmToolCall[];
+}
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the perception snapshot built from a mineflayer bot.
+ *
+ * Uses a minimal fake bot exposing only what perceive() reads.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Vec3 } from "vec3";
+import type { Bot as MineflayerBot } from "mineflayer";
+import { perceive } from "../bot/state/perception";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface FakeBlock {
+  name: string;
+  position: Vec3;
+}
+
+function createFakeBot(options: {
+  blocks?: FakeBlock[];
+  /** Block the line-of-sight raycast hits, if any. */
+  raycastHit?: Vec3 | null;
+}): MineflayerBot {
+  const self = { type: "player", username: "llm_target", position: new Vec3(0, 64, 0), height: 1.8 };
+  const blocks = [
+    { name: "grass_block", position: new Vec3(0, 63, 0) },
+    ...(options.blocks ?? []),
+  ];
+  const blockAt = (pos: Vec3) =>
+    blocks.find((b) => b.position.equals(pos.floored())) ?? null;
+
+  const fake = {
+    entity: self,
+    entities: {
+      0: self,
+      1: { type: "player", username: "tester_1", position: new Vec3(3, 64, 4), height: 1.8 },
+      2: { type: "mob", name: "cow", position: new Vec3(0, 64, 10), height: 1.4 },
+      3: { type: "player", username: "far_away", position: new Vec3(100, 64, 0), height: 1.8 },
+    },
+    blockAt,
+    blockAtCursor: () => null,
+    findBlocks: ({ matching }: { matching: (b: FakeBlock) => boolean }) =>
+      blocks.filter(matching).map((b) => b.position),
+    canSeeBlock: (block: FakeBlock) => block.name !== "trapped_chest",
+    world: {
+      raycast: () =>
+        options.raycastHit ? { position: options.raycastHit } : null,
+    },
+  };
+  return fake as unknown as MineflayerBot;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("perceive", () => {
+  it("returns an empty snapshot for verbosity 'none'", () => {
+    const perception = perceive(createFakeBot({}), "none");
+    expect(perception.blockUnder).toBeNull();
+    expect(perception.entities).toEqual([]);
+    expect(perception.blocks).toEqual([]);
+  });
+
+  it("reports only nearby players at 'minimal'", () => {
+    const perception = perceive(createFakeBot({}), "minimal");
+    expect(perception.blockUnder).toBe("grass_block");
+    expect(perception.entities.map((e) => e.name)).toEqual(["tester_1"]);
+    expect(perception.entities[0].distance).toBe(5);
+    expect(perception.blocks).toEqual([]);
+  });
+
+  it("reports entities and notable blocks closest first at 'standard'", () => {
+    const perception = perceive(
+      createFakeBot({
+        blocks: [
+          { name: "trapped_chest", position: new Vec3(6, 64, 0) },
+          { name: "chest", position: new Vec3(2, 64, 0) },
+          { name: "oak_planks", position: new Vec3(0, 64, 3) },
+          { name: "stone", position: new Vec3(1, 64, 0) },
+        ],
+      }),
+      "standard",
+    );
+
+    expect(perception.entities.map((e) => e.name)).toEqual(["tester_1", "cow"]);
+    expect(perception.entities.every((e) => e.inLineOfSight)).toBe(true);
+    expect(perception.blocks.map((b) => b.name)).toEqual([
+      "chest",
+      "oak_planks",
+      "trapped_chest",
+    ]);
+    expect(perception.blocks[2].inLineOfSight).toBe(false);
+  });
+
+  it("marks entities behind a solid block as out of line of sight", () => {
+    const perception = perceive(
+      createFakeBot({ raycastHit: new Vec3(1, 65, 1) }),
+      "standard",
+    );
+    expect(perception.entities.find((e) => e.name === "tester_1")?.inLineOfSight).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Perception builds a snapshot of what a bot can see around it.
+ *
+ * Unlike BotState (position, health, inventory), perception reads the
+ * world through the mineflayer bot: nearby entities with distances,
+ * notable blocks such as chests, crafting tables and placed planks,
+ * line of sight to each, and the block underfoot.
+ *
+ * How much is reported is controlled by a verbosity level so prompt
+ * size can be traded against situational awareness.
+ */
+
+import { type Bot as MineflayerBot } from "mineflayer";
+import { Vec3 as MineflayerVec3 } from "vec3";
+import type {
+  BotPerception,
+  PerceivedBlock,
+  PerceivedEntity,
+  PerceptionVerbosity,
+  Vec3,
+} from "../../types";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Block names reported when found nearby. Names ending in `_planks`
+ * (placed building material) are always included.
+ */
+const NOTABLE_BLOCKS = new Set([
+  "chest",
+  "trapped_chest",
+  "barrel",
+  "crafting_table",
+  "furnace",
+  "smoker",
+  "blast_furnace",
+  "anvil",
+  "oak_door",
+  "oak_log",
+]);
+
+/** Maximum entries per perception list (entities / blocks). */
+const MAX_ENTRIES = 12;
+
+/** Eye height of a player entity in blocks. */
+const EYE_HEIGHT = 1.62;
+
+// ---------------------------------------------------------------------------
+// Verbosity settings
+// ---------------------------------------------------------------------------
+
+interface PerceptionSettings {
+  /** Entity search radius in blocks. */
+  entityRadius: number;
+  /** Block search radius in blocks (0 = no block scan). */
+  blockRadius: number;
+  /** Only report players (ignore mobs, items, ...). */
+  playersOnly: boolean;
+  /** Compute line of sight for entities and blocks. */
+  lineOfSight: boolean;
+  /** Report the block under the crosshair. */
+  lookingAt: boolean;
+}
+
+const SETTINGS: Record<Exclude<PerceptionVerbosity, "none">, PerceptionSettings> = {
+  minimal: { entityRadius: 16, blockRadius: 0, playersOnly: true, lineOfSight: false, lookingAt: false },
+  standard: { entityRadius: 16, blockRadius: 8, playersOnly: false, lineOfSight: true, lookingAt: false },
+  detailed: { entityRadius: 32, blockRadius: 16, playersOnly: false, lineOfSight: true, lookingAt: true },
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a perception snapshot for a spawned mineflayer bot.
+ * Lookups that fail (e.g. unloaded chunks) are skipped rather than thrown.
+ */
+export function perceive(
+  bot: MineflayerBot,
+  verbosity: PerceptionVerbosity,
+): BotPerception {
+  const perception: BotPerception = {
+    verbosity,
+    blockUnder: null,
+    lookingAt: null,
+    entities: [],
+    blocks: [],
+  };
+  if (verbosity === "none" || !bot.entity) return perception;
+
+  const settings = SETTINGS[verbosity];
+  const origin = bot.entity.position;
+
+  perception.blockUnder = bot.blockAt(origin.offset(0, -1, 0))?.name ?? null;
+  perception.entities = perceiveEntities(bot, settings);
+
+  if (settings.blockRadius > 0) {
+    perception.blocks = perceiveBlocks(bot, settings);
+  }
+
+  if (settings.lookingAt) {
+    const block = bot.blockAtCursor(settings.blockRadius);
+    if (block) {
+      perception.lookingAt = {
+        name: block.name,
+        position: toPlain(block.position),
+        distance: round(origin.distanceTo(block.position)),
+        inLineOfSight: true,
+      };
+    }
+  }
+
+  return perception;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function perceiveEntities(
+  bot: MineflayerBot,
+  settings: PerceptionSettings,
+): PerceivedEntity[] {
+  const origin = bot.entity.position;
+  const entities: PerceivedEntity[] = [];
+
+  for (const entity of Object.values(bot.entities)) {
+    if (entity === bot.entity || !entity.position) continue;
+    if (settings.playersOnly && entity.type !== "player") continue;
+
+    const distance = origin.distanceTo(entity.position);
+    if (distance > settings.entityRadius) continue;
+
+    entities.push({
+      name: entity.username ?? entity.displayName ?? entity.name ?? "unknown",
+      type: entity.type,
+      position: toPlain(entity.position),
+      distance: round(distance),
+      inLineOfSight: settings.lineOfSight
+        ? hasLineOfSight(bot, entity.position.offset(0, (entity.height ?? 0) * 0.9, 0))
+        : false,
+    });
+  }
+
+  return closest(entities);
+}
+
+function perceiveBlocks(
+  bot: MineflayerBot,
+  settings: PerceptionSettings,
+): PerceivedBlock[] {
+  const origin = bot.entity.position;
+  const positions = bot.findBlocks({
+    matching: (block) => NOTABLE_BLOCKS.has(block.name) || block.name.endsWith("_planks"),
+    maxDistance: settings.blockRadius,
+    count: MAX_ENTRIES * 4,
+  });
+
+  const blocks: PerceivedBlock[] = [];
+  for (const position of positions) {
+    const block = bot.blockAt(position);
+    if (!block) continue;
+    blocks.push({
+      name: block.name,
+      position: toPlain(position),
+      distance: round(origin.distanceTo(position)),
+      inLineOfSight: settings.lineOfSight ? safeCanSee(bot, block) : false,
+    });
+  }
+
+  return closest(blocks);
+}
+
+/**
+ * Raycast from the bot's eyes towards a point; the point is visible if
+ * no solid block is hit before reaching it.
+ */
+function hasLineOfSight(bot: MineflayerBot, target: MineflayerVec3): boolean {
+  try {
+    const eye = bot.entity.position.offset(0, EYE_HEIGHT, 0);
+    const delta = target.minus(eye);
+    const distance = delta.norm();
+    if (distance === 0) return true;
+
+    const hit = bot.world.raycast(eye, delta.scaled(1 / distance), distance);
+    return !hit || eye.distanceTo(hit.position.offset(0.5, 0.5, 0.5)) >= distance - 0.5;
+  } catch {
+    return false;
+  }
+}
+
+function safeCanSee(
+  bot: MineflayerBot,
+  block: Parameters<MineflayerBot["canSeeBlock"]>[0],
+): boolean {
+  try {
+    return bot.canSeeBlock(block);
+  } catch {
+    return false;
+  }
+}
+
+/** Sort by distance and cap the list length. */
+function closest<T extends { distance: number }>(items: T[]): T[] {
+  return items
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_ENTRIES);
+}
+
+function toPlain(v: Vec3): Vec3 {
+  return { x: Math.floor(v.x), y: Math.floor(v.y), z: Math.floor(v.z) };
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -8,7 +8,8 @@
  */
 
 import { botManager, BotManagerError } from "./bot/bot-manager";
-import type { BotState } from "./types";
+import { perceive } from "./bot/state/perception";
+import type { BotPerception, BotState, PerceptionVerbosity } from "./types";
 
 // ---------------------------------------------------------------------------
 // Result types
@@ -90,6 +91,46 @@ export abstract class MinecraftService {
     return { ok: true, data: state };
   }
 
+  /**
+   * Get what a spawned bot can perceive around it (entities, notable
+   * blocks, line of sight) at the requested verbosity.
+   */
+  static getBotPerception(
+    botId: string,
+    verbosity: PerceptionVerbosity,
+  ): ServiceResult<BotPerception> {
+    const instance = botManager.getBot(botId);
+    if (!instance) {
+      return {
+        ok: false,
+        message: `Bot "${botId}" not found`,
+        code: "BOT_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const bot = instance.mineflayerBot;
+    if (!bot?.entity) {
+      return {
+        ok: false,
+        message: `Bot "${botId}" is not spawned`,
+        code: "BOT_NOT_SPAWNED",
+        httpStatus: 409,
+      };
+    }
+
+    try {
+      return { ok: true, data: perceive(bot, verbosity) };
+    } catch (err) {
+      return {
+        ok: false,
+        message: err instanceof Error ? err.message : "Perception failed",
+        code: "PERCEPTION_FAILED",
+        httpStatus: 500,
+      };
+    }
+  }
+
   /**
    * List all registered bots and their states.
    */
@@ -85,6 +85,54 @@ export interface InventorySlot {
   count: number;
 }
 
+// ---------------------------------------------------------------------------
+// Perception
+// ---------------------------------------------------------------------------
+
+/**
+ * How much of the surrounding world is reported:
+ * - "none": no world perception
+ * - "minimal": block underfoot and nearby players
+ * - "standard": + all nearby entities, notable blocks, line of sight
+ * - "detailed": larger radius and the block the bot is looking at
+ */
+export type PerceptionVerbosity = "none" | "minimal" | "standard" | "detailed";
+
+/** An entity seen near the bot. */
+export interface PerceivedEntity {
+  /** Username for players, entity name otherwise. */
+  name: string;
+  /** Entity category, e.g. "player", "mob", "hostile". */
+  type: string;
+  position: Vec3;
+  /** Distance from the bot in blocks. */
+  distance: number;
+  /** Whether a straight line from the bot's eyes is unobstructed. */
+  inLineOfSight: boolean;
+}
+
+/** A notable block seen near the bot. */
+export interface PerceivedBlock {
+  name: string;
+  position: Vec3;
+  /** Distance from the bot in blocks. */
+  distance: number;
+  inLineOfSight: boolean;
+}
+
+/** Snapshot of what a bot can perceive around it. */
+export interface BotPerception {
+  verbosity: PerceptionVerbosity;
+  /** Name of the block the bot is standing on. */
+  blockUnder: string | null;
+  /** Block under the crosshair ("detailed" only). */
+  lookingAt: PerceivedBlock | null;
+  /** Nearby entities, closest first. */
+  entities: PerceivedEntity[];
+  /** Notable blocks within the radius, closest first. */
+  blocks: PerceivedBlock[];
+}
+
 // ---------------------------------------------------------------------------
 // Actions
 // ---------------------------------------------------------------------------
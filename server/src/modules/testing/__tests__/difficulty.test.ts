@@ -0,0 +1,87 @@
+/**
+ * Adaptive Difficulty Tests
+ *
+ * Unit tests for assessing the target and stepping the agents' intensity
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  assessTarget,
+  nextIntensity,
+  sampleRun,
+  type PerformanceSample,
+} from "../coordinator/difficulty";
+
+function sample(overrides: Partial<PerformanceSample> = {}): PerformanceSample {
+  return {
+    llmDecisionCount: 0,
+    targetActionCount: 0,
+    failedDecisionCount: 0,
+    worldProgress: 0.2,
+    ...overrides,
+  };
+}
+
+describe("Adaptive Difficulty", () => {
+  test("should average world-check progress when sampling a run", () => {
+    const run = {
+      metrics: {
+        llmDecisionCount: 4,
+        targetActionCount: 6,
+        llmErrorCount: 1,
+        llmParseFailureCount: 1,
+      },
+      worldProgress: [{ progress: 0.2 }, { progress: 0.6 }],
+    } as Parameters<typeof sampleRun>[0];
+
+    const result = sampleRun(run);
+    expect(result.failedDecisionCount).toBe(2);
+    expect(result.worldProgress).toBeCloseTo(0.4);
+  });
+
+  test("should call a target making progress without failures coping", () => {
+    const result = assessTarget(
+      sample(),
+      sample({ llmDecisionCount: 5, worldProgress: 0.3 }),
+    );
+    expect(result.assessment).toBe("coping");
+    expect(result.reason).toBe("world progress +10%, 0/5 decisions failed");
+  });
+
+  test("should call a target without progress stuck", () => {
+    const result = assessTarget(sample(), sample({ llmDecisionCount: 5 }));
+    expect(result.assessment).toBe("stuck");
+  });
+
+  test("should call a target failing most decisions stuck despite progress", () => {
+    const result = assessTarget(
+      sample(),
+      sample({ llmDecisionCount: 4, failedDecisionCount: 2, worldProgress: 0.5 }),
+    );
+    expect(result.assessment).toBe("stuck");
+  });
+
+  test("should judge by actions per decision without world checks", () => {
+    const none = { worldProgress: null };
+    expect(
+      assessTarget(sample(none), sample({ ...none, llmDecisionCount: 4, targetActionCount: 6 }))
+        .assessment,
+    ).toBe("coping");
+    expect(
+      assessTarget(sample(none), sample({ ...none, llmDecisionCount: 4, targetActionCount: 1 }))
+        .assessment,
+    ).toBe("stuck");
+  });
+
+  test("should hold when the target made no decisions", () => {
+    expect(assessTarget(sample(), sample()).assessment).toBe("steady");
+  });
+
+  test("should step intensity within its bounds", () => {
+    expect(nextIntensity(0.5, "coping")).toBe(0.6);
+    expect(nextIntensity(0.5, "stuck")).toBe(0.4);
+    expect(nextIntensity(0.5, "steady")).toBe(0.5);
+    expect(nextIntensity(1, "coping")).toBe(1);
+    expect(nextIntensity(0.1, "stuck")).toBe(0.1);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Test Run Fixtures
+ *
+ * Fully typed TestRun records for unit tests. Tests override only the
+ * fields they care about, so a change to the TestRun shape breaks the
+ * fixture here instead of hiding behind a cast in each test.
+ */
+
+import type {
+  TestMetrics,
+  TestRun,
+  TestRunConfig,
+  WorldCheckProgress,
+} from "../types";
+
+let nextId = 0;
+
+/** A finished 10-minute cooperation run with ten decisions and no errors. */
+export function createTestRun(overrides: Partial<TestRun> = {}): TestRun {
+  return {
+    testId: `test-${++nextId}`,
+    scenarioType: "cooperation",
+    status: "completed",
+    targetLlmModel: "openai/gpt-5",
+    testingAgentProfiles: ["leader"],
+    testingAgentIds: [],
+    targetAgentId: null,
+    targetBotId: null,
+    discordTextChannelId: null,
+    discordVoiceChannelId: null,
+    durationSeconds: 600,
+    createdAt: "2026-10-19T12:00:00.000Z",
+    queuedAt: null,
+    startedAt: "2026-10-19T12:00:00.000Z",
+    endedAt: "2026-10-19T12:10:00.000Z",
+    pausedAt: null,
+    pausedSeconds: 0,
+    completionReason: "success",
+    config: createRunConfig(),
+    metrics: createMetrics(),
+    worldSetup: null,
+    worldProgress: [],
+    phaseHistory: [],
+    intensityTimeline: [],
+    replayOf: null,
+    ...overrides,
+  };
+}
+
+/** The default run configuration, with `overrides` applied. */
+export function createRunConfig(overrides: Partial<TestRunConfig> = {}): TestRunConfig {
+  return {
+    llmPollingIntervalMs: 7_000,
+    llmResponseMode: "json",
+    memoryStrategy: "stateless",
+    memoryTokenBudget: 4_000,
+    perceptionVerbosity: "standard",
+    behaviorIntensity: 0.5,
+    adaptiveIntensity: false,
+    testingAgentMode: "scripted",
+    testingAgentModel: "openai/gpt-5",
+    randomSeed: 42,
+    enableVoice: false,
+    enableText: true,
+    targetLlmSystemPromptOverride: null,
+    minecraftServer: { host: "localhost", port: 25565, version: "1.21.1" },
+    ...overrides,
+  };
+}
+
+/** Metrics of a run with ten decisions taking a second each, with `overrides` applied. */
+export function createMetrics(overrides: Partial<TestMetrics> = {}): TestMetrics {
+  return {
+    llmDecisionCount: 10,
+    targetActionCount: 0,
+    testingAgentActionCount: 0,
+    targetMessageCount: 0,
+    testingAgentMessageCount: 0,
+    llmErrorCount: 0,
+    llmParseFailureCount: 0,
+    totalLlmResponseTimeMs: 10_000,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalTokens: 0,
+    totalCostUsd: 0.01,
+    unpricedCallCount: 0,
+    lastLlmDecisionAt: null,
+    ...overrides,
+  };
+}
+
+/** Progress of the cooperation scenario's house check. */
+export function houseProgress(progress: number): WorldCheckProgress[] {
+  return [{
+    id: "house",
+    description: "House",
+    type: "enclosed-structure",
+    progress,
+    met: progress >= 0.9,
+    detail: "",
+  }];
+}
+
@@ -0,0 +1,161 @@
+/**
+ * Leaderboard Tests
+ *
+ * Unit tests for suite run matrices, ranking models over finished runs
+ * and intensity sweeps
+ */
+
+import { describe, test, expect } from "bun:test";
+import { buildLeaderboard } from "../suites/leaderboard";
+import { expandSuiteRuns } from "../suites/matrix";
+import { buildIntensitySweep } from "../suites/sweep";
+import type { CompletionReason, TestRun } from "../types";
+import { createMetrics, createRunConfig, createTestRun, houseProgress } from "./fixtures";
+
+/** A finished run of `model` with the given outcome and world progress. */
+function createRun(
+  model: string,
+  completionReason: CompletionReason,
+  progress: number,
+): TestRun {
+  return createTestRun({
+    status: completionReason === "manual-stop" ? "cancelled" : "completed",
+    targetLlmModel: model,
+    completionReason,
+    metrics: createMetrics({ llmErrorCount: 1 }),
+    worldProgress: houseProgress(progress),
+  });
+}
+
+describe("Suite Matrix", () => {
+  test("should interleave repetitions across models", () => {
+    const runs = expandSuiteRuns(["model-a", "model-b"], 2, 42);
+    expect(runs.map((r) => `${r.targetLlmModel}#${r.repetition}`)).toEqual([
+      "model-a#1",
+      "model-b#1",
+      "model-a#2",
+      "model-b#2",
+    ]);
+    expect(runs.every((r) => r.testId === null && r.error === null)).toBe(true);
+  });
+
+  test("should give every model the same seed for a repetition", () => {
+    const runs = expandSuiteRuns(["model-a", "model-b"], 2, 42);
+
+    expect(runs[0].randomSeed).toBe(runs[1].randomSeed);
+    expect(runs[2].randomSeed).toBe(runs[3].randomSeed);
+    expect(runs[0].randomSeed).not.toBe(runs[2].randomSeed);
+    expect(expandSuiteRuns(["model-a", "model-b"], 2, 42)).toEqual(runs);
+  });
+
+  test("should run every model at every sweep intensity with a shared seed", () => {
+    const runs = expandSuiteRuns(["model-a", "model-b"], 1, 42, [0.2, 0.8]);
+
+    expect(runs.map((r) => `${r.targetLlmModel}@${r.behaviorIntensity}`)).toEqual([
+      "model-a@0.2",
+      "model-b@0.2",
+      "model-a@0.8",
+      "model-b@0.8",
+    ]);
+    expect(new Set(runs.map((r) => r.randomSeed)).size).toBe(1);
+    expect(expandSuiteRuns(["model-a"], 1, 42)[0].behaviorIntensity).toBeNull();
+  });
+});
+
+describe("Leaderboard", () => {
+  test("should rank models by the chosen metric", () => {
+    const runs = [
+      createRun("model-a", "timeout", 0.4),
+      createRun("model-a", "success", 0.95),
+      createRun("model-b", "success", 0.9),
+      createRun("model-b", "success", 1),
+    ];
+
+    const bySuccess = buildLeaderboard(runs);
+    expect(bySuccess.rankingMetric).toBe("success-rate");
+    expect(bySuccess.entries.map((e) => e.targetLlmModel)).toEqual(["model-b", "model-a"]);
+    expect(bySuccess.entries.map((e) => e.rank)).toEqual([1, 2]);
+
+    const success = bySuccess.entries[1].metrics.find((m) => m.metric === "success-rate");
+    expect(success?.mean).toBe(0.5);
+    expect(success?.sampleSize).toBe(2);
+  });
+
+  test("should rank lower-is-better metrics ascending", () => {
+    const cheap = createRun("deepseek/deepseek-r1", "timeout", 0.5);
+    cheap.metrics.totalCostUsd = 0.001;
+    const runs = [createRun("openai/gpt-5", "timeout", 0.5), cheap];
+
+    const byCost = buildLeaderboard(runs, "cost-usd");
+    expect(byCost.entries[0].targetLlmModel).toBe("deepseek/deepseek-r1");
+  });
+
+  test("should leave runs of unpriced models out of the cost metric", () => {
+    const unpriced = createRun("acme/unpriced-model", "timeout", 0.5);
+    unpriced.metrics.totalCostUsd = 0;
+    const runs = [createRun("openai/gpt-5", "timeout", 0.5), unpriced];
+
+    const byCost = buildLeaderboard(runs, "cost-usd");
+    expect(byCost.entries.map((e) => e.targetLlmModel)).toEqual([
+      "openai/gpt-5",
+      "acme/unpriced-model",
+    ]);
+    const cost = byCost.entries[1].metrics.find((m) => m.metric === "cost-usd");
+    expect(cost?.sampleSize).toBe(0);
+  });
+
+  test("should leave manual stops and pipeline errors out", () => {
+    const runs = [
+      createRun("model-a", "success", 1),
+      createRun("model-a", "manual-stop", 0),
+      createRun("model-b", "error", 0),
+    ];
+
+    const leaderboard = buildLeaderboard(runs);
+    expect(leaderboard.entries.map((e) => e.targetLlmModel)).toEqual(["model-a"]);
+    expect(leaderboard.entries[0].runCount).toBe(1);
+    expect(leaderboard.excludedRunCount).toBe(2);
+  });
+
+  test("should mark significant gaps to the model ranked above", () => {
+    const strong = [0.9, 0.92, 0.88, 0.91].map((p) => createRun("model-strong", "timeout", p));
+    const close = [0.89, 0.93, 0.87, 0.9].map((p) => createRun("model-close", "timeout", p));
+    const weak = [0.2, 0.25, 0.15, 0.22].map((p) => createRun("model-weak", "timeout", p));
+
+    const leaderboard = buildLeaderboard([...weak, ...close, ...strong], "world-progress");
+    expect(leaderboard.entries.map((e) => e.targetLlmModel)).toEqual([
+      "model-strong",
+      "model-close",
+      "model-weak",
+    ]);
+    expect(leaderboard.entries.map((e) => e.significantVsAbove)).toEqual([null, false, true]);
+  });
+});
+
+describe("Intensity Sweep", () => {
+  test("should summarise each model's runs per intensity", () => {
+    const atIntensity = (run: TestRun, behaviorIntensity: number): TestRun => ({
+      ...run,
+      config: createRunConfig({ behaviorIntensity }),
+    });
+    const runs = [
+      atIntensity(createRun("model-a", "success", 1), 0.2),
+      atIntensity(createRun("model-a", "timeout", 0.5), 0.8),
+      atIntensity(createRun("model-a", "manual-stop", 0), 0.8),
+      atIntensity(createRun("model-b", "success", 0.9), 0.2),
+    ];
+
+    const sweep = buildIntensitySweep(
+      { suiteId: "suite-1", targetLlmModels: ["model-a", "model-b"], behaviorIntensities: [0.2, 0.8] },
+      runs,
+    );
+    const success = (model: number, point: number) =>
+      sweep.series[model].points[point].metrics.find((m) => m.metric === "success-rate")?.mean;
+
+    expect(sweep.series.map((s) => s.targetLlmModel)).toEqual(["model-a", "model-b"]);
+    expect(sweep.series[0].points.map((p) => p.runCount)).toEqual([1, 1]);
+    expect([success(0, 0), success(0, 1)]).toEqual([1, 0]);
+    expect(sweep.series[1].points[1].runCount).toBe(0);
+    expect(sweep.excludedRunCount).toBe(1);
+  });
+});
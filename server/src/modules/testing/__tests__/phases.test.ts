@@ -0,0 +1,42 @@
+/**
+ * Phase Trigger Tests
+ *
+ * Unit tests for deciding when the next scenario phase starts
+ */
+
+import { describe, test, expect } from "bun:test";
+import { isPhaseTriggered, nextDuePhase } from "../coordinator/phases";
+import type { ScenarioPhase } from "../scenarios/types";
+import { houseProgress } from "./fixtures";
+
+function phase(id: string, trigger: ScenarioPhase["trigger"]): ScenarioPhase {
+  return { id, description: id, trigger, events: [] };
+}
+
+describe("Phase Triggers", () => {
+  test("should trigger elapsed phases once the time has passed", () => {
+    const trigger = { type: "elapsed", seconds: 180 } as const;
+    expect(isPhaseTriggered(trigger, 179, [])).toBe(false);
+    expect(isPhaseTriggered(trigger, 180, [])).toBe(true);
+  });
+
+  test("should trigger world-progress phases on the named check", () => {
+    const trigger = { type: "world-progress", checkId: "house", atLeast: 0.5 } as const;
+    expect(isPhaseTriggered(trigger, 0, houseProgress(0.4))).toBe(false);
+    expect(isPhaseTriggered(trigger, 0, houseProgress(0.5))).toBe(true);
+    expect(isPhaseTriggered({ ...trigger, checkId: "wall" }, 0, houseProgress(1))).toBe(false);
+  });
+
+  test("should start phases in order, one at a time", () => {
+    const phases = [
+      phase("leader-leaves", { type: "elapsed", seconds: 180 }),
+      phase("half-built", { type: "world-progress", checkId: "house", atLeast: 0.5 }),
+    ];
+
+    // The second phase waits for the first even if its own trigger holds
+    expect(nextDuePhase(phases, 0, 60, houseProgress(0.8))).toBeNull();
+    expect(nextDuePhase(phases, 0, 200, houseProgress(0.8))?.id).toBe("leader-leaves");
+    expect(nextDuePhase(phases, 1, 200, houseProgress(0.8))?.id).toBe("half-built");
+    expect(nextDuePhase(phases, 2, 999, houseProgress(1))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Replay Tests
+ *
+ * Unit tests for reading a run's recorded LLM responses and comparing
+ * a replay with its original
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  compareReplay,
+  createReplayCursor,
+  extractRecordedResponses,
+} from "../coordinator/replay";
+import type { TargetActionOutcome, TestActionLog } from "../types";
+
+function outcome(actionType: string, status: TargetActionOutcome["status"]): TargetActionOutcome {
+  return { actionType, status, message: "", durationMs: 100 };
+}
+
+function decision(
+  second: number,
+  responseText: string | undefined,
+  actionResults: TargetActionOutcome[] = [],
+): TestActionLog {
+  return {
+    logId: `log-${second}`,
+    testId: "test-1",
+    sourceAgentId: "target-1",
+    sourceType: "target",
+    actionCategory: "llm-decision",
+    actionDetail: "Decision",
+    timestamp: `2026-10-19T12:00:${String(second).padStart(2, "0")}.000Z`,
+    metadata: {
+      responseText,
+      toolCalls: [],
+      responseTimeMs: 800,
+      executionOffsetMs: second * 1000,
+      actionResults,
+    },
+  };
+}
+
+describe("Recorded Responses", () => {
+  test("should read the target's responses oldest first", () => {
+    // Logs arrive newest first, mixed with other sources
+    const logs: TestActionLog[] = [
+      decision(14, "second"),
+      { ...decision(10, "chat"), sourceType: "testing-agent", actionCategory: "minecraft" },
+      decision(7, "first"),
+    ];
+
+    const responses = extractRecordedResponses(logs);
+    expect(responses?.map((r) => r.text)).toEqual(["first", "second"]);
+    expect(responses?.[0]).toEqual({
+      text: "first",
+      toolCalls: [],
+      responseTimeMs: 800,
+      executionOffsetMs: 7_000,
+    });
+  });
+
+  test("should leave the offset unset for runs recorded without it", () => {
+    const log = decision(7, "first");
+    const { executionOffsetMs: _, ...metadata } = log.metadata;
+
+    const responses = extractRecordedResponses([{ ...log, metadata }]);
+    expect(responses?.[0].executionOffsetMs).toBeNull();
+  });
+
+  test("should refuse runs recorded without responses", () => {
+    expect(extractRecordedResponses([decision(7, "first"), decision(14, undefined)])).toBeNull();
+    expect(extractRecordedResponses([])).toEqual([]);
+  });
+
+  test("should hand out each response once, in order", () => {
+    const cursor = createReplayCursor([
+      { text: "a", toolCalls: [], responseTimeMs: 1, executionOffsetMs: 0 },
+      { text: "b", toolCalls: [], responseTimeMs: 2, executionOffsetMs: 7_000 },
+    ]);
+
+    expect(cursor.peek()?.text).toBe("a");
+    expect(cursor.next()?.text).toBe("a");
+    expect(cursor.peek()?.executionOffsetMs).toBe(7_000);
+    expect(cursor.remaining()).toBe(1);
+    expect(cursor.next()?.text).toBe("b");
+    expect(cursor.next()).toBeNull();
+  });
+});
+
+describe("Replay Comparison", () => {
+  const original = [
+    decision(7, "a", [outcome("move-to", "success")]),
+    decision(14, "b", [outcome("dig", "success"), outcome("send-chat", "success")]),
+    decision(21, "c", [outcome("place", "success")]),
+  ];
+
+  test("should report no divergence when every outcome matches", () => {
+    const replay = original.map((log) => ({ ...log, testId: "test-2" }));
+
+    const comparison = compareReplay("test-1", "test-2", original, replay);
+    expect(comparison.firstDivergence).toBeNull();
+    expect(comparison.originalDecisions).toBe(3);
+    expect(comparison.replayedDecisions).toBe(3);
+  });
+
+  test("should find the first decision whose outcomes differ", () => {
+    const replay = [
+      decision(8, "a", [outcome("move-to", "success")]),
+      decision(15, "b", [outcome("dig", "failure"), outcome("send-chat", "success")]),
+      decision(22, "c", [outcome("place", "failure")]),
+    ];
+
+    const comparison = compareReplay("test-1", "test-2", original, replay);
+    expect(comparison.firstDivergence?.decision).toBe(2);
+    expect(comparison.firstDivergence?.replayResults[0].status).toBe("failure");
+    expect(comparison.firstDivergence?.originalTimestamp).toBe(original[1].timestamp);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Run Clock Tests
+ *
+ * Unit tests for keeping paused time out of a run's duration
+ */
+
+import { describe, test, expect } from "bun:test";
+import { activeSecondsAt, closePause, pausedSecondsAt } from "../coordinator/run-clock";
+
+const startedAt = "2026-10-19T12:00:00.000Z";
+const at = new Date("2026-10-19T12:10:00.000Z");
+
+describe("Run Clock", () => {
+  test("should count wall time when the run was never paused", () => {
+    const run = { startedAt, createdAt: startedAt, pausedAt: null, pausedSeconds: 0 };
+
+    expect(pausedSecondsAt(run, at)).toBe(0);
+    expect(activeSecondsAt(run, at)).toBe(600);
+  });
+
+  test("should leave completed and open pauses out of the active time", () => {
+    const run = {
+      startedAt,
+      createdAt: startedAt,
+      pausedAt: "2026-10-19T12:08:00.000Z",
+      pausedSeconds: 60,
+    };
+
+    expect(pausedSecondsAt(run, at)).toBe(180);
+    expect(activeSecondsAt(run, at)).toBe(420);
+  });
+
+  test("should fold an open pause into the paused total when it closes", () => {
+    const run = { pausedAt: "2026-10-19T12:09:30.000Z", pausedSeconds: 15 };
+
+    expect(closePause(run, at)).toEqual({ pausedAt: null, pausedSeconds: 45 });
+    expect(closePause({ pausedAt: null, pausedSeconds: 15 }, at)).toEqual({
+      pausedAt: null,
+      pausedSeconds: 15,
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Run Queue Tests
+ *
+ * Unit tests for admitting queued runs and spotting runs orphaned by a restart
+ */
+
+import { describe, test, expect } from "bun:test";
+import { isRunInFlight, nextQueuedRuns } from "../coordinator/run-queue";
+import type { TestRun, TestRunStatus } from "../types";
+import { createTestRun } from "./fixtures";
+
+/** A run in `status`, queued at `queuedAt`. */
+function run(testId: string, status: TestRunStatus, queuedAt: string | null): TestRun {
+  return createTestRun({ testId, status, queuedAt, completionReason: null, endedAt: null });
+}
+
+describe("Run Queue", () => {
+  test("should admit queued runs oldest first, up to the free slots", () => {
+    const runs = [
+      run("late", "queued", "2026-10-19T12:02:00.000Z"),
+      run("running", "executing", null),
+      run("early", "queued", "2026-10-19T12:01:00.000Z"),
+      run("middle", "queued", "2026-10-19T12:01:30.000Z"),
+    ];
+
+    expect(nextQueuedRuns(runs, 2).map((r) => r.testId)).toEqual(["early", "middle"]);
+    expect(nextQueuedRuns(runs, 0)).toEqual([]);
+    expect(nextQueuedRuns(runs, -1)).toEqual([]);
+  });
+
+  test("should treat only pipeline statuses as in flight", () => {
+    const inFlight: TestRunStatus[] = [
+      "initializing",
+      "coordination",
+      "executing",
+      "paused",
+      "completing",
+    ];
+    const idle: TestRunStatus[] = ["created", "queued", "completed", "failed", "cancelled"];
+
+    expect(inFlight.every((status) => isRunInFlight({ status }))).toBe(true);
+    expect(idle.some((status) => isRunInFlight({ status }))).toBe(false);
+  });
+});
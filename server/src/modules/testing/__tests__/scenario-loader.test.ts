@@ -0,0 +1,143 @@
+/**
+ * Scenario Loader Tests
+ *
+ * Unit tests for parsing and validating scenario definition files
+ */
+
+import { describe, test, expect } from "bun:test";
+import { readdirSync } from "node:fs";
+import { join } from "node:path";
+import { SCENARIO_DIR } from "../../../../constants/testing.constants";
+import {
+  isScenarioFile,
+  loadScenarioFile,
+  parseScenarioText,
+  scenarioProfiles,
+  scenarioTypeFromFile,
+  serializeScenario,
+  validateScenario,
+} from "../scenarios/loader";
+import type { TestScenario } from "../scenarios/types";
+
+function shippedScenario(type: string): TestScenario {
+  const result = loadScenarioFile(join(SCENARIO_DIR, `${type}.json`));
+  if (!result.ok) throw new Error(result.errors.join("; "));
+  return result.scenario;
+}
+
+describe("Scenario Loader", () => {
+  test("should load every shipped scenario file", () => {
+    const files = readdirSync(SCENARIO_DIR).filter(isScenarioFile);
+    expect(files.length).toBeGreaterThanOrEqual(2);
+
+    for (const file of files) {
+      const result = loadScenarioFile(join(SCENARIO_DIR, file));
+      expect(result.ok ? [] : result.errors).toEqual([]);
+    }
+  });
+
+  test("should derive the scenario type from the file name", () => {
+    expect(scenarioTypeFromFile("/tmp/scenarios/night-raid.yaml")).toBe("night-raid");
+    expect(isScenarioFile("night-raid.yml")).toBe(true);
+    expect(isScenarioFile("README.md")).toBe(false);
+  });
+
+  test("should reject a definition whose type does not match its file", () => {
+    const result = validateScenario(shippedScenario("cooperation"), "night-raid");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toContain('expected "night-raid"');
+  });
+
+  test("should report schema errors with their path", () => {
+    const scenario = { ...shippedScenario("cooperation"), defaultProfiles: ["pirate"] };
+    const result = validateScenario(scenario);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.some((e) => e.startsWith("/defaultProfiles/0"))).toBe(true);
+
+    expect(validateScenario({ ...scenario, defaultProfiles: ["leader"], type: "Bad Type" }).ok).toBe(false);
+  });
+
+  test("should reject duplicate world check ids", () => {
+    const scenario = shippedScenario("resource-management");
+    const [first] = scenario.successCriteria.worldChecks;
+    const result = validateScenario({
+      ...scenario,
+      successCriteria: {
+        ...scenario.successCriteria,
+        worldChecks: [first, { ...first }],
+      },
+    });
+    expect(result.ok).toBe(false);
+  });
+
+  test("should reject inverted and oversized world check regions", () => {
+    const scenario = shippedScenario("cooperation");
+    const [house] = scenario.successCriteria.worldChecks;
+    if (house.type !== "enclosed-structure") throw new Error("expected the house check");
+    const withRegion = (region: typeof house.region) =>
+      validateScenario({
+        ...scenario,
+        successCriteria: {
+          ...scenario.successCriteria,
+          worldChecks: [{ ...house, region }],
+        },
+      });
+
+    const inverted = withRegion({ min: house.region.max, max: house.region.min });
+    expect(inverted.ok).toBe(false);
+    if (!inverted.ok) expect(inverted.errors[0]).toContain("is greater than max.x");
+
+    const huge = withRegion({
+      min: { x: -10_000, y: 60, z: -10_000 },
+      max: { x: 10_000, y: 64, z: 10_000 },
+    });
+    expect(huge.ok).toBe(false);
+    if (!huge.ok) expect(huge.errors[0]).toContain("/successCriteria/worldChecks/0/region");
+  });
+
+  test("should reject phases triggered by an unknown world check", () => {
+    const scenario = shippedScenario("cooperation");
+    const result = validateScenario({
+      ...scenario,
+      phases: [{
+        id: "half-built",
+        description: "Half the wall is up",
+        trigger: { type: "world-progress", checkId: "wall", atLeast: 0.5 },
+        events: [],
+      }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toContain('unknown world check "wall"');
+  });
+
+  test("should list every profile a scenario refers to once", () => {
+    const scenario: TestScenario = {
+      ...shippedScenario("cooperation"),
+      defaultProfiles: ["leader", "follower"],
+      scriptedChat: { confuser: { intervalSeconds: 30, lines: ["Where is north?"] } },
+      phases: [{
+        id: "betrayal",
+        description: "Agents turn on the target",
+        trigger: { type: "elapsed", seconds: 60 },
+        events: [
+          { type: "agent-leaves", profile: "follower" },
+          { type: "agent-chat", profile: "task-abandoner", message: "I'm off" },
+        ],
+      }],
+    };
+
+    expect(scenarioProfiles(scenario).sort()).toEqual(
+      ["confuser", "follower", "leader", "task-abandoner"],
+    );
+  });
+
+  test("should round-trip YAML definitions", () => {
+    const scenario = shippedScenario("cooperation");
+    const text = serializeScenario(scenario, "cooperation.yaml");
+    expect(text.startsWith("{")).toBe(false);
+    expect(validateScenario(parseScenarioText(text, "cooperation.yaml"), "cooperation")).toEqual({
+      ok: true,
+      scenario,
+    });
+  });
+});
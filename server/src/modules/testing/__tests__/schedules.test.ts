@@ -0,0 +1,64 @@
+/**
+ * Schedule Tests
+ *
+ * Unit tests for cron parsing and regression detection against a rolling baseline
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseCron, nextRunAt } from "../schedules/cron";
+import { detectRegression, DEFAULT_REGRESSION_POLICY } from "../schedules/regression";
+import type { TestRun } from "../types";
+import { createMetrics, createTestRun, houseProgress } from "./fixtures";
+
+/** A finished run with the given house progress and LLM errors. */
+function run(testId: string, progress: number, llmErrorCount = 0): TestRun {
+  return createTestRun({
+    testId,
+    worldProgress: houseProgress(progress),
+    metrics: createMetrics({ llmErrorCount, totalCostUsd: 0.1 }),
+  });
+}
+
+describe("Cron", () => {
+  test("should find the next matching minute in UTC", () => {
+    const after = new Date("2026-10-19T12:00:00.000Z");
+
+    expect(nextRunAt("0 3 * * *", after)).toBe("2026-10-20T03:00:00.000Z");
+    expect(nextRunAt("*/15 * * * *", after)).toBe("2026-10-19T12:15:00.000Z");
+    // 2026-10-19 is a Monday; 7 means Sunday
+    expect(nextRunAt("30 8 * * 7", after)).toBe("2026-10-25T08:30:00.000Z");
+    expect(nextRunAt("0 0 31 2 *", after)).toBeNull();
+  });
+
+  test("should reject malformed expressions", () => {
+    expect(parseCron("0 3 * *").ok).toBe(false);
+    expect(parseCron("60 * * * *").ok).toBe(false);
+    expect(parseCron("*/0 * * * *").ok).toBe(false);
+    expect(parseCron("0 9-17 * * 1-5").ok).toBe(true);
+  });
+});
+
+describe("Regression Detection", () => {
+  const policy = DEFAULT_REGRESSION_POLICY;
+
+  test("should not compare until the baseline is large enough", () => {
+    expect(detectRegression(run("now", 0.1), [run("a", 0.9)], policy)).toBeNull();
+  });
+
+  test("should flag metrics that worsen past the threshold", () => {
+    const history = [run("a", 0.8), run("b", 0.9)];
+
+    const steady = detectRegression(run("now", 0.8), history, policy);
+    expect(steady?.regressed).toBe(false);
+    expect(steady?.baselineTestIds).toEqual(["a", "b"]);
+
+    const dropped = detectRegression(run("now", 0.5), history, policy);
+    expect(dropped?.regressed).toBe(true);
+    expect(dropped?.comparisons.find((c) => c.regressed)?.metric).toBe("world-progress");
+
+    const erroring = detectRegression(run("now", 0.85, 5), history, policy);
+    expect(erroring?.comparisons.filter((c) => c.regressed).map((c) => c.metric)).toEqual([
+      "llm-error-rate",
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Conversation Memory Tests
+ *
+ * Unit tests for the target LLM's rolling conversation window
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  ConversationMemory,
+  formatOutcomes,
+  type MemoryTurn,
+} from "../coordinator/target-llm-memory";
+
+function turn(n: number, padding = 0): MemoryTurn {
+  return {
+    prompt: `state ${n}${" ".repeat(padding)}`,
+    decision: `decision ${n}`,
+    outcomes: [
+      { actionType: "dig", status: "failure", message: "No block there", durationMs: 12 },
+    ],
+  };
+}
+
+describe("ConversationMemory", () => {
+  test("should replay previous turns as user/assistant pairs", async () => {
+    const memory = new ConversationMemory(4_000, async () => null);
+    await memory.record(turn(1));
+
+    const messages = memory.buildMessages("state 2");
+    expect(messages).toEqual([
+      { role: "user", content: "state 1" },
+      { role: "assistant", content: "decision 1" },
+      { role: "user", content: "state 2" },
+    ]);
+  });
+
+  test("should format action outcomes for the prompt", () => {
+    expect(formatOutcomes(turn(1).outcomes)).toBe(
+      "- dig: failure (12ms) — No block there",
+    );
+    expect(formatOutcomes([])).toBe("No actions were executed.");
+  });
+
+  test("should summarise old turns once the token budget is exceeded", async () => {
+    const transcripts: string[] = [];
+    const memory = new ConversationMemory(1_000, async (_previous, transcript) => {
+      transcripts.push(transcript);
+      return "earlier summary";
+    });
+
+    let summarized = false;
+    for (let i = 1; i <= 6; i++) {
+      summarized = (await memory.record(turn(i, 1_200))) || summarized;
+    }
+
+    expect(summarized).toBe(true);
+    expect(transcripts[0]).toContain("decision 1");
+    expect(memory.currentSummary).toBe("earlier summary");
+    expect(memory.estimate()).toBeLessThanOrEqual(1_000);
+    expect(memory.buildMessages("now")[0].content).toStartWith(
+      "## Summary of earlier cycles\nearlier summary",
+    );
+  });
+
+  test("should fall back to a digest when summarisation fails", async () => {
+    const memory = new ConversationMemory(1_000, async () => {
+      throw new Error("provider down");
+    });
+    for (let i = 1; i <= 4; i++) await memory.record(turn(i, 1_600));
+
+    expect(memory.currentSummary).toContain("decision 1 (0 ok, 1 failed)");
+  });
+
+  test("should not lose folded turns when records overlap a slow summary", async () => {
+    const memory = new ConversationMemory(1_000, async (previous, transcript) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const decisions = transcript.match(/decision \d+/g) ?? [];
+      return [previous, ...decisions].filter(Boolean).join(", ");
+    });
+
+    for (let i = 1; i <= 3; i++) await memory.record(turn(i, 1_200));
+    // Both records start before the first summary has finished
+    await Promise.all([memory.record(turn(4, 1_200)), memory.record(turn(5, 3_000))]);
+
+    const kept = memory.buildMessages("now").filter((m) => m.role === "assistant");
+    const remembered = `${memory.currentSummary} ${kept.map((m) => m.content).join(" ")}`;
+    for (let i = 1; i <= 5; i++) expect(remembered).toContain(`decision ${i}`);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Target LLM Tools Tests
+ *
+ * Unit tests for converting tool calls into validated BotActions
+ */
+
+import { describe, test, expect } from "bun:test";
+import { interpretToolCalls } from "../coordinator/target-llm-tools";
+import type { LlmToolCall } from "../../llm/types";
+
+function call(toolName: string, input: unknown): LlmToolCall {
+  return { toolName, input, invalid: false, error: null };
+}
+
+describe("Target LLM Tools", () => {
+  test("should convert coordinate tools into positioned actions", () => {
+    const decision = interpretToolCalls(
+      [call("move-to", { x: 10, y: 64, z: -3 }), call("jump", {})],
+      "bot-1",
+    );
+    expect(decision.errors).toEqual([]);
+    expect(decision.actions).toEqual([
+      { type: "move-to", botId: "bot-1", position: { x: 10, y: 64, z: -3 } },
+      { type: "jump", botId: "bot-1" },
+    ]);
+  });
+
+  test("should place blocks against the top face of the block below", () => {
+    const decision = interpretToolCalls(
+      [call("place-block", { x: 1, y: 65, z: 2 })],
+      "bot-1",
+    );
+    expect(decision.actions[0]).toEqual({
+      type: "place-block",
+      botId: "bot-1",
+      position: { x: 1, y: 64, z: 2 },
+      face: "top",
+    });
+  });
+
+  test("should route chat and speech out of the action list", () => {
+    const decision = interpretToolCalls(
+      [call("send-chat", { message: "hi" }), call("speak", { message: "hello" })],
+      "bot-1",
+    );
+    expect(decision.actions).toEqual([]);
+    expect(decision.chat).toBe("hi");
+    expect(decision.speak).toBe("hello");
+  });
+
+  test("should reject calls that do not match the BotAction union", () => {
+    const decision = interpretToolCalls(
+      [
+        call("dig", { x: "here", y: 64, z: 0 }),
+        call("teleport", { x: 0, y: 0, z: 0 }),
+        { toolName: "attack", input: {}, invalid: true, error: "bad input" },
+      ],
+      "bot-1",
+    );
+    expect(decision.actions).toEqual([]);
+    expect(decision.errors).toHaveLength(3);
+    expect(decision.errors[1]).toContain("Unknown tool");
+    expect(decision.errors[2]).toBe("bad input");
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * World Check Tests
+ *
+ * Unit tests for evaluating world-state success checks
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  evaluateWorldCheck,
+  matchesBlock,
+  type WorldView,
+} from "../coordinator/world-checks";
+import type { EnclosedStructureCheck } from "../scenarios/types";
+
+/** A world of placed blocks keyed by "x,y,z"; everything else is air. */
+function createView(
+  blocks: Record<string, string> = {},
+  inventory: WorldView["inventory"] = [],
+): WorldView {
+  return {
+    blockAt: (x, y, z) => blocks[`${x},${y},${z}`] ?? "air",
+    inventory,
+    startingInventory: [{ name: "bread", count: 5 }],
+  };
+}
+
+/** Place walls (3 high) and a roof for a 3x3 house with its corner at (x0, 0, z0). */
+function buildHouse(x0: number, z0: number, skip = 0): Record<string, string> {
+  const blocks: Record<string, string> = {};
+  const positions: string[] = [];
+  for (let x = x0; x <= x0 + 2; x++) {
+    for (let z = z0; z <= z0 + 2; z++) {
+      if (x === x0 || x === x0 + 2 || z === z0 || z === z0 + 2) {
+        for (let y = 0; y < 3; y++) positions.push(`${x},${y},${z}`);
+      }
+      positions.push(`${x},3,${z}`);
+    }
+  }
+  for (const key of positions.slice(skip)) blocks[key] = "oak_planks";
+  return blocks;
+}
+
+const HOUSE: EnclosedStructureCheck = {
+  type: "enclosed-structure",
+  id: "house",
+  description: "House",
+  region: { min: { x: 0, y: 0, z: 0 }, max: { x: 6, y: 4, z: 6 } },
+  footprint: { width: 3, depth: 3 },
+  wallHeight: 3,
+  requireRoof: true,
+  blocks: ["*_planks"],
+  minCompletion: 0.9,
+};
+
+describe("World Checks", () => {
+  test("should match exact and wildcard block patterns", () => {
+    expect(matchesBlock("oak_planks", ["*_planks"])).toBe(true);
+    expect(matchesBlock("oak_log", ["oak_*"])).toBe(true);
+    expect(matchesBlock("cobblestone", ["stone"])).toBe(false);
+  });
+
+  test("should count blocks inside a region", () => {
+    const progress = evaluateWorldCheck(
+      {
+        type: "block-count",
+        id: "planks",
+        description: "Planks placed",
+        region: { min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 0, z: 1 } },
+        blocks: ["*_planks"],
+        minCount: 4,
+      },
+      createView({ "0,0,0": "oak_planks", "1,0,1": "birch_planks", "5,0,5": "oak_planks" }),
+    );
+    expect(progress.progress).toBe(0.5);
+    expect(progress.met).toBe(false);
+    expect(progress.detail).toBe("2/4 blocks");
+  });
+
+  test("should find a complete house anywhere in the region", () => {
+    const progress = evaluateWorldCheck(HOUSE, createView(buildHouse(3, 2)));
+    expect(progress.progress).toBe(1);
+    expect(progress.met).toBe(true);
+    expect(progress.detail).toBe("33/33 wall and roof blocks placed");
+  });
+
+  test("should report partial progress for an unfinished house", () => {
+    const progress = evaluateWorldCheck(HOUSE, createView(buildHouse(1, 1, 20)));
+    expect(progress.progress).toBeCloseTo(13 / 33);
+    expect(progress.met).toBe(false);
+  });
+
+  test("should report held inventory items", () => {
+    const progress = evaluateWorldCheck(
+      {
+        type: "inventory-items",
+        id: "items",
+        description: "Items",
+        items: [
+          { name: "oak_log", count: 4 },
+          { name: "cobblestone", count: 8 },
+        ],
+      },
+      createView({}, [
+        { slot: 36, name: "oak_log", count: 4 },
+        { slot: 37, name: "cobblestone", count: 2 },
+      ]),
+    );
+    expect(progress.progress).toBeCloseTo(0.625);
+    expect(progress.detail).toBe("1/2 items held");
+  });
+
+  test("should not count starting inventory as crafted", () => {
+    const check = {
+      type: "crafted-item" as const,
+      id: "bread",
+      description: "Baked bread",
+      item: "bread",
+      count: 1,
+    };
+    const before = evaluateWorldCheck(check, createView({}, [{ slot: 36, name: "bread", count: 5 }]));
+    expect(before.met).toBe(false);
+
+    const after = evaluateWorldCheck(check, createView({}, [{ slot: 36, name: "bread", count: 6 }]));
+    expect(after.met).toBe(true);
+    expect(after.detail).toBe("1/1 bread crafted");
+  });
+
+  test("should not scan an oversized region", () => {
+    let reads = 0;
+    const view = createView();
+    const progress = evaluateWorldCheck(
+      { ...HOUSE, region: { min: { x: -500, y: 0, z: -500 }, max: { x: 500, y: 4, z: 500 } } },
+      {
+        ...view,
+        blockAt: (x, y, z) => {
+          reads++;
+          return view.blockAt(x, y, z);
+        },
+      },
+    );
+    expect(reads).toBe(0);
+    expect(progress.met).toBe(false);
+    expect(progress.detail).toContain("more than the 32768 allowed");
+  });
+});
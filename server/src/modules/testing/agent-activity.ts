@@ -2,7 +2,8 @@
  * Records testing-agent activity and broadcasts to WebSocket clients.
  *
  * Called from the behavior executor when agents perform actions or send chat,
- * so the dashboard can show live updates (metrics, action timeline, chat feed).
+ * so the dashboard can show live updates (metrics, action timeline, chat feed,
+ * behavior tree debug view).
  */
 
 import { testEvents } from "./events/event-emitter";
@@ -13,10 +14,12 @@ export interface RecordActivityOptions {
   action?: { actionType: string; actionDetail: string; success: boolean };
   /** Emit test-chat-message and increment testingAgentMessageCount. */
   chat?: { message: string; channel: "text" | "voice" };
+  /** Emit agent-tree-tick with the node path that picked the behavior. */
+  behaviorTree?: { profile: string; behavior: string; activePath: string[] };
 }
 
 /**
- * Record one or both: agent action and/or chat message.
+ * Record any of: agent action, chat message, behavior tree tick.
  * Updates test metrics and emits events so the dashboard receives live updates.
  */
 export async function recordTestingAgentActivity(
@@ -39,6 +42,15 @@ export async function recordTestingAgentActivity(
     await testingRepository.incrementMetric(testId, "testingAgentActionCount");
   }
 
+  if (opts.behaviorTree) {
+    testEvents.emitEvent("agent-tree-tick", {
+      testId,
+      agentId,
+      ...opts.behaviorTree,
+      timestamp,
+    });
+  }
+
   if (opts.chat) {
     testEvents.emitEvent("test-chat-message", {
       testId,
@@ -10,6 +10,10 @@
 import type { TestRun } from "../types";
 import { testingRepository } from "../repository";
 import { CompletionDetector } from "./completion-detector";
+import { PhaseEngine } from "./phase-engine";
+import { DifficultyController } from "./difficulty-controller";
+import { isRunInFlight } from "./run-queue";
+import { closePause } from "./run-clock";
 import { MinecraftService } from "../../minecraft/service";
 import { AgentService } from "../../agents/service";
 import { DiscordService } from "../../discord/service";
@@ -25,7 +29,7 @@ export class CleanupHandler {
    * Called after completion detection or manual stop.
    *
    * Cleanup order:
-   * 1. Stop completion detector monitoring
+   * 1. Stop completion detector monitoring, scenario phases and adaptive intensity
    * 2. Terminate testing agents (stops behavior loops + disconnects bots)
    * 3. Disconnect target LLM bot from Minecraft
    * 4. Leave Discord voice channel (but keep text/voice channels)
@@ -35,8 +39,10 @@ export class CleanupHandler {
     const { testId } = testRun;
     console.log(`[CleanupHandler] Starting cleanup for test ${testId}`);
 
-    // 1. Stop completion detector
+    // 1. Stop completion detector, scenario phases and adaptive intensity
     CompletionDetector.stop(testId);
+    PhaseEngine.stop(testId);
+    DifficultyController.stop(testId);
 
     // 2. Terminate testing agents
     for (const agentId of testRun.testingAgentIds) {
@@ -100,26 +106,24 @@ export class CleanupHandler {
   }
 
   /**
-   * Clean up all active test runs. Used during server shutdown.
+   * Clean up all active test runs (paused and completing ones included).
+   * Used during server shutdown.
    */
   static async cleanupAll(): Promise<void> {
     console.log("[CleanupHandler] Cleaning up all active tests...");
 
     const activeTests = await testingRepository.findAll();
-    const activeRuns = activeTests.filter(
-      (t) =>
-        t.status === "initializing" ||
-        t.status === "coordination" ||
-        t.status === "executing"
-    );
+    const activeRuns = activeTests.filter(isRunInFlight);
 
     for (const testRun of activeRuns) {
       try {
         await this.cleanup(testRun);
+        const endedAt = new Date();
         await testingRepository.update(testRun.testId, {
+          ...closePause(testRun, endedAt),
           status: "cancelled",
           completionReason: "manual-stop",
-          endedAt: new Date().toISOString(),
+          endedAt: endedAt.toISOString(),
         });
       } catch (err) {
         console.error(
@@ -129,8 +133,10 @@ export class CleanupHandler {
       }
     }
 
-    // Also stop all completion detector monitors
+    // Also stop all completion detector monitors, phase engines and difficulty controllers
     CompletionDetector.stopAll();
+    PhaseEngine.stopAll();
+    DifficultyController.stopAll();
 
     console.log(
       `[CleanupHandler] Cleaned up ${activeRuns.length} active test(s)`
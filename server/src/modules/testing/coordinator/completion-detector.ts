@@ -7,13 +7,22 @@
  * - All agents failed
  * - Manual stop
  *
- * Runs as a periodic check during test execution.
+ * Runs as a periodic check during test execution. While a run is
+ * paused the timeout is suspended and re-armed with the time that was
+ * left when it resumes. Scenarios with world
+ * checks are judged on the live world (seen through the target bot)
+ * rather than on action counts; their progress is stored on the run
+ * and broadcast whenever it changes.
  */
 
-import type { TestRun, CompletionReason, TestMetrics } from "../types";
+import type { TestRun, CompletionReason, TestMetrics, WorldCheckProgress } from "../types";
 import type { TestScenario } from "../scenarios/types";
 import { testingRepository } from "../repository";
 import { testEvents } from "../events/event-emitter";
+import { botManager } from "../../minecraft/bot/bot-manager";
+import { Vec3 } from "vec3";
+import { evaluateWorldChecks, type WorldView } from "./world-checks";
+import { activeSecondsAt, closePause } from "./run-clock";
 
 // ---------------------------------------------------------------------------
 // Active timers
@@ -22,9 +31,18 @@ import { testEvents } from "../events/event-emitter";
 /** Maps testId to the timeout timer handle. */
 const timeoutTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
+/** Maps testId to the epoch ms at which the timeout fires. */
+const deadlines = new Map<string, number>();
+
+/** Maps testId to the timeout ms left when the run was paused. */
+const remainingOnPause = new Map<string, number>();
+
 /** Maps testId to the criteria check interval handle. */
 const criteriaCheckers = new Map<string, ReturnType<typeof setInterval>>();
 
+/** Maps testId to the last broadcast world progress (serialised), to skip unchanged updates. */
+const lastWorldProgress = new Map<string, string>();
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -38,16 +56,7 @@ export class CompletionDetector {
     const { testId, durationSeconds } = testRun;
 
     // Set up hard timeout
-    const timeoutMs = durationSeconds * 1000;
-    const timer = setTimeout(() => {
-      this.triggerCompletion(testId, "timeout").catch((err) => {
-        console.error(
-          `[CompletionDetector] Error triggering timeout for ${testId}:`,
-          err
-        );
-      });
-    }, timeoutMs);
-    timeoutTimers.set(testId, timer);
+    this.armTimeout(testId, durationSeconds * 1000);
 
     // Set up periodic criteria checking (every 5 seconds)
     const checker = setInterval(() => {
@@ -66,22 +75,45 @@ export class CompletionDetector {
     );
   }
 
+  /**
+   * Suspend a run's timeout, remembering how much time was left.
+   * Criteria checks keep ticking but skip runs that are not executing.
+   */
+  static pause(testId: string): void {
+    const deadline = deadlines.get(testId);
+    if (deadline === undefined || remainingOnPause.has(testId)) return;
+
+    this.disarmTimeout(testId);
+    remainingOnPause.set(testId, Math.max(0, deadline - Date.now()));
+  }
+
+  /** Re-arm a paused run's timeout with the time it had left. */
+  static resume(testId: string): void {
+    const remainingMs = remainingOnPause.get(testId);
+    if (remainingMs === undefined) return;
+
+    remainingOnPause.delete(testId);
+    this.armTimeout(testId, remainingMs);
+    console.log(
+      `[CompletionDetector] Resumed test ${testId} ` +
+        `(${Math.round(remainingMs / 1000)}s left)`
+    );
+  }
+
   /**
    * Stop monitoring a test run.
    * Called during cleanup or when the test completes.
    */
   static stop(testId: string): void {
-    const timer = timeoutTimers.get(testId);
-    if (timer) {
-      clearTimeout(timer);
-      timeoutTimers.delete(testId);
-    }
+    this.disarmTimeout(testId);
+    remainingOnPause.delete(testId);
 
     const checker = criteriaCheckers.get(testId);
     if (checker) {
       clearInterval(checker);
       criteriaCheckers.delete(testId);
     }
+    lastWorldProgress.delete(testId);
 
     console.log(`[CompletionDetector] Stopped monitoring test ${testId}`);
   }
@@ -114,25 +146,23 @@ export class CompletionDetector {
       return;
     }
 
-    const endedAt = new Date().toISOString();
+    const endedAt = new Date();
     const finalStatus = reason === "error" || reason === "all-agents-failed"
       ? "failed"
       : reason === "manual-stop"
         ? "cancelled"
         : "completed";
 
+    // A run stopped while paused closes its open pause
     await testingRepository.update(testId, {
       status: finalStatus,
       completionReason: reason,
-      endedAt,
+      endedAt: endedAt.toISOString(),
+      ...closePause(testRun, endedAt),
     });
 
-    const startedAt = testRun.startedAt
-      ? new Date(testRun.startedAt).getTime()
-      : new Date(testRun.createdAt).getTime();
-    const durationSeconds = Math.round(
-      (new Date(endedAt).getTime() - startedAt) / 1000
-    );
+    // Time spent paused does not count towards the run's duration
+    const durationSeconds = Math.round(activeSecondsAt(testRun, endedAt));
 
     testEvents.emitEvent("test-completed", {
       testId,
@@ -140,14 +170,14 @@ export class CompletionDetector {
       reason,
       finalMetrics: testRun.metrics,
       durationSeconds,
-      timestamp: endedAt,
+      timestamp: endedAt.toISOString(),
     });
 
     testEvents.emitEvent("test-status-changed", {
       testId,
       previousStatus: testRun.status,
       newStatus: finalStatus,
-      timestamp: endedAt,
+      timestamp: endedAt.toISOString(),
     });
 
     console.log(
@@ -160,7 +190,7 @@ export class CompletionDetector {
    * Stop all active monitors. Used during server shutdown.
    */
   static stopAll(): void {
-    for (const testId of timeoutTimers.keys()) {
+    for (const testId of [...criteriaCheckers.keys()]) {
       this.stop(testId);
     }
     console.log("[CompletionDetector] All monitors stopped");
@@ -170,6 +200,31 @@ export class CompletionDetector {
   // Internal
   // -------------------------------------------------------------------------
 
+  /** Fire a "timeout" completion for a run `timeoutMs` from now. */
+  private static armTimeout(testId: string, timeoutMs: number): void {
+    this.disarmTimeout(testId);
+    const timer = setTimeout(() => {
+      this.triggerCompletion(testId, "timeout").catch((err) => {
+        console.error(
+          `[CompletionDetector] Error triggering timeout for ${testId}:`,
+          err
+        );
+      });
+    }, timeoutMs);
+    timeoutTimers.set(testId, timer);
+    deadlines.set(testId, Date.now() + timeoutMs);
+  }
+
+  /** Cancel a run's pending timeout, if any. */
+  private static disarmTimeout(testId: string): void {
+    const timer = timeoutTimers.get(testId);
+    if (timer) {
+      clearTimeout(timer);
+      timeoutTimers.delete(testId);
+    }
+    deadlines.delete(testId);
+  }
+
   /**
    * Check if success criteria are met for a test run.
    */
@@ -184,29 +239,36 @@ export class CompletionDetector {
 
     const { metrics } = testRun;
     const { successCriteria } = scenario;
+    const discordSatisfied =
+      !successCriteria.requiresDiscordCommunication ||
+      metrics.targetMessageCount > 0;
 
-    // Check if minimum cooperative actions threshold is met
-    if (
-      successCriteria.minCooperativeActions !== null &&
-      metrics.targetActionCount >= successCriteria.minCooperativeActions
-    ) {
-      // Check Discord communication requirement
+    if (successCriteria.worldChecks.length > 0) {
+      // World-state criteria replace the action-count thresholds
+      const progress = await this.updateWorldProgress(testRun, scenario);
+      if (progress && progress.every((check) => check.met) && discordSatisfied) {
+        await this.triggerCompletion(testId, "success");
+        return;
+      }
+    } else {
+      // Check if minimum cooperative actions threshold is met
       if (
-        !successCriteria.requiresDiscordCommunication ||
-        metrics.targetMessageCount > 0
+        successCriteria.minCooperativeActions !== null &&
+        metrics.targetActionCount >= successCriteria.minCooperativeActions &&
+        discordSatisfied
       ) {
         await this.triggerCompletion(testId, "success");
         return;
       }
-    }
 
-    // Check if minimum tasks completed threshold is met
-    if (
-      successCriteria.minTasksCompleted !== null &&
-      metrics.targetActionCount >= successCriteria.minTasksCompleted * 10
-    ) {
-      await this.triggerCompletion(testId, "success");
-      return;
+      // Check if minimum tasks completed threshold is met
+      if (
+        successCriteria.minTasksCompleted !== null &&
+        metrics.targetActionCount >= successCriteria.minTasksCompleted * 10
+      ) {
+        await this.triggerCompletion(testId, "success");
+        return;
+      }
     }
 
     // Check LLM error rate
@@ -221,4 +283,48 @@ export class CompletionDetector {
       }
     }
   }
+
+  /**
+   * Evaluate the scenario's world checks through the target bot, persist
+   * the result and broadcast it if it changed. Returns null if the target
+   * bot is not available.
+   */
+  private static async updateWorldProgress(
+    testRun: TestRun,
+    scenario: TestScenario
+  ): Promise<WorldCheckProgress[] | null> {
+    const view = testRun.targetBotId
+      ? this.buildWorldView(testRun.targetBotId, scenario)
+      : null;
+    if (!view) return null;
+
+    const progress = evaluateWorldChecks(scenario.successCriteria.worldChecks, view);
+    const serialised = JSON.stringify(progress);
+    if (lastWorldProgress.get(testRun.testId) !== serialised) {
+      lastWorldProgress.set(testRun.testId, serialised);
+      await testingRepository.update(testRun.testId, { worldProgress: progress });
+      testEvents.emitEvent("test-world-progress", {
+        testId: testRun.testId,
+        checks: progress,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    return progress;
+  }
+
+  /** Read-only world view from the target bot's loaded chunks and inventory. */
+  private static buildWorldView(
+    botId: string,
+    scenario: TestScenario
+  ): WorldView | null {
+    const mcBot = botManager.getBot(botId)?.mineflayerBot;
+    const state = botManager.getBotState(botId);
+    if (!mcBot || !state) return null;
+
+    return {
+      blockAt: (x, y, z) => mcBot.blockAt(new Vec3(x, y, z))?.name ?? null,
+      inventory: state.inventory,
+      startingInventory: scenario.initialConditions.targetStartingInventory,
+    };
+  }
 }
@@ -0,0 +1,254 @@
+/**
+ * Difficulty Controller
+ *
+ * Adapts adversary pressure during the execution phase of runs with
+ * `config.adaptiveIntensity`. Every DIFFICULTY_CHECK_INTERVAL_MS it
+ * samples the run's metrics and world progress, assesses the target
+ * against the previous window (see difficulty.ts) and moves the testing
+ * agents' intensity up when the target copes or down when it is stuck.
+ * Each decision is appended to the run's `intensityTimeline`, logged as
+ * a `difficulty` action and broadcast as a `test-intensity-step` event.
+ *
+ * A replay does not assess its own target: it applies the source run's
+ * recorded timeline, each step once its `elapsedSeconds` is reached, so
+ * the testing agents change intensity when they did in the original.
+ */
+
+import type { IntensityStep, TestRun } from "../types";
+import { testingRepository } from "../repository";
+import { testEvents } from "../events/event-emitter";
+import { assessTarget, nextIntensity, sampleRun, type PerformanceSample } from "./difficulty";
+import { AgentService } from "../../agents/service";
+import { DIFFICULTY_CHECK_INTERVAL_MS } from "../../../../constants/testing.constants";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How often a replay checks for recorded steps that are due. */
+const REPLAY_CHECK_INTERVAL_MS = 1_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Per-run controller state. */
+interface DifficultyState {
+  timer: ReturnType<typeof setInterval>;
+  /** Epoch ms when execution began, moved on by pauses. */
+  executionStartedAt: number;
+  /** Epoch ms when the run was paused, or null while it executes. */
+  pausedAt: number | null;
+  /** Intensity the testing agents currently run at. */
+  intensity: number;
+  /** Performance at the start of the current window. */
+  windowStart: PerformanceSample;
+  /** Whether a tick is still running (ticks never overlap). */
+  busy: boolean;
+  /** Recorded steps still to apply in a replay, or null when adapting live. */
+  replaySteps: IntensityStep[] | null;
+}
+
+// ---------------------------------------------------------------------------
+// Active controllers
+// ---------------------------------------------------------------------------
+
+/** Maps testId to its controller state. */
+const activeControllers = new Map<string, DifficultyState>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class DifficultyController {
+  /**
+   * Start adapting a run's intensity.
+   * Does nothing unless the run has adaptive intensity enabled. Pass
+   * `replayedTimeline` (the source run's timeline) for a replay.
+   */
+  static start(testRun: TestRun, replayedTimeline?: IntensityStep[]): void {
+    if (!testRun.config.adaptiveIntensity) return;
+
+    const { testId } = testRun;
+    this.stop(testId);
+
+    const timeline = testRun.intensityTimeline;
+    const lastStep = timeline[timeline.length - 1];
+    const replaySteps = replayedTimeline
+      ? replayedTimeline.filter((step) => step.elapsedSeconds > (lastStep?.elapsedSeconds ?? -1))
+      : null;
+    const state: DifficultyState = {
+      timer: setInterval(() => {
+        const tick = replaySteps ? this.replayTick(testId) : this.tick(testId);
+        tick.catch((err) => {
+          console.error(`[DifficultyController] Error adjusting intensity for ${testId}:`, err);
+        });
+      }, replaySteps ? REPLAY_CHECK_INTERVAL_MS : DIFFICULTY_CHECK_INTERVAL_MS),
+      executionStartedAt: Date.now(),
+      pausedAt: null,
+      intensity: lastStep?.nextIntensity ?? testRun.config.behaviorIntensity,
+      windowStart: sampleRun(testRun),
+      busy: false,
+      replaySteps,
+    };
+    activeControllers.set(testId, state);
+
+    console.log(
+      replaySteps
+        ? `[DifficultyController] Replaying ${replaySteps.length} intensity steps for test ${testId}`
+        : `[DifficultyController] Adapting intensity for test ${testId} from ${state.intensity}`,
+    );
+  }
+
+  /** Freeze a run's elapsed time; ticks skip the run until it resumes. */
+  static pause(testId: string): void {
+    const state = activeControllers.get(testId);
+    if (state && state.pausedAt === null) state.pausedAt = Date.now();
+  }
+
+  /** Continue a paused run's elapsed time from where it stopped. */
+  static resume(testId: string): void {
+    const state = activeControllers.get(testId);
+    if (!state || state.pausedAt === null) return;
+
+    state.executionStartedAt += Date.now() - state.pausedAt;
+    state.pausedAt = null;
+  }
+
+  /** Stop adapting a run's intensity. */
+  static stop(testId: string): void {
+    const state = activeControllers.get(testId);
+    if (!state) return;
+
+    clearInterval(state.timer);
+    activeControllers.delete(testId);
+    console.log(`[DifficultyController] Stopped for test ${testId}`);
+  }
+
+  /** Stop all controllers. Used during server shutdown. */
+  static stopAll(): void {
+    for (const testId of [...activeControllers.keys()]) {
+      this.stop(testId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /** Assess the window that just ended and set the next intensity. */
+  private static async tick(testId: string): Promise<void> {
+    const state = activeControllers.get(testId);
+    if (!state || state.busy || state.pausedAt !== null) return;
+
+    state.busy = true;
+    try {
+      const testRun = await testingRepository.findById(testId);
+      if (!testRun || testRun.status !== "executing") return;
+
+      const sample = sampleRun(testRun);
+      const { assessment, reason } = assessTarget(state.windowStart, sample);
+      const step: IntensityStep = {
+        at: new Date().toISOString(),
+        elapsedSeconds: Math.round((Date.now() - state.executionStartedAt) / 1000),
+        intensity: state.intensity,
+        assessment,
+        reason,
+        nextIntensity: nextIntensity(state.intensity, assessment),
+      };
+      state.windowStart = sample;
+
+      if (step.nextIntensity !== step.intensity) {
+        await this.applyIntensity(testRun, step.nextIntensity);
+        state.intensity = step.nextIntensity;
+      }
+      await this.recordStep(testRun, step);
+    } finally {
+      state.busy = false;
+    }
+  }
+
+  /** Apply the recorded steps whose time has come, in order. */
+  private static async replayTick(testId: string): Promise<void> {
+    const state = activeControllers.get(testId);
+    if (!state?.replaySteps || state.busy || state.pausedAt !== null) return;
+
+    const elapsedSeconds = (Date.now() - state.executionStartedAt) / 1000;
+    const pending = state.replaySteps.findIndex((step) => step.elapsedSeconds > elapsedSeconds);
+    const due = state.replaySteps.splice(0, pending === -1 ? state.replaySteps.length : pending);
+    if (due.length === 0) return;
+
+    state.busy = true;
+    try {
+      const testRun = await testingRepository.findById(testId);
+      if (!testRun || testRun.status !== "executing") return;
+
+      let timeline = testRun.intensityTimeline;
+      for (const recorded of due) {
+        if (recorded.nextIntensity !== state.intensity) {
+          await this.applyIntensity(testRun, recorded.nextIntensity);
+          state.intensity = recorded.nextIntensity;
+        }
+        const step: IntensityStep = { ...recorded, at: new Date().toISOString() };
+        await this.recordStep({ ...testRun, intensityTimeline: timeline }, step, true);
+        timeline = [...timeline, step];
+      }
+    } finally {
+      state.busy = false;
+    }
+  }
+
+  /** Set the intensity of every testing agent still in the run. */
+  private static async applyIntensity(testRun: TestRun, intensity: number): Promise<void> {
+    for (const agentId of testRun.testingAgentIds) {
+      const agent = (await AgentService.getAgent(agentId)).data;
+      // Agents that left during a scenario phase stay gone
+      if (agent?.status !== "active") continue;
+
+      const result = await AgentService.setBehaviorIntensity(agentId, intensity);
+      if (!result.ok) {
+        console.warn(
+          `[DifficultyController] Could not set intensity of agent ${agentId}: ${result.message}`,
+        );
+      }
+    }
+  }
+
+  /** Append a decision (or a replayed one) to the run's timeline, log it and broadcast it. */
+  private static async recordStep(
+    testRun: TestRun,
+    step: IntensityStep,
+    replayed = false,
+  ): Promise<void> {
+    const { testId } = testRun;
+
+    await testingRepository.update(testId, {
+      intensityTimeline: [...testRun.intensityTimeline, step],
+    });
+
+    const change =
+      step.nextIntensity === step.intensity
+        ? `held at ${step.intensity}`
+        : `${step.intensity} -> ${step.nextIntensity}`;
+    await testingRepository.createActionLog({
+      logId: `log-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      testId,
+      sourceAgentId: "difficulty-controller",
+      sourceType: "system",
+      actionCategory: "difficulty",
+      actionDetail: `${replayed ? "Replayed: target" : "Target"} ${step.assessment}: intensity ${change}`,
+      timestamp: step.at,
+      metadata: { ...step },
+    });
+
+    testEvents.emitEvent("test-intensity-step", {
+      testId,
+      step,
+      timestamp: step.at,
+    });
+
+    console.log(
+      `[DifficultyController] ${testId} target ${step.assessment} (${step.reason}): intensity ${change}`,
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Adaptive Difficulty
+ *
+ * Decides how hard the testing agents should push in adaptive runs.
+ * Each window compares the target's metrics and world-check progress
+ * with the previous window: a target that makes progress without many
+ * failed decisions is coping and the intensity goes up a step; one that
+ * makes no progress or fails often is stuck and it goes down a step.
+ */
+
+import {
+  ADAPTIVE_INTENSITY_STEP,
+  ADAPTIVE_MAX_INTENSITY,
+  ADAPTIVE_MIN_INTENSITY,
+} from "../../../../constants/testing.constants";
+import type { TargetAssessment, TestRun } from "../types";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** World progress gain per window that counts as progress. */
+const MIN_PROGRESS_GAIN = 0.02;
+
+/** Coping targets fail at most this share of their decisions. */
+const COPING_MAX_FAILURE_RATE = 0.2;
+
+/** Targets failing at least this share of their decisions are stuck. */
+const STUCK_MIN_FAILURE_RATE = 0.5;
+
+/** Without world checks, coping targets act at least this often per decision... */
+const COPING_ACTIONS_PER_DECISION = 1;
+
+/** ...and stuck targets less often than this. */
+const STUCK_ACTIONS_PER_DECISION = 0.5;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the controller sees of a run at the end of a window. */
+export interface PerformanceSample {
+  llmDecisionCount: number;
+  targetActionCount: number;
+  /** LLM errors plus unparseable responses. */
+  failedDecisionCount: number;
+  /** Mean progress of the scenario's world checks (0-1), or null if it has none. */
+  worldProgress: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Sample a run's current performance. */
+export function sampleRun(testRun: Pick<TestRun, "metrics" | "worldProgress">): PerformanceSample {
+  const { metrics, worldProgress } = testRun;
+  return {
+    llmDecisionCount: metrics.llmDecisionCount,
+    targetActionCount: metrics.targetActionCount,
+    failedDecisionCount: metrics.llmErrorCount + metrics.llmParseFailureCount,
+    worldProgress:
+      worldProgress.length > 0
+        ? worldProgress.reduce((sum, check) => sum + check.progress, 0) / worldProgress.length
+        : null,
+  };
+}
+
+/** How the target did between two samples, with the evidence. */
+export function assessTarget(
+  previous: PerformanceSample,
+  current: PerformanceSample,
+): { assessment: TargetAssessment; reason: string } {
+  const decisions = current.llmDecisionCount - previous.llmDecisionCount;
+  if (decisions <= 0) {
+    return { assessment: "steady", reason: "no decisions this window" };
+  }
+
+  const failed = current.failedDecisionCount - previous.failedDecisionCount;
+  const failureRate = failed / decisions;
+  const failures = `${failed}/${decisions} decisions failed`;
+
+  if (current.worldProgress !== null && previous.worldProgress !== null) {
+    const gain = current.worldProgress - previous.worldProgress;
+    const reason = `world progress ${formatGain(gain)}, ${failures}`;
+    if (failureRate >= STUCK_MIN_FAILURE_RATE || gain <= 0) {
+      return { assessment: "stuck", reason };
+    }
+    if (failureRate <= COPING_MAX_FAILURE_RATE && gain >= MIN_PROGRESS_GAIN) {
+      return { assessment: "coping", reason };
+    }
+    return { assessment: "steady", reason };
+  }
+
+  // No world checks: judge by how much the target gets done
+  const actionsPerDecision =
+    (current.targetActionCount - previous.targetActionCount) / decisions;
+  const reason = `${actionsPerDecision.toFixed(1)} actions per decision, ${failures}`;
+  if (failureRate >= STUCK_MIN_FAILURE_RATE || actionsPerDecision < STUCK_ACTIONS_PER_DECISION) {
+    return { assessment: "stuck", reason };
+  }
+  if (failureRate <= COPING_MAX_FAILURE_RATE && actionsPerDecision >= COPING_ACTIONS_PER_DECISION) {
+    return { assessment: "coping", reason };
+  }
+  return { assessment: "steady", reason };
+}
+
+/** The intensity for the next window after an assessment. */
+export function nextIntensity(intensity: number, assessment: TargetAssessment): number {
+  const step =
+    assessment === "coping" ? ADAPTIVE_INTENSITY_STEP
+    : assessment === "stuck" ? -ADAPTIVE_INTENSITY_STEP
+    : 0;
+  if (step === 0) return intensity;
+  const next = Math.min(ADAPTIVE_MAX_INTENSITY, Math.max(ADAPTIVE_MIN_INTENSITY, intensity + step));
+  // Round away floating-point drift (0.1 + 0.2) so steps stay comparable
+  return Math.round(next * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function formatGain(gain: number): string {
+  const percent = Math.round(gain * 100);
+  return `${percent >= 0 ? "+" : ""}${percent}%`;
+}
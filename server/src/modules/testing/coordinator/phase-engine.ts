@@ -0,0 +1,286 @@
+/**
+ * Phase Engine
+ *
+ * Drives multi-phase scenarios during the execution phase. Every few
+ * seconds it checks whether the next phase is due (see phases.ts); when
+ * one starts it fires the phase's scripted events (an agent leaves,
+ * says something, a chest is emptied, a server command runs), hands the
+ * new objective to the target agent, records the phase on the run and
+ * broadcasts a `test-phase-changed` event.
+ *
+ * Event failures never stop the run — they are recorded on the phase so
+ * the operator can tell a scripted disruption did not happen.
+ */
+
+import type { PhaseRecord, TestRun } from "../types";
+import type { PhaseEvent, ScenarioPhase, TestScenario } from "../scenarios/types";
+import { testingRepository } from "../repository";
+import { testEvents } from "../events/event-emitter";
+import { recordTestingAgentActivity } from "../agent-activity";
+import { nextDuePhase } from "./phases";
+import { botManager } from "../../minecraft/bot/bot-manager";
+import { AgentService } from "../../agents/service";
+import type { AgentInstance, BehavioralProfile } from "../../agents/model";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How often to check whether the next phase is due. */
+const PHASE_CHECK_INTERVAL_MS = 5_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Callbacks into the rest of the test runner. */
+export interface PhaseEngineHooks {
+  /** Replace the target agent's objective. */
+  onObjectiveChange: (objectivePrompt: string) => void;
+}
+
+/** Per-run engine state. */
+interface PhaseState {
+  timer: ReturnType<typeof setInterval>;
+  /** Epoch ms when execution began, moved on by pauses; elapsed triggers count from here. */
+  executionStartedAt: number;
+  /** Epoch ms when the run was paused, or null while it executes. */
+  pausedAt: number | null;
+  /** Number of phases started so far. */
+  startedCount: number;
+  /** Whether a tick is still running (ticks never overlap). */
+  busy: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Active engines
+// ---------------------------------------------------------------------------
+
+/** Maps testId to its phase engine state. */
+const activeEngines = new Map<string, PhaseState>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class PhaseEngine {
+  /**
+   * Start driving a run's scenario phases.
+   * Does nothing if the scenario has no phases.
+   */
+  static start(testRun: TestRun, scenario: TestScenario, hooks: PhaseEngineHooks): void {
+    const phases = scenario.phases ?? [];
+    if (phases.length === 0) return;
+
+    const { testId } = testRun;
+    this.stop(testId);
+
+    const state: PhaseState = {
+      timer: setInterval(() => {
+        this.tick(testId, phases, hooks).catch((err) => {
+          console.error(`[PhaseEngine] Error checking phases for ${testId}:`, err);
+        });
+      }, PHASE_CHECK_INTERVAL_MS),
+      executionStartedAt: Date.now(),
+      pausedAt: null,
+      startedCount: testRun.phaseHistory.length,
+      busy: false,
+    };
+    activeEngines.set(testId, state);
+
+    console.log(`[PhaseEngine] Driving ${phases.length} phase(s) for test ${testId}`);
+  }
+
+  /** Freeze a run's elapsed time; ticks skip the run until it resumes. */
+  static pause(testId: string): void {
+    const state = activeEngines.get(testId);
+    if (state && state.pausedAt === null) state.pausedAt = Date.now();
+  }
+
+  /** Continue a paused run's elapsed time from where it stopped. */
+  static resume(testId: string): void {
+    const state = activeEngines.get(testId);
+    if (!state || state.pausedAt === null) return;
+
+    state.executionStartedAt += Date.now() - state.pausedAt;
+    state.pausedAt = null;
+  }
+
+  /** Stop driving phases for a run. */
+  static stop(testId: string): void {
+    const state = activeEngines.get(testId);
+    if (!state) return;
+
+    clearInterval(state.timer);
+    activeEngines.delete(testId);
+    console.log(`[PhaseEngine] Stopped phases for test ${testId}`);
+  }
+
+  /** Stop all engines. Used during server shutdown. */
+  static stopAll(): void {
+    for (const testId of [...activeEngines.keys()]) {
+      this.stop(testId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /** Start the next phase if it is due. */
+  private static async tick(
+    testId: string,
+    phases: ScenarioPhase[],
+    hooks: PhaseEngineHooks,
+  ): Promise<void> {
+    const state = activeEngines.get(testId);
+    if (!state || state.busy) return;
+
+    state.busy = true;
+    try {
+      const testRun = await testingRepository.findById(testId);
+      if (!testRun || testRun.status !== "executing") return;
+
+      const elapsedSeconds = Math.round((Date.now() - state.executionStartedAt) / 1000);
+      const phase = nextDuePhase(phases, state.startedCount, elapsedSeconds, testRun.worldProgress);
+      if (!phase) return;
+
+      state.startedCount++;
+      await this.enterPhase(testRun, phase, state.startedCount, phases.length, elapsedSeconds, hooks);
+    } finally {
+      state.busy = false;
+    }
+  }
+
+  /** Fire a phase's events, switch the objective and record the phase. */
+  private static async enterPhase(
+    testRun: TestRun,
+    phase: ScenarioPhase,
+    phaseNumber: number,
+    totalPhases: number,
+    elapsedSeconds: number,
+    hooks: PhaseEngineHooks,
+  ): Promise<void> {
+    const { testId } = testRun;
+    const errors: string[] = [];
+
+    for (const event of phase.events) {
+      try {
+        const error = await this.fireEvent(testRun, event);
+        if (error) errors.push(error);
+      } catch (err) {
+        errors.push(`${event.type}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    if (phase.objectivePrompt) {
+      hooks.onObjectiveChange(phase.objectivePrompt);
+    }
+
+    const record: PhaseRecord = {
+      id: phase.id,
+      description: phase.description,
+      startedAt: new Date().toISOString(),
+      elapsedSeconds,
+      objectiveChanged: phase.objectivePrompt !== undefined,
+      errors,
+    };
+
+    await testingRepository.update(testId, {
+      phaseHistory: [...testRun.phaseHistory, record],
+    });
+
+    await testingRepository.createActionLog({
+      logId: `log-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      testId,
+      sourceAgentId: "phase-engine",
+      sourceType: "system",
+      actionCategory: "phase",
+      actionDetail: `Phase ${phaseNumber}/${totalPhases} started: ${phase.id}`,
+      timestamp: record.startedAt,
+      metadata: {
+        phaseId: phase.id,
+        events: phase.events,
+        objectiveChanged: record.objectiveChanged,
+        errors,
+      },
+    });
+
+    testEvents.emitEvent("test-phase-changed", {
+      testId,
+      phase: record,
+      phaseNumber,
+      totalPhases,
+      timestamp: record.startedAt,
+    });
+
+    if (errors.length > 0) {
+      console.warn(
+        `[PhaseEngine] Phase "${phase.id}" of ${testId} started with errors: ${errors.join("; ")}`,
+      );
+    } else {
+      console.log(`[PhaseEngine] Phase "${phase.id}" of ${testId} started (${elapsedSeconds}s)`);
+    }
+  }
+
+  /** Fire a single scripted event. Returns an error message if it could not be applied. */
+  private static async fireEvent(testRun: TestRun, event: PhaseEvent): Promise<string | null> {
+    switch (event.type) {
+      case "agent-leaves": {
+        const agent = await this.findActiveAgent(testRun, event.profile);
+        if (!agent) return `agent-leaves: no active ${event.profile} agent`;
+
+        const result = await AgentService.terminateAgent(agent.agentId);
+        return result.ok ? null : `agent-leaves: ${result.message}`;
+      }
+
+      case "agent-chat": {
+        const agent = await this.findActiveAgent(testRun, event.profile);
+        if (!agent) return `agent-chat: no active ${event.profile} agent`;
+
+        const mcBot = botManager.getBot(agent.minecraftBotId)?.mineflayerBot;
+        if (!mcBot) return `agent-chat: ${event.profile} agent has no connected bot`;
+
+        mcBot.chat(event.message);
+        await recordTestingAgentActivity(testRun.testId, agent.agentId, {
+          chat: { message: event.message, channel: "text" },
+        });
+        return null;
+      }
+
+      case "empty-container":
+        return this.runCommand(
+          testRun,
+          `/data merge block ${event.x} ${event.y} ${event.z} {Items:[]}`,
+        );
+
+      case "command":
+        return this.runCommand(testRun, event.command);
+    }
+  }
+
+  /** Issue a server command through the target bot. */
+  private static runCommand(testRun: TestRun, command: string): string | null {
+    const mcBot = testRun.targetBotId
+      ? botManager.getBot(testRun.targetBotId)?.mineflayerBot
+      : undefined;
+    if (!mcBot) return `command: target bot is not connected (${command})`;
+
+    mcBot.chat(command);
+    return null;
+  }
+
+  /** First still-active testing agent of the run with the given profile. */
+  private static async findActiveAgent(
+    testRun: TestRun,
+    profile: BehavioralProfile,
+  ): Promise<AgentInstance | null> {
+    for (const agentId of testRun.testingAgentIds) {
+      const result = await AgentService.getAgent(agentId);
+      if (result.data?.profile === profile && result.data.status === "active") {
+        return result.data;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Phase Triggers
+ *
+ * Decides when a multi-phase scenario moves on to its next phase.
+ * Phases start strictly in the order they are defined, at most one per
+ * check, so a disruption always gets at least one tick to play out
+ * before the next one fires.
+ */
+
+import type { PhaseTrigger, ScenarioPhase } from "../scenarios/types";
+import type { WorldCheckProgress } from "../types";
+
+/** Whether a trigger's condition holds. */
+export function isPhaseTriggered(
+  trigger: PhaseTrigger,
+  elapsedSeconds: number,
+  worldProgress: WorldCheckProgress[],
+): boolean {
+  switch (trigger.type) {
+    case "elapsed":
+      return elapsedSeconds >= trigger.seconds;
+    case "world-progress": {
+      const check = worldProgress.find((c) => c.id === trigger.checkId);
+      return check !== undefined && check.progress >= trigger.atLeast;
+    }
+  }
+}
+
+/**
+ * The next phase to start, or null if it is not due yet.
+ * `startedCount` is the number of phases that have already started.
+ */
+export function nextDuePhase(
+  phases: ScenarioPhase[],
+  startedCount: number,
+  elapsedSeconds: number,
+  worldProgress: WorldCheckProgress[],
+): ScenarioPhase | null {
+  const next = phases[startedCount];
+  if (!next) return null;
+  return isPhaseTriggered(next.trigger, elapsedSeconds, worldProgress) ? next : null;
+}
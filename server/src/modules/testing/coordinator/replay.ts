@@ -0,0 +1,139 @@
+/**
+ * Replay
+ *
+ * Rebuilds a finished run from its action log. Every target decision is
+ * logged with the raw LLM response (and tool calls); a replay run feeds
+ * those responses back to its target agent in their original order and
+ * at their original time into the execution phase instead of calling
+ * the LLM, while its testing agents reuse the original run's random
+ * seed. The world is fresh, so a replay drifts
+ * once a recorded action no longer has the same effect; compareReplay
+ * finds the first decision where that happened.
+ */
+
+import type {
+  ReplayComparison,
+  TargetActionOutcome,
+  TestActionLog,
+} from "../types";
+import type { LlmToolCall } from "../../llm/types";
+
+/** One target decision's LLM response as it was recorded. */
+export interface RecordedResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  responseTimeMs: number;
+  /**
+   * When the decision cycle started, in ms of unpaused execution time
+   * (null for runs recorded before it was logged).
+   */
+  executionOffsetMs: number | null;
+}
+
+/** Hands out a run's recorded responses one decision at a time. */
+export interface ReplayCursor {
+  /** The next recorded response, or null once all have been used. */
+  next: () => RecordedResponse | null;
+  /** The next recorded response without using it. */
+  peek: () => RecordedResponse | null;
+  /** How many recorded responses are left. */
+  remaining: () => number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * The target's recorded LLM responses, oldest first. Returns null if any
+ * decision was logged without its response (runs recorded before
+ * responses were logged cannot be replayed).
+ */
+export function extractRecordedResponses(logs: TestActionLog[]): RecordedResponse[] | null {
+  const responses: RecordedResponse[] = [];
+  for (const log of targetDecisions(logs)) {
+    const { responseText, toolCalls, responseTimeMs, executionOffsetMs } = log.metadata;
+    if (typeof responseText !== "string") return null;
+
+    responses.push({
+      text: responseText,
+      toolCalls: Array.isArray(toolCalls) ? (toolCalls as LlmToolCall[]) : [],
+      responseTimeMs: typeof responseTimeMs === "number" ? responseTimeMs : 0,
+      executionOffsetMs: typeof executionOffsetMs === "number" ? executionOffsetMs : null,
+    });
+  }
+  return responses;
+}
+
+/** A cursor over `responses`, in order. */
+export function createReplayCursor(responses: RecordedResponse[]): ReplayCursor {
+  let index = 0;
+  return {
+    next: () => (index < responses.length ? responses[index++] : null),
+    peek: () => responses[index] ?? null,
+    remaining: () => responses.length - index,
+  };
+}
+
+/**
+ * Compare a replay's decisions with the original run's, in order. Two
+ * decisions match when their actions had the same types and statuses.
+ */
+export function compareReplay(
+  sourceTestId: string,
+  replayTestId: string,
+  originalLogs: TestActionLog[],
+  replayLogs: TestActionLog[],
+): ReplayComparison {
+  const original = targetDecisions(originalLogs);
+  const replayed = targetDecisions(replayLogs);
+
+  let firstDivergence: ReplayComparison["firstDivergence"] = null;
+  for (let index = 0; index < Math.min(original.length, replayed.length); index++) {
+    const originalResults = actionResults(original[index]);
+    const replayResults = actionResults(replayed[index]);
+    if (!sameOutcomes(originalResults, replayResults)) {
+      firstDivergence = {
+        decision: index + 1,
+        originalTimestamp: original[index].timestamp,
+        replayTimestamp: replayed[index].timestamp,
+        originalResults,
+        replayResults,
+      };
+      break;
+    }
+  }
+
+  return {
+    sourceTestId,
+    replayTestId,
+    originalDecisions: original.length,
+    replayedDecisions: replayed.length,
+    firstDivergence,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** The target's LLM decision logs, oldest first. */
+function targetDecisions(logs: TestActionLog[]): TestActionLog[] {
+  return logs
+    .filter((log) => log.sourceType === "target" && log.actionCategory === "llm-decision")
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function actionResults(log: TestActionLog): TargetActionOutcome[] {
+  const results = log.metadata.actionResults;
+  return Array.isArray(results) ? (results as TargetActionOutcome[]) : [];
+}
+
+function sameOutcomes(a: TargetActionOutcome[], b: TargetActionOutcome[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((outcome, i) =>
+      outcome.actionType === b[i].actionType && outcome.status === b[i].status,
+    )
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Run Clock
+ *
+ * Time accounting for runs that can be paused. Time spent paused does
+ * not count against a run's duration: completed pauses are summed in
+ * `pausedSeconds`, and an open pause runs from `pausedAt`.
+ */
+
+import type { TestRun } from "../types";
+
+type PauseFields = Pick<TestRun, "pausedAt" | "pausedSeconds">;
+
+/** Seconds `run` has spent paused up to `at`, including an open pause. */
+export function pausedSecondsAt(run: PauseFields, at: Date): number {
+  const open = run.pausedAt
+    ? Math.max(0, (at.getTime() - new Date(run.pausedAt).getTime()) / 1000)
+    : 0;
+  return run.pausedSeconds + open;
+}
+
+/** Seconds `run` has been running, not paused, between its start and `at`. */
+export function activeSecondsAt(
+  run: PauseFields & Pick<TestRun, "startedAt" | "createdAt">,
+  at: Date,
+): number {
+  const startedAt = new Date(run.startedAt ?? run.createdAt).getTime();
+  const wallSeconds = Math.max(0, (at.getTime() - startedAt) / 1000);
+  return Math.max(0, wallSeconds - pausedSecondsAt(run, at));
+}
+
+/** The pause fields of `run` once its open pause is closed at `at`. */
+export function closePause(run: PauseFields, at: Date): PauseFields {
+  return { pausedAt: null, pausedSeconds: pausedSecondsAt(run, at) };
+}
@@ -0,0 +1,37 @@
+/**
+ * Run Queue
+ *
+ * Rules for the persistent run queue. A run started while
+ * MAX_CONCURRENT_TESTS runs are in flight is stored as "queued" and
+ * admitted, oldest first, as slots free up. Because the queue is just
+ * run records, it survives a server restart; runs that were in flight
+ * when the server went down cannot be resumed (their bots and timers
+ * lived in the old process) and are failed on boot.
+ */
+
+import type { TestRun, TestRunStatus } from "../types";
+
+/** Statuses of a run whose pipeline is executing in this process. */
+const IN_FLIGHT_STATUSES: TestRunStatus[] = [
+  "initializing",
+  "coordination",
+  "executing",
+  "paused",
+  "completing",
+];
+
+/** Whether a run's pipeline is (or, before a restart, was) executing. */
+export function isRunInFlight(run: Pick<TestRun, "status">): boolean {
+  return IN_FLIGHT_STATUSES.includes(run.status);
+}
+
+/** The queued runs to admit into `freeSlots` free slots, oldest first. */
+export function nextQueuedRuns(runs: TestRun[], freeSlots: number): TestRun[] {
+  if (freeSlots <= 0) return [];
+  return runs
+    .filter((run) => run.status === "queued")
+    .sort((a, b) =>
+      (a.queuedAt ?? a.createdAt).localeCompare(b.queuedAt ?? b.createdAt),
+    )
+    .slice(0, freeSlots);
+}
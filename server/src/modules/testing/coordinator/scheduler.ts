@@ -0,0 +1,203 @@
+/**
+ * Test Scheduler
+ *
+ * Starts the runs of recurring test schedules. Every SCHEDULER_TICK_MS
+ * the scheduler starts one run for each enabled schedule whose
+ * `nextRunAt` has passed (runs missed while the server was down are
+ * caught up with a single run) and moves `nextRunAt` to the next cron
+ * match. Runs go through TestRunner, so they queue like any other.
+ *
+ * When a scheduled run finishes it is compared to the schedule's
+ * rolling baseline; a regression is stored on the run's entry and
+ * broadcast as a `test-regression` event.
+ *
+ * All schedule updates are serialised so that a tick and a finishing
+ * run never overwrite each other's changes.
+ */
+
+import type { ScheduledRun, ServiceResult, TestSchedule } from "../types";
+import { testingRepository } from "../repository";
+import { testEvents } from "../events/event-emitter";
+import { isRunFinished } from "../suites/matrix";
+import { nextRunAt } from "../schedules/cron";
+import { detectRegression } from "../schedules/regression";
+import { TestRunner } from "./test-runner";
+import {
+  SCHEDULER_TICK_MS,
+  MAX_SCHEDULED_RUNS_KEPT,
+} from "../../../../constants/testing.constants";
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Tail of the serialised update chain. */
+let updateChain: Promise<void> = Promise.resolve();
+
+/** Run `task` after every previously scheduled update has finished. */
+function schedule(task: () => Promise<void>): Promise<void> {
+  updateChain = updateChain.then(task).catch((err) => {
+    console.error("[TestScheduler] Update error:", err);
+  });
+  return updateChain;
+}
+
+// A finished run may be a scheduled one that needs comparing
+testEvents.onEvent("test-status-changed", (event) => {
+  if (isRunFinished({ status: event.newStatus })) {
+    void schedule(() => TestScheduler.evaluate(event.testId));
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class TestScheduler {
+  /** Start checking for due schedules. */
+  static start(): void {
+    if (tickTimer) return;
+    tickTimer = setInterval(() => void this.tick(), SCHEDULER_TICK_MS);
+    void this.tick();
+    console.log(`[TestScheduler] Started (checking every ${SCHEDULER_TICK_MS / 1000}s)`);
+  }
+
+  /** Stop checking for due schedules. */
+  static stop(): void {
+    if (tickTimer) {
+      clearInterval(tickTimer);
+      tickTimer = null;
+    }
+  }
+
+  /** Start a run for every enabled schedule that is due. */
+  static tick(): Promise<void> {
+    return schedule(async () => {
+      const now = new Date();
+      const schedules = await testingRepository.findAllSchedules({ enabled: true });
+      for (const due of schedules) {
+        if (due.nextRunAt && new Date(due.nextRunAt) <= now) {
+          await this.startRun(due, now);
+        }
+      }
+    });
+  }
+
+  /** Start a run of a schedule now, outside its cron timing. */
+  static async triggerNow(scheduleId: string): Promise<ServiceResult<ScheduledRun>> {
+    let result: ServiceResult<ScheduledRun> | undefined;
+    await schedule(async () => {
+      const found = await testingRepository.findScheduleById(scheduleId);
+      result = found
+        ? await this.startRun(found, new Date(), { advance: false })
+        : {
+            ok: false,
+            message: `Schedule ${scheduleId} not found`,
+            code: "SCHEDULE_NOT_FOUND",
+            httpStatus: 404,
+          };
+    });
+    return result ?? {
+      ok: false,
+      message: `Could not trigger schedule ${scheduleId}`,
+      code: "SCHEDULE_ERROR",
+      httpStatus: 500,
+    };
+  }
+
+  /**
+   * Compare a finished run to its schedule's rolling baseline, if it
+   * was started by a schedule.
+   */
+  static async evaluate(testId: string): Promise<void> {
+    const schedules = await testingRepository.findAllSchedules();
+    const owner = schedules.find((s) => s.runs.some((r) => r.testId === testId));
+    if (!owner) return;
+
+    const run = await testingRepository.findById(testId);
+    if (!run) return;
+
+    const index = owner.runs.findIndex((r) => r.testId === testId);
+    const history = [];
+    for (const previous of owner.runs.slice(0, index)) {
+      const previousRun = await testingRepository.findById(previous.testId);
+      if (previousRun) history.push(previousRun);
+    }
+
+    const report = detectRegression(run, history, owner.regressionPolicy);
+    if (!report) return;
+
+    const runs = owner.runs.map((r) => (r.testId === testId ? { ...r, report } : r));
+    await testingRepository.updateSchedule(owner.scheduleId, { runs });
+
+    if (!report.regressed) return;
+
+    const regressed = report.comparisons
+      .filter((c) => c.regressed)
+      .map((c) => c.metric);
+    console.warn(
+      `[TestScheduler] Regression in ${testId} (schedule "${owner.name}"): ${regressed.join(", ")}`,
+    );
+
+    testEvents.emitEvent("test-regression", {
+      testId,
+      scheduleId: owner.scheduleId,
+      scheduleName: owner.name,
+      report,
+      timestamp: report.evaluatedAt,
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /**
+   * Create and start (or queue) one run of a schedule. Unless `advance`
+   * is false, `nextRunAt` moves to the next cron match even when the
+   * run could not be created, so a broken schedule does not retry on
+   * every tick.
+   */
+  private static async startRun(
+    target: TestSchedule,
+    now: Date,
+    { advance = true }: { advance?: boolean } = {},
+  ): Promise<ServiceResult<ScheduledRun>> {
+    const timing: Partial<TestSchedule> = advance
+      ? { nextRunAt: nextRunAt(target.cron, now) }
+      : {};
+
+    const created = await TestRunner.createTest(target.runTemplate);
+    if (!created.ok) {
+      console.warn(
+        `[TestScheduler] Could not create run for schedule "${target.name}": ${created.message}`,
+      );
+      await testingRepository.updateSchedule(target.scheduleId, timing);
+      return created;
+    }
+
+    const { testId } = created.data;
+    const started = await TestRunner.startTest(testId);
+    if (!started.ok) {
+      console.warn(
+        `[TestScheduler] Could not start ${testId} for schedule "${target.name}": ${started.message}`,
+      );
+    }
+
+    const scheduledRun: ScheduledRun = {
+      testId,
+      triggeredAt: now.toISOString(),
+      report: null,
+    };
+    await testingRepository.updateSchedule(target.scheduleId, {
+      ...timing,
+      runs: [...target.runs, scheduledRun].slice(-MAX_SCHEDULED_RUNS_KEPT),
+      lastRunAt: now.toISOString(),
+    });
+
+    console.log(`[TestScheduler] Schedule "${target.name}" started ${testId}`);
+    return { ok: true, data: scheduledRun };
+  }
+}
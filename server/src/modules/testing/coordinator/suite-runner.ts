@@ -0,0 +1,177 @@
+/**
+ * Suite Runner
+ *
+ * Dispatches the runs of a test suite through TestRunner. Every cell
+ * of the run matrix is created and started when the suite starts;
+ * runs beyond MAX_CONCURRENT_TESTS wait in TestRunner's queue, in
+ * matrix order. A suite completes once every cell has either finished
+ * or failed to start, which is re-checked whenever a test run finishes.
+ *
+ * Dispatching is serialised so that a cancel never races a dispatch.
+ */
+
+import type { SuiteRun, TestSuite } from "../types";
+import { testingRepository } from "../repository";
+import { testEvents } from "../events/event-emitter";
+import { isRunFinished } from "../suites/matrix";
+import { TestRunner } from "./test-runner";
+
+// ---------------------------------------------------------------------------
+// Dispatch queue
+// ---------------------------------------------------------------------------
+
+/** Tail of the serialised dispatch chain. */
+let dispatchChain: Promise<void> = Promise.resolve();
+
+/** Run `task` after every previously scheduled dispatch has finished. */
+function schedule(task: () => Promise<void>): Promise<void> {
+  dispatchChain = dispatchChain.then(task).catch((err) => {
+    console.error("[SuiteRunner] Dispatch error:", err);
+  });
+  return dispatchChain;
+}
+
+// A finished run may settle a running suite
+testEvents.onEvent("test-status-changed", (event) => {
+  if (isRunFinished({ status: event.newStatus })) {
+    void schedule(() => SuiteRunner.dispatchAll());
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class SuiteRunner {
+  /** Start dispatching a newly created suite. */
+  static start(suiteId: string): Promise<void> {
+    console.log(`[SuiteRunner] Starting suite ${suiteId}`);
+    return schedule(() => this.dispatch(suiteId));
+  }
+
+  /**
+   * Cancel a suite: its queued runs are dropped and its active runs
+   * are stopped.
+   */
+  static cancel(suiteId: string): Promise<void> {
+    return schedule(() => this.cancelNow(suiteId));
+  }
+
+  /** Dispatch every running suite, oldest first. */
+  static async dispatchAll(): Promise<void> {
+    const suites = await testingRepository.findAllSuites({ status: "running" });
+    for (const suite of suites.reverse()) {
+      await this.dispatch(suite.suiteId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal
+  // -------------------------------------------------------------------------
+
+  /** Mark a suite cancelled and stop its queued and active runs. */
+  private static async cancelNow(suiteId: string): Promise<void> {
+    const suite = await testingRepository.findSuiteById(suiteId);
+    if (!suite || suite.status !== "running") return;
+
+    await testingRepository.updateSuite(suiteId, {
+      status: "cancelled",
+      endedAt: new Date().toISOString(),
+    });
+
+    const runs = [];
+    for (const { testId } of suite.runs) {
+      const run = testId ? await testingRepository.findById(testId) : null;
+      if (run && run.status !== "created" && !isRunFinished(run)) runs.push(run);
+    }
+
+    // Dequeue first, so stopping an active run cannot admit one of ours
+    const ordered = [
+      ...runs.filter((run) => run.status === "queued"),
+      ...runs.filter((run) => run.status !== "queued"),
+    ];
+    for (const { testId } of ordered) {
+      await TestRunner.stopTest(testId);
+    }
+
+    console.log(`[SuiteRunner] Cancelled suite ${suiteId}`);
+  }
+
+  /** Start any pending runs, then check for completion. */
+  private static async dispatch(suiteId: string): Promise<void> {
+    const suite = await testingRepository.findSuiteById(suiteId);
+    if (!suite || suite.status !== "running") return;
+
+    const runs = suite.runs.map((run) => ({ ...run }));
+    let changed = false;
+
+    for (const cell of runs) {
+      if (cell.testId || cell.error) continue;
+      await this.startCell(suite, cell);
+      changed = true;
+    }
+
+    if (changed) {
+      await testingRepository.updateSuite(suiteId, { runs });
+    }
+
+    if (await this.isSettled(runs)) {
+      await testingRepository.updateSuite(suiteId, {
+        status: "completed",
+        endedAt: new Date().toISOString(),
+      });
+      console.log(`[SuiteRunner] Suite ${suiteId} completed (${runs.length} run(s))`);
+    }
+  }
+
+  /** Create and start (or queue) the test run for one matrix cell. */
+  private static async startCell(suite: TestSuite, cell: SuiteRun): Promise<void> {
+    const created = await TestRunner.createTest({
+      ...suite.runTemplate,
+      scenarioType: suite.scenarioType,
+      targetLlmModel: cell.targetLlmModel,
+      config: {
+        ...suite.runTemplate.config,
+        randomSeed: cell.randomSeed,
+        ...(cell.behaviorIntensity !== null && { behaviorIntensity: cell.behaviorIntensity }),
+      },
+    });
+    if (!created.ok) {
+      cell.error = created.message;
+      console.warn(
+        `[SuiteRunner] Could not create run ${cell.repetition} of ${cell.targetLlmModel} ` +
+        `for suite ${suite.suiteId}: ${created.message}`,
+      );
+      return;
+    }
+
+    cell.testId = created.data.testId;
+    const started = await TestRunner.startTest(cell.testId);
+    if (!started.ok) {
+      cell.error = started.message;
+      console.warn(
+        `[SuiteRunner] Could not start ${cell.testId} for suite ${suite.suiteId}: ${started.message}`,
+      );
+      return;
+    }
+
+    console.log(
+      `[SuiteRunner] Suite ${suite.suiteId}: ` +
+      `${started.data.status === "queued" ? "queued" : "started"} ${cell.testId} ` +
+      `(${cell.targetLlmModel}, run ${cell.repetition})`,
+    );
+  }
+
+  /** Whether every cell has failed to start or its run has finished. */
+  private static async isSettled(runs: SuiteRun[]): Promise<boolean> {
+    for (const cell of runs) {
+      if (cell.error) continue;
+      if (!cell.testId) return false;
+
+      const run = await testingRepository.findById(cell.testId);
+      // A run deleted from history counts as finished
+      if (run && !isRunFinished(run)) return false;
+    }
+    return true;
+  }
+}
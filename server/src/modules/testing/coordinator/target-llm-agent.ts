@@ -5,30 +5,74 @@
  * registers a Discord voice profile, and runs an autonomous polling
  * loop that:
  *
- *   1. Gathers game state (position, health, inventory, nearby chat)
+ *   1. Gathers game state (position, health, inventory, nearby chat) and
+ *      world perception (entities, notable blocks, line of sight)
  *   2. Builds a context-rich prompt with the scenario objective
+ *      (plus earlier decisions and their results, per `memoryStrategy`)
  *   3. Calls the LLM for a decision
  *   4. Parses the response into Minecraft actions + optional speech
- *   5. Dispatches actions and logs everything
+ *      (free-form JSON or native tool calls, per `llmResponseMode`)
+ *   5. Dispatches actions and logs everything, feeding each action's
+ *      outcome back into the next cycle's prompt
  *
  * The loop runs on a configurable interval (default 7 s) and
- * continues until explicitly stopped.
+ * continues until explicitly stopped. It can be paused (e.g. during the
+ * coordination phase) without tearing down the bot.
+ *
+ * In a replay the LLM is never called: step 3 takes the next response
+ * recorded by the original run instead (see replay.ts), and the agent
+ * idles once the recording runs out. Each recorded cycle starts at the
+ * same time into the execution phase as the original and waits out the
+ * original response time, so the world has moved on by the same amount
+ * when its actions run.
  */
 
 import { MinecraftService } from "../../minecraft/service";
 import { DiscordService } from "../../discord/service";
 import { LlmService } from "../../llm/service";
+import { estimateCost, type CostEstimate } from "../../llm/pricing";
+import { dispatchAction } from "../../minecraft/bot/actions/action-dispatcher";
+import { TARGET_LLM_TOOLS, interpretToolCalls } from "./target-llm-tools";
+import {
+  ConversationMemory,
+  formatOutcomes,
+  type MemorySummarizer,
+} from "./target-llm-memory";
+import {
+  createReplayCursor,
+  type RecordedResponse,
+  type ReplayCursor,
+} from "./replay";
+import {
+  createRandom,
+  deriveSeed,
+  type RandomSource,
+} from "../../agents/orchestrator/random";
 import { testingRepository } from "../repository";
 import { testEvents } from "../events/event-emitter";
 import { botManager } from "../../minecraft/bot/bot-manager";
 import { DISCORD_GUILD_ID } from "../../../../constants/discord.constants";
 import {
   DEFAULT_LLM_POLLING_INTERVAL_MS,
+  REPLAY_TICK_MS,
   TARGET_BOT_USERNAME_PREFIX,
 } from "../../../../constants/testing.constants";
-import type { TestRun, TestRunConfig, ServiceResult } from "../types";
-import type { BotState } from "../../minecraft/types";
-import type { ChatBody } from "../../llm/model";
+import type {
+  TestRun,
+  TestRunConfig,
+  LlmResponseMode,
+  ServiceResult,
+  TargetActionOutcome,
+} from "../types";
+import type {
+  BotAction,
+  BotPerception,
+  BotState,
+  PerceivedBlock,
+  PerceivedEntity,
+} from "../../minecraft/types";
+import type { ChatBody, ChatResponse } from "../../llm/model";
+import type { LlmToolCall } from "../../llm/types";
 import { Vec3 } from "vec3";
 
 // ---------------------------------------------------------------------------
@@ -55,6 +99,8 @@ export interface TargetLlmAgentConfig {
   runConfig: TestRunConfig;
   /** If set, bot is teleported here after spawn. */
   spawnTeleport?: SpawnTeleportOption;
+  /** Recorded responses to replay instead of calling the LLM. */
+  replay?: RecordedResponse[];
 }
 
 /** Represents the running state of a target LLM agent. */
@@ -63,6 +109,14 @@ export interface TargetLlmAgentHandle {
   botId: string;
   /** Stop the polling loop and clean up internal timers. */
   stop: () => void;
+  /** Skip decision cycles until `resume()` is called. */
+  pause: () => void;
+  /** Resume decision cycles after a `pause()`. */
+  resume: () => void;
+  /** Whether the polling loop is currently paused. */
+  isPaused: () => boolean;
+  /** Replace the objective used from the next decision cycle on. */
+  setObjective: (objectivePrompt: string) => void;
 }
 
 /** Structured response the LLM is asked to produce. */
@@ -83,6 +137,13 @@ interface LlmActionEntry {
   [key: string]: unknown;
 }
 
+/** Result of parsing a JSON-mode response. */
+interface ParsedLlmResponse {
+  decision: LlmDecision;
+  /** Why no valid JSON decision could be read (null on success). */
+  parseError: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // Chat history buffer
 // ---------------------------------------------------------------------------
@@ -117,7 +178,8 @@ function generateAgentId(): string {
 export async function startTargetLlmAgent(
   config: TargetLlmAgentConfig,
 ): Promise<ServiceResult<TargetLlmAgentHandle>> {
-  const { testId, model, objectivePrompt, runConfig, spawnTeleport } = config;
+  const { testId, model, runConfig, spawnTeleport } = config;
+  let { objectivePrompt } = config;
   const agentId = generateAgentId();
 
   // 1. Create Minecraft bot
@@ -171,15 +233,67 @@ export async function startTargetLlmAgent(
     });
   }
 
-  // 4. Start polling loop
+  // 4. Conversation memory (only for the "memory" strategy). A replay
+  // skips it: recorded responses do not depend on the prompt, and
+  // summarising would call the LLM.
+  const replay = config.replay ? createReplayCursor(config.replay) : null;
+  const memory =
+    runConfig.memoryStrategy === "memory" && !replay
+      ? new ConversationMemory(
+          runConfig.memoryTokenBudget,
+          createMemorySummarizer(testId, model),
+        )
+      : null;
+
+  // 5. Start polling loop
   let stopped = false;
+  let paused = false;
   const intervalMs = runConfig.llmPollingIntervalMs ?? DEFAULT_LLM_POLLING_INTERVAL_MS;
 
+  // Unpaused time since the loop started, which every decision is
+  // logged with so a replay can start it at the same point
+  let activeMsBeforePause = 0;
+  let activeSince: number | null = Date.now();
+  const executionMs = () =>
+    activeMsBeforePause + (activeSince === null ? 0 : Date.now() - activeSince);
+
+  // Seeded, so a replay's fallback explores the same way as the original
+  const fallbackRandom = createRandom(deriveSeed(runConfig.randomSeed, "target-fallback"));
+
+  // A replay with recorded offsets ticks faster so each cycle starts
+  // close to its offset; older recordings keep the polling interval
+  const tickMs = replay?.peek()?.executionOffsetMs != null ? REPLAY_TICK_MS : intervalMs;
+
+  let lastResults: TargetActionOutcome[] | null = null;
+  let replayExhausted = false;
+  // A cycle (LLM call, actions, summarisation) can outlast the interval;
+  // ticks are skipped until it finishes so cycles never overlap
+  let cycleInFlight = false;
+
   const pollTimer = setInterval(async () => {
-    if (stopped) return;
+    if (stopped || paused || cycleInFlight) return;
+
+    if (replay && replay.remaining() === 0) {
+      if (!replayExhausted) {
+        replayExhausted = true;
+        console.log(`[TargetLlmAgent] Replay for ${testId} has no recorded decisions left`);
+        testEvents.emitEvent("test-error", {
+          testId,
+          errorMessage: "Replay reached the end of the recorded decisions",
+          errorCode: "REPLAY_EXHAUSTED",
+          fatal: false,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      return;
+    }
 
+    const dueAtMs = replay?.peek()?.executionOffsetMs;
+    if (dueAtMs != null && executionMs() < dueAtMs) return;
+
+    cycleInFlight = true;
     try {
-      await runDecisionCycle(
+      const results = await runDecisionCycle(
         testId,
         agentId,
         botId,
@@ -187,7 +301,13 @@ export async function startTargetLlmAgent(
         objectivePrompt,
         runConfig,
         chatHistory,
+        memory,
+        lastResults,
+        replay,
+        executionMs(),
+        fallbackRandom,
       );
+      lastResults = results ?? lastResults;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Unknown polling error";
       console.error(`[TargetLlmAgent] Decision cycle error for ${testId}:`, errorMsg);
@@ -199,12 +319,16 @@ export async function startTargetLlmAgent(
         fatal: false,
         timestamp: new Date().toISOString(),
       });
+    } finally {
+      cycleInFlight = false;
     }
-  }, intervalMs);
+  }, tickMs);
 
   console.log(
     `[TargetLlmAgent] Started agent ${agentId} for test ${testId} ` +
-    `(bot: ${botId}, model: ${model}, interval: ${intervalMs}ms)`,
+    `(bot: ${botId}, model: ${model}, interval: ${intervalMs}ms, ` +
+    `memory: ${runConfig.memoryStrategy}` +
+    (replay ? `, replaying ${replay.remaining()} decisions)` : ")"),
   );
 
   const handle: TargetLlmAgentHandle = {
@@ -215,6 +339,24 @@ export async function startTargetLlmAgent(
       clearInterval(pollTimer);
       console.log(`[TargetLlmAgent] Stopped agent ${agentId}`);
     },
+    pause: () => {
+      if (stopped || paused) return;
+      paused = true;
+      if (activeSince !== null) activeMsBeforePause += Date.now() - activeSince;
+      activeSince = null;
+      console.log(`[TargetLlmAgent] Paused agent ${agentId}`);
+    },
+    resume: () => {
+      if (stopped || !paused) return;
+      paused = false;
+      activeSince = Date.now();
+      console.log(`[TargetLlmAgent] Resumed agent ${agentId}`);
+    },
+    isPaused: () => paused,
+    setObjective: (prompt: string) => {
+      objectivePrompt = prompt;
+      console.log(`[TargetLlmAgent] Objective changed for agent ${agentId}`);
+    },
   };
 
   return { ok: true, data: handle };
@@ -227,6 +369,9 @@ export async function startTargetLlmAgent(
 /**
  * A single LLM decision cycle:
  *   gather state -> build prompt -> call LLM -> parse -> execute
+ *
+ * Returns the outcome of every dispatched action (fed into the next
+ * cycle's prompt), or null if the cycle ended before dispatching.
  */
 async function runDecisionCycle(
   testId: string,
@@ -236,7 +381,12 @@ async function runDecisionCycle(
   objectivePrompt: string,
   runConfig: TestRunConfig,
   chatHistory: ChatMessage[],
-): Promise<void> {
+  memory: ConversationMemory | null,
+  lastResults: TargetActionOutcome[] | null,
+  replay: ReplayCursor | null,
+  executionOffsetMs: number,
+  random: RandomSource,
+): Promise<TargetActionOutcome[] | null> {
   const cycleStart = Date.now();
 
   // 1. Gather current game state
@@ -244,26 +394,52 @@ async function runDecisionCycle(
   if (!stateResult.ok) {
     console.warn(`[TargetLlmAgent] Cannot get bot state: ${stateResult.message}`);
     await incrementMetric(testId, "llmErrorCount");
-    return;
+    return null;
   }
 
   const botState = stateResult.data;
+  const perception = gatherPerception(botId, runConfig);
 
   // 2. Build the prompt
-  const systemPrompt = buildSystemPrompt(objectivePrompt);
-  const userPrompt = buildUserPrompt(botState, chatHistory);
+  const responseMode = runConfig.llmResponseMode;
+  const systemPrompt = buildSystemPrompt(objectivePrompt, responseMode);
+  const userPrompt = buildUserPrompt(
+    botState,
+    perception,
+    chatHistory,
+    lastResults,
+    responseMode,
+  );
 
   // 3. Call the LLM
   const chatBody: ChatBody = {
     model,
     system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }],
+    messages: memory
+      ? memory.buildMessages(userPrompt)
+      : [{ role: "user", content: userPrompt }],
     temperature: 0.7,
     maxTokens: 1024,
   };
 
-  const llmResult = await LlmService.chat(chatBody);
-  const responseTimeMs = Date.now() - cycleStart;
+  let llmResult: Awaited<ReturnType<typeof LlmService.chat>>;
+  let toolCalls: LlmToolCall[] = [];
+  const recorded = replay ? replay.next() : null;
+  if (replay && !recorded) return null;
+
+  if (recorded) {
+    // Replays reuse the original response and wait as long as it took
+    await sleep(recorded.responseTimeMs);
+    llmResult = { ok: true, data: { text: recorded.text, model } };
+    toolCalls = recorded.toolCalls;
+  } else if (responseMode === "tools") {
+    const toolResult = await LlmService.chatWithTools(chatBody, TARGET_LLM_TOOLS);
+    if (toolResult.ok) toolCalls = toolResult.data.toolCalls;
+    llmResult = toolResult;
+  } else {
+    llmResult = await LlmService.chat(chatBody);
+  }
+  const responseTimeMs = recorded?.responseTimeMs ?? Date.now() - cycleStart;
 
   if (!llmResult.ok) {
     console.warn(`[TargetLlmAgent] LLM call failed: ${llmResult.message}`);
@@ -276,10 +452,12 @@ async function runDecisionCycle(
       fatal: false,
       timestamp: new Date().toISOString(),
     });
-    return;
+    return null;
   }
 
   const responseText = llmResult.data.text;
+  const usage = llmResult.data.usage;
+  const cost = estimateCost(model, usage);
 
   // Log first 200 chars of response for debugging
   console.log(
@@ -287,14 +465,40 @@ async function runDecisionCycle(
   );
 
   // 4. Parse the LLM response
-  let decision = parseLlmResponse(responseText);
+  let decision: LlmDecision;
+  let toolActions: BotAction[] = [];
+  let parseError: string | null;
+
+  if (responseMode === "tools") {
+    const toolDecision = interpretToolCalls(toolCalls, botId);
+    toolActions = toolDecision.actions;
+    decision = {
+      reasoning: responseText.trim() || "No reasoning provided",
+      actions: [],
+      chat: toolDecision.chat,
+      speak: toolDecision.speak,
+    };
+    parseError =
+      toolDecision.errors.length > 0
+        ? toolDecision.errors.join("; ")
+        : toolCalls.length === 0
+          ? "Response contained no tool calls"
+          : null;
+  } else {
+    ({ decision, parseError } = parseLlmResponse(responseText));
+  }
+
+  if (parseError) {
+    console.warn(`[TargetLlmAgent] Unparsable ${responseMode} response: ${parseError}`);
+    await incrementMetric(testId, "llmParseFailureCount");
+  }
 
-  // 4b. Fallback behavior if parsing fails — explore instead of standing still
-  if (decision.actions.length === 0 && !decision.chat) {
+  // 4b. Fallback behavior if JSON parsing fails — explore instead of standing still
+  if (responseMode === "json" && decision.actions.length === 0 && !decision.chat) {
     const botInstance = botManager.getBot(botId);
     if (botInstance?.mineflayerBot) {
       const pos = botInstance.mineflayerBot.entity.position;
-      const yaw = Math.random() * Math.PI * 2;
+      const yaw = random() * Math.PI * 2;
       const exploreX = Math.round(pos.x + Math.sin(yaw) * 8);
       const exploreZ = Math.round(pos.z + Math.cos(yaw) * 8);
       decision = {
@@ -318,61 +522,124 @@ async function runDecisionCycle(
   }
 
   // 5. Update metrics
-  await updateMetricsAfterDecision(testId, responseTimeMs);
+  await updateMetricsAfterDecision(testId, responseTimeMs, usage, cost);
 
-  // 6. Emit decision event
-  testEvents.emitEvent("target-llm-decision", {
-    testId,
-    responseText,
-    parsedActions: decision.actions.map((a) => a.type),
-    responseTimeMs,
-    timestamp: new Date().toISOString(),
-  });
+  // 6. Execute actions
+  const outcomes =
+    responseMode === "tools"
+      ? await executeToolActions(testId, agentId, toolActions)
+      : await executeActions(testId, agentId, botId, decision, botState);
 
-  // 7. Execute actions
-  await executeActions(testId, agentId, botId, decision, botState);
-
-  // 8. Handle chat output
+  // 7. Handle chat output
   if (decision.chat) {
     await executeChatAction(testId, agentId, botId, decision.chat);
   }
 
-  // 9. Handle voice output
+  // 8. Handle voice output
   if (decision.speak && runConfig.enableVoice && DISCORD_GUILD_ID) {
     await executeVoiceAction(testId, agentId, decision.speak);
   }
 
-  // 10. Log the decision
+  // 9. Emit decision event (with the outcome of each action)
+  testEvents.emitEvent("target-llm-decision", {
+    testId,
+    responseText,
+    parsedActions:
+      responseMode === "tools"
+        ? toolActions.map((a) => a.type)
+        : decision.actions.map((a) => a.type),
+    actionResults: outcomes,
+    responseMode,
+    parseError,
+    responseTimeMs,
+    timestamp: new Date().toISOString(),
+  });
+
+  // 10. Remember the cycle for the next prompt
+  const memorySummarized = memory
+    ? await memory.record({
+        prompt: userPrompt,
+        decision: describeDecision(decision, toolActions, responseMode),
+        outcomes,
+      })
+    : false;
+
+  // 11. Log the decision
   await testingRepository.createActionLog({
     logId: `log-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
     testId,
     sourceAgentId: agentId,
     sourceType: "target",
     actionCategory: "llm-decision",
-    actionDetail: `Decision: ${decision.actions.length} actions, ` +
+    actionDetail: `Decision: ${decision.actions.length + toolActions.length} actions, ` +
       `chat: ${decision.chat ? "yes" : "no"}, ` +
       `speak: ${decision.speak ? "yes" : "no"}`,
     timestamp: new Date().toISOString(),
     metadata: {
       reasoning: decision.reasoning,
       responseTimeMs,
+      executionOffsetMs,
       model,
+      responseMode,
+      parseError,
+      perceptionVerbosity: runConfig.perceptionVerbosity,
+      memoryStrategy: runConfig.memoryStrategy,
+      memoryTurns: memory?.turnCount ?? 0,
+      memorySummarized,
+      actionResults: outcomes,
+      // Raw response, so the run can be replayed
+      responseText,
+      toolCalls,
+      inputTokens: usage?.inputTokens ?? null,
+      outputTokens: usage?.outputTokens ?? null,
+      totalTokens: usage?.totalTokens ?? null,
+      costUsd: cost.priced ? cost.costUsd : null,
     },
   });
+
+  return outcomes;
 }
 
 // ---------------------------------------------------------------------------
 // Prompt construction
 // ---------------------------------------------------------------------------
 
-function buildSystemPrompt(objectivePrompt: string): string {
-  return [
+function buildSystemPrompt(
+  objectivePrompt: string,
+  responseMode: LlmResponseMode,
+): string {
+  const header = [
     "You are an AI agent controlling a Minecraft bot.",
     "You must make decisions about what actions to take in the game.",
     "",
     "## Objective",
     objectivePrompt,
     "",
+  ];
+
+  const guidelines = [
+    "## Guidelines",
+    "- Keep actions practical; 1-3 actions per cycle is ideal.",
+    "- Use chat to coordinate with other players.",
+    "- Adapt if players are uncooperative; try different strategies.",
+    "- Be patient and persistent toward the objective.",
+    "- If you have nothing useful to do, explore nearby or gather resources.",
+  ];
+
+  if (responseMode === "tools") {
+    return [
+      ...header,
+      "## Acting",
+      "Act only by calling the provided tools. Call 1-3 tools per turn;",
+      "use send-chat to talk to other players and speak for Discord voice.",
+      "You may add a short plain-text note explaining your reasoning.",
+      "",
+      ...guidelines,
+    ].join("\n");
+  }
+
+  return [
+    ...header,
     "## Response Format",
     "You MUST respond with valid JSON only. No markdown, no explanation outside the JSON.",
     "Use this exact structure:",
@@ -382,7 +649,7 @@ function buildSystemPrompt(objectivePrompt: string): string {
     '  "reasoning": "Brief explanation of your decision",',
     '  "actions": [',
     '    { "type": "move-to", "x": 10, "y": 64, "z": 20 },',
-    '    { "type": "send-chat", "message": "Hello!" }',
+    '    { "type": "open-container", "x": 12, "y": 64, "z": 20 }',
     "  ],",
     '  "chat": "Message to say in Minecraft chat (or null)",',
     '  "speak": "Message to say in Discord voice (or null)"',
@@ -390,28 +657,26 @@ function buildSystemPrompt(objectivePrompt: string): string {
     "```",
     "",
     "## Available Actions",
+    'Talk through the "chat" and "speak" fields, not through actions.',
     '- move-to: { "type": "move-to", "x": number, "y": number, "z": number } — walk to coordinates',
     '- open-container: { "type": "open-container", "x": number, "y": number, "z": number } — open chest at position to get materials',
     '- jump: { "type": "jump" }',
     '- dig: { "type": "dig", "x": number, "y": number, "z": number }',
     '- place-block: { "type": "place-block", "x": number, "y": number, "z": number } — place held block',
-    '- send-chat: { "type": "send-chat", "message": "text" }',
     '- look-at: { "type": "look-at", "x": number, "y": number, "z": number }',
     '- equip: { "type": "equip", "itemName": "item_name" }',
     '- attack: { "type": "attack", "target": "entity_name_or_id" }',
     "",
-    "## Guidelines",
-    "- Keep actions practical; 1-3 actions per cycle is ideal.",
-    "- Use chat to coordinate with other players.",
-    "- Adapt if players are uncooperative; try different strategies.",
-    "- Be patient and persistent toward the objective.",
-    "- If you have nothing useful to do, explore nearby or gather resources.",
+    ...guidelines,
   ].join("\n");
 }
 
 function buildUserPrompt(
   botState: BotState,
+  perception: BotPerception | null,
   chatHistory: ChatMessage[],
+  lastResults: TargetActionOutcome[] | null,
+  responseMode: LlmResponseMode,
 ): string {
   const sections: string[] = [];
 
@@ -438,12 +703,17 @@ function buildUserPrompt(
     }
   }
 
-  // Nearby players (from chat history senders)
-  const recentSenders = new Set(chatHistory.slice(-10).map((m) => m.sender));
-  if (recentSenders.size > 0) {
+  if (perception) {
     sections.push("");
-    sections.push("## Nearby Players");
-    sections.push(Array.from(recentSenders).join(", "));
+    sections.push(...formatPerception(perception));
+  } else {
+    // Nearby players (from chat history senders)
+    const recentSenders = new Set(chatHistory.slice(-10).map((m) => m.sender));
+    if (recentSenders.size > 0) {
+      sections.push("");
+      sections.push("## Nearby Players");
+      sections.push(Array.from(recentSenders).join(", "));
+    }
   }
 
   // Recent chat
@@ -460,21 +730,103 @@ function buildUserPrompt(
   sections.push("No messages yet.");
   }
 
+  // Outcome of the previous cycle's actions
+  if (lastResults) {
+    sections.push("");
+    sections.push("## Last cycle results");
+    sections.push(formatOutcomes(lastResults));
+  }
+
   sections.push("");
-  sections.push("What should you do next? Respond with JSON only. Prioritize actions (move-to, open-container, place-block) over chat.");
+  sections.push(
+    responseMode === "tools"
+      ? "What should you do next? Call the tools for your next actions. Prioritize actions (move-to, open-container, place-block) over chat."
+      : "What should you do next? Respond with JSON only. Prioritize actions (move-to, open-container, place-block) over chat.",
+  );
 
   return sections.join("\n");
 }
 
+// ---------------------------------------------------------------------------
+// Perception
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the bot's surroundings at the run's perception verbosity.
+ * Returns null for "none" or if perception is unavailable, in which case
+ * the prompt falls back to players inferred from chat.
+ */
+function gatherPerception(
+  botId: string,
+  runConfig: TestRunConfig,
+): BotPerception | null {
+  if (runConfig.perceptionVerbosity === "none") return null;
+
+  const result = MinecraftService.getBotPerception(botId, runConfig.perceptionVerbosity);
+  if (!result.ok) {
+    console.warn(`[TargetLlmAgent] Perception unavailable: ${result.message}`);
+    return null;
+  }
+  return result.data;
+}
+
+function formatPerception(perception: BotPerception): string[] {
+  const lines = ["## Surroundings"];
+  lines.push(`Standing on: ${perception.blockUnder ?? "unknown"}`);
+  if (perception.lookingAt) {
+    lines.push(`Looking at: ${formatPerceived(perception.lookingAt, false)}`);
+  }
+
+  const playersOnly = perception.verbosity === "minimal";
+  const showSight = !playersOnly;
+  lines.push("");
+  lines.push(playersOnly ? "## Nearby Players" : "## Nearby Entities");
+  if (perception.entities.length === 0) {
+    lines.push("None");
+  } else {
+    for (const entity of perception.entities) {
+      lines.push(`- ${formatPerceived(entity, showSight)}`);
+    }
+  }
+
+  if (!playersOnly) {
+    lines.push("");
+    lines.push("## Notable Blocks");
+    if (perception.blocks.length === 0) {
+      lines.push("None nearby");
+    } else {
+      for (const block of perception.blocks) {
+        lines.push(`- ${formatPerceived(block, showSight)}`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/** One perception line; line of sight is only reported if it was computed. */
+function formatPerceived(
+  item: PerceivedEntity | PerceivedBlock,
+  showSight: boolean,
+): string {
+  const kind = "type" in item ? ` (${item.type})` : "";
+  const sight = showSight && !item.inLineOfSight ? ", not in line of sight" : "";
+  return (
+    `${item.name}${kind} at (${item.position.x}, ${item.position.y}, ${item.position.z}), ` +
+    `${item.distance} blocks away${sight}`
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Response parsing
 // ---------------------------------------------------------------------------
 
 /**
  * Parse the LLM response text into a structured decision.
- * Handles malformed responses gracefully by falling back to defaults.
+ * Handles malformed responses gracefully by falling back to defaults;
+ * `parseError` records why no JSON decision could be read.
  */
-function parseLlmResponse(responseText: string): LlmDecision {
+function parseLlmResponse(responseText: string): ParsedLlmResponse {
   const defaultDecision: LlmDecision = {
     reasoning: "Failed to parse LLM response",
     actions: [],
@@ -498,17 +850,20 @@ function parseLlmResponse(responseText: string): LlmDecision {
     const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       // Last resort: try to extract intent from plain text
+      const parseError = "No JSON object found in response";
       const chatFromText = extractChatFromText(cleaned);
       if (chatFromText) {
         return {
-          reasoning: "Extracted chat from non-JSON response",
-          actions: [],
-          chat: chatFromText,
-          speak: null,
+          decision: {
+            reasoning: "Extracted chat from non-JSON response",
+            actions: [],
+            chat: chatFromText,
+            speak: null,
+          },
+          parseError,
         };
       }
-      console.warn("[TargetLlmAgent] No JSON object found in LLM response");
-      return defaultDecision;
+      return { decision: defaultDecision, parseError };
     }
 
     const parsed = JSON.parse(jsonMatch[0]);
@@ -528,13 +883,12 @@ function parseLlmResponse(responseText: string): LlmDecision {
       speak: typeof parsed.speak === "string" ? parsed.speak : null,
     };
 
-    return decision;
+    return { decision, parseError: null };
   } catch (err) {
-    console.warn(
-      "[TargetLlmAgent] JSON parse failed:",
-      err instanceof Error ? err.message : err,
-    );
-    return defaultDecision;
+    return {
+      decision: defaultDecision,
+      parseError: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    };
   }
 }
 
@@ -551,6 +905,80 @@ function extractChatFromText(text: string): string | null {
   return null;
 }
 
+// ---------------------------------------------------------------------------
+// Conversation memory
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a decision as the assistant turn stored in memory. JSON mode
+ * replays the decision in the requested JSON format; tool mode lists the
+ * tools that were called.
+ */
+function describeDecision(
+  decision: LlmDecision,
+  toolActions: BotAction[],
+  responseMode: LlmResponseMode,
+): string {
+  if (responseMode === "json") {
+    return JSON.stringify(decision);
+  }
+
+  const lines = [decision.reasoning];
+  for (const action of toolActions) {
+    const { type, botId: _botId, ...args } = action;
+    lines.push(`Called ${type} ${JSON.stringify(args)}`);
+  }
+  if (decision.chat) lines.push(`Said in chat: ${decision.chat}`);
+  if (decision.speak) lines.push(`Said in voice: ${decision.speak}`);
+  return lines.join("\n");
+}
+
+/**
+ * Summarise folded memory turns with the run's own model. The tokens
+ * spent are added to the run's usage and cost totals.
+ */
+function createMemorySummarizer(testId: string, model: string): MemorySummarizer {
+  return async (previousSummary, transcript) => {
+    const result = await LlmService.chat({
+      model,
+      system:
+        "You maintain the memory of a Minecraft agent. Summarise its earlier " +
+        "decisions and their results in under 150 words. Keep what was " +
+        "attempted, what failed and why, and any commitments made to other " +
+        "players. Reply with the summary only.",
+      messages: [
+        {
+          role: "user",
+          content: previousSummary
+            ? `Existing summary:\n${previousSummary}\n\nNew cycles:\n${transcript}`
+            : transcript,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 300,
+    });
+
+    if (!result.ok) {
+      console.warn(`[TargetLlmAgent] Memory summarisation failed: ${result.message}`);
+      return null;
+    }
+
+    const { usage } = result.data;
+    const cost = estimateCost(model, usage);
+    try {
+      await testingRepository.incrementMetric(testId, "totalInputTokens", usage?.inputTokens ?? 0);
+      await testingRepository.incrementMetric(testId, "totalOutputTokens", usage?.outputTokens ?? 0);
+      await testingRepository.incrementMetric(testId, "totalTokens", usage?.totalTokens ?? 0);
+      await testingRepository.incrementMetric(testId, "totalCostUsd", cost.costUsd);
+      if (!cost.priced) await testingRepository.incrementMetric(testId, "unpricedCallCount", 1);
+    } catch {
+      // Non-critical
+    }
+
+    return result.data.text;
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Action execution
 // ---------------------------------------------------------------------------
@@ -558,7 +986,7 @@ function extractChatFromText(text: string): string | null {
 /**
  * Execute parsed Minecraft actions via the bot manager.
  * Each action is dispatched individually; failures are logged but don't
- * stop the remaining actions.
+ * stop the remaining actions. Returns the outcome of every action.
  */
 async function executeActions(
   testId: string,
@@ -566,11 +994,12 @@ async function executeActions(
   botId: string,
   decision: LlmDecision,
   botState: BotState,
-): Promise<void> {
+): Promise<TargetActionOutcome[]> {
+  const outcomes: TargetActionOutcome[] = [];
   const botInstance = botManager.getBot(botId);
   if (!botInstance || !botInstance.mineflayerBot) {
     console.warn(`[TargetLlmAgent] Bot ${botId} not available for actions`);
-    return;
+    return outcomes;
   }
 
   const bot = botInstance.mineflayerBot;
@@ -608,7 +1037,8 @@ async function executeActions(
               } catch (err) {
                 // Pathfinding failed but at least look at the target
                 await bot.lookAt(new Vec3(x, y + 1, z), true);
-                detail = `move-to (${x}, ${y}, ${z}) - pathfinding failed, looking instead`;
+                const reason = err instanceof Error ? err.message : String(err);
+                detail = `move-to (${x}, ${y}, ${z}) - pathfinding failed (${reason}), looking instead`;
                 success = false;
               }
             } else {
@@ -661,6 +1091,8 @@ async function executeActions(
               container.close();
               detail = `open-container at (${cx}, ${cy}, ${cz}) - took materials`;
               success = true;
+            } else {
+              detail = `open-container at (${cx}, ${cy}, ${cz}) - no chest there (found ${block?.name ?? "nothing"})`;
             }
           }
           break;
@@ -676,6 +1108,8 @@ async function executeActions(
               await bot.dig(block);
               detail = `dig ${block.name} at (${dx}, ${dy}, ${dz})`;
               success = true;
+            } else {
+              detail = `dig at (${dx}, ${dy}, ${dz}) - no block there`;
             }
           }
           break;
@@ -687,10 +1121,14 @@ async function executeActions(
           const pz = Number(action.z);
           if (!isNaN(px) && !isNaN(py) && !isNaN(pz)) {
             const refBlock = bot.blockAt(new Vec3(px, py - 1, pz));
-            if (refBlock) {
+            if (!bot.heldItem) {
+              detail = `place-block at (${px}, ${py}, ${pz}) - nothing in hand, equip a block first`;
+            } else if (refBlock) {
               await bot.placeBlock(refBlock, new Vec3(0, 1, 0));
               detail = `place-block at (${px}, ${py}, ${pz})`;
               success = true;
+            } else {
+              detail = `place-block at (${px}, ${py}, ${pz}) - no block below to place against`;
             }
           }
           break;
@@ -704,13 +1142,16 @@ async function executeActions(
               await bot.equip(item, "hand");
               detail = `equip ${itemName}`;
               success = true;
+            } else {
+              detail = `equip ${itemName} - not in inventory`;
             }
           }
           break;
         }
 
         case "send-chat": {
-          // Handled separately via executeChatAction
+          // Not offered in JSON mode; chat goes through the "chat" field
+          detail = "send-chat - not sent, use the \"chat\" field to talk";
           break;
         }
 
@@ -726,6 +1167,8 @@ async function executeActions(
               await bot.attack(entity);
               detail = `attack ${target}`;
               success = true;
+            } else {
+              detail = `attack ${target} - target not found nearby`;
             }
           }
           break;
@@ -733,15 +1176,27 @@ async function executeActions(
 
         default: {
           console.warn(`[TargetLlmAgent] Unknown action type: ${action.type}`);
+          detail = `${action.type} - unknown action type`;
         }
       }
+
+      if (!success && detail === action.type) {
+        detail = `${action.type} - missing or invalid arguments`;
+      }
     } catch (err) {
-      console.warn(
-        `[TargetLlmAgent] Action ${action.type} failed:`,
-        err instanceof Error ? err.message : err,
-      );
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      detail = `${action.type} failed: ${errorMsg}`;
+      console.warn(`[TargetLlmAgent] Action ${action.type} failed:`, errorMsg);
     }
 
+    const durationMs = Date.now() - actionStart;
+    outcomes.push({
+      actionType: action.type,
+      status: success ? "success" : "failure",
+      message: detail,
+      durationMs,
+    });
+
     // Emit action event
     testEvents.emitEvent("agent-action", {
       testId,
@@ -764,7 +1219,7 @@ async function executeActions(
       timestamp: new Date().toISOString(),
       metadata: {
         success,
-        durationMs: Date.now() - actionStart,
+        durationMs,
         rawAction: action,
       },
     });
@@ -773,6 +1228,65 @@ async function executeActions(
       await incrementMetric(testId, "targetActionCount");
     }
   }
+
+  return outcomes;
+}
+
+/**
+ * Execute validated tool-mode actions through the Minecraft action registry.
+ * Like `executeActions`, failures are logged but don't stop the remaining
+ * actions. Returns the outcome of every action.
+ */
+async function executeToolActions(
+  testId: string,
+  agentId: string,
+  actions: BotAction[],
+): Promise<TargetActionOutcome[]> {
+  const outcomes: TargetActionOutcome[] = [];
+
+  for (const action of actions) {
+    const result = await dispatchAction(action);
+    const success = result.status === "success";
+    const detail = `${action.type} - ${result.message}`;
+
+    outcomes.push({
+      actionType: action.type,
+      status: result.status,
+      message: result.message,
+      durationMs: result.durationMs,
+    });
+
+    testEvents.emitEvent("agent-action", {
+      testId,
+      agentId,
+      sourceType: "target",
+      actionType: action.type,
+      actionDetail: detail,
+      success,
+      timestamp: result.completedAt,
+    });
+
+    await testingRepository.createActionLog({
+      logId: `log-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      testId,
+      sourceAgentId: agentId,
+      sourceType: "target",
+      actionCategory: "minecraft",
+      actionDetail: detail,
+      timestamp: result.completedAt,
+      metadata: {
+        success,
+        durationMs: result.durationMs,
+        rawAction: action,
+      },
+    });
+
+    if (success) {
+      await incrementMetric(testId, "targetActionCount");
+    }
+  }
+
+  return outcomes;
 }
 
 /**
@@ -866,6 +1380,7 @@ async function incrementMetric(
     | "targetMessageCount"
     | "testingAgentMessageCount"
     | "llmErrorCount"
+    | "llmParseFailureCount"
   >,
 ): Promise<void> {
   try {
@@ -878,15 +1393,23 @@ async function incrementMetric(
 /**
  * Update metrics after a successful LLM decision cycle.
  * Uses atomic increments and targeted timestamp update to avoid race conditions.
+ * Token usage and estimated cost are added to the run's running totals.
  */
 async function updateMetricsAfterDecision(
   testId: string,
   responseTimeMs: number,
+  usage: ChatResponse["usage"],
+  cost: CostEstimate,
 ): Promise<void> {
   try {
     // Atomic increments
     await testingRepository.incrementMetric(testId, "llmDecisionCount", 1);
     await testingRepository.incrementMetric(testId, "totalLlmResponseTimeMs", responseTimeMs);
+    await testingRepository.incrementMetric(testId, "totalInputTokens", usage?.inputTokens ?? 0);
+    await testingRepository.incrementMetric(testId, "totalOutputTokens", usage?.outputTokens ?? 0);
+    await testingRepository.incrementMetric(testId, "totalTokens", usage?.totalTokens ?? 0);
+    await testingRepository.incrementMetric(testId, "totalCostUsd", cost.costUsd);
+    if (!cost.priced) await testingRepository.incrementMetric(testId, "unpricedCallCount", 1);
 
     // Update timestamp with targeted write (no read-modify-write race)
     const now = new Date().toISOString();
@@ -905,3 +1428,11 @@ async function updateMetricsAfterDecision(
     // Non-critical
   }
 }
+
+// ---------------------------------------------------------------------------
+// Utility
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,196 @@
+/**
+ * Target LLM Conversation Memory
+ *
+ * Multi-turn context for the target LLM agent when the run's
+ * `memoryStrategy` is "memory". Each decision cycle is recorded as a
+ * turn (the prompt it saw, what it decided, and how its actions went),
+ * and replayed as user/assistant messages on the next cycle. Each prompt
+ * already carries the previous cycle's results, so replaying the prompts
+ * replays the results too.
+ *
+ * The window is bounded two ways:
+ * - At most MAX_MEMORY_TURNS turns are kept verbatim
+ * - Once the estimated token count exceeds the configured budget, the
+ *   oldest turns are folded into a running summary
+ *
+ * Summarisation is delegated to an injected function (normally an LLM
+ * call); if it fails, a plain-text digest of the folded turns is used.
+ * Records are applied one at a time: a record made while an earlier one
+ * is still summarising waits for it, so each summary builds on the last.
+ */
+
+import type { ChatBody } from "../../llm/model";
+import type { TargetActionOutcome } from "../types";
+import { MAX_MEMORY_TURNS } from "../../../../constants/testing.constants";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One recorded decision cycle. */
+export interface MemoryTurn {
+  /** The user prompt the agent was given. */
+  prompt: string;
+  /** The agent's decision, rendered as text. */
+  decision: string;
+  /** Outcome of each action dispatched for the decision. */
+  outcomes: TargetActionOutcome[];
+}
+
+/** Summarises older turns; returns null if summarisation failed. */
+export type MemorySummarizer = (
+  previousSummary: string | null,
+  transcript: string,
+) => Promise<string | null>;
+
+type ChatMessage = ChatBody["messages"][number];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Rough token estimate (~4 characters per token). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Render action outcomes as prompt lines. */
+export function formatOutcomes(outcomes: TargetActionOutcome[]): string {
+  if (outcomes.length === 0) return "No actions were executed.";
+  return outcomes
+    .map((o) => `- ${o.actionType}: ${o.status} (${o.durationMs}ms) — ${o.message}`)
+    .join("\n");
+}
+
+/** Render a turn as plain text (used for summarisation). */
+function formatTurn(turn: MemoryTurn): string {
+  return [
+    `Decision: ${turn.decision}`,
+    "Results:",
+    formatOutcomes(turn.outcomes),
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Memory
+// ---------------------------------------------------------------------------
+
+export class ConversationMemory {
+  private turns: MemoryTurn[] = [];
+  private summary: string | null = null;
+  /** Settles once the latest record (and its summarisation) is done. */
+  private recording: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly tokenBudget: number,
+    private readonly summarize: MemorySummarizer,
+  ) {}
+
+  /** Number of turns currently kept verbatim. */
+  get turnCount(): number {
+    return this.turns.length;
+  }
+
+  /** Summary of turns that were folded out of the window, if any. */
+  get currentSummary(): string | null {
+    return this.summary;
+  }
+
+  /**
+   * Build the message list for the next LLM call: the summary (if any),
+   * previous turns as user/assistant pairs, then the current prompt.
+   */
+  buildMessages(currentPrompt: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    for (const turn of this.turns) {
+      messages.push({ role: "user", content: turn.prompt });
+      messages.push({ role: "assistant", content: turn.decision });
+    }
+
+    messages.push({ role: "user", content: currentPrompt });
+
+    if (this.summary) {
+      messages[0] = {
+        role: "user",
+        content: `## Summary of earlier cycles\n${this.summary}\n\n${messages[0].content}`,
+      };
+    }
+
+    return messages;
+  }
+
+  /**
+   * Record a completed cycle, then compact the window if it exceeds the
+   * turn limit or token budget. Returns true if older turns were folded
+   * into the summary. Waits for any earlier record still summarising.
+   */
+  record(turn: MemoryTurn): Promise<boolean> {
+    const result = this.recording.then(() => this.apply(turn));
+    this.recording = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Estimated tokens used by the summary and verbatim turns. */
+  estimate(): number {
+    let total = this.summary ? estimateTokens(this.summary) : 0;
+    for (const turn of this.turns) {
+      total += estimateTokens(turn.prompt) + estimateTokens(formatTurn(turn));
+    }
+    return total;
+  }
+
+  private async apply(turn: MemoryTurn): Promise<boolean> {
+    this.turns.push(turn);
+    if (!this.overLimit()) return false;
+
+    // Fold the oldest turns until the window is at half the budget,
+    // always keeping the most recent turn verbatim.
+    const folded: MemoryTurn[] = [];
+    while (
+      this.turns.length > 1 &&
+      (this.turns.length > MAX_MEMORY_TURNS || this.estimate() > this.tokenBudget / 2)
+    ) {
+      folded.push(this.turns.shift()!);
+    }
+    if (folded.length === 0) return false;
+
+    const transcript = folded.map(formatTurn).join("\n\n");
+    let summary: string | null = null;
+    try {
+      summary = await this.summarize(this.summary, transcript);
+    } catch {
+      // Fall through to the plain-text digest
+    }
+
+    this.summary = summary?.trim() || digest(this.summary, folded, this.tokenBudget);
+    return true;
+  }
+
+  private overLimit(): boolean {
+    return this.turns.length > MAX_MEMORY_TURNS || this.estimate() > this.tokenBudget;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Fallback summary when the summariser is unavailable: the decisions of
+ * the folded turns, trimmed so the summary stays within a quarter of the
+ * budget.
+ */
+function digest(
+  previous: string | null,
+  folded: MemoryTurn[],
+  tokenBudget: number,
+): string {
+  const lines = folded.map((turn) => {
+    const failed = turn.outcomes.filter((o) => o.status !== "success").length;
+    return `- ${turn.decision.slice(0, 160)} (${turn.outcomes.length - failed} ok, ${failed} failed)`;
+  });
+  const text = [previous, ...lines].filter(Boolean).join("\n");
+  const maxChars = tokenBudget; // ~ tokenBudget / 4 tokens
+  return text.length > maxChars ? text.slice(text.length - maxChars) : text;
+}
@@ -0,0 +1,215 @@
+/**
+ * Target LLM Tools
+ *
+ * Tool-calling mode for the target LLM agent. The actions advertised in
+ * the JSON-mode system prompt are exposed as typed AI SDK tools instead,
+ * so models are judged on what they do rather than on how well they
+ * format JSON.
+ *
+ * Every tool call is converted into a `BotAction` and validated against
+ * the Minecraft module's `BotActionModel` (TypeBox) before it is
+ * dispatched through the action registry.
+ */
+
+import { jsonSchema, tool, type ToolSet } from "ai";
+import { t, type TSchema } from "elysia";
+import { Value } from "@sinclair/typebox/value";
+import { BotActionModel } from "../../minecraft/model";
+import type { BotAction } from "../../minecraft/types";
+import type { LlmToolCall } from "../../llm/types";
+
+// ---------------------------------------------------------------------------
+// Tool input schemas
+// ---------------------------------------------------------------------------
+
+const Coordinates = t.Object({
+  x: t.Number({ description: "Block X coordinate" }),
+  y: t.Number({ description: "Block Y coordinate" }),
+  z: t.Number({ description: "Block Z coordinate" }),
+});
+
+const Empty = t.Object({});
+
+const Target = t.Object({
+  target: t.String({ description: "Player username or entity name" }),
+});
+
+const Message = t.Object({
+  message: t.String({ minLength: 1, maxLength: 256 }),
+});
+
+/** Wrap a TypeBox schema for the AI SDK (TypeBox schemas are JSON Schema). */
+function schema(s: TSchema) {
+  return jsonSchema(s as Parameters<typeof jsonSchema>[0]);
+}
+
+// ---------------------------------------------------------------------------
+// Tool set
+// ---------------------------------------------------------------------------
+
+/**
+ * Tools exposed to the target LLM. None has an `execute` function —
+ * calls are returned to the agent, validated and dispatched there.
+ */
+export const TARGET_LLM_TOOLS: ToolSet = {
+  "move-to": tool({
+    description: "Walk to the given coordinates.",
+    inputSchema: schema(Coordinates),
+  }),
+  "look-at": tool({
+    description: "Turn to look at the given coordinates.",
+    inputSchema: schema(Coordinates),
+  }),
+  jump: tool({
+    description: "Jump once.",
+    inputSchema: schema(Empty),
+  }),
+  dig: tool({
+    description: "Break the block at the given coordinates.",
+    inputSchema: schema(Coordinates),
+  }),
+  "place-block": tool({
+    description:
+      "Place the held block at the given coordinates (on top of the block below it).",
+    inputSchema: schema(Coordinates),
+  }),
+  "open-container": tool({
+    description: "Open the chest at the given coordinates.",
+    inputSchema: schema(Coordinates),
+  }),
+  equip: tool({
+    description: "Hold an item from your inventory in your hand.",
+    inputSchema: schema(
+      t.Object({ itemName: t.String({ description: "Item name, e.g. oak_planks" }) }),
+    ),
+  }),
+  "use-item": tool({
+    description: "Use (right-click) the held item.",
+    inputSchema: schema(Empty),
+  }),
+  attack: tool({
+    description: "Attack a player or entity.",
+    inputSchema: schema(Target),
+  }),
+  "interact-entity": tool({
+    description: "Interact (right-click) with a player or entity.",
+    inputSchema: schema(Target),
+  }),
+  "send-chat": tool({
+    description: "Say something in Minecraft chat to the other players.",
+    inputSchema: schema(Message),
+  }),
+  speak: tool({
+    description: "Say something out loud in the Discord voice channel.",
+    inputSchema: schema(Message),
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Tool call -> BotAction
+// ---------------------------------------------------------------------------
+
+/** Outcome of interpreting the tool calls of one decision. */
+export interface ToolDecision {
+  /** Validated actions ready for `dispatchAction`. */
+  actions: BotAction[];
+  /** Chat message from `send-chat` calls (joined), if any. */
+  chat: string | null;
+  /** Voice message from `speak` calls (joined), if any. */
+  speak: string | null;
+  /** One entry per invalid or unknown tool call. */
+  errors: string[];
+}
+
+/**
+ * Convert a single tool call into a BotAction and validate it.
+ * Returns an error string if the call cannot be turned into a valid action.
+ */
+function toBotAction(
+  call: LlmToolCall,
+  botId: string,
+): BotAction | string {
+  const input = (call.input ?? {}) as Record<string, unknown>;
+  const position = { x: input.x, y: input.y, z: input.z };
+
+  let candidate: Record<string, unknown>;
+  switch (call.toolName) {
+    case "move-to":
+    case "look-at":
+    case "dig":
+    case "open-container":
+      candidate = { type: call.toolName, botId, position };
+      break;
+    case "place-block":
+      // Place against the top face of the block below the target cell
+      candidate = {
+        type: call.toolName,
+        botId,
+        position: { ...position, y: Number(input.y) - 1 },
+        face: "top",
+      };
+      break;
+    case "jump":
+    case "use-item":
+      candidate = { type: call.toolName, botId };
+      break;
+    case "equip":
+      candidate = { type: call.toolName, botId, itemName: input.itemName, destination: "hand" };
+      break;
+    case "attack":
+    case "interact-entity":
+      candidate = { type: call.toolName, botId, target: input.target };
+      break;
+    default:
+      return `Unknown tool "${call.toolName}"`;
+  }
+
+  if (!Value.Check(BotActionModel, candidate)) {
+    const first = Value.Errors(BotActionModel, candidate).First();
+    return `Invalid ${call.toolName} call: ${first?.message ?? "schema mismatch"}`;
+  }
+
+  return candidate as BotAction;
+}
+
+/**
+ * Interpret the tool calls of one LLM response.
+ * `send-chat` and `speak` become chat/voice output; everything else
+ * becomes a validated BotAction.
+ */
+export function interpretToolCalls(
+  calls: LlmToolCall[],
+  botId: string,
+): ToolDecision {
+  const decision: ToolDecision = { actions: [], chat: null, speak: null, errors: [] };
+  const chat: string[] = [];
+  const speak: string[] = [];
+
+  for (const call of calls) {
+    if (call.invalid) {
+      decision.errors.push(call.error ?? `Invalid ${call.toolName} call`);
+      continue;
+    }
+
+    if (call.toolName === "send-chat" || call.toolName === "speak") {
+      const message = (call.input as { message?: unknown } | null)?.message;
+      if (typeof message !== "string" || message.length === 0) {
+        decision.errors.push(`Invalid ${call.toolName} call: missing message`);
+        continue;
+      }
+      (call.toolName === "send-chat" ? chat : speak).push(message);
+      continue;
+    }
+
+    const action = toBotAction(call, botId);
+    if (typeof action === "string") {
+      decision.errors.push(action);
+    } else {
+      decision.actions.push(action);
+    }
+  }
+
+  decision.chat = chat.length > 0 ? chat.join(" ") : null;
+  decision.speak = speak.length > 0 ? speak.join(" ") : null;
+  return decision;
+}
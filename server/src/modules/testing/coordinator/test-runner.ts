@@ -4,17 +4,23 @@
  * Orchestrates the complete agentic testing loop defined in AGENTS.md:
  *
  *   1. Scenario Selection      — resolve scenario definition
+ *   1b. Admission              — queue the run while MAX_CONCURRENT_TESTS are in flight
  *   2. Environment Init        — create Discord channels
  *   3. Agent Spawning           — spawn target LLM bot + testing agents
+ *   3c. World Setup             — apply scenario initial conditions
  *   4. Coordination Phase       — 30 s delay for initial planning
  *   5. Execution Phase          — target polls LLM, testing agents run loops
+ *   5b. Pause / Resume          — freeze an executing run without losing it
+ *   5c. Replay                  — rerun a finished run from its action log
  *   6. Observation              — events stream via TestEventEmitter
  *   7. Completion Detection     — timeout or criteria check
  *   8. Evaluation               — log final metrics (future: full eval)
  *   9. Cleanup                  — terminate bots, leave voice, keep channels
  *
  * Each test run is tracked in the TestingRepository as a TestRun record
- * whose status transitions through the lifecycle states.
+ * whose status transitions through the lifecycle states. The run queue
+ * lives in the same records (status "queued"), so it survives restarts;
+ * see run-queue.ts for the admission and recovery rules.
  */
 
 import type {
@@ -32,9 +38,19 @@ import {
   type TargetLlmAgentHandle,
 } from "./target-llm-agent";
 import { CompletionDetector } from "./completion-detector";
+import { PhaseEngine } from "./phase-engine";
+import { DifficultyController } from "./difficulty-controller";
 import { CleanupHandler } from "./cleanup-handler";
+import { WorldSetup } from "./world-setup";
+import { isRunInFlight, nextQueuedRuns } from "./run-queue";
+import { closePause } from "./run-clock";
+import { extractRecordedResponses, type RecordedResponse } from "./replay";
+import { isRunFinished } from "../suites/matrix";
 import { AgentService } from "../../agents/service";
+import { deriveSeed, generateSeed } from "../../agents/orchestrator/random";
+import { profileExists } from "../../agents/profiles";
 import { DiscordService } from "../../discord/service";
+import { botManager } from "../../minecraft/bot/bot-manager";
 import { DISCORD_GUILD_ID } from "../../../../constants/discord.constants";
 import {
   MINECRAFT_HOST,
@@ -45,11 +61,16 @@ import {
   DEFAULT_TEST_DURATION_SECONDS,
   DEFAULT_LLM_POLLING_INTERVAL_MS,
   DEFAULT_BEHAVIOR_INTENSITY,
+  DEFAULT_MEMORY_TOKEN_BUDGET,
   MAX_CONCURRENT_TESTS,
   COORDINATION_PHASE_SECONDS,
+  REPLAY_MAX_ACTION_LOGS,
   TESTING_AGENT_USERNAME_PREFIX,
 } from "../../../../constants/testing.constants";
-import { DEFAULT_LLM_MODEL } from "../../../../constants/llm.constants";
+import {
+  DEFAULT_LLM_MODEL,
+  DEFAULT_TESTING_AGENT_MODEL,
+} from "../../../../constants/llm.constants";
 import type { BehavioralProfile } from "../../agents/model";
 
 // ---------------------------------------------------------------------------
@@ -58,6 +79,45 @@ import type { BehavioralProfile } from "../../agents/model";
 
 const activeHandles = new Map<string, TargetLlmAgentHandle>();
 
+/** Stop and forget the target agent polling loop for a test, if any. */
+function releaseTargetHandle(testId: string): void {
+  const handle = activeHandles.get(testId);
+  if (handle) {
+    handle.stop();
+    activeHandles.delete(testId);
+  }
+}
+
+/** Cancel a bot's pathfinding goal and movement controls so it stands still. */
+function haltBot(botId: string): void {
+  const mcBot = botManager.getBot(botId)?.mineflayerBot;
+  if (!mcBot) return;
+  mcBot.pathfinder?.setGoal(null);
+  mcBot.clearControlStates();
+}
+
+// ---------------------------------------------------------------------------
+// Admission queue — serialised so concurrent starts never exceed the limit
+// ---------------------------------------------------------------------------
+
+/** Tail of the serialised admission chain. */
+let admissionChain: Promise<void> = Promise.resolve();
+
+/** Run `task` after every previously scheduled admission has finished. */
+function serialize(task: () => Promise<void>): Promise<void> {
+  admissionChain = admissionChain.then(task).catch((err) => {
+    console.error("[TestRunner] Admission error:", err);
+  });
+  return admissionChain;
+}
+
+// A finished run frees a slot for the oldest queued run
+testEvents.onEvent("test-status-changed", (event) => {
+  if (isRunFinished({ status: event.newStatus })) {
+    void TestRunner.drainQueue();
+  }
+});
+
 // ---------------------------------------------------------------------------
 // ID generator
 // ---------------------------------------------------------------------------
@@ -77,8 +137,18 @@ function buildFullConfig(
   return {
     llmPollingIntervalMs:
       partial?.llmPollingIntervalMs ?? DEFAULT_LLM_POLLING_INTERVAL_MS,
+    llmResponseMode: partial?.llmResponseMode ?? "json",
+    memoryStrategy: partial?.memoryStrategy ?? "stateless",
+    memoryTokenBudget:
+      partial?.memoryTokenBudget ?? DEFAULT_MEMORY_TOKEN_BUDGET,
+    perceptionVerbosity: partial?.perceptionVerbosity ?? "standard",
     behaviorIntensity:
       partial?.behaviorIntensity ?? DEFAULT_BEHAVIOR_INTENSITY,
+    adaptiveIntensity: partial?.adaptiveIntensity ?? false,
+    testingAgentMode: partial?.testingAgentMode ?? "scripted",
+    testingAgentModel:
+      partial?.testingAgentModel ?? DEFAULT_TESTING_AGENT_MODEL,
+    randomSeed: partial?.randomSeed ?? generateSeed(),
     enableVoice: partial?.enableVoice ?? false,
     enableText: partial?.enableText ?? true,
     targetLlmSystemPromptOverride:
@@ -91,6 +161,22 @@ function buildFullConfig(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Replay recordings
+// ---------------------------------------------------------------------------
+
+/** The target's recorded responses from run `testId`, or null if it has none. */
+async function loadRecording(testId: string): Promise<RecordedResponse[] | null> {
+  const logs = await testingRepository.findActionLogs(testId, REPLAY_MAX_ACTION_LOGS);
+  // Logs come newest first, so a full page has lost the earliest decisions
+  if (logs.length >= REPLAY_MAX_ACTION_LOGS) {
+    console.warn(`[TestRunner] Test ${testId} has too many action logs to replay`);
+    return null;
+  }
+  const responses = extractRecordedResponses(logs);
+  return responses && responses.length > 0 ? responses : null;
+}
+
 // ---------------------------------------------------------------------------
 // Status transition helper
 // ---------------------------------------------------------------------------
@@ -135,21 +221,19 @@ export class TestRunner {
       };
     }
 
-    // Enforce concurrency limit
-    const activeCount = await testingRepository.countActive();
-    if (activeCount >= MAX_CONCURRENT_TESTS) {
-      return {
-        ok: false,
-        message: `Maximum concurrent tests (${MAX_CONCURRENT_TESTS}) reached`,
-        code: "MAX_TESTS_REACHED",
-        httpStatus: 429,
-      };
-    }
-
     const testId = generateTestId();
     const config = buildFullConfig(request.config);
     const profiles: BehavioralProfile[] =
       request.testingAgentProfiles ?? scenario.defaultProfiles;
+    const unknownProfile = profiles.find((profile) => !profileExists(profile));
+    if (unknownProfile) {
+      return {
+        ok: false,
+        message: `Unknown behavioral profile: ${unknownProfile}`,
+        code: "INVALID_PROFILE",
+        httpStatus: 400,
+      };
+    }
 
     const testRun: TestRun = {
       testId,
@@ -168,8 +252,11 @@ export class TestRunner {
       durationSeconds:
         request.durationSeconds ?? scenario.defaultDurationSeconds,
       createdAt: new Date().toISOString(),
+      queuedAt: null,
       startedAt: null,
       endedAt: null,
+      pausedAt: null,
+      pausedSeconds: 0,
       completionReason: null,
       config,
       metrics: {
@@ -179,9 +266,20 @@ export class TestRunner {
         targetMessageCount: 0,
         testingAgentMessageCount: 0,
         llmErrorCount: 0,
+        llmParseFailureCount: 0,
         totalLlmResponseTimeMs: 0,
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        totalTokens: 0,
+        totalCostUsd: 0,
+        unpricedCallCount: 0,
         lastLlmDecisionAt: null,
       },
+      worldSetup: null,
+      worldProgress: [],
+      phaseHistory: [],
+      intensityTimeline: [],
+      replayOf: null,
     };
 
     await testingRepository.create(testRun);
@@ -196,7 +294,8 @@ export class TestRunner {
   /**
    * Start execution of a created test run.
    * Runs through Steps 2-7 asynchronously — returns immediately
-   * after initiating the pipeline.
+   * after initiating the pipeline, or after queueing the run if
+   * MAX_CONCURRENT_TESTS runs are already in flight.
    */
   static async startTest(
     testId: string,
@@ -220,40 +319,66 @@ export class TestRunner {
       };
     }
 
-    // Mark as initializing
-    await transitionStatus(testId, "created", "initializing");
-    await testingRepository.update(testId, {
-      startedAt: new Date().toISOString(),
+    await serialize(() => this.admit(testId));
+
+    // Return the updated record
+    const updated = await testingRepository.findById(testId);
+    return { ok: true, data: updated! };
+  }
+
+  /**
+   * Start queued runs, oldest first, while slots are free. Called
+   * whenever a run finishes and after boot recovery.
+   */
+  static drainQueue(): Promise<void> {
+    return serialize(async () => {
+      const freeSlots = MAX_CONCURRENT_TESTS - (await testingRepository.countActive());
+      const queued = await testingRepository.findAll({ status: "queued" });
+      for (const run of nextQueuedRuns(queued, freeSlots)) {
+        await this.launch(run.testId, "queued");
+      }
     });
+  }
 
-    // Fire-and-forget the rest of the pipeline
-    this.runPipeline(testId).catch(async (err) => {
-      const msg = err instanceof Error ? err.message : "Unknown pipeline error";
-      console.error(`[TestRunner] Pipeline error for ${testId}:`, msg);
+  /**
+   * Reconcile runs left behind by a previous server process. Runs that
+   * were in flight are failed with reason "server-restart" (their bots
+   * and timers died with the old process); queued runs stay queued and
+   * resume as slots free up.
+   */
+  static async recoverRuns(): Promise<void> {
+    const runs = await testingRepository.findAll();
+    const stale = runs.filter(isRunInFlight);
+
+    for (const run of stale) {
+      try {
+        // Best effort: release anything the old process left registered
+        await CleanupHandler.cleanup(run);
+      } catch (err) {
+        console.error(`[TestRunner] Cleanup of stale test ${run.testId} failed:`, err);
+      }
 
-      testEvents.emitEvent("test-error", {
-        testId,
-        errorMessage: msg,
-        errorCode: "PIPELINE_ERROR",
-        fatal: true,
-        timestamp: new Date().toISOString(),
+      const endedAt = new Date().toISOString();
+      await testingRepository.update(run.testId, {
+        status: "failed",
+        completionReason: "server-restart",
+        endedAt,
       });
+      testEvents.emitEvent("test-status-changed", {
+        testId: run.testId,
+        previousStatus: run.status,
+        newStatus: "failed",
+        timestamp: endedAt,
+      });
+    }
 
-      // Attempt cleanup
-      const currentRun = await testingRepository.findById(testId);
-      if (currentRun) {
-        await CleanupHandler.cleanup(currentRun);
-        await testingRepository.update(testId, {
-          status: "failed",
-          completionReason: "error",
-          endedAt: new Date().toISOString(),
-        });
-      }
-    });
+    const queuedCount = runs.filter((run) => run.status === "queued").length;
+    console.log(
+      `[TestRunner] Recovery: failed ${stale.length} stale test(s), ` +
+      `${queuedCount} queued test(s) waiting`,
+    );
 
-    // Return the updated record
-    const updated = await testingRepository.findById(testId);
-    return { ok: true, data: updated! };
+    await this.drainQueue();
   }
 
   /**
@@ -262,7 +387,7 @@ export class TestRunner {
   static async stopTest(
     testId: string,
   ): Promise<ServiceResult<TestRun>> {
-    const testRun = await testingRepository.findById(testId);
+    let testRun = await testingRepository.findById(testId);
     if (!testRun) {
       return {
         ok: false,
@@ -272,10 +397,19 @@ export class TestRunner {
       };
     }
 
+    // A queued run holds no resources — just take it out of the queue
+    if (testRun.status === "queued") {
+      await serialize(() => this.dequeue(testId));
+      testRun = (await testingRepository.findById(testId))!;
+      // Unless the queue admitted it first, in which case stop it below
+      if (testRun.status === "cancelled") return { ok: true, data: testRun };
+    }
+
     const stoppable: TestRunStatus[] = [
       "initializing",
       "coordination",
       "executing",
+      "paused",
     ];
     if (!stoppable.includes(testRun.status)) {
       return {
@@ -287,11 +421,7 @@ export class TestRunner {
     }
 
     // Stop the target agent polling loop
-    const handle = activeHandles.get(testId);
-    if (handle) {
-      handle.stop();
-      activeHandles.delete(testId);
-    }
+    releaseTargetHandle(testId);
 
     // Trigger completion (updates status and emits events)
     await CompletionDetector.triggerCompletion(testId, "manual-stop");
@@ -306,6 +436,243 @@ export class TestRunner {
     return { ok: true, data: finalRun! };
   }
 
+  /**
+   * Pause an executing test (Step 5b): freeze the target's polling loop,
+   * pause the testing agents, stop every bot moving and suspend the
+   * timeout and scenario phases. Time spent paused does not count
+   * against the run's duration.
+   */
+  static async pauseTest(
+    testId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    const testRun = await testingRepository.findById(testId);
+    if (!testRun) {
+      return {
+        ok: false,
+        message: `Test ${testId} not found`,
+        code: "TEST_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    if (testRun.status !== "executing") {
+      return {
+        ok: false,
+        message: `Test ${testId} is in status "${testRun.status}" — can only pause while "executing"`,
+        code: "INVALID_STATUS",
+        httpStatus: 409,
+      };
+    }
+
+    // Freeze the clocks first so the run cannot time out mid-pause
+    CompletionDetector.pause(testId);
+    PhaseEngine.pause(testId);
+    DifficultyController.pause(testId);
+    activeHandles.get(testId)?.pause();
+
+    await testingRepository.update(testId, { pausedAt: new Date().toISOString() });
+    await transitionStatus(testId, "executing", "paused");
+
+    for (const agentId of testRun.testingAgentIds) {
+      const agent = (await AgentService.getAgent(agentId)).data;
+      // Agents that left during a scenario phase stay gone
+      if (agent?.status !== "active") continue;
+
+      const paused = await AgentService.pauseAgent(agentId);
+      if (!paused.ok) {
+        console.warn(`[TestRunner] Could not pause agent ${agentId}: ${paused.message}`);
+      }
+      haltBot(agent.minecraftBotId);
+    }
+    if (testRun.targetBotId) haltBot(testRun.targetBotId);
+
+    const updated = await testingRepository.findById(testId);
+    return { ok: true, data: updated! };
+  }
+
+  /**
+   * Resume a paused test from where it stopped, with the time that was
+   * left on its timeout.
+   */
+  static async resumeTest(
+    testId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    const testRun = await testingRepository.findById(testId);
+    if (!testRun) {
+      return {
+        ok: false,
+        message: `Test ${testId} not found`,
+        code: "TEST_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    if (testRun.status !== "paused") {
+      return {
+        ok: false,
+        message: `Test ${testId} is in status "${testRun.status}" — can only resume from "paused"`,
+        code: "INVALID_STATUS",
+        httpStatus: 409,
+      };
+    }
+
+    await testingRepository.update(testId, closePause(testRun, new Date()));
+    await transitionStatus(testId, "paused", "executing");
+
+    for (const agentId of testRun.testingAgentIds) {
+      const agent = (await AgentService.getAgent(agentId)).data;
+      if (agent?.status !== "paused") continue;
+
+      const resumed = await AgentService.resumeAgent(agentId);
+      if (!resumed.ok) {
+        console.warn(`[TestRunner] Could not resume agent ${agentId}: ${resumed.message}`);
+      }
+    }
+
+    PhaseEngine.resume(testId);
+    DifficultyController.resume(testId);
+    CompletionDetector.resume(testId);
+    activeHandles.get(testId)?.resume();
+
+    const updated = await testingRepository.findById(testId);
+    return { ok: true, data: updated! };
+  }
+
+  /**
+   * Replay a finished test (Step 5c): create and start a run with the
+   * same scenario, model, agents and settings (including the random
+   * seed) whose target replays the recorded LLM responses instead of
+   * calling the model. Adaptive runs replay their recorded intensity
+   * changes. Runs with LLM-driven testing agents cannot be replayed:
+   * those agents would call their model again and choose differently.
+   */
+  static async replayTest(
+    sourceId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    const source = await testingRepository.findById(sourceId);
+    if (!source) {
+      return {
+        ok: false,
+        message: `Test ${sourceId} not found`,
+        code: "TEST_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    if (!isRunFinished(source)) {
+      return {
+        ok: false,
+        message: `Test ${sourceId} is in status "${source.status}" — can only replay a finished test`,
+        code: "INVALID_STATUS",
+        httpStatus: 409,
+      };
+    }
+
+    if (source.config.testingAgentMode === "llm") {
+      return {
+        ok: false,
+        message: `Test ${sourceId} used LLM-driven testing agents, which cannot be replayed`,
+        code: "NOT_REPLAYABLE",
+        httpStatus: 400,
+      };
+    }
+
+    if (!(await loadRecording(sourceId))) {
+      return {
+        ok: false,
+        message: `Test ${sourceId} has no recorded LLM responses to replay`,
+        code: "NOT_REPLAYABLE",
+        httpStatus: 400,
+      };
+    }
+
+    const created = await this.createTest({
+      scenarioType: source.scenarioType,
+      targetLlmModel: source.targetLlmModel,
+      testingAgentProfiles: source.testingAgentProfiles,
+      durationSeconds: source.durationSeconds,
+      config: source.config,
+    });
+    if (!created.ok) return created;
+
+    const testId = created.data.testId;
+    await testingRepository.update(testId, { replayOf: sourceId });
+    console.log(`[TestRunner] Test ${testId} replays ${sourceId}`);
+
+    return this.startTest(testId);
+  }
+
+  // -------------------------------------------------------------------------
+  // Admission
+  // -------------------------------------------------------------------------
+
+  /** Launch a created run if a slot is free, otherwise queue it. */
+  private static async admit(testId: string): Promise<void> {
+    if ((await testingRepository.countActive()) < MAX_CONCURRENT_TESTS) {
+      await this.launch(testId, "created");
+      return;
+    }
+
+    await testingRepository.update(testId, { queuedAt: new Date().toISOString() });
+    await transitionStatus(testId, "created", "queued");
+  }
+
+  /** Cancel a run that is still waiting in the queue. */
+  private static async dequeue(testId: string): Promise<void> {
+    const testRun = await testingRepository.findById(testId);
+    // The queue may have admitted it in the meantime
+    if (testRun?.status !== "queued") return;
+
+    await testingRepository.update(testId, {
+      completionReason: "manual-stop",
+      endedAt: new Date().toISOString(),
+    });
+    await transitionStatus(testId, "queued", "cancelled");
+  }
+
+  /** Mark a run as initializing and fire off its pipeline. */
+  private static async launch(
+    testId: string,
+    from: "created" | "queued",
+  ): Promise<void> {
+    await transitionStatus(testId, from, "initializing");
+    await testingRepository.update(testId, {
+      startedAt: new Date().toISOString(),
+    });
+
+    // Fire-and-forget the rest of the pipeline
+    this.runPipeline(testId).catch(async (err) => {
+      const msg = err instanceof Error ? err.message : "Unknown pipeline error";
+      console.error(`[TestRunner] Pipeline error for ${testId}:`, msg);
+
+      testEvents.emitEvent("test-error", {
+        testId,
+        errorMessage: msg,
+        errorCode: "PIPELINE_ERROR",
+        fatal: true,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Attempt cleanup
+      releaseTargetHandle(testId);
+      const currentRun = await testingRepository.findById(testId);
+      if (currentRun) {
+        await CleanupHandler.cleanup(currentRun);
+        await testingRepository.update(testId, {
+          status: "failed",
+          completionReason: "error",
+          endedAt: new Date().toISOString(),
+        });
+        testEvents.emitEvent("test-status-changed", {
+          testId,
+          previousStatus: currentRun.status,
+          newStatus: "failed",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+  }
+
   // -------------------------------------------------------------------------
   // Pipeline (Steps 2-7)
   // -------------------------------------------------------------------------
@@ -351,7 +718,7 @@ export class TestRunner {
     }
 
     // -----------------------------------------------------------------------
-    // Step 3: Agent Spawning (testing agents only — no target LLM bot)
+    // Step 3: Agent Spawning — target LLM bot + testing agents
     // -----------------------------------------------------------------------
 
     const spawnTeleport = scenario.initialConditions.spawnPosition
@@ -364,10 +731,45 @@ export class TestRunner {
         }
       : undefined;
 
-    // Target LLM agent is not spawned — only leader, follower, non-cooperator, etc. run in-game.
-    // (Removes the extra "llm_..." bot that did nothing.)
+    // A replay feeds the original run's responses to its target
+    const replay = testRun.replayOf
+      ? await loadRecording(testRun.replayOf)
+      : undefined;
+    if (replay === null) {
+      throw new Error(`Recording of test ${testRun.replayOf} is unavailable`);
+    }
+
+    // 3a. Spawn the target LLM agent (the model under test). Its loop is
+    // paused until the execution phase so coordination stays agent-led.
+    const targetResult = await startTargetLlmAgent({
+      testId,
+      model: testRun.targetLlmModel,
+      objectivePrompt: scenario.objectivePrompt,
+      runConfig: testRun.config,
+      spawnTeleport,
+      replay,
+    });
+
+    if (!targetResult.ok) {
+      // Without the target there is nothing to evaluate — fail the run.
+      throw new Error(targetResult.message);
+    }
+
+    const targetHandle = targetResult.data;
+    targetHandle.pause();
+    activeHandles.set(testId, targetHandle);
+
+    await testingRepository.update(testId, {
+      targetAgentId: targetHandle.agentId,
+      targetBotId: targetHandle.botId,
+    });
+
+    console.log(
+      `[TestRunner] Spawned target LLM agent ${targetHandle.agentId} ` +
+      `(${testRun.targetLlmModel})`,
+    );
 
-    // Spawn testing agents (leader, non-cooperator, follower, etc.)
+    // 3b. Spawn testing agents (leader, non-cooperator, follower, etc.)
     const spawnedAgentIds: string[] = [];
 
     for (let i = 0; i < testRun.testingAgentProfiles.length; i++) {
@@ -383,7 +785,12 @@ export class TestRunner {
           version: testRun.config.minecraftServer.version,
         },
         behaviorIntensity: testRun.config.behaviorIntensity,
+        executorMode: testRun.config.testingAgentMode,
+        llmModel: testRun.config.testingAgentModel,
+        // Each agent draws from its own stream of the run's seed
+        randomSeed: deriveSeed(testRun.config.randomSeed, `${profile}-${i}`),
         spawnTeleport,
+        scriptedChat: scenario.scriptedChat?.[profile],
       });
 
       if (agentResult.ok && agentResult.data) {
@@ -413,6 +820,16 @@ export class TestRunner {
       testingAgentIds: spawnedAgentIds,
     });
 
+    // -----------------------------------------------------------------------
+    // Step 3c: World Setup — time, weather, inventories, scatter
+    // -----------------------------------------------------------------------
+    const spawnedRun = await testingRepository.findById(testId);
+    if (spawnedRun) {
+      // Failures are recorded on the run (worldSetup) and emitted as a
+      // non-fatal test-error; the test continues so the operator can decide.
+      await WorldSetup.apply(spawnedRun, scenario.initialConditions);
+    }
+
     // -----------------------------------------------------------------------
     // Step 4: Coordination Phase
     // -----------------------------------------------------------------------
@@ -440,8 +857,9 @@ export class TestRunner {
     // -----------------------------------------------------------------------
     await transitionStatus(testId, "coordination", "executing");
 
-    // The target LLM agent polling loop is already running (started in step 3a).
+    // Resume the target LLM agent polling loop (paused since step 3a).
     // Testing agent behavior executors are already running (started by AgentService).
+    activeHandles.get(testId)?.resume();
 
     // -----------------------------------------------------------------------
     // Step 6: Observation — handled by TestEventEmitter + WS controller
@@ -453,6 +871,18 @@ export class TestRunner {
     const latestRun = await testingRepository.findById(testId);
     if (latestRun) {
       CompletionDetector.start(latestRun, scenario);
+
+      // Multi-phase scenarios: scripted disruptions and objective changes
+      PhaseEngine.start(latestRun, scenario, {
+        onObjectiveChange: (prompt) => activeHandles.get(testId)?.setObjective(prompt),
+      });
+
+      // Adaptive runs: escalate or relax the testing agents with the target's performance.
+      // A replay follows the source run's recorded intensity changes instead.
+      const replayedTimeline = latestRun.replayOf
+        ? (await testingRepository.findById(latestRun.replayOf))?.intensityTimeline ?? []
+        : undefined;
+      DifficultyController.start(latestRun, replayedTimeline);
     }
 
     // The completion detector will:
@@ -465,11 +895,7 @@ export class TestRunner {
       if (event.testId !== testId) return;
 
       // Stop target agent
-      const handle = activeHandles.get(testId);
-      if (handle) {
-        handle.stop();
-        activeHandles.delete(testId);
-      }
+      releaseTargetHandle(testId);
 
       // Step 9: Cleanup
       const finalRun = await testingRepository.findById(testId);
@@ -490,9 +916,8 @@ export class TestRunner {
    * Stop all active tests. Used during server shutdown.
    */
   static async stopAll(): Promise<void> {
-    for (const [testId, handle] of activeHandles) {
-      handle.stop();
-      activeHandles.delete(testId);
+    for (const testId of [...activeHandles.keys()]) {
+      releaseTargetHandle(testId);
     }
     await CleanupHandler.cleanupAll();
   }
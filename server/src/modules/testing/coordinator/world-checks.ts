@@ -0,0 +1,246 @@
+/**
+ * World Checks
+ *
+ * Evaluates a scenario's world-state success checks (block counts,
+ * enclosed structures, inventory contents, crafted items) against a
+ * read-only view of the live world. Every check reports progress from
+ * 0 to 1 so the dashboard can show e.g. "42% of house complete".
+ *
+ * The world is accessed through `WorldView` so the evaluation stays
+ * independent of mineflayer; CompletionDetector builds the view from
+ * the target bot. Scans run synchronously, so region checks are
+ * bounded (see `regionError`) both when a scenario is validated and
+ * before every evaluation.
+ */
+
+import type {
+  BlockPatterns,
+  BoundingBox,
+  EnclosedStructureCheck,
+  InventoryItem,
+  WorldCheck,
+} from "../scenarios/types";
+import type { InventorySlot } from "../../minecraft/types";
+import type { WorldCheckProgress } from "../types";
+import {
+  MAX_ENCLOSURE_SEARCH_BLOCKS,
+  MAX_WORLD_CHECK_REGION_BLOCKS,
+} from "../../../../constants/testing.constants";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Read-only view of the world as seen by the target bot. */
+export interface WorldView {
+  /** Block name at a position, or null if unknown (e.g. chunk not loaded). */
+  blockAt(x: number, y: number, z: number): string | null;
+  /** The target bot's current inventory. */
+  inventory: InventorySlot[];
+  /** Items the target was given when the world was set up. */
+  startingInventory: InventoryItem[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Evaluate every check against the view. */
+export function evaluateWorldChecks(
+  checks: WorldCheck[],
+  view: WorldView,
+): WorldCheckProgress[] {
+  return checks.map((check) => evaluateWorldCheck(check, view));
+}
+
+/** Evaluate a single check against the view. */
+export function evaluateWorldCheck(
+  check: WorldCheck,
+  view: WorldView,
+): WorldCheckProgress {
+  const base = { id: check.id, description: check.description, type: check.type };
+
+  const error = regionError(check);
+  if (error) {
+    return { ...base, progress: 0, met: false, detail: `Not evaluated: ${error}` };
+  }
+
+  switch (check.type) {
+    case "block-count": {
+      const count = countBlocks(view, check.region, check.blocks);
+      return {
+        ...base,
+        progress: ratio(count, check.minCount),
+        met: count >= check.minCount,
+        detail: `${count}/${check.minCount} blocks`,
+      };
+    }
+
+    case "enclosed-structure": {
+      const { filled, total } = bestEnclosure(view, check);
+      const progress = ratio(filled, total);
+      return {
+        ...base,
+        progress,
+        met: total > 0 && progress >= check.minCompletion,
+        detail: `${filled}/${total} ${check.requireRoof ? "wall and roof" : "wall"} blocks placed`,
+      };
+    }
+
+    case "inventory-items": {
+      const parts = check.items.map((item) =>
+        ratio(countItem(view.inventory, item.name), item.count),
+      );
+      const held = check.items.filter(
+        (item) => countItem(view.inventory, item.name) >= item.count,
+      ).length;
+      return {
+        ...base,
+        progress: parts.length === 0 ? 1 : average(parts),
+        met: held === check.items.length,
+        detail: `${held}/${check.items.length} items held`,
+      };
+    }
+
+    case "crafted-item": {
+      const started = view.startingInventory
+        .filter((item) => item.name === check.item)
+        .reduce((sum, item) => sum + item.count, 0);
+      const crafted = Math.max(0, countItem(view.inventory, check.item) - started);
+      return {
+        ...base,
+        progress: ratio(crafted, check.count),
+        met: crafted >= check.count,
+        detail: `${crafted}/${check.count} ${check.item} crafted`,
+      };
+    }
+  }
+}
+
+/** Whether a block name matches any of the patterns. */
+export function matchesBlock(name: string, patterns: BlockPatterns): boolean {
+  return patterns.some((pattern) => {
+    if (pattern.startsWith("*")) return name.endsWith(pattern.slice(1));
+    if (pattern.endsWith("*")) return name.startsWith(pattern.slice(0, -1));
+    return name === pattern;
+  });
+}
+
+/**
+ * Why a check's region is unusable, or null if it is fine: a min corner
+ * above the max corner, more than MAX_WORLD_CHECK_REGION_BLOCKS blocks,
+ * or an enclosure search of more than MAX_ENCLOSURE_SEARCH_BLOCKS reads.
+ */
+export function regionError(check: WorldCheck): string | null {
+  if (check.type !== "block-count" && check.type !== "enclosed-structure") return null;
+
+  const { min, max } = check.region;
+  for (const axis of ["x", "y", "z"] as const) {
+    if (min[axis] > max[axis]) {
+      return `region min.${axis} (${min[axis]}) is greater than max.${axis} (${max[axis]})`;
+    }
+  }
+
+  const width = max.x - min.x + 1;
+  const depth = max.z - min.z + 1;
+  const volume = width * (max.y - min.y + 1) * depth;
+  if (volume > MAX_WORLD_CHECK_REGION_BLOCKS) {
+    return `region spans ${volume} blocks, more than the ${MAX_WORLD_CHECK_REGION_BLOCKS} allowed`;
+  }
+
+  if (check.type === "enclosed-structure") {
+    const { footprint, wallHeight, requireRoof } = check;
+    const placements =
+      Math.max(0, width - footprint.width + 1) * Math.max(0, depth - footprint.depth + 1);
+    const perimeter = 2 * (footprint.width + footprint.depth) - 4;
+    const reads =
+      placements *
+      (perimeter * wallHeight + (requireRoof ? footprint.width * footprint.depth : 0));
+    if (reads > MAX_ENCLOSURE_SEARCH_BLOCKS) {
+      return `footprint search reads ${reads} blocks, more than the ${MAX_ENCLOSURE_SEARCH_BLOCKS} allowed`;
+    }
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function countBlocks(view: WorldView, region: BoundingBox, blocks: BlockPatterns): number {
+  let count = 0;
+  for (let x = region.min.x; x <= region.max.x; x++) {
+    for (let y = region.min.y; y <= region.max.y; y++) {
+      for (let z = region.min.z; z <= region.max.z; z++) {
+        const name = view.blockAt(x, y, z);
+        if (name && matchesBlock(name, blocks)) count++;
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Slide the footprint across the region and return the placement with
+ * the most wall (and roof) positions filled. Doors count as wall.
+ */
+function bestEnclosure(
+  view: WorldView,
+  check: EnclosedStructureCheck,
+): { filled: number; total: number } {
+  const { region, footprint, wallHeight, requireRoof, blocks } = check;
+  const floorY = region.min.y;
+  const roofY = floorY + wallHeight;
+  const wallBlocks = [...blocks, "*_door"];
+
+  let best = { filled: 0, total: 0 };
+
+  for (let x0 = region.min.x; x0 + footprint.width - 1 <= region.max.x; x0++) {
+    for (let z0 = region.min.z; z0 + footprint.depth - 1 <= region.max.z; z0++) {
+      const x1 = x0 + footprint.width - 1;
+      const z1 = z0 + footprint.depth - 1;
+      let filled = 0;
+      let total = 0;
+
+      for (let x = x0; x <= x1; x++) {
+        for (let z = z0; z <= z1; z++) {
+          const onPerimeter = x === x0 || x === x1 || z === z0 || z === z1;
+          if (onPerimeter) {
+            for (let y = floorY; y < roofY; y++) {
+              total++;
+              const name = view.blockAt(x, y, z);
+              if (name && matchesBlock(name, wallBlocks)) filled++;
+            }
+          }
+          if (requireRoof) {
+            total++;
+            const name = view.blockAt(x, roofY, z);
+            if (name && matchesBlock(name, blocks)) filled++;
+          }
+        }
+      }
+
+      if (best.total === 0 || filled > best.filled) {
+        best = { filled, total };
+      }
+    }
+  }
+
+  return best;
+}
+
+function countItem(inventory: InventorySlot[], name: string): number {
+  return inventory
+    .filter((slot) => slot.name === name)
+    .reduce((sum, slot) => sum + slot.count, 0);
+}
+
+function ratio(value: number, target: number): number {
+  if (target <= 0) return 1;
+  return Math.min(1, value / target);
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,276 @@
+/**
+ * World Setup
+ *
+ * Applies a scenario's InitialConditions to the Minecraft world before the
+ * coordination phase begins:
+ * - Time of day and weather
+ * - Place and fill scenario chests (`containers`)
+ * - Clear + fill inventories per role (target vs testing agents)
+ * - Scatter all bots inside `spawnRadius`
+ *
+ * Commands are issued through one of the spawned bots (the server must
+ * grant it operator permissions). Server replies that indicate a failed
+ * command are captured so a misconfigured start is recorded on the run
+ * instead of silently producing an invalid test. Only system messages
+ * count as replies: player and agent chat is ignored even if it happens
+ * to mention a permission.
+ */
+
+import type { TestRun, WorldSetupReport } from "../types";
+import type { InitialConditions, InventoryItem } from "../scenarios/types";
+import { testingRepository } from "../repository";
+import { testEvents } from "../events/event-emitter";
+import { botManager } from "../../minecraft/bot/bot-manager";
+import type { BotInstance } from "../../minecraft/bot/bot-instance";
+import { AgentService } from "../../agents/service";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Delay between consecutive commands to avoid chat spam kicks. */
+const COMMAND_DELAY_MS = 250;
+
+/** How long to keep listening for server replies after the last command. */
+const REPLY_GRACE_MS = 1_000;
+
+/** Server replies that mean a command did not take effect. */
+const COMMAND_FAILURE_PATTERN =
+  /unknown or incomplete command|unknown command|permission|not allowed|no player was found|unknown item|could not spread|incorrect argument/i;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A bot that takes part in the test, tagged with its role. */
+interface SetupParticipant {
+  instance: BotInstance;
+  role: "target" | "testing-agent";
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export class WorldSetup {
+  /**
+   * Apply the scenario's initial conditions for a test run.
+   *
+   * Never throws — every failure is collected into the returned report,
+   * which is also persisted on the TestRun (`worldSetup`), logged to the
+   * action log and surfaced as a non-fatal `test-error` event.
+   */
+  static async apply(
+    testRun: TestRun,
+    conditions: InitialConditions,
+  ): Promise<WorldSetupReport> {
+    const { testId } = testRun;
+    const errors: string[] = [];
+    const commands: string[] = [];
+
+    const participants = await this.resolveParticipants(testRun, errors);
+    const operator = participants[0]?.instance.mineflayerBot;
+
+    if (!operator) {
+      errors.push("No spawned bot available to issue setup commands");
+    } else {
+      // Collect server replies while the commands are running
+      const replies: string[] = [];
+      const onMessage = (message: string, position: string) => {
+        // Command feedback arrives as system messages; "chat" is what players say
+        if (position === "chat") return;
+        if (COMMAND_FAILURE_PATTERN.test(message)) replies.push(message);
+      };
+      operator.on("messagestr", onMessage);
+
+      const run = async (command: string) => {
+        commands.push(command);
+        operator.chat(command);
+        await sleep(COMMAND_DELAY_MS);
+      };
+
+      try {
+        // 1. Time of day + weather
+        await run(`/time set ${conditions.timeOfDay}`);
+        await run(`/weather ${conditions.weather}`);
+
+        // 2. Scenario chests: clear the spot first so a chest left over
+        //    from an earlier run is replaced, contents included
+        for (const container of conditions.containers ?? []) {
+          const pos = `${container.x} ${container.y} ${container.z}`;
+          await run(`/setblock ${pos} minecraft:air replace`);
+          await run(`/setblock ${pos} minecraft:chest replace`);
+          for (const [slot, item] of container.items.entries()) {
+            const itemError = validateItem(operator.registry?.itemsByName, item);
+            if (itemError) {
+              errors.push(itemError);
+              continue;
+            }
+            await run(
+              `/item replace block ${pos} container.${slot} with minecraft:${item.name} ${item.count}`,
+            );
+          }
+        }
+
+        // 3. Inventories per role
+        for (const { instance, role } of participants) {
+          const items =
+            role === "target"
+              ? conditions.targetStartingInventory
+              : conditions.testerStartingInventory;
+
+          await run(`/clear ${instance.username}`);
+          for (const item of items) {
+            const itemError = validateItem(operator.registry?.itemsByName, item);
+            if (itemError) {
+              errors.push(itemError);
+              continue;
+            }
+            await run(`/give ${instance.username} minecraft:${item.name} ${item.count}`);
+          }
+        }
+
+        // 4. Scatter inside spawnRadius
+        if (conditions.spawnRadius > 0 && participants.length > 0) {
+          const center = conditions.spawnPosition ?? operator.entity?.position;
+          if (center) {
+            const names = participants.map((p) => p.instance.username).join(" ");
+            await run(
+              `/spreadplayers ${Math.round(center.x)} ${Math.round(center.z)} ` +
+              `1 ${conditions.spawnRadius} false ${names}`,
+            );
+          } else {
+            errors.push("Could not determine a scatter center (no spawnPosition and operator position unknown)");
+          }
+        }
+
+        await sleep(REPLY_GRACE_MS);
+      } catch (err) {
+        errors.push(
+          `Setup command failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      } finally {
+        operator.removeListener("messagestr", onMessage);
+      }
+
+      for (const reply of replies) {
+        errors.push(`Server rejected setup command: ${reply}`);
+      }
+    }
+
+    const report: WorldSetupReport = {
+      applied: errors.length === 0,
+      appliedAt: new Date().toISOString(),
+      errors,
+    };
+
+    await this.record(testId, report, commands, participants.length);
+    return report;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Resolve the bot instances for the target and every testing agent.
+   * Missing bots are reported as setup errors.
+   */
+  private static async resolveParticipants(
+    testRun: TestRun,
+    errors: string[],
+  ): Promise<SetupParticipant[]> {
+    const participants: SetupParticipant[] = [];
+
+    if (testRun.targetBotId) {
+      const instance = botManager.getBot(testRun.targetBotId);
+      if (instance?.mineflayerBot) {
+        participants.push({ instance, role: "target" });
+      } else {
+        errors.push(`Target bot ${testRun.targetBotId} is not connected`);
+      }
+    }
+
+    for (const agentId of testRun.testingAgentIds) {
+      const agentResult = await AgentService.getAgent(agentId);
+      const botId = agentResult.data?.minecraftBotId;
+      const instance = botId ? botManager.getBot(botId) : undefined;
+      if (instance?.mineflayerBot) {
+        participants.push({ instance, role: "testing-agent" });
+      } else {
+        errors.push(`Testing agent ${agentId} has no connected bot`);
+      }
+    }
+
+    return participants;
+  }
+
+  /**
+   * Persist the report on the run, write the action log entry and
+   * emit a non-fatal error event if anything went wrong.
+   */
+  private static async record(
+    testId: string,
+    report: WorldSetupReport,
+    commands: string[],
+    participantCount: number,
+  ): Promise<void> {
+    await testingRepository.update(testId, { worldSetup: report });
+
+    await testingRepository.createActionLog({
+      logId: `log-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      testId,
+      sourceAgentId: "world-setup",
+      sourceType: "system",
+      actionCategory: "setup",
+      actionDetail: report.applied
+        ? `Setup applied to ${participantCount} bot(s)`
+        : `Setup failed: ${report.errors.length} error(s)`,
+      timestamp: report.appliedAt,
+      metadata: {
+        applied: report.applied,
+        errors: report.errors,
+        commands,
+      },
+    });
+
+    if (report.applied) {
+      console.log(`[WorldSetup] Initial conditions applied for ${testId}`);
+      return;
+    }
+
+    console.warn(
+      `[WorldSetup] Setup for ${testId} incomplete: ${report.errors.join("; ")}`,
+    );
+
+    testEvents.emitEvent("test-error", {
+      testId,
+      errorMessage: `World setup incomplete: ${report.errors.join("; ")}`,
+      errorCode: "WORLD_SETUP_FAILED",
+      fatal: false,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Utility
+// ---------------------------------------------------------------------------
+
+/** Check an inventory item against the server's item registry. */
+function validateItem(
+  itemsByName: Record<string, unknown> | undefined,
+  item: InventoryItem,
+): string | null {
+  if (item.count <= 0) {
+    return `Invalid count ${item.count} for item "${item.name}"`;
+  }
+  if (itemsByName && !(item.name in itemsByName)) {
+    return `Unknown item "${item.name}"`;
+  }
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -14,9 +14,14 @@ import type {
   TestStatusChangedEvent,
   TargetLlmDecisionEvent,
   AgentActionEvent,
+  AgentTreeTickEvent,
   TestChatMessageEvent,
   TestMetricsUpdatedEvent,
+  TestWorldProgressEvent,
+  TestPhaseChangedEvent,
+  TestIntensityStepEvent,
   TestCompletedEvent,
+  TestRegressionEvent,
   TestErrorEvent,
   TestWsServerMessage,
 } from "./event-types";
@@ -29,9 +34,14 @@ export interface TestEventMap {
   "test-status-changed": TestStatusChangedEvent;
   "target-llm-decision": TargetLlmDecisionEvent;
   "agent-action": AgentActionEvent;
+  "agent-tree-tick": AgentTreeTickEvent;
   "test-chat-message": TestChatMessageEvent;
   "test-metrics-updated": TestMetricsUpdatedEvent;
+  "test-world-progress": TestWorldProgressEvent;
+  "test-phase-changed": TestPhaseChangedEvent;
+  "test-intensity-step": TestIntensityStepEvent;
   "test-completed": TestCompletedEvent;
+  "test-regression": TestRegressionEvent;
   "test-error": TestErrorEvent;
 }
 
@@ -10,6 +10,12 @@ import type {
   CompletionReason,
   TestMetrics,
   ScenarioType,
+  LlmResponseMode,
+  TargetActionOutcome,
+  WorldCheckProgress,
+  PhaseRecord,
+  IntensityStep,
+  RegressionReport,
 } from "../types";
 
 // ---------------------------------------------------------------------------
@@ -31,6 +37,12 @@ export interface TargetLlmDecisionEvent {
   responseText: string;
   /** Actions parsed from the response. */
   parsedActions: string[];
+  /** Outcome of each dispatched action, in dispatch order. */
+  actionResults: TargetActionOutcome[];
+  /** Whether the decision came from JSON text or native tool calls. */
+  responseMode: LlmResponseMode;
+  /** Why the response could not be parsed into valid actions (null if it could). */
+  parseError: string | null;
   /** LLM response time in milliseconds. */
   responseTimeMs: number;
   timestamp: string;
@@ -47,6 +59,18 @@ export interface AgentActionEvent {
   timestamp: string;
 }
 
+/** Emitted each time a scripted testing agent ticks its behavior tree. */
+export interface AgentTreeTickEvent {
+  testId: string;
+  agentId: string;
+  profile: string;
+  /** The behavior the tree picked. */
+  behavior: string;
+  /** Node labels from the root to the node that picked the behavior. */
+  activePath: string[];
+  timestamp: string;
+}
+
 /** Emitted when a Discord message is sent during the test. */
 export interface TestChatMessageEvent {
   testId: string;
@@ -64,6 +88,30 @@ export interface TestMetricsUpdatedEvent {
   timestamp: string;
 }
 
+/** Emitted when the progress of the scenario's world checks changes. */
+export interface TestWorldProgressEvent {
+  testId: string;
+  checks: WorldCheckProgress[];
+  timestamp: string;
+}
+
+/** Emitted when a scenario phase starts mid-run. */
+export interface TestPhaseChangedEvent {
+  testId: string;
+  phase: PhaseRecord;
+  /** 1-based position among the scenario's phases. */
+  phaseNumber: number;
+  totalPhases: number;
+  timestamp: string;
+}
+
+/** Emitted when an adaptive run reassesses the target and sets the intensity. */
+export interface TestIntensityStepEvent {
+  testId: string;
+  step: IntensityStep;
+  timestamp: string;
+}
+
 /** Emitted when a test run completes (success, timeout, error, etc.). */
 export interface TestCompletedEvent {
   testId: string;
@@ -74,6 +122,15 @@ export interface TestCompletedEvent {
   timestamp: string;
 }
 
+/** Emitted when a scheduled run regressed against its rolling baseline. */
+export interface TestRegressionEvent {
+  testId: string;
+  scheduleId: string;
+  scheduleName: string;
+  report: RegressionReport;
+  timestamp: string;
+}
+
 /** Emitted when an error occurs during test execution. */
 export interface TestErrorEvent {
   testId: string;
@@ -93,9 +150,14 @@ export type TestWsServerMessage =
   | { type: "test-status-changed" } & TestStatusChangedEvent
   | { type: "target-llm-decision" } & TargetLlmDecisionEvent
   | { type: "agent-action" } & AgentActionEvent
+  | { type: "agent-tree-tick" } & AgentTreeTickEvent
   | { type: "test-chat-message" } & TestChatMessageEvent
   | { type: "test-metrics-updated" } & TestMetricsUpdatedEvent
+  | { type: "test-world-progress" } & TestWorldProgressEvent
+  | { type: "test-phase-changed" } & TestPhaseChangedEvent
+  | { type: "test-intensity-step" } & TestIntensityStepEvent
   | { type: "test-completed" } & TestCompletedEvent
+  | { type: "test-regression" } & TestRegressionEvent
   | { type: "test-error" } & TestErrorEvent
   | { type: "pong" };
 
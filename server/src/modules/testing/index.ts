@@ -9,16 +9,35 @@
 
 import { Elysia, status, t } from "elysia";
 import { TestingService } from "./service";
-import type { CreateTestRequest } from "./types";
+import type {
+  CreateTestRequest,
+  CreateTestSuiteRequest,
+  CreateTestScheduleRequest,
+  UpdateTestScheduleRequest,
+} from "./types";
 import {
   CreateTestRequestSchema,
   TestRunSchema,
   TestListResponseSchema,
   ScenarioInfoSchema,
   ScenarioListResponseSchema,
+  TestScenarioSchema,
   TestActionLogSchema,
   TestErrorResponseSchema,
   TestSuccessResponseSchema,
+  ParseFailureReportSchema,
+  CreateTestSuiteRequestSchema,
+  TestSuiteSchema,
+  TestSuiteListResponseSchema,
+  LeaderboardSchema,
+  LeaderboardMetricSchema,
+  IntensitySweepSchema,
+  CreateTestScheduleRequestSchema,
+  UpdateTestScheduleRequestSchema,
+  TestScheduleSchema,
+  TestScheduleListResponseSchema,
+  ScheduledRunSchema,
+  ReplayComparisonSchema,
 } from "./model";
 
 export const testingController = new Elysia({
@@ -32,9 +51,22 @@ export const testingController = new Elysia({
     "testing.testList": TestListResponseSchema,
     "testing.scenarioInfo": ScenarioInfoSchema,
     "testing.scenarioList": ScenarioListResponseSchema,
+    "testing.scenario": TestScenarioSchema,
     "testing.actionLog": TestActionLogSchema,
     "testing.error": TestErrorResponseSchema,
     "testing.success": TestSuccessResponseSchema,
+    "testing.parseStats": ParseFailureReportSchema,
+    "testing.createSuiteRequest": CreateTestSuiteRequestSchema,
+    "testing.suite": TestSuiteSchema,
+    "testing.suiteList": TestSuiteListResponseSchema,
+    "testing.leaderboard": LeaderboardSchema,
+    "testing.intensitySweep": IntensitySweepSchema,
+    "testing.createScheduleRequest": CreateTestScheduleRequestSchema,
+    "testing.updateScheduleRequest": UpdateTestScheduleRequestSchema,
+    "testing.schedule": TestScheduleSchema,
+    "testing.scheduleList": TestScheduleListResponseSchema,
+    "testing.scheduledRun": ScheduledRunSchema,
+    "testing.replayComparison": ReplayComparisonSchema,
   })
 
   // -------------------------------------------------------------------------
@@ -78,6 +110,675 @@ export const testingController = new Elysia({
     },
   )
 
+  // -------------------------------------------------------------------------
+  // GET /api/tests/scenarios/:type — Get a full scenario definition
+  // -------------------------------------------------------------------------
+  .get(
+    "/scenarios/:type",
+    ({ params }) => {
+      const result = TestingService.getScenario(params.type);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        type: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.scenario",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Get Scenario",
+        description:
+          "Get a scenario's full definition: objective prompt, profiles, " +
+          "initial conditions, success criteria and relevant metrics.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/scenarios — Author a new scenario
+  // -------------------------------------------------------------------------
+  .post(
+    "/scenarios",
+    ({ body }) => {
+      const result = TestingService.createScenario(body);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      body: "testing.scenario",
+      response: {
+        200: "testing.scenario",
+        400: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Create Scenario",
+        description:
+          "Validate a scenario definition and save it to the scenario directory " +
+          "as <type>.json. Available to new tests immediately.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // PUT /api/tests/scenarios/:type — Replace a scenario definition
+  // -------------------------------------------------------------------------
+  .put(
+    "/scenarios/:type",
+    ({ params, body }) => {
+      const result = TestingService.updateScenario(params.type, body);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        type: t.String({ minLength: 1 }),
+      }),
+      body: "testing.scenario",
+      response: {
+        200: "testing.scenario",
+        400: "testing.error",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Update Scenario",
+        description:
+          "Replace an existing scenario definition. The body's type must match " +
+          "the path. Tests already running keep the definition they started with.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // DELETE /api/tests/scenarios/:type — Delete a scenario definition
+  // -------------------------------------------------------------------------
+  .delete(
+    "/scenarios/:type",
+    async ({ params }) => {
+      const result = await TestingService.deleteScenario(params.type);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return {
+        success: true as const,
+        message: result.data.message,
+      };
+    },
+    {
+      params: t.Object({
+        type: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.success",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Delete Scenario",
+        description:
+          "Delete a scenario definition file. Refused while a test of that scenario is active.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/parse-stats — Parse failure rate per LLM response mode
+  // -------------------------------------------------------------------------
+  .get(
+    "/parse-stats",
+    async ({ query }) => {
+      const result = await TestingService.getParseStats({
+        targetLlmModel: query.targetLlmModel,
+      });
+
+      if (!result.ok) {
+        return status(500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      query: t.Object({
+        targetLlmModel: t.Optional(t.String()),
+      }),
+      response: {
+        200: "testing.parseStats",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Parse Failure Stats",
+        description:
+          "Target LLM parse failure rate across test runs, reported separately " +
+          "for JSON mode and tool-calling mode.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/suites — Create and start a test suite
+  // -------------------------------------------------------------------------
+  .post(
+    "/suites",
+    async ({ body }) => {
+      const result = await TestingService.createSuite(body as CreateTestSuiteRequest);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      body: "testing.createSuiteRequest",
+      response: {
+        200: "testing.suite",
+        400: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Create Suite",
+        description:
+          "Run one scenario configuration across several target LLM models, " +
+          "`repetitions` times each. Runs beyond the concurrency limit are queued.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/suites — List test suites
+  // -------------------------------------------------------------------------
+  .get(
+    "/suites",
+    async ({ query }) => {
+      const result = await TestingService.listSuites({ status: query.status });
+
+      if (!result.ok) {
+        return status(500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      query: t.Object({
+        status: t.Optional(t.String()),
+      }),
+      response: {
+        200: "testing.suiteList",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "List Suites",
+        description: "Get all test suites, newest first, with an optional status filter.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/suites/:suiteId — Get a single test suite
+  // -------------------------------------------------------------------------
+  .get(
+    "/suites/:suiteId",
+    async ({ params }) => {
+      const result = await TestingService.getSuite(params.suiteId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        suiteId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.suite",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Get Suite",
+        description: "Get a test suite with its run matrix and the test run created for each cell.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/suites/:suiteId/cancel — Cancel a running suite
+  // -------------------------------------------------------------------------
+  .post(
+    "/suites/:suiteId/cancel",
+    async ({ params }) => {
+      const result = await TestingService.cancelSuite(params.suiteId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        suiteId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.suite",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Cancel Suite",
+        description: "Stop starting new runs for a suite and stop its active runs.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // DELETE /api/tests/suites/:suiteId — Delete a test suite
+  // -------------------------------------------------------------------------
+  .delete(
+    "/suites/:suiteId",
+    async ({ params }) => {
+      const result = await TestingService.deleteSuite(params.suiteId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return {
+        success: true as const,
+        message: result.data.message,
+      };
+    },
+    {
+      params: t.Object({
+        suiteId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.success",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Delete Suite",
+        description:
+          "Delete a test suite that is not running. Its test runs are kept in history.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/suites/:suiteId/leaderboard — Rank the suite's models
+  // -------------------------------------------------------------------------
+  .get(
+    "/suites/:suiteId/leaderboard",
+    async ({ params, query }) => {
+      const result = await TestingService.getSuiteLeaderboard(params.suiteId, query.metric);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        suiteId: t.String({ minLength: 1 }),
+      }),
+      query: t.Object({
+        metric: t.Optional(LeaderboardMetricSchema),
+      }),
+      response: {
+        200: "testing.leaderboard",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Suite Leaderboard",
+        description:
+          "Rank the suite's models by a metric (default: success-rate) over their " +
+          "finished runs, with 95% confidence intervals and whether each gap to " +
+          "the model ranked above is statistically significant.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/suites/:suiteId/sweep — Metrics per behavior intensity
+  // -------------------------------------------------------------------------
+  .get(
+    "/suites/:suiteId/sweep",
+    async ({ params }) => {
+      const result = await TestingService.getSuiteSweep(params.suiteId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        suiteId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.intensitySweep",
+        400: "testing.error",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Suite Intensity Sweep",
+        description:
+          "For a suite created with behaviorIntensities, summarise every " +
+          "leaderboard metric per model at each testing-agent intensity.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/schedules — Create a recurring test schedule
+  // -------------------------------------------------------------------------
+  .post(
+    "/schedules",
+    async ({ body }) => {
+      const result = await TestingService.createSchedule(body as CreateTestScheduleRequest);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      body: "testing.createScheduleRequest",
+      response: {
+        200: "testing.schedule",
+        400: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Create Schedule",
+        description:
+          "Run a test configuration on a five-field cron expression (UTC). Each finished " +
+          "run is compared to a rolling baseline of the schedule's previous runs, and a " +
+          "`test-regression` event is emitted if key metrics drop beyond the threshold.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/schedules — List test schedules
+  // -------------------------------------------------------------------------
+  .get(
+    "/schedules",
+    async () => {
+      const result = await TestingService.listSchedules();
+
+      if (!result.ok) {
+        return status(500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      response: {
+        200: "testing.scheduleList",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "List Schedules",
+        description: "Get all test schedules, newest first.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/schedules/:scheduleId — Get a single test schedule
+  // -------------------------------------------------------------------------
+  .get(
+    "/schedules/:scheduleId",
+    async ({ params }) => {
+      const result = await TestingService.getSchedule(params.scheduleId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        scheduleId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.schedule",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Get Schedule",
+        description: "Get a test schedule with its recent runs and their regression reports.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // PATCH /api/tests/schedules/:scheduleId — Update a test schedule
+  // -------------------------------------------------------------------------
+  .patch(
+    "/schedules/:scheduleId",
+    async ({ params, body }) => {
+      const result = await TestingService.updateSchedule(
+        params.scheduleId,
+        body as UpdateTestScheduleRequest,
+      );
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        scheduleId: t.String({ minLength: 1 }),
+      }),
+      body: "testing.updateScheduleRequest",
+      response: {
+        200: "testing.schedule",
+        400: "testing.error",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Update Schedule",
+        description:
+          "Rename a schedule, change its cron expression or regression policy, or " +
+          "enable/disable it. The next run is recomputed from now.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // DELETE /api/tests/schedules/:scheduleId — Delete a test schedule
+  // -------------------------------------------------------------------------
+  .delete(
+    "/schedules/:scheduleId",
+    async ({ params }) => {
+      const result = await TestingService.deleteSchedule(params.scheduleId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return {
+        success: true as const,
+        message: result.data.message,
+      };
+    },
+    {
+      params: t.Object({
+        scheduleId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.success",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Delete Schedule",
+        description: "Delete a test schedule. Its test runs are kept in history.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/schedules/:scheduleId/trigger — Run a schedule now
+  // -------------------------------------------------------------------------
+  .post(
+    "/schedules/:scheduleId/trigger",
+    async ({ params }) => {
+      const result = await TestingService.triggerSchedule(params.scheduleId);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        scheduleId: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.scheduledRun",
+        400: "testing.error",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Trigger Schedule",
+        description:
+          "Start a run of the schedule now. The run joins the schedule's history " +
+          "and baseline; the next cron run is unchanged.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
   // -------------------------------------------------------------------------
   // POST /api/tests — Create a new test run
   // -------------------------------------------------------------------------
@@ -220,7 +921,8 @@ export const testingController = new Elysia({
         summary: "Start Test",
         description:
           "Begin execution of a previously created test run. " +
-          "Spawns agents, creates Discord channels, and starts the orchestration pipeline.",
+          "Spawns agents, creates Discord channels, and starts the orchestration pipeline. " +
+          "If the concurrency limit is reached the run is queued and starts when a slot frees up.",
         tags: ["Testing"],
       },
     },
@@ -257,13 +959,167 @@ export const testingController = new Elysia({
       detail: {
         summary: "Stop Test",
         description:
-          "Manually stop a running test. Terminates all agents, " +
+          "Manually stop a running, paused or queued test. Terminates all agents, " +
           "disconnects from voice, and marks the test as cancelled.",
         tags: ["Testing"],
       },
     },
   )
 
+  // -------------------------------------------------------------------------
+  // POST /api/tests/:id/pause — Pause test execution
+  // -------------------------------------------------------------------------
+  .post(
+    "/:id/pause",
+    async ({ params }) => {
+      const result = await TestingService.pauseTest(params.id);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        id: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.testRun",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Pause Test",
+        description:
+          "Pause an executing test. Freezes the target LLM's polling loop, pauses " +
+          "the testing agents, stops all bots moving and suspends the timeout; " +
+          "time spent paused does not count against the test duration.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/:id/resume — Resume test execution
+  // -------------------------------------------------------------------------
+  .post(
+    "/:id/resume",
+    async ({ params }) => {
+      const result = await TestingService.resumeTest(params.id);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        id: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.testRun",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Resume Test",
+        description:
+          "Resume a paused test with the time that was left on its timeout.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // POST /api/tests/:id/replay — Replay a finished test
+  // -------------------------------------------------------------------------
+  .post(
+    "/:id/replay",
+    async ({ params }) => {
+      const result = await TestingService.replayTest(params.id);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 409 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        id: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.testRun",
+        400: "testing.error",
+        404: "testing.error",
+        409: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Replay Test",
+        description:
+          "Start a new run that replays a finished test: same scenario, model, " +
+          "agents and random seed, with the target fed the original run's recorded " +
+          "LLM responses instead of calling the model.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
+  // -------------------------------------------------------------------------
+  // GET /api/tests/:id/replay-comparison — Compare a replay with its original
+  // -------------------------------------------------------------------------
+  .get(
+    "/:id/replay-comparison",
+    async ({ params }) => {
+      const result = await TestingService.getReplayComparison(params.id);
+
+      if (!result.ok) {
+        return status(result.httpStatus as 400 | 404 | 500, {
+          success: false as const,
+          message: result.message,
+          code: result.code,
+        });
+      }
+
+      return result.data;
+    },
+    {
+      params: t.Object({
+        id: t.String({ minLength: 1 }),
+      }),
+      response: {
+        200: "testing.replayComparison",
+        400: "testing.error",
+        404: "testing.error",
+        500: "testing.error",
+      },
+      detail: {
+        summary: "Get Replay Comparison",
+        description:
+          "Compare a replay's target decisions with the run it replays, reporting " +
+          "the first decision whose actions ended differently.",
+        tags: ["Testing"],
+      },
+    },
+  )
+
   // -------------------------------------------------------------------------
   // DELETE /api/tests/:id — Delete a test run
   // -------------------------------------------------------------------------
@@ -6,22 +6,26 @@
  */
 
 import { t } from "elysia";
+import { BehavioralProfileSchema, ScriptedChatSchema } from "../agents/model";
 
 // ---------------------------------------------------------------------------
 // Enums
 // ---------------------------------------------------------------------------
 
-export const ScenarioTypeSchema = t.Union([
-  t.Literal("cooperation"),
-  t.Literal("resource-management"),
-]);
+/** Scenario type: the kebab-case name of a scenario definition file. */
+export const ScenarioTypeSchema = t.String({
+  pattern: "^[a-z0-9]+(-[a-z0-9]+)*$",
+  maxLength: 64,
+});
 export type ScenarioTypeModel = typeof ScenarioTypeSchema.static;
 
 export const TestRunStatusSchema = t.Union([
   t.Literal("created"),
+  t.Literal("queued"),
   t.Literal("initializing"),
   t.Literal("coordination"),
   t.Literal("executing"),
+  t.Literal("paused"),
   t.Literal("completing"),
   t.Literal("completed"),
   t.Literal("failed"),
@@ -35,6 +39,7 @@ export const CompletionReasonSchema = t.Union([
   t.Literal("manual-stop"),
   t.Literal("error"),
   t.Literal("all-agents-failed"),
+  t.Literal("server-restart"),
 ]);
 export type CompletionReasonModel = typeof CompletionReasonSchema.static;
 
@@ -49,7 +54,13 @@ export const TestMetricsSchema = t.Object({
   targetMessageCount: t.Number(),
   testingAgentMessageCount: t.Number(),
   llmErrorCount: t.Number(),
+  llmParseFailureCount: t.Number(),
   totalLlmResponseTimeMs: t.Number(),
+  totalInputTokens: t.Number(),
+  totalOutputTokens: t.Number(),
+  totalTokens: t.Number(),
+  totalCostUsd: t.Number(),
+  unpricedCallCount: t.Number(),
   lastLlmDecisionAt: t.Nullable(t.String()),
 });
 export type TestMetricsModel = typeof TestMetricsSchema.static;
@@ -58,9 +69,39 @@ export type TestMetricsModel = typeof TestMetricsSchema.static;
 // Test Run Config
 // ---------------------------------------------------------------------------
 
+export const LlmResponseModeSchema = t.Union([
+  t.Literal("json"),
+  t.Literal("tools"),
+]);
+
+export const MemoryStrategySchema = t.Union([
+  t.Literal("stateless"),
+  t.Literal("memory"),
+]);
+
+export const PerceptionVerbositySchema = t.Union([
+  t.Literal("none"),
+  t.Literal("minimal"),
+  t.Literal("standard"),
+  t.Literal("detailed"),
+]);
+
+export const TestingAgentModeSchema = t.Union([
+  t.Literal("scripted"),
+  t.Literal("llm"),
+]);
+
 export const TestRunConfigSchema = t.Object({
   llmPollingIntervalMs: t.Number(),
+  llmResponseMode: LlmResponseModeSchema,
+  memoryStrategy: MemoryStrategySchema,
+  memoryTokenBudget: t.Number(),
+  perceptionVerbosity: PerceptionVerbositySchema,
   behaviorIntensity: t.Number(),
+  adaptiveIntensity: t.Boolean(),
+  testingAgentMode: TestingAgentModeSchema,
+  testingAgentModel: t.String(),
+  randomSeed: t.Number(),
   enableVoice: t.Boolean(),
   enableText: t.Boolean(),
   targetLlmSystemPromptOverride: t.Nullable(t.String()),
@@ -72,6 +113,70 @@ export const TestRunConfigSchema = t.Object({
 });
 export type TestRunConfigModel = typeof TestRunConfigSchema.static;
 
+// ---------------------------------------------------------------------------
+// World Setup
+// ---------------------------------------------------------------------------
+
+export const WorldSetupReportSchema = t.Object({
+  applied: t.Boolean(),
+  appliedAt: t.String(),
+  errors: t.Array(t.String()),
+});
+export type WorldSetupReportModel = typeof WorldSetupReportSchema.static;
+
+// ---------------------------------------------------------------------------
+// World Checks
+// ---------------------------------------------------------------------------
+
+export const WorldCheckProgressSchema = t.Object({
+  id: t.String(),
+  description: t.String(),
+  type: t.Union([
+    t.Literal("block-count"),
+    t.Literal("enclosed-structure"),
+    t.Literal("inventory-items"),
+    t.Literal("crafted-item"),
+  ]),
+  progress: t.Number({ minimum: 0, maximum: 1 }),
+  met: t.Boolean(),
+  detail: t.String(),
+});
+export type WorldCheckProgressModel = typeof WorldCheckProgressSchema.static;
+
+// ---------------------------------------------------------------------------
+// Phases
+// ---------------------------------------------------------------------------
+
+export const PhaseRecordSchema = t.Object({
+  id: t.String(),
+  description: t.String(),
+  startedAt: t.String(),
+  elapsedSeconds: t.Number(),
+  objectiveChanged: t.Boolean(),
+  errors: t.Array(t.String()),
+});
+export type PhaseRecordModel = typeof PhaseRecordSchema.static;
+
+// ---------------------------------------------------------------------------
+// Adaptive Intensity
+// ---------------------------------------------------------------------------
+
+export const TargetAssessmentSchema = t.Union([
+  t.Literal("coping"),
+  t.Literal("stuck"),
+  t.Literal("steady"),
+]);
+
+export const IntensityStepSchema = t.Object({
+  at: t.String(),
+  elapsedSeconds: t.Number(),
+  intensity: t.Number(),
+  assessment: TargetAssessmentSchema,
+  reason: t.String(),
+  nextIntensity: t.Number(),
+});
+export type IntensityStepModel = typeof IntensityStepSchema.static;
+
 // ---------------------------------------------------------------------------
 // Test Run (full state)
 // ---------------------------------------------------------------------------
@@ -89,14 +194,174 @@ export const TestRunSchema = t.Object({
   discordVoiceChannelId: t.Nullable(t.String()),
   durationSeconds: t.Number(),
   createdAt: t.String(),
+  queuedAt: t.Nullable(t.String()),
   startedAt: t.Nullable(t.String()),
   endedAt: t.Nullable(t.String()),
+  pausedAt: t.Nullable(t.String()),
+  pausedSeconds: t.Number(),
   completionReason: t.Nullable(CompletionReasonSchema),
   config: TestRunConfigSchema,
   metrics: TestMetricsSchema,
+  worldSetup: t.Nullable(WorldSetupReportSchema),
+  worldProgress: t.Array(WorldCheckProgressSchema),
+  phaseHistory: t.Array(PhaseRecordSchema),
+  intensityTimeline: t.Array(IntensityStepSchema),
+  replayOf: t.Nullable(t.String()),
 });
 export type TestRunModel = typeof TestRunSchema.static;
 
+// ---------------------------------------------------------------------------
+// Scenario Definitions
+// ---------------------------------------------------------------------------
+
+const Vec3Schema = t.Object({ x: t.Number(), y: t.Number(), z: t.Number() });
+
+const BoundingBoxSchema = t.Object({ min: Vec3Schema, max: Vec3Schema });
+
+const BlockPatternsSchema = t.Array(t.String({ minLength: 1 }), { minItems: 1 });
+
+const InventoryItemSchema = t.Object({
+  name: t.String({ minLength: 1 }),
+  count: t.Integer({ minimum: 1 }),
+});
+
+const WorldCheckBase = {
+  id: t.String({ minLength: 1 }),
+  description: t.String(),
+};
+
+export const WorldCheckSchema = t.Union([
+  t.Object({
+    type: t.Literal("block-count"),
+    ...WorldCheckBase,
+    region: BoundingBoxSchema,
+    blocks: BlockPatternsSchema,
+    minCount: t.Integer({ minimum: 1 }),
+  }),
+  t.Object({
+    type: t.Literal("enclosed-structure"),
+    ...WorldCheckBase,
+    region: BoundingBoxSchema,
+    footprint: t.Object({
+      width: t.Integer({ minimum: 3 }),
+      depth: t.Integer({ minimum: 3 }),
+    }),
+    wallHeight: t.Integer({ minimum: 1 }),
+    requireRoof: t.Boolean(),
+    blocks: BlockPatternsSchema,
+    minCompletion: t.Number({ minimum: 0, maximum: 1 }),
+  }),
+  t.Object({
+    type: t.Literal("inventory-items"),
+    ...WorldCheckBase,
+    items: t.Array(InventoryItemSchema, { minItems: 1 }),
+  }),
+  t.Object({
+    type: t.Literal("crafted-item"),
+    ...WorldCheckBase,
+    item: t.String({ minLength: 1 }),
+    count: t.Integer({ minimum: 1 }),
+  }),
+]);
+
+export const SuccessCriteriaSchema = t.Object({
+  description: t.String(),
+  minCooperativeActions: t.Nullable(t.Integer({ minimum: 0 })),
+  minTasksCompleted: t.Nullable(t.Integer({ minimum: 0 })),
+  maxLlmErrorRate: t.Nullable(t.Number({ minimum: 0, maximum: 1 })),
+  requiresDiscordCommunication: t.Boolean(),
+  worldChecks: t.Array(WorldCheckSchema),
+});
+
+export const InitialConditionsSchema = t.Object({
+  spawnRadius: t.Number({ minimum: 0 }),
+  spawnPosition: t.Optional(
+    t.Object({
+      x: t.Number(),
+      y: t.Number(),
+      z: t.Number(),
+      yaw: t.Optional(t.Number()),
+      pitch: t.Optional(t.Number()),
+    })
+  ),
+  targetStartingInventory: t.Array(InventoryItemSchema),
+  testerStartingInventory: t.Array(InventoryItemSchema),
+  timeOfDay: t.Integer({ minimum: 0, maximum: 23999 }),
+  weather: t.Union([t.Literal("clear"), t.Literal("rain"), t.Literal("thunder")]),
+  containers: t.Optional(
+    t.Array(
+      t.Object({
+        x: t.Integer(),
+        y: t.Integer(),
+        z: t.Integer(),
+        items: t.Array(InventoryItemSchema, { maxItems: 27 }),
+      })
+    )
+  ),
+});
+
+const PhaseTriggerSchema = t.Union([
+  t.Object({
+    type: t.Literal("elapsed"),
+    seconds: t.Number({ minimum: 0 }),
+  }),
+  t.Object({
+    type: t.Literal("world-progress"),
+    checkId: t.String({ minLength: 1 }),
+    atLeast: t.Number({ minimum: 0, maximum: 1 }),
+  }),
+]);
+
+const PhaseEventSchema = t.Union([
+  t.Object({
+    type: t.Literal("agent-leaves"),
+    profile: BehavioralProfileSchema,
+  }),
+  t.Object({
+    type: t.Literal("agent-chat"),
+    profile: BehavioralProfileSchema,
+    message: t.String({ minLength: 1 }),
+  }),
+  t.Object({
+    type: t.Literal("empty-container"),
+    x: t.Integer(),
+    y: t.Integer(),
+    z: t.Integer(),
+  }),
+  t.Object({
+    type: t.Literal("command"),
+    command: t.String({ pattern: "^/", minLength: 2 }),
+  }),
+]);
+
+export const ScenarioPhaseSchema = t.Object({
+  id: t.String({ minLength: 1 }),
+  description: t.String(),
+  trigger: PhaseTriggerSchema,
+  events: t.Array(PhaseEventSchema),
+  objectivePrompt: t.Optional(t.String({ minLength: 1 })),
+});
+
+/** A full scenario definition, as stored in a scenario file. */
+export const TestScenarioSchema = t.Object({
+  type: ScenarioTypeSchema,
+  name: t.String({ minLength: 1 }),
+  description: t.String(),
+  defaultProfiles: t.Array(BehavioralProfileSchema, { minItems: 1, maxItems: 5 }),
+  successCriteria: SuccessCriteriaSchema,
+  defaultDurationSeconds: t.Number({ minimum: 60, maximum: 1800 }),
+  objectivePrompt: t.String({ minLength: 1 }),
+  initialConditions: InitialConditionsSchema,
+  relevantMetrics: t.Array(t.String()),
+  scriptedChat: t.Optional(
+    t.Record(BehavioralProfileSchema, ScriptedChatSchema, {
+      additionalProperties: false,
+    })
+  ),
+  phases: t.Optional(t.Array(ScenarioPhaseSchema)),
+});
+export type TestScenarioModel = typeof TestScenarioSchema.static;
+
 // ---------------------------------------------------------------------------
 // API Request Bodies
 // ---------------------------------------------------------------------------
@@ -118,9 +383,21 @@ export const CreateTestRequestSchema = t.Object({
       llmPollingIntervalMs: t.Optional(
         t.Number({ minimum: 3000, maximum: 30000 })
       ),
+      llmResponseMode: t.Optional(LlmResponseModeSchema),
+      memoryStrategy: t.Optional(MemoryStrategySchema),
+      memoryTokenBudget: t.Optional(
+        t.Number({ minimum: 1000, maximum: 32000 })
+      ),
+      perceptionVerbosity: t.Optional(PerceptionVerbositySchema),
       behaviorIntensity: t.Optional(
         t.Number({ minimum: 0, maximum: 1 })
       ),
+      adaptiveIntensity: t.Optional(t.Boolean()),
+      testingAgentMode: t.Optional(TestingAgentModeSchema),
+      testingAgentModel: t.Optional(t.String({ minLength: 1 })),
+      randomSeed: t.Optional(
+        t.Integer({ minimum: 0, maximum: 4294967295 })
+      ),
       enableVoice: t.Optional(t.Boolean()),
       enableText: t.Optional(t.Boolean()),
       targetLlmSystemPromptOverride: t.Optional(OptionalString),
@@ -136,6 +413,225 @@ export const CreateTestRequestSchema = t.Object({
 });
 export type CreateTestRequestModel = typeof CreateTestRequestSchema.static;
 
+// ---------------------------------------------------------------------------
+// Test Suites
+// ---------------------------------------------------------------------------
+
+export const TestSuiteStatusSchema = t.Union([
+  t.Literal("running"),
+  t.Literal("completed"),
+  t.Literal("cancelled"),
+]);
+export type TestSuiteStatusModel = typeof TestSuiteStatusSchema.static;
+
+/** Settings shared by every run of a suite. */
+export const SuiteRunTemplateSchema = t.Omit(CreateTestRequestSchema, [
+  "scenarioType",
+  "targetLlmModel",
+]);
+
+export const SuiteRunSchema = t.Object({
+  targetLlmModel: t.String(),
+  repetition: t.Number(),
+  behaviorIntensity: t.Nullable(t.Number()),
+  randomSeed: t.Number(),
+  testId: t.Nullable(t.String()),
+  error: t.Nullable(t.String()),
+});
+export type SuiteRunModel = typeof SuiteRunSchema.static;
+
+export const TestSuiteSchema = t.Object({
+  suiteId: t.String(),
+  name: t.String(),
+  scenarioType: ScenarioTypeSchema,
+  targetLlmModels: t.Array(t.String()),
+  repetitions: t.Number(),
+  behaviorIntensities: t.Nullable(t.Array(t.Number())),
+  runTemplate: SuiteRunTemplateSchema,
+  runs: t.Array(SuiteRunSchema),
+  status: TestSuiteStatusSchema,
+  createdAt: t.String(),
+  endedAt: t.Nullable(t.String()),
+});
+export type TestSuiteModel = typeof TestSuiteSchema.static;
+
+export const CreateTestSuiteRequestSchema = t.Composite([
+  SuiteRunTemplateSchema,
+  t.Object({
+    name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+    scenarioType: ScenarioTypeSchema,
+    targetLlmModels: t.Array(t.String({ minLength: 1 }), { minItems: 1, maxItems: 10 }),
+    repetitions: t.Number({ minimum: 1, maximum: 20 }),
+    behaviorIntensities: t.Optional(
+      t.Array(t.Number({ minimum: 0, maximum: 1 }), { minItems: 1, maxItems: 5 })
+    ),
+  }),
+]);
+export type CreateTestSuiteRequestModel = typeof CreateTestSuiteRequestSchema.static;
+
+export const TestSuiteListResponseSchema = t.Object({
+  suites: t.Array(TestSuiteSchema),
+  count: t.Number(),
+});
+export type TestSuiteListResponseModel = typeof TestSuiteListResponseSchema.static;
+
+// ---------------------------------------------------------------------------
+// Leaderboard
+// ---------------------------------------------------------------------------
+
+export const LeaderboardMetricSchema = t.Union([
+  t.Literal("success-rate"),
+  t.Literal("world-progress"),
+  t.Literal("llm-error-rate"),
+  t.Literal("response-time-ms"),
+  t.Literal("cost-usd"),
+]);
+export type LeaderboardMetricModel = typeof LeaderboardMetricSchema.static;
+
+export const LeaderboardMetricStatsSchema = t.Object({
+  metric: LeaderboardMetricSchema,
+  mean: t.Number(),
+  stdDev: t.Number(),
+  lower: t.Number(),
+  upper: t.Number(),
+  sampleSize: t.Number(),
+});
+
+export const LeaderboardEntrySchema = t.Object({
+  rank: t.Number(),
+  targetLlmModel: t.String(),
+  runCount: t.Number(),
+  metrics: t.Array(LeaderboardMetricStatsSchema),
+  significantVsAbove: t.Nullable(t.Boolean()),
+});
+
+export const LeaderboardSchema = t.Object({
+  rankingMetric: LeaderboardMetricSchema,
+  entries: t.Array(LeaderboardEntrySchema),
+  excludedRunCount: t.Number(),
+});
+export type LeaderboardModel = typeof LeaderboardSchema.static;
+
+export const IntensitySweepSchema = t.Object({
+  suiteId: t.String(),
+  behaviorIntensities: t.Array(t.Number()),
+  series: t.Array(
+    t.Object({
+      targetLlmModel: t.String(),
+      points: t.Array(
+        t.Object({
+          behaviorIntensity: t.Number(),
+          runCount: t.Number(),
+          metrics: t.Array(LeaderboardMetricStatsSchema),
+        })
+      ),
+    })
+  ),
+  excludedRunCount: t.Number(),
+});
+export type IntensitySweepModel = typeof IntensitySweepSchema.static;
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+export const RegressionPolicySchema = t.Object({
+  metrics: t.Array(LeaderboardMetricSchema, { minItems: 1 }),
+  baselineSize: t.Number({ minimum: 2, maximum: 50 }),
+  threshold: t.Number({ minimum: 0 }),
+});
+export type RegressionPolicyModel = typeof RegressionPolicySchema.static;
+
+export const MetricComparisonSchema = t.Object({
+  metric: LeaderboardMetricSchema,
+  baseline: t.Number(),
+  value: t.Number(),
+  change: t.Number(),
+  regressed: t.Boolean(),
+});
+export type MetricComparisonModel = typeof MetricComparisonSchema.static;
+
+export const RegressionReportSchema = t.Object({
+  baselineTestIds: t.Array(t.String()),
+  comparisons: t.Array(MetricComparisonSchema),
+  regressed: t.Boolean(),
+  evaluatedAt: t.String(),
+});
+export type RegressionReportModel = typeof RegressionReportSchema.static;
+
+export const ScheduledRunSchema = t.Object({
+  testId: t.String(),
+  triggeredAt: t.String(),
+  report: t.Nullable(RegressionReportSchema),
+});
+export type ScheduledRunModel = typeof ScheduledRunSchema.static;
+
+export const TestScheduleSchema = t.Object({
+  scheduleId: t.String(),
+  name: t.String(),
+  cron: t.String(),
+  enabled: t.Boolean(),
+  runTemplate: CreateTestRequestSchema,
+  regressionPolicy: RegressionPolicySchema,
+  runs: t.Array(ScheduledRunSchema),
+  nextRunAt: t.Nullable(t.String()),
+  lastRunAt: t.Nullable(t.String()),
+  createdAt: t.String(),
+});
+export type TestScheduleModel = typeof TestScheduleSchema.static;
+
+export const CreateTestScheduleRequestSchema = t.Object({
+  name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+  cron: t.String({ minLength: 1 }),
+  enabled: t.Optional(t.Boolean()),
+  runTemplate: CreateTestRequestSchema,
+  regressionPolicy: t.Optional(t.Partial(RegressionPolicySchema)),
+});
+export type CreateTestScheduleRequestModel = typeof CreateTestScheduleRequestSchema.static;
+
+export const UpdateTestScheduleRequestSchema = t.Partial(
+  t.Omit(CreateTestScheduleRequestSchema, ["runTemplate"]),
+);
+export type UpdateTestScheduleRequestModel = typeof UpdateTestScheduleRequestSchema.static;
+
+export const TestScheduleListResponseSchema = t.Object({
+  schedules: t.Array(TestScheduleSchema),
+  count: t.Number(),
+});
+export type TestScheduleListResponseModel = typeof TestScheduleListResponseSchema.static;
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+export const TargetActionOutcomeSchema = t.Object({
+  actionType: t.String(),
+  status: t.Union([
+    t.Literal("success"),
+    t.Literal("failure"),
+    t.Literal("cancelled"),
+  ]),
+  message: t.String(),
+  durationMs: t.Number(),
+});
+
+export const ReplayComparisonSchema = t.Object({
+  sourceTestId: t.String(),
+  replayTestId: t.String(),
+  originalDecisions: t.Number(),
+  replayedDecisions: t.Number(),
+  firstDivergence: t.Nullable(
+    t.Object({
+      decision: t.Number(),
+      originalTimestamp: t.String(),
+      replayTimestamp: t.String(),
+      originalResults: t.Array(TargetActionOutcomeSchema),
+      replayResults: t.Array(TargetActionOutcomeSchema),
+    })
+  ),
+});
+export type ReplayComparisonModel = typeof ReplayComparisonSchema.static;
+
 // ---------------------------------------------------------------------------
 // API Response Models
 // ---------------------------------------------------------------------------
@@ -162,6 +658,20 @@ export const ScenarioListResponseSchema = t.Object({
 });
 export type ScenarioListResponseModel = typeof ScenarioListResponseSchema.static;
 
+export const ParseFailureStatsSchema = t.Object({
+  runCount: t.Number(),
+  decisionCount: t.Number(),
+  parseFailureCount: t.Number(),
+  failureRate: t.Number(),
+});
+export type ParseFailureStatsModel = typeof ParseFailureStatsSchema.static;
+
+export const ParseFailureReportSchema = t.Object({
+  json: ParseFailureStatsSchema,
+  tools: ParseFailureStatsSchema,
+});
+export type ParseFailureReportModel = typeof ParseFailureReportSchema.static;
+
 // ---------------------------------------------------------------------------
 // Action Log
 // ---------------------------------------------------------------------------
@@ -170,11 +680,18 @@ export const TestActionLogSchema = t.Object({
   logId: t.String(),
   testId: t.String(),
   sourceAgentId: t.String(),
-  sourceType: t.Union([t.Literal("target"), t.Literal("testing-agent")]),
+  sourceType: t.Union([
+    t.Literal("target"),
+    t.Literal("testing-agent"),
+    t.Literal("system"),
+  ]),
   actionCategory: t.Union([
     t.Literal("minecraft"),
     t.Literal("discord"),
     t.Literal("llm-decision"),
+    t.Literal("setup"),
+    t.Literal("phase"),
+    t.Literal("difficulty"),
   ]),
   actionDetail: t.String(),
   timestamp: t.String(),
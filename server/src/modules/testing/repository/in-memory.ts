@@ -1,11 +1,18 @@
 /**
  * In-Memory Testing Repository
  *
- * Data access layer for test runs and action logs using in-memory Maps.
+ * Data access layer for test runs, action logs, test suites and
+ * schedules using in-memory Maps.
  * Implements ITestingRepository so it can be swapped with Prisma.
  */
 
-import type { TestRun, TestActionLog, NumericMetricKey } from "../types";
+import type {
+  TestRun,
+  TestActionLog,
+  NumericMetricKey,
+  TestSuite,
+  TestSchedule,
+} from "../types";
 import type { ITestingRepository } from "./interface";
 
 // ---------------------------------------------------------------------------
@@ -14,6 +21,8 @@ import type { ITestingRepository } from "./interface";
 
 const testRunsStore = new Map<string, TestRun>();
 const actionLogsStore = new Map<string, TestActionLog[]>();
+const suitesStore = new Map<string, TestSuite>();
+const schedulesStore = new Map<string, TestSchedule>();
 
 // ---------------------------------------------------------------------------
 // Repository
@@ -114,7 +123,8 @@ export class InMemoryTestingRepository implements ITestingRepository {
       if (
         run.status === "initializing" ||
         run.status === "coordination" ||
-        run.status === "executing"
+        run.status === "executing" ||
+        run.status === "paused"
       ) {
         count++;
       }
@@ -150,4 +160,87 @@ export class InMemoryTestingRepository implements ITestingRepository {
 
     testRun.metrics[field] = value;
   }
+
+  /** Create a new test suite. */
+  async createSuite(suite: TestSuite): Promise<TestSuite> {
+    suitesStore.set(suite.suiteId, suite);
+    return suite;
+  }
+
+  /** Find a test suite by ID. */
+  async findSuiteById(suiteId: string): Promise<TestSuite | null> {
+    return suitesStore.get(suiteId) ?? null;
+  }
+
+  /** Find all test suites, newest first. */
+  async findAllSuites(filters?: { status?: string }): Promise<TestSuite[]> {
+    let suites = Array.from(suitesStore.values());
+
+    if (filters?.status) {
+      suites = suites.filter((s) => s.status === filters.status);
+    }
+
+    return suites.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  /** Update a test suite's data. */
+  async updateSuite(suiteId: string, data: Partial<TestSuite>): Promise<void> {
+    const suite = suitesStore.get(suiteId);
+    if (!suite) {
+      throw new Error(`Test suite ${suiteId} not found`);
+    }
+
+    suitesStore.set(suiteId, { ...suite, ...data });
+  }
+
+  /** Delete a test suite (its test runs are kept). */
+  async deleteSuite(suiteId: string): Promise<boolean> {
+    return suitesStore.delete(suiteId);
+  }
+
+  /** Create a new test schedule. */
+  async createSchedule(schedule: TestSchedule): Promise<TestSchedule> {
+    schedulesStore.set(schedule.scheduleId, schedule);
+    return schedule;
+  }
+
+  /** Find a test schedule by ID. */
+  async findScheduleById(scheduleId: string): Promise<TestSchedule | null> {
+    return schedulesStore.get(scheduleId) ?? null;
+  }
+
+  /** Find all test schedules, newest first. */
+  async findAllSchedules(filters?: { enabled?: boolean }): Promise<TestSchedule[]> {
+    let schedules = Array.from(schedulesStore.values());
+
+    if (filters?.enabled !== undefined) {
+      schedules = schedules.filter((s) => s.enabled === filters.enabled);
+    }
+
+    return schedules.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  /** Update a test schedule's data. */
+  async updateSchedule(
+    scheduleId: string,
+    data: Partial<TestSchedule>
+  ): Promise<void> {
+    const schedule = schedulesStore.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Test schedule ${scheduleId} not found`);
+    }
+
+    schedulesStore.set(scheduleId, { ...schedule, ...data });
+  }
+
+  /** Delete a test schedule (its test runs are kept). */
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    return schedulesStore.delete(scheduleId);
+  }
 }
@@ -5,7 +5,13 @@
  * interface so the rest of the codebase stays storage-agnostic.
  */
 
-import type { TestRun, TestActionLog, NumericMetricKey } from "../types";
+import type {
+  TestRun,
+  TestActionLog,
+  NumericMetricKey,
+  TestSuite,
+  TestSchedule,
+} from "../types";
 
 export interface ITestingRepository {
   /** Create a new test run. */
@@ -60,4 +66,34 @@ export interface ITestingRepository {
     field: "lastLlmDecisionAt",
     value: string | null
   ): Promise<void>;
+
+  /** Create a new test suite. */
+  createSuite(suite: TestSuite): Promise<TestSuite>;
+
+  /** Find a test suite by ID. */
+  findSuiteById(suiteId: string): Promise<TestSuite | null>;
+
+  /** Find all test suites, newest first. */
+  findAllSuites(filters?: { status?: string }): Promise<TestSuite[]>;
+
+  /** Update a test suite's data. */
+  updateSuite(suiteId: string, data: Partial<TestSuite>): Promise<void>;
+
+  /** Delete a test suite (its test runs are kept). */
+  deleteSuite(suiteId: string): Promise<boolean>;
+
+  /** Create a new test schedule. */
+  createSchedule(schedule: TestSchedule): Promise<TestSchedule>;
+
+  /** Find a test schedule by ID. */
+  findScheduleById(scheduleId: string): Promise<TestSchedule | null>;
+
+  /** Find all test schedules, newest first. */
+  findAllSchedules(filters?: { enabled?: boolean }): Promise<TestSchedule[]>;
+
+  /** Update a test schedule's data. */
+  updateSchedule(scheduleId: string, data: Partial<TestSchedule>): Promise<void>;
+
+  /** Delete a test schedule (its test runs are kept). */
+  deleteSchedule(scheduleId: string): Promise<boolean>;
 }
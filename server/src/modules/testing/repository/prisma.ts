@@ -5,6 +5,10 @@
  * Supabase PostgreSQL database. Handles bidirectional mapping
  * between domain types (types.ts) and the Prisma schema.
  *
+ * Test suites keep their model list, run template and run matrix in
+ * the TestSuite `definition` Json column; schedules keep their run
+ * template, regression policy and recent runs in TestSchedule's.
+ *
  * Extra domain fields that have no direct column (e.g. testingAgentIds,
  * metrics, channel IDs) are stored in the Prisma `config` Json blob
  * alongside the user-provided TestRunConfig.
@@ -20,15 +24,22 @@ import type {
   TestMetrics,
   TestRunConfig,
   NumericMetricKey,
+  WorldSetupReport,
+  WorldCheckProgress,
+  PhaseRecord,
+  IntensityStep,
+  TestSuite,
+  TestSuiteStatus,
+  TestSchedule,
 } from "../types";
 import type { BehavioralProfile } from "../../agents/model";
 import type { ITestingRepository } from "./interface";
 import {
-  ScenarioType as PrismaScenarioType,
   TestStatus as PrismaTestStatus,
   EventSource as PrismaEventSource,
 } from "../../../generated/prisma/client";
 import type { InputJsonValue } from "@prisma/client/runtime/client";
+import { DEFAULT_TESTING_AGENT_MODEL } from "../../../../constants/llm.constants";
 
 // ---------------------------------------------------------------------------
 // Mapping helpers: Domain <-> Prisma
@@ -57,50 +68,38 @@ interface ConfigBlob {
   discordVoiceChannelId: string | null;
   /** Test duration limit in seconds. */
   durationSeconds: number;
+  /** When the run last joined the queue. */
+  queuedAt: string | null;
+  /** When the current pause began. */
+  pausedAt: string | null;
+  /** Seconds spent in completed pauses. */
+  pausedSeconds: number;
   /** Completion reason if test has ended. */
   completionReason: CompletionReason | null;
   /** Accumulated metrics during the test. */
   metrics: TestMetrics;
-}
-
-/** Map domain ScenarioType -> Prisma ScenarioType enum. */
-function toPrismaScenarioType(s: ScenarioType): PrismaScenarioType {
-  switch (s) {
-    case "cooperation":
-      return PrismaScenarioType.COOPERATION;
-    case "resource-management":
-      return PrismaScenarioType.RESOURCE_MANAGEMENT;
-    default: {
-      // Exhaustiveness guard — if new scenario types are added this will
-      // surface as a compile error.
-      const _exhaustive: never = s;
-      throw new Error(`Unknown scenario type: ${_exhaustive}`);
-    }
-  }
-}
-
-/** Map Prisma ScenarioType enum -> domain ScenarioType. */
-function fromPrismaScenarioType(s: PrismaScenarioType): ScenarioType {
-  switch (s) {
-    case PrismaScenarioType.COOPERATION:
-      return "cooperation";
-    case PrismaScenarioType.RESOURCE_MANAGEMENT:
-      return "resource-management";
-    default:
-      // The Prisma schema has extra values we don't support yet in domain.
-      // Fall back rather than crash at runtime.
-      return "cooperation";
-  }
+  /** Outcome of the world-setup stage. */
+  worldSetup: WorldSetupReport | null;
+  /** Latest world-check progress. */
+  worldProgress: WorldCheckProgress[];
+  /** Scenario phases started so far. */
+  phaseHistory: PhaseRecord[];
+  /** Adaptive intensity decisions so far. */
+  intensityTimeline: IntensityStep[];
+  /** Run this one replays. */
+  replayOf: string | null;
 }
 
 /** Map domain TestRunStatus -> Prisma TestStatus enum. */
 function toPrismaStatus(s: TestRunStatus): PrismaTestStatus {
   switch (s) {
     case "created":
+    case "queued":
       return PrismaTestStatus.PENDING;
     case "initializing":
     case "coordination":
     case "executing":
+    case "paused":
     case "completing":
       return PrismaTestStatus.RUNNING;
     case "completed":
@@ -114,11 +113,11 @@ function toPrismaStatus(s: TestRunStatus): PrismaTestStatus {
 
 /**
  * Map domain actionCategory -> Prisma EventSource enum.
- * "llm-decision" does not map neatly; we fall back to MINECRAFT since
- * it's an internal decision action (logged as MINECRAFT by convention).
+ * "llm-decision", "setup", "phase" and "difficulty" do not map neatly; we fall back to MINECRAFT
+ * since they are internal actions (logged as MINECRAFT by convention).
  */
 function toPrismaEventSource(
-  category: "minecraft" | "discord" | "llm-decision"
+  category: TestActionLog["actionCategory"]
 ): PrismaEventSource {
   switch (category) {
     case "minecraft":
@@ -126,6 +125,9 @@ function toPrismaEventSource(
     case "discord":
       return PrismaEventSource.DISCORD;
     case "llm-decision":
+    case "setup":
+    case "phase":
+    case "difficulty":
       return PrismaEventSource.MINECRAFT;
   }
 }
@@ -163,8 +165,16 @@ function buildConfigBlob(testRun: TestRun): ConfigBlob {
     discordTextChannelId: testRun.discordTextChannelId,
     discordVoiceChannelId: testRun.discordVoiceChannelId,
     durationSeconds: testRun.durationSeconds,
+    queuedAt: testRun.queuedAt,
+    pausedAt: testRun.pausedAt,
+    pausedSeconds: testRun.pausedSeconds,
     completionReason: testRun.completionReason,
     metrics: testRun.metrics,
+    worldSetup: testRun.worldSetup,
+    worldProgress: testRun.worldProgress,
+    phaseHistory: testRun.phaseHistory,
+    intensityTimeline: testRun.intensityTimeline,
+    replayOf: testRun.replayOf,
   };
 }
 
@@ -175,7 +185,7 @@ function buildConfigBlob(testRun: TestRun): ConfigBlob {
 interface PrismaTestRunRow {
   id: string;
   name: string;
-  scenarioType: PrismaScenarioType;
+  scenarioType: string;
   targetModel: string;
   status: PrismaTestStatus;
   config: unknown; // Json
@@ -196,14 +206,28 @@ function toDomainTestRun(row: PrismaTestRunRow): TestRun {
     targetMessageCount: 0,
     testingAgentMessageCount: 0,
     llmErrorCount: 0,
+    llmParseFailureCount: 0,
     totalLlmResponseTimeMs: 0,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    totalTokens: 0,
+    totalCostUsd: 0,
+    unpricedCallCount: 0,
     lastLlmDecisionAt: null,
   };
 
   // Default TestRunConfig if not present in config blob.
   const defaultConfig: TestRunConfig = {
     llmPollingIntervalMs: 7000,
+    llmResponseMode: "json",
+    memoryStrategy: "stateless",
+    memoryTokenBudget: 4000,
+    perceptionVerbosity: "standard",
     behaviorIntensity: 0.5,
+    adaptiveIntensity: false,
+    testingAgentMode: "scripted",
+    testingAgentModel: DEFAULT_TESTING_AGENT_MODEL,
+    randomSeed: 0,
     enableVoice: false,
     enableText: true,
     targetLlmSystemPromptOverride: null,
@@ -216,7 +240,7 @@ function toDomainTestRun(row: PrismaTestRunRow): TestRun {
 
   return {
     testId: row.id,
-    scenarioType: fromPrismaScenarioType(row.scenarioType),
+    scenarioType: row.scenarioType,
     // Prefer the lossless domainStatus stored in the blob; fall back to
     // a coarse mapping from the Prisma enum.
     status: blob?.domainStatus ?? fromPrismaStatusFallback(row.status),
@@ -229,11 +253,20 @@ function toDomainTestRun(row: PrismaTestRunRow): TestRun {
     discordVoiceChannelId: blob?.discordVoiceChannelId ?? null,
     durationSeconds: blob?.durationSeconds ?? 300,
     createdAt: row.createdAt.toISOString(),
+    queuedAt: blob?.queuedAt ?? null,
     startedAt: row.startedAt?.toISOString() ?? null,
     endedAt: row.completedAt?.toISOString() ?? null,
+    pausedAt: blob?.pausedAt ?? null,
+    pausedSeconds: blob?.pausedSeconds ?? 0,
     completionReason: blob?.completionReason ?? null,
-    config: blob?.testRunConfig ?? defaultConfig,
-    metrics: blob?.metrics ?? defaultMetrics,
+    config: { ...defaultConfig, ...blob?.testRunConfig },
+    // Merge over defaults so runs stored before a metric existed still load.
+    metrics: { ...defaultMetrics, ...blob?.metrics },
+    worldSetup: blob?.worldSetup ?? null,
+    worldProgress: blob?.worldProgress ?? [],
+    phaseHistory: blob?.phaseHistory ?? [],
+    intensityTimeline: blob?.intensityTimeline ?? [],
+    replayOf: blob?.replayOf ?? null,
   };
 }
 
@@ -274,9 +307,9 @@ function toDomainActionLog(row: PrismaTestEventRow): TestActionLog {
     logId: row.id,
     testId: row.testRunId,
     sourceAgentId: (payload["sourceAgentId"] as string) ?? row.agentId ?? "unknown",
-    sourceType: (payload["sourceType"] as "target" | "testing-agent") ?? "target",
+    sourceType: (payload["sourceType"] as TestActionLog["sourceType"]) ?? "target",
     actionCategory: payload["actionCategory"]
-      ? (payload["actionCategory"] as "minecraft" | "discord" | "llm-decision")
+      ? (payload["actionCategory"] as TestActionLog["actionCategory"])
       : fromPrismaEventSource(row.source),
     actionDetail: row.type,
     timestamp: row.timestamp.toISOString(),
@@ -284,6 +317,112 @@ function toDomainActionLog(row: PrismaTestEventRow): TestActionLog {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Test suites: Domain <-> Prisma
+// ---------------------------------------------------------------------------
+
+/** Suite fields stored in the Prisma `definition` Json column. */
+type SuiteDefinitionBlob = Pick<
+  TestSuite,
+  "targetLlmModels" | "repetitions" | "behaviorIntensities" | "runTemplate" | "runs"
+>;
+
+interface PrismaTestSuiteRow {
+  id: string;
+  name: string;
+  scenarioType: string;
+  status: string;
+  definition: unknown; // Json
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+function buildSuiteDefinition(suite: TestSuite): SuiteDefinitionBlob {
+  return {
+    targetLlmModels: suite.targetLlmModels,
+    repetitions: suite.repetitions,
+    behaviorIntensities: suite.behaviorIntensities,
+    runTemplate: suite.runTemplate,
+    runs: suite.runs,
+  };
+}
+
+function toDomainTestSuite(row: PrismaTestSuiteRow): TestSuite {
+  const blob = row.definition as SuiteDefinitionBlob | null;
+
+  return {
+    suiteId: row.id,
+    name: row.name,
+    scenarioType: row.scenarioType,
+    targetLlmModels: blob?.targetLlmModels ?? [],
+    repetitions: blob?.repetitions ?? 0,
+    behaviorIntensities: blob?.behaviorIntensities ?? null,
+    runTemplate: blob?.runTemplate ?? {},
+    runs: blob?.runs ?? [],
+    status: row.status as TestSuiteStatus,
+    createdAt: row.createdAt.toISOString(),
+    endedAt: row.completedAt?.toISOString() ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Test schedules: Domain <-> Prisma
+// ---------------------------------------------------------------------------
+
+/** Schedule fields stored in the Prisma `definition` Json column. */
+type ScheduleDefinitionBlob = Pick<
+  TestSchedule,
+  "runTemplate" | "regressionPolicy" | "runs"
+>;
+
+interface PrismaTestScheduleRow {
+  id: string;
+  name: string;
+  cron: string;
+  enabled: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  definition: unknown; // Json
+  createdAt: Date;
+}
+
+function buildScheduleDefinition(schedule: TestSchedule): ScheduleDefinitionBlob {
+  return {
+    runTemplate: schedule.runTemplate,
+    regressionPolicy: schedule.regressionPolicy,
+    runs: schedule.runs,
+  };
+}
+
+function toDomainTestSchedule(row: PrismaTestScheduleRow): TestSchedule {
+  const blob = row.definition as ScheduleDefinitionBlob;
+
+  return {
+    scheduleId: row.id,
+    name: row.name,
+    cron: row.cron,
+    enabled: row.enabled,
+    runTemplate: blob.runTemplate,
+    regressionPolicy: blob.regressionPolicy,
+    runs: blob.runs ?? [],
+    nextRunAt: row.nextRunAt?.toISOString() ?? null,
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** Column values shared by schedule create and update. */
+function toScheduleColumns(schedule: TestSchedule) {
+  return {
+    name: schedule.name,
+    cron: schedule.cron,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt ? new Date(schedule.nextRunAt) : null,
+    lastRunAt: schedule.lastRunAt ? new Date(schedule.lastRunAt) : null,
+    definition: buildScheduleDefinition(schedule) as unknown as InputJsonValue,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Repository implementation
 // ---------------------------------------------------------------------------
@@ -295,7 +434,7 @@ export class PrismaTestingRepository implements ITestingRepository {
       data: {
         id: testRun.testId,
         name: generateTestName(testRun.scenarioType),
-        scenarioType: toPrismaScenarioType(testRun.scenarioType),
+        scenarioType: testRun.scenarioType,
         targetModel: testRun.targetLlmModel,
         status: toPrismaStatus(testRun.status),
         config: buildConfigBlob(testRun) as unknown as InputJsonValue,
@@ -331,9 +470,7 @@ export class PrismaTestingRepository implements ITestingRepository {
     }
 
     if (filters?.scenarioType) {
-      where["scenarioType"] = toPrismaScenarioType(
-        filters.scenarioType as ScenarioType
-      );
+      where["scenarioType"] = filters.scenarioType;
     }
 
     const rows = await prisma.testRun.findMany({
@@ -341,7 +478,12 @@ export class PrismaTestingRepository implements ITestingRepository {
       orderBy: { createdAt: "desc" },
     });
 
-    return rows.map(toDomainTestRun);
+    const runs: TestRun[] = rows.map(toDomainTestRun);
+    // The Prisma enum is coarser than the domain status (created and
+    // queued are both PENDING), so narrow to the exact status here.
+    return filters?.status
+      ? runs.filter((run) => run.status === filters.status)
+      : runs;
   }
 
   /** Update a test run's data. */
@@ -369,7 +511,7 @@ export class PrismaTestingRepository implements ITestingRepository {
     }
 
     if (data.scenarioType !== undefined) {
-      updateData["scenarioType"] = toPrismaScenarioType(data.scenarioType);
+      updateData["scenarioType"] = data.scenarioType;
     }
 
     if (data.targetLlmModel !== undefined) {
@@ -451,9 +593,7 @@ export class PrismaTestingRepository implements ITestingRepository {
     }
 
     if (filters?.scenarioType) {
-      where["scenarioType"] = toPrismaScenarioType(
-        filters.scenarioType as ScenarioType
-      );
+      where["scenarioType"] = filters.scenarioType;
     }
 
     return prisma.testRun.count({ where });
@@ -497,7 +637,7 @@ export class PrismaTestingRepository implements ITestingRepository {
       }
 
       const blob = existing.config as unknown as ConfigBlob;
-      blob.metrics[metricName] = blob.metrics[metricName] + amount;
+      blob.metrics[metricName] = (blob.metrics[metricName] ?? 0) + amount;
 
       await tx.testRun.update({
         where: { id: testId },
@@ -535,4 +675,138 @@ export class PrismaTestingRepository implements ITestingRepository {
       });
     });
   }
+
+  /** Create a new test suite. */
+  async createSuite(suite: TestSuite): Promise<TestSuite> {
+    const row = await prisma.testSuite.create({
+      data: {
+        id: suite.suiteId,
+        name: suite.name,
+        scenarioType: suite.scenarioType,
+        status: suite.status,
+        definition: buildSuiteDefinition(suite) as unknown as InputJsonValue,
+        createdAt: new Date(suite.createdAt),
+        completedAt: suite.endedAt ? new Date(suite.endedAt) : null,
+      },
+    });
+
+    return toDomainTestSuite(row);
+  }
+
+  /** Find a test suite by ID. */
+  async findSuiteById(suiteId: string): Promise<TestSuite | null> {
+    const row = await prisma.testSuite.findUnique({
+      where: { id: suiteId },
+    });
+
+    return row ? toDomainTestSuite(row) : null;
+  }
+
+  /** Find all test suites, newest first. */
+  async findAllSuites(filters?: { status?: string }): Promise<TestSuite[]> {
+    const rows = await prisma.testSuite.findMany({
+      where: filters?.status ? { status: filters.status } : {},
+      orderBy: { createdAt: "desc" },
+    });
+
+    return rows.map(toDomainTestSuite);
+  }
+
+  /** Update a test suite's data. */
+  async updateSuite(suiteId: string, data: Partial<TestSuite>): Promise<void> {
+    const existing = await prisma.testSuite.findUnique({
+      where: { id: suiteId },
+    });
+
+    if (!existing) {
+      throw new Error(`Test suite ${suiteId} not found`);
+    }
+
+    const merged: TestSuite = { ...toDomainTestSuite(existing), ...data };
+
+    await prisma.testSuite.update({
+      where: { id: suiteId },
+      data: {
+        name: merged.name,
+        status: merged.status,
+        definition: buildSuiteDefinition(merged) as unknown as InputJsonValue,
+        completedAt: merged.endedAt ? new Date(merged.endedAt) : null,
+      },
+    });
+  }
+
+  /** Delete a test suite (its test runs are kept). */
+  async deleteSuite(suiteId: string): Promise<boolean> {
+    try {
+      await prisma.testSuite.delete({ where: { id: suiteId } });
+      return true;
+    } catch {
+      // Prisma throws P2025 if the record doesn't exist.
+      return false;
+    }
+  }
+
+  /** Create a new test schedule. */
+  async createSchedule(schedule: TestSchedule): Promise<TestSchedule> {
+    const row = await prisma.testSchedule.create({
+      data: {
+        id: schedule.scheduleId,
+        ...toScheduleColumns(schedule),
+        createdAt: new Date(schedule.createdAt),
+      },
+    });
+
+    return toDomainTestSchedule(row);
+  }
+
+  /** Find a test schedule by ID. */
+  async findScheduleById(scheduleId: string): Promise<TestSchedule | null> {
+    const row = await prisma.testSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+
+    return row ? toDomainTestSchedule(row) : null;
+  }
+
+  /** Find all test schedules, newest first. */
+  async findAllSchedules(filters?: { enabled?: boolean }): Promise<TestSchedule[]> {
+    const rows = await prisma.testSchedule.findMany({
+      where: filters?.enabled !== undefined ? { enabled: filters.enabled } : {},
+      orderBy: { createdAt: "desc" },
+    });
+
+    return rows.map(toDomainTestSchedule);
+  }
+
+  /** Update a test schedule's data. */
+  async updateSchedule(
+    scheduleId: string,
+    data: Partial<TestSchedule>
+  ): Promise<void> {
+    const existing = await prisma.testSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+
+    if (!existing) {
+      throw new Error(`Test schedule ${scheduleId} not found`);
+    }
+
+    const merged: TestSchedule = { ...toDomainTestSchedule(existing), ...data };
+
+    await prisma.testSchedule.update({
+      where: { id: scheduleId },
+      data: toScheduleColumns(merged),
+    });
+  }
+
+  /** Delete a test schedule (its test runs are kept). */
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    try {
+      await prisma.testSchedule.delete({ where: { id: scheduleId } });
+      return true;
+    } catch {
+      // Prisma throws P2025 if the record doesn't exist.
+      return false;
+    }
+  }
 }
@@ -1,23 +1,38 @@
 /**
  * Scenario Registry
  *
- * Central registry for all available test scenarios.
- * Provides lookup by type and listing of all scenarios.
+ * Central registry for all available test scenarios. Definitions live in
+ * files under SCENARIO_DIR and are hot-loaded (see lib/file-registry.ts),
+ * so edits apply to the next test without a server restart.
  */
 
+import { SCENARIO_DIR } from "../../../../constants/testing.constants";
+import { FileRegistry } from "../../../lib/file-registry";
 import type { ScenarioType } from "../types";
 import type { TestScenario } from "./types";
-import { cooperationScenario } from "./cooperation.scenario";
-import { resourceManagementScenario } from "./resource-management.scenario";
+import {
+  isScenarioFile,
+  loadScenarioFile,
+  scenarioTypeFromFile,
+  serializeScenario,
+} from "./loader";
 
 // ---------------------------------------------------------------------------
 // Registry
 // ---------------------------------------------------------------------------
 
-const SCENARIO_REGISTRY: ReadonlyMap<ScenarioType, TestScenario> = new Map([
-  ["cooperation", cooperationScenario],
-  ["resource-management", resourceManagementScenario],
-]);
+/** Scenario files keyed by scenario type. */
+const registry = new FileRegistry<TestScenario>({
+  label: "Scenarios",
+  dir: SCENARIO_DIR,
+  isDefinitionFile: isScenarioFile,
+  nameFromFile: scenarioTypeFromFile,
+  load: (path) => {
+    const result = loadScenarioFile(path);
+    return result.ok ? { ok: true, value: result.scenario } : result;
+  },
+  serialize: serializeScenario,
+});
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -25,29 +40,52 @@ const SCENARIO_REGISTRY: ReadonlyMap<ScenarioType, TestScenario> = new Map([
 
 /**
  * Get a scenario definition by type.
- * Returns null if the scenario type is not registered.
+ * Returns null if no valid definition exists for the type.
  */
 export function getScenario(type: ScenarioType): TestScenario | null {
-  return SCENARIO_REGISTRY.get(type) ?? null;
+  return registry.get(type);
 }
 
 /**
- * Get all registered scenarios.
+ * Get all valid scenarios.
  */
 export function getAllScenarios(): TestScenario[] {
-  return Array.from(SCENARIO_REGISTRY.values());
+  return registry.values();
 }
 
 /**
  * List all available scenario types.
  */
 export function getScenarioTypes(): ScenarioType[] {
-  return Array.from(SCENARIO_REGISTRY.keys());
+  return getAllScenarios().map((scenario) => scenario.type);
 }
 
 /**
  * Check if a scenario type is valid.
  */
 export function isValidScenarioType(type: string): type is ScenarioType {
-  return SCENARIO_REGISTRY.has(type as ScenarioType);
+  return getScenario(type) !== null;
+}
+
+/**
+ * Whether a file defines the scenario type, even if it failed validation.
+ */
+export function hasScenarioFile(type: ScenarioType): boolean {
+  return registry.has(type);
+}
+
+/**
+ * Write a validated scenario to disk. Overwrites the existing file for
+ * its type (keeping that file's format), or creates `<type>.json`.
+ */
+export function saveScenario(scenario: TestScenario): void {
+  registry.save(scenario.type, scenario);
+}
+
+/**
+ * Delete the file defining a scenario type.
+ * Returns false if no such file exists.
+ */
+export function deleteScenario(type: ScenarioType): boolean {
+  return registry.delete(type);
 }
@@ -0,0 +1,143 @@
+/**
+ * Scenario File Loader
+ *
+ * Parses and validates scenario definition files (JSON or YAML). The
+ * file name without its extension is the scenario type and must match
+ * the `type` field inside the file.
+ */
+
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { YAML } from "bun";
+import { Value } from "@sinclair/typebox/value";
+import { TestScenarioSchema } from "../model";
+import { profileExists } from "../../agents/profiles";
+import { regionError } from "../coordinator/world-checks";
+import type { BehavioralProfile } from "../../agents/model";
+import type { TestScenario } from "./types";
+
+/** File extensions recognised as scenario definitions. */
+export const SCENARIO_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/** Maximum number of validation errors reported per file. */
+const MAX_REPORTED_ERRORS = 5;
+
+export type ScenarioValidation =
+  | { ok: true; scenario: TestScenario }
+  | { ok: false; errors: string[] };
+
+/** Whether a file name looks like a scenario definition. */
+export function isScenarioFile(fileName: string): boolean {
+  return SCENARIO_FILE_EXTENSIONS.includes(extname(fileName).toLowerCase());
+}
+
+/** Scenario type a file defines, derived from its name. */
+export function scenarioTypeFromFile(fileName: string): string {
+  return basename(fileName, extname(fileName));
+}
+
+/** Parse the raw contents of a scenario file. */
+export function parseScenarioText(text: string, fileName: string): unknown {
+  return extname(fileName).toLowerCase() === ".json"
+    ? JSON.parse(text)
+    : YAML.parse(text);
+}
+
+/** Serialize a scenario in the format implied by the file name. */
+export function serializeScenario(scenario: TestScenario, fileName: string): string {
+  return extname(fileName).toLowerCase() === ".json"
+    ? `${JSON.stringify(scenario, null, 2)}\n`
+    : YAML.stringify(scenario, null, 2);
+}
+
+/**
+ * Validate a parsed scenario against TestScenarioSchema. Every profile
+ * it names must exist (built-in or custom) and every world check region
+ * must be small enough to scan. When `expectedType` is given, the
+ * definition's `type` must equal it.
+ */
+export function validateScenario(
+  value: unknown,
+  expectedType?: string,
+): ScenarioValidation {
+  if (!Value.Check(TestScenarioSchema, value)) {
+    const errors = [...Value.Errors(TestScenarioSchema, value)]
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map((error) => `${error.path || "/"}: ${error.message}`);
+    return { ok: false, errors };
+  }
+
+  const scenario = value as TestScenario;
+  const errors: string[] = [];
+
+  if (expectedType !== undefined && scenario.type !== expectedType) {
+    errors.push(`/type: expected "${expectedType}", got "${scenario.type}"`);
+  }
+
+  for (const [i, profile] of scenario.defaultProfiles.entries()) {
+    if (!profileExists(profile)) {
+      errors.push(`/defaultProfiles/${i}: unknown profile "${profile}"`);
+    }
+  }
+  for (const profile of Object.keys(scenario.scriptedChat ?? {})) {
+    if (!profileExists(profile)) {
+      errors.push(`/scriptedChat/${profile}: unknown profile "${profile}"`);
+    }
+  }
+
+  const checkIds = scenario.successCriteria.worldChecks.map((check) => check.id);
+  const duplicate = checkIds.find((id, i) => checkIds.indexOf(id) !== i);
+  if (duplicate) {
+    errors.push(`/successCriteria/worldChecks: duplicate check id "${duplicate}"`);
+  }
+
+  for (const [i, check] of scenario.successCriteria.worldChecks.entries()) {
+    const error = regionError(check);
+    if (error) errors.push(`/successCriteria/worldChecks/${i}/region: ${error}`);
+  }
+
+  const phaseIds = (scenario.phases ?? []).map((phase) => phase.id);
+  const duplicatePhase = phaseIds.find((id, i) => phaseIds.indexOf(id) !== i);
+  if (duplicatePhase) {
+    errors.push(`/phases: duplicate phase id "${duplicatePhase}"`);
+  }
+
+  for (const [i, phase] of (scenario.phases ?? []).entries()) {
+    if (phase.trigger.type === "world-progress" && !checkIds.includes(phase.trigger.checkId)) {
+      errors.push(`/phases/${i}/trigger/checkId: unknown world check "${phase.trigger.checkId}"`);
+    }
+    for (const [j, event] of phase.events.entries()) {
+      if ("profile" in event && !profileExists(event.profile)) {
+        errors.push(`/phases/${i}/events/${j}/profile: unknown profile "${event.profile}"`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, scenario };
+}
+
+/** Every profile a scenario refers to, without duplicates. */
+export function scenarioProfiles(scenario: TestScenario): BehavioralProfile[] {
+  const profiles = new Set<BehavioralProfile>(scenario.defaultProfiles);
+  for (const profile of Object.keys(scenario.scriptedChat ?? {})) profiles.add(profile);
+  for (const phase of scenario.phases ?? []) {
+    for (const event of phase.events) {
+      if ("profile" in event) profiles.add(event.profile);
+    }
+  }
+  return Array.from(profiles);
+}
+
+/** Read, parse and validate a scenario file. */
+export function loadScenarioFile(path: string): ScenarioValidation {
+  let parsed: unknown;
+  try {
+    parsed = parseScenarioText(readFileSync(path, "utf-8"), path);
+  } catch (err) {
+    return {
+      ok: false,
+      errors: [`cannot parse: ${err instanceof Error ? err.message : String(err)}`],
+    };
+  }
+  return validateScenario(parsed, scenarioTypeFromFile(path));
+}
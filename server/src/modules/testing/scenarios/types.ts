@@ -3,9 +3,11 @@
  *
  * Each scenario defines the rules, agent composition, success criteria,
  * and initial conditions for a specific type of adversarial test.
+ * Definitions are stored as files under SCENARIO_DIR and validated
+ * against TestScenarioSchema (../model) when loaded.
  */
 
-import type { BehavioralProfile } from "../../agents/model";
+import type { BehavioralProfile, ScriptedChat } from "../../agents/model";
 import type { ScenarioType } from "../types";
 
 // ---------------------------------------------------------------------------
@@ -32,6 +34,17 @@ export interface TestScenario {
   initialConditions: InitialConditions;
   /** Metrics that are specifically relevant to this scenario. */
   relevantMetrics: string[];
+  /**
+   * Lines each scripted testing agent of a profile says on a timer, on
+   * top of its usual behavior (e.g. a chat flood or a false claim).
+   */
+  scriptedChat?: Partial<Record<BehavioralProfile, ScriptedChat>>;
+  /**
+   * Phases that follow the opening one (which uses `objectivePrompt`).
+   * They start in order once execution begins, each when its trigger
+   * fires, and can disrupt the run or change the target's objective.
+   */
+  phases?: ScenarioPhase[];
 }
 
 // ---------------------------------------------------------------------------
@@ -50,8 +63,124 @@ export interface SuccessCriteria {
   maxLlmErrorRate: number | null;
   /** Whether the target must communicate in Discord at least once. */
   requiresDiscordCommunication: boolean;
+  /**
+   * Predicates evaluated against the live world. When non-empty, success
+   * requires every check to be met, and the action-count thresholds above
+   * no longer declare success on their own.
+   */
+  worldChecks: WorldCheck[];
 }
 
+// ---------------------------------------------------------------------------
+// World Checks
+// ---------------------------------------------------------------------------
+
+/** Axis-aligned box of block positions (inclusive on both corners). */
+export interface BoundingBox {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+/**
+ * Block name patterns: exact names ("cobblestone"), or a leading/trailing
+ * `*` wildcard ("*_planks", "oak_*").
+ */
+export type BlockPatterns = string[];
+
+/** At least `minCount` matching blocks inside a box. */
+export interface BlockCountCheck {
+  type: "block-count";
+  id: string;
+  description: string;
+  region: BoundingBox;
+  blocks: BlockPatterns;
+  minCount: number;
+}
+
+/**
+ * A structure with walls (and optionally a roof) somewhere inside
+ * `region`. The footprint is slid across the region and the most
+ * complete placement is reported; walls start at `region.min.y`.
+ */
+export interface EnclosedStructureCheck {
+  type: "enclosed-structure";
+  id: string;
+  description: string;
+  region: BoundingBox;
+  /** Outer dimensions of the structure, walls included. */
+  footprint: { width: number; depth: number };
+  wallHeight: number;
+  requireRoof: boolean;
+  blocks: BlockPatterns;
+  /** Fraction of wall and roof positions that must be filled (leaves room for a doorway). */
+  minCompletion: number;
+}
+
+/** Specific items held by the target bot. */
+export interface InventoryItemsCheck {
+  type: "inventory-items";
+  id: string;
+  description: string;
+  items: InventoryItem[];
+}
+
+/**
+ * An item the target must have crafted. Counted as the amount in the
+ * target's inventory beyond what it was given at the start, so it should
+ * only be used for items that cannot be picked up elsewhere in the scenario.
+ */
+export interface CraftedItemCheck {
+  type: "crafted-item";
+  id: string;
+  description: string;
+  item: string;
+  count: number;
+}
+
+/** Discriminated union of all world-state success checks. */
+export type WorldCheck =
+  | BlockCountCheck
+  | EnclosedStructureCheck
+  | InventoryItemsCheck
+  | CraftedItemCheck;
+
+// ---------------------------------------------------------------------------
+// Phases
+// ---------------------------------------------------------------------------
+
+/** A mid-run phase with its trigger, events and optional new objective. */
+export interface ScenarioPhase {
+  id: string;
+  description: string;
+  trigger: PhaseTrigger;
+  /** Events fired, in order, when the phase starts. */
+  events: PhaseEvent[];
+  /** Replaces the target's objective from this phase on. */
+  objectivePrompt?: string;
+}
+
+/**
+ * When a phase starts:
+ * - "elapsed": seconds since execution began
+ * - "world-progress": a world check reached a completion fraction (0-1)
+ */
+export type PhaseTrigger =
+  | { type: "elapsed"; seconds: number }
+  | { type: "world-progress"; checkId: string; atLeast: number };
+
+/**
+ * Scripted disruption fired at the start of a phase:
+ * - "agent-leaves": the first active testing agent with the profile is terminated
+ * - "agent-chat": the first active testing agent with the profile says a line
+ * - "empty-container": the chest at a position is emptied
+ * - "command": a server command issued through the target bot (e.g. "/time set 13000")
+ */
+export type PhaseEvent =
+  | { type: "agent-leaves"; profile: BehavioralProfile }
+  | { type: "agent-chat"; profile: BehavioralProfile; message: string }
+  | { type: "empty-container"; x: number; y: number; z: number }
+  | { type: "command"; command: string };
+
 // ---------------------------------------------------------------------------
 // Initial Conditions
 // ---------------------------------------------------------------------------
@@ -81,6 +210,17 @@ export interface InitialConditions {
   timeOfDay: number;
   /** Weather condition. */
   weather: "clear" | "rain" | "thunder";
+  /** Chests placed (replacing whatever is there) and filled before the test. */
+  containers?: ContainerSetup[];
+}
+
+/** A chest placed at a fixed position with the given contents. */
+export interface ContainerSetup {
+  x: number;
+  y: number;
+  z: number;
+  /** Contents, one slot per entry (empty for a decoy chest). */
+  items: InventoryItem[];
 }
 
 /** An item in a starting inventory. */
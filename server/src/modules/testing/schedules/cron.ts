@@ -0,0 +1,155 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard five-field cron expressions
+ * (minute hour day-of-month month day-of-week) and finds the next time
+ * they match. Fields accept `*`, numbers, ranges (`1-5`), lists
+ * (`1,15`) and steps (`*\/15`, `0-30/10`); day-of-week 0 and 7 both
+ * mean Sunday. Like Vixie cron, a restricted day-of-month and
+ * day-of-week match when either does. Times are evaluated in UTC.
+ */
+
+/** A parsed cron expression: the allowed values of each field. */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month / day-of-week were restricted (not `*`). */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+export type CronParseResult =
+  | { ok: true; cron: CronExpression }
+  | { ok: false; error: string };
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+];
+
+/** Give up looking for a match this far ahead (covers leap days). */
+const MAX_SEARCH_MS = 4 * 366 * 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Parse a five-field cron expression. */
+export function parseCron(expression: string): CronParseResult {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return { ok: false, error: `expected 5 fields, got ${parts.length}` };
+  }
+
+  const values: Set<number>[] = [];
+  for (const [i, spec] of FIELDS.entries()) {
+    const parsed = parseField(parts[i], spec);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    values.push(parsed);
+  }
+
+  // Sunday may be written as 7
+  const daysOfWeek = values[4];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    ok: true,
+    cron: {
+      minutes: values[0],
+      hours: values[1],
+      daysOfMonth: values[2],
+      months: values[3],
+      daysOfWeek,
+      domRestricted: parts[2] !== "*",
+      dowRestricted: parts[4] !== "*",
+    },
+  };
+}
+
+/**
+ * The first minute strictly after `after` that matches `cron`, or null
+ * if it never matches (e.g. "0 0 31 2 *").
+ */
+export function nextCronTime(cron: CronExpression, after: Date): Date | null {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  while (time.getTime() < limit) {
+    time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+    // Skip whole days and hours that cannot match
+    if (!cron.months.has(time.getUTCMonth() + 1) || !matchesDay(cron, time)) {
+      time.setUTCHours(23, 59);
+      continue;
+    }
+    if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCMinutes(59);
+      continue;
+    }
+    if (cron.minutes.has(time.getUTCMinutes())) return time;
+  }
+  return null;
+}
+
+/**
+ * ISO-8601 time of the next run of `expression` after `after`, or null
+ * if the expression is invalid or never matches.
+ */
+export function nextRunAt(expression: string, after: Date): string | null {
+  const parsed = parseCron(expression);
+  if (!parsed.ok) return null;
+  return nextCronTime(parsed.cron, after)?.toISOString() ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function matchesDay(cron: CronExpression, time: Date): boolean {
+  const dom = cron.daysOfMonth.has(time.getUTCDate());
+  const dow = cron.daysOfWeek.has(time.getUTCDay());
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** Parse one field into its allowed values, or return an error message. */
+function parseField(field: string, spec: FieldSpec): Set<number> | string {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return `invalid ${spec.name} "${part}"`;
+
+    const [, , start, end, step] = match;
+    const from = start === undefined ? spec.min : Number(start);
+    // A bare number with a step ("5/15") runs to the end of the range
+    const to = end !== undefined
+      ? Number(end)
+      : start === undefined || step !== undefined
+        ? spec.max
+        : from;
+    const by = step === undefined ? 1 : Number(step);
+
+    if (from < spec.min || to > spec.max || from > to) {
+      return `${spec.name} "${part}" is out of range ${spec.min}-${spec.max}`;
+    }
+    if (by < 1) return `${spec.name} step must be at least 1`;
+
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+
+  return values;
+}
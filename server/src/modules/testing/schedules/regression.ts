@@ -0,0 +1,104 @@
+/**
+ * Regression Detection
+ *
+ * Compares a finished scheduled run to a rolling baseline: the mean of
+ * the schedule's most recent previous runs. A metric regresses when it
+ * moves in its worse direction by more than the policy threshold —
+ * measured in absolute points for rates (0–1) and relative to the
+ * baseline for response time and cost.
+ *
+ * Only runs that count towards a leaderboard (see isRankedRun) are
+ * compared or used as baseline.
+ */
+
+import type {
+  LeaderboardMetric,
+  MetricComparison,
+  RegressionPolicy,
+  RegressionReport,
+  TestRun,
+} from "../types";
+import { LEADERBOARD_METRICS, isRankedRun } from "../suites/leaderboard";
+
+/** Policy used for any field a schedule does not set. */
+export const DEFAULT_REGRESSION_POLICY: RegressionPolicy = {
+  metrics: ["success-rate", "world-progress", "llm-error-rate"],
+  baselineSize: 5,
+  threshold: 0.2,
+};
+
+/** Fewest baseline runs worth comparing against. */
+export const MIN_BASELINE_RUNS = 2;
+
+/** Metrics whose values are rates between 0 and 1. */
+const RATE_METRICS: LeaderboardMetric[] = ["success-rate", "world-progress", "llm-error-rate"];
+
+/**
+ * Compare `run` to the `history` of earlier runs (oldest first). Returns
+ * null if the run is not ranked or the baseline is too small.
+ */
+export function detectRegression(
+  run: TestRun,
+  history: TestRun[],
+  policy: RegressionPolicy,
+): RegressionReport | null {
+  if (!isRankedRun(run)) return null;
+
+  const baseline = history.filter(isRankedRun).slice(-policy.baselineSize);
+  if (baseline.length < MIN_BASELINE_RUNS) return null;
+
+  const comparisons: MetricComparison[] = [];
+  for (const metric of policy.metrics) {
+    const comparison = compareMetric(metric, run, baseline, policy.threshold);
+    if (comparison) comparisons.push(comparison);
+  }
+
+  return {
+    baselineTestIds: baseline.map((r) => r.testId),
+    comparisons,
+    regressed: comparisons.some((c) => c.regressed),
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function compareMetric(
+  metric: LeaderboardMetric,
+  run: TestRun,
+  baseline: TestRun[],
+  threshold: number,
+): MetricComparison | null {
+  const { higherIsBetter, value } = LEADERBOARD_METRICS[metric];
+
+  const current = value(run);
+  const samples = baseline
+    .map(value)
+    .filter((v): v is number => v !== null);
+  if (current === null || samples.length === 0) return null;
+
+  const baselineMean = samples.reduce((sum, v) => sum + v, 0) / samples.length;
+  const worsening = higherIsBetter ? baselineMean - current : current - baselineMean;
+
+  let change = worsening;
+  let regressed = worsening > threshold;
+  if (!RATE_METRICS.includes(metric)) {
+    if (baselineMean > 0) {
+      change = worsening / baselineMean;
+      regressed = change > threshold;
+    } else {
+      // Nothing to scale by; any worsening from a zero baseline counts
+      regressed = worsening > 0;
+    }
+  }
+
+  return {
+    metric,
+    baseline: baselineMean,
+    value: current,
+    change,
+    regressed,
+  };
+}
@@ -15,11 +15,41 @@ import type {
   CreateTestRequest,
   ServiceResult,
   TestActionLog,
+  ParseFailureReport,
+  ParseFailureStats,
+  TestSuite,
+  CreateTestSuiteRequest,
+  Leaderboard,
+  LeaderboardMetric,
+  IntensitySweep,
+  TestSchedule,
+  ScheduledRun,
+  CreateTestScheduleRequest,
+  UpdateTestScheduleRequest,
+  ReplayComparison,
 } from "./types";
 import { TestRunner } from "./coordinator/test-runner";
+import { SuiteRunner } from "./coordinator/suite-runner";
+import { TestScheduler } from "./coordinator/scheduler";
 import { testingRepository } from "./repository";
-import { getAllScenarios, getScenarioTypes } from "./scenarios";
+import {
+  deleteScenario,
+  getAllScenarios,
+  getScenario,
+  getScenarioTypes,
+  hasScenarioFile,
+  saveScenario,
+} from "./scenarios";
+import { validateScenario } from "./scenarios/loader";
 import type { TestScenario } from "./scenarios/types";
+import { expandSuiteRuns } from "./suites/matrix";
+import { buildLeaderboard } from "./suites/leaderboard";
+import { buildIntensitySweep } from "./suites/sweep";
+import { nextRunAt, parseCron } from "./schedules/cron";
+import { DEFAULT_REGRESSION_POLICY } from "./schedules/regression";
+import { compareReplay } from "./coordinator/replay";
+import { generateSeed } from "../agents/orchestrator/random";
+import { REPLAY_MAX_ACTION_LOGS } from "../../../constants/testing.constants";
 
 // ---------------------------------------------------------------------------
 // Service
@@ -53,6 +83,78 @@ export abstract class TestingService {
     return TestRunner.stopTest(testId);
   }
 
+  /**
+   * Pause an executing test.
+   */
+  static async pauseTest(
+    testId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    return TestRunner.pauseTest(testId);
+  }
+
+  /**
+   * Resume a paused test.
+   */
+  static async resumeTest(
+    testId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    return TestRunner.resumeTest(testId);
+  }
+
+  /**
+   * Replay a finished test from its recorded LLM responses.
+   */
+  static async replayTest(
+    testId: string,
+  ): Promise<ServiceResult<TestRun>> {
+    return TestRunner.replayTest(testId);
+  }
+
+  /**
+   * Compare a replay's target decisions with those of the run it replays.
+   */
+  static async getReplayComparison(
+    testId: string,
+  ): Promise<ServiceResult<ReplayComparison>> {
+    const replayRun = await testingRepository.findById(testId);
+    if (!replayRun) {
+      return {
+        ok: false,
+        message: `Test ${testId} not found`,
+        code: "TEST_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const sourceId = replayRun.replayOf;
+    if (!sourceId) {
+      return {
+        ok: false,
+        message: `Test ${testId} is not a replay`,
+        code: "NOT_A_REPLAY",
+        httpStatus: 400,
+      };
+    }
+
+    if (!(await testingRepository.exists(sourceId))) {
+      return {
+        ok: false,
+        message: `Replayed test ${sourceId} no longer exists`,
+        code: "TEST_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const [originalLogs, replayLogs] = await Promise.all([
+      testingRepository.findActionLogs(sourceId, REPLAY_MAX_ACTION_LOGS),
+      testingRepository.findActionLogs(testId, REPLAY_MAX_ACTION_LOGS),
+    ]);
+    return {
+      ok: true,
+      data: compareReplay(sourceId, testId, originalLogs, replayLogs),
+    };
+  }
+
   /**
    * Get a single test run by ID.
    */
@@ -142,6 +244,20 @@ export abstract class TestingService {
     };
   }
 
+  /**
+   * Aggregate target LLM parse failures across runs, reported separately
+   * for JSON mode and tool-calling mode.
+   */
+  static async getParseStats(filters?: {
+    targetLlmModel?: string;
+  }): Promise<ServiceResult<ParseFailureReport>> {
+    const tests = await testingRepository.findAll();
+    const runs = filters?.targetLlmModel
+      ? tests.filter((t) => t.targetLlmModel === filters.targetLlmModel)
+      : tests;
+    return { ok: true, data: summarizeParseFailures(runs) };
+  }
+
   /**
    * Get all available scenario definitions.
    */
@@ -156,10 +272,505 @@ export abstract class TestingService {
     return { ok: true, data: getScenarioTypes() };
   }
 
+  /**
+   * Get a single scenario definition by type.
+   */
+  static getScenario(type: string): ServiceResult<TestScenario> {
+    const scenario = getScenario(type);
+    if (!scenario) {
+      return {
+        ok: false,
+        message: `Scenario ${type} not found`,
+        code: "SCENARIO_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+    return { ok: true, data: scenario };
+  }
+
+  /**
+   * Author a new scenario. Written to `<type>.json` in the scenario directory.
+   */
+  static createScenario(definition: unknown): ServiceResult<TestScenario> {
+    const validation = validateScenario(definition);
+    if (!validation.ok) {
+      return {
+        ok: false,
+        message: `Invalid scenario: ${validation.errors.join("; ")}`,
+        code: "SCENARIO_INVALID",
+        httpStatus: 400,
+      };
+    }
+
+    const { scenario } = validation;
+    if (hasScenarioFile(scenario.type)) {
+      return {
+        ok: false,
+        message: `Scenario ${scenario.type} already exists`,
+        code: "SCENARIO_EXISTS",
+        httpStatus: 409,
+      };
+    }
+
+    return writeScenario(scenario);
+  }
+
+  /**
+   * Replace an existing scenario definition. The body's `type` must
+   * match the scenario being updated.
+   */
+  static updateScenario(
+    type: string,
+    definition: unknown,
+  ): ServiceResult<TestScenario> {
+    if (!hasScenarioFile(type)) {
+      return {
+        ok: false,
+        message: `Scenario ${type} not found`,
+        code: "SCENARIO_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const validation = validateScenario(definition, type);
+    if (!validation.ok) {
+      return {
+        ok: false,
+        message: `Invalid scenario: ${validation.errors.join("; ")}`,
+        code: "SCENARIO_INVALID",
+        httpStatus: 400,
+      };
+    }
+
+    return writeScenario(validation.scenario);
+  }
+
+  /**
+   * Delete a scenario definition. Refused while a test of that
+   * scenario is active.
+   */
+  static async deleteScenario(
+    type: string,
+  ): Promise<ServiceResult<{ message: string }>> {
+    if (!hasScenarioFile(type)) {
+      return {
+        ok: false,
+        message: `Scenario ${type} not found`,
+        code: "SCENARIO_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+
+    const activeStates = ["initializing", "coordination", "executing"];
+    const tests = await testingRepository.findAll({ scenarioType: type });
+    const active = tests.find((test) => activeStates.includes(test.status));
+    if (active) {
+      return {
+        ok: false,
+        message: `Scenario ${type} is in use by active test ${active.testId}`,
+        code: "SCENARIO_IN_USE",
+        httpStatus: 409,
+      };
+    }
+
+    try {
+      deleteScenario(type);
+    } catch (err) {
+      return {
+        ok: false,
+        message: `Failed to delete scenario ${type}: ${err instanceof Error ? err.message : String(err)}`,
+        code: "SCENARIO_WRITE_FAILED",
+        httpStatus: 500,
+      };
+    }
+    return { ok: true, data: { message: `Scenario ${type} deleted` } };
+  }
+
+  /**
+   * Create a test suite and start dispatching its runs.
+   * Runs beyond the concurrency limit wait in the run queue.
+   */
+  static async createSuite(
+    request: CreateTestSuiteRequest,
+  ): Promise<ServiceResult<TestSuite>> {
+    if (!getScenario(request.scenarioType)) {
+      return {
+        ok: false,
+        message: `Unknown scenario type: ${request.scenarioType}`,
+        code: "INVALID_SCENARIO",
+        httpStatus: 400,
+      };
+    }
+
+    const models = [...new Set(request.targetLlmModels.map((m) => m.trim()))].filter(Boolean);
+    if (models.length === 0) {
+      return {
+        ok: false,
+        message: "At least one target LLM model is required",
+        code: "INVALID_SUITE",
+        httpStatus: 400,
+      };
+    }
+
+    // Sweep intensities are kept sorted and distinct; none means no sweep
+    const intensities = request.behaviorIntensities?.length
+      ? [...new Set(request.behaviorIntensities)].sort((a, b) => a - b)
+      : null;
+
+    const {
+      name,
+      scenarioType,
+      targetLlmModels: _models,
+      repetitions,
+      behaviorIntensities: _intensities,
+      ...runTemplate
+    } = request;
+    const suite: TestSuite = {
+      suiteId: generateSuiteId(),
+      name: name?.trim() || `${scenarioType}: ${models.length} model(s) x ${repetitions}`,
+      scenarioType,
+      targetLlmModels: models,
+      repetitions,
+      behaviorIntensities: intensities,
+      runTemplate,
+      // A seed given in the template makes the whole suite reproducible
+      runs: expandSuiteRuns(
+        models,
+        repetitions,
+        runTemplate.config?.randomSeed ?? generateSeed(),
+        intensities,
+      ),
+      status: "running",
+      createdAt: new Date().toISOString(),
+      endedAt: null,
+    };
+
+    await testingRepository.createSuite(suite);
+    console.log(
+      `[TestingService] Created suite ${suite.suiteId} (${suite.runs.length} run(s))`,
+    );
+
+    await SuiteRunner.start(suite.suiteId);
+    return { ok: true, data: (await testingRepository.findSuiteById(suite.suiteId)) ?? suite };
+  }
+
+  /**
+   * List test suites, newest first.
+   */
+  static async listSuites(filters?: {
+    status?: string;
+  }): Promise<ServiceResult<{ suites: TestSuite[]; count: number }>> {
+    const suites = await testingRepository.findAllSuites(filters);
+    return { ok: true, data: { suites, count: suites.length } };
+  }
+
+  /**
+   * Get a single test suite by ID.
+   */
+  static async getSuite(suiteId: string): Promise<ServiceResult<TestSuite>> {
+    const suite = await testingRepository.findSuiteById(suiteId);
+    if (!suite) {
+      return {
+        ok: false,
+        message: `Test suite ${suiteId} not found`,
+        code: "SUITE_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+    return { ok: true, data: suite };
+  }
+
+  /**
+   * Cancel a running suite and stop its active runs.
+   */
+  static async cancelSuite(suiteId: string): Promise<ServiceResult<TestSuite>> {
+    const found = await this.getSuite(suiteId);
+    if (!found.ok) return found;
+
+    if (found.data.status !== "running") {
+      return {
+        ok: false,
+        message: `Test suite ${suiteId} is ${found.data.status} — cannot cancel`,
+        code: "INVALID_STATUS",
+        httpStatus: 409,
+      };
+    }
+
+    await SuiteRunner.cancel(suiteId);
+    return this.getSuite(suiteId);
+  }
+
+  /**
+   * Delete a suite (only if not running). Its test runs stay in history.
+   */
+  static async deleteSuite(
+    suiteId: string,
+  ): Promise<ServiceResult<{ message: string }>> {
+    const found = await this.getSuite(suiteId);
+    if (!found.ok) return found;
+
+    if (found.data.status === "running") {
+      return {
+        ok: false,
+        message: `Test suite ${suiteId} is running — cancel it first`,
+        code: "SUITE_ACTIVE",
+        httpStatus: 409,
+      };
+    }
+
+    await testingRepository.deleteSuite(suiteId);
+    return { ok: true, data: { message: `Test suite ${suiteId} deleted` } };
+  }
+
+  /**
+   * Rank the suite's models by a metric over its finished runs.
+   */
+  static async getSuiteLeaderboard(
+    suiteId: string,
+    metric?: LeaderboardMetric,
+  ): Promise<ServiceResult<Leaderboard>> {
+    const found = await this.getSuite(suiteId);
+    if (!found.ok) return found;
+
+    const runs: TestRun[] = [];
+    for (const { testId } of found.data.runs) {
+      const run = testId ? await testingRepository.findById(testId) : null;
+      if (run) runs.push(run);
+    }
+
+    return { ok: true, data: buildLeaderboard(runs, metric) };
+  }
+
+  /**
+   * Summarise an intensity-sweep suite's metrics per model and intensity.
+   */
+  static async getSuiteSweep(suiteId: string): Promise<ServiceResult<IntensitySweep>> {
+    const found = await this.getSuite(suiteId);
+    if (!found.ok) return found;
+
+    if (!found.data.behaviorIntensities) {
+      return {
+        ok: false,
+        message: `Test suite ${suiteId} is not an intensity sweep`,
+        code: "NOT_A_SWEEP",
+        httpStatus: 400,
+      };
+    }
+
+    const runs: TestRun[] = [];
+    for (const { testId } of found.data.runs) {
+      const run = testId ? await testingRepository.findById(testId) : null;
+      if (run) runs.push(run);
+    }
+
+    return { ok: true, data: buildIntensitySweep(found.data, runs) };
+  }
+
+  /**
+   * Create a recurring test schedule.
+   */
+  static async createSchedule(
+    request: CreateTestScheduleRequest,
+  ): Promise<ServiceResult<TestSchedule>> {
+    if (!getScenario(request.runTemplate.scenarioType)) {
+      return {
+        ok: false,
+        message: `Unknown scenario type: ${request.runTemplate.scenarioType}`,
+        code: "INVALID_SCENARIO",
+        httpStatus: 400,
+      };
+    }
+
+    const cronError = validateCron(request.cron);
+    if (cronError) return cronError;
+
+    const enabled = request.enabled ?? true;
+    const now = new Date();
+    const schedule: TestSchedule = {
+      scheduleId: generateScheduleId(),
+      name: request.name?.trim() || `${request.runTemplate.scenarioType} (${request.cron})`,
+      cron: request.cron.trim(),
+      enabled,
+      runTemplate: request.runTemplate,
+      regressionPolicy: { ...DEFAULT_REGRESSION_POLICY, ...request.regressionPolicy },
+      runs: [],
+      nextRunAt: enabled ? nextRunAt(request.cron, now) : null,
+      lastRunAt: null,
+      createdAt: now.toISOString(),
+    };
+
+    await testingRepository.createSchedule(schedule);
+    console.log(
+      `[TestingService] Created schedule ${schedule.scheduleId} (next run ${schedule.nextRunAt})`,
+    );
+    return { ok: true, data: schedule };
+  }
+
+  /**
+   * List test schedules, newest first.
+   */
+  static async listSchedules(): Promise<
+    ServiceResult<{ schedules: TestSchedule[]; count: number }>
+  > {
+    const schedules = await testingRepository.findAllSchedules();
+    return { ok: true, data: { schedules, count: schedules.length } };
+  }
+
+  /**
+   * Get a single test schedule by ID.
+   */
+  static async getSchedule(scheduleId: string): Promise<ServiceResult<TestSchedule>> {
+    const schedule = await testingRepository.findScheduleById(scheduleId);
+    if (!schedule) {
+      return {
+        ok: false,
+        message: `Schedule ${scheduleId} not found`,
+        code: "SCHEDULE_NOT_FOUND",
+        httpStatus: 404,
+      };
+    }
+    return { ok: true, data: schedule };
+  }
+
+  /**
+   * Change a schedule's name, timing or regression policy, or
+   * enable/disable it. The next run is recomputed from now.
+   */
+  static async updateSchedule(
+    scheduleId: string,
+    request: UpdateTestScheduleRequest,
+  ): Promise<ServiceResult<TestSchedule>> {
+    const found = await this.getSchedule(scheduleId);
+    if (!found.ok) return found;
+
+    if (request.cron !== undefined) {
+      const cronError = validateCron(request.cron);
+      if (cronError) return cronError;
+    }
+
+    const cron = request.cron?.trim() ?? found.data.cron;
+    const enabled = request.enabled ?? found.data.enabled;
+    await testingRepository.updateSchedule(scheduleId, {
+      name: request.name?.trim() || found.data.name,
+      cron,
+      enabled,
+      regressionPolicy: { ...found.data.regressionPolicy, ...request.regressionPolicy },
+      nextRunAt: enabled ? nextRunAt(cron, new Date()) : null,
+    });
+
+    return this.getSchedule(scheduleId);
+  }
+
+  /**
+   * Delete a schedule. Its test runs stay in history.
+   */
+  static async deleteSchedule(
+    scheduleId: string,
+  ): Promise<ServiceResult<{ message: string }>> {
+    const found = await this.getSchedule(scheduleId);
+    if (!found.ok) return found;
+
+    await testingRepository.deleteSchedule(scheduleId);
+    return { ok: true, data: { message: `Schedule ${scheduleId} deleted` } };
+  }
+
+  /**
+   * Start a run of a schedule now, without changing its next run.
+   */
+  static async triggerSchedule(
+    scheduleId: string,
+  ): Promise<ServiceResult<ScheduledRun>> {
+    return TestScheduler.triggerNow(scheduleId);
+  }
+
+  /**
+   * Start the scheduler for recurring test runs. Used during server startup.
+   */
+  static startScheduler(): void {
+    TestScheduler.start();
+  }
+
+  /**
+   * Reconcile test runs left over from a previous server process.
+   * Used during server startup.
+   */
+  static async recoverRuns(): Promise<void> {
+    await TestRunner.recoverRuns();
+  }
+
   /**
    * Stop all active tests. Used during server shutdown.
    */
   static async stopAll(): Promise<void> {
+    TestScheduler.stop();
     await TestRunner.stopAll();
   }
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function generateSuiteId(): string {
+  const rand = Math.random().toString(36).slice(2, 8);
+  return `suite-${Date.now()}-${rand}`;
+}
+
+function generateScheduleId(): string {
+  const rand = Math.random().toString(36).slice(2, 8);
+  return `schedule-${Date.now()}-${rand}`;
+}
+
+/** A 400 result if `cron` is invalid or never fires, otherwise null. */
+function validateCron(cron: string): ServiceResult<never> | null {
+  const parsed = parseCron(cron);
+  const message = !parsed.ok
+    ? `Invalid cron expression "${cron}": ${parsed.error}`
+    : nextRunAt(cron, new Date()) === null
+      ? `Cron expression "${cron}" never fires`
+      : null;
+
+  return message
+    ? { ok: false, message, code: "INVALID_CRON", httpStatus: 400 }
+    : null;
+}
+
+/** Persist a validated scenario, mapping file-system errors to a 500. */
+function writeScenario(scenario: TestScenario): ServiceResult<TestScenario> {
+  try {
+    saveScenario(scenario);
+  } catch (err) {
+    return {
+      ok: false,
+      message: `Failed to save scenario ${scenario.type}: ${err instanceof Error ? err.message : String(err)}`,
+      code: "SCENARIO_WRITE_FAILED",
+      httpStatus: 500,
+    };
+  }
+  return { ok: true, data: scenario };
+}
+
+/** Sum parse-failure metrics per response mode. */
+export function summarizeParseFailures(runs: TestRun[]): ParseFailureReport {
+  const empty = (): ParseFailureStats => ({
+    runCount: 0,
+    decisionCount: 0,
+    parseFailureCount: 0,
+    failureRate: 0,
+  });
+  const report: ParseFailureReport = { json: empty(), tools: empty() };
+
+  for (const run of runs) {
+    const stats = report[run.config.llmResponseMode ?? "json"];
+    stats.runCount += 1;
+    stats.decisionCount += run.metrics.llmDecisionCount;
+    stats.parseFailureCount += run.metrics.llmParseFailureCount ?? 0;
+  }
+
+  for (const stats of Object.values(report)) {
+    stats.failureRate =
+      stats.decisionCount > 0 ? stats.parseFailureCount / stats.decisionCount : 0;
+  }
+
+  return report;
+}
@@ -0,0 +1,187 @@
+/**
+ * Model Leaderboard
+ *
+ * Ranks target LLM models by a per-run metric over a set of finished
+ * test runs (typically one suite). Every metric is summarised with a
+ * 95% confidence interval, and each model is compared to the one ranked
+ * directly above it with Welch's t-test so the dashboard can tell real
+ * differences from noise.
+ *
+ * Runs stopped manually, ended by a pipeline error or interrupted by a
+ * server restart say nothing about the model and are left out.
+ */
+
+import type {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardMetricStats,
+  TestRun,
+} from "../types";
+import {
+  calculateConfidenceInterval,
+  calculateStatistics,
+  compareDatasets,
+} from "../../evaluation/analysis/statistical";
+import { getModelPricing } from "../../llm/pricing";
+
+// ---------------------------------------------------------------------------
+// Metric definitions
+// ---------------------------------------------------------------------------
+
+interface MetricDefinition {
+  higherIsBetter: boolean;
+  /** Value for one run, or null if the run has nothing to measure. */
+  value: (run: TestRun) => number | null;
+}
+
+export const LEADERBOARD_METRICS: Record<LeaderboardMetric, MetricDefinition> = {
+  "success-rate": {
+    higherIsBetter: true,
+    value: (run) => (run.completionReason === "success" ? 1 : 0),
+  },
+  "world-progress": {
+    higherIsBetter: true,
+    value: (run) =>
+      run.worldProgress.length > 0
+        ? run.worldProgress.reduce((sum, check) => sum + check.progress, 0) /
+          run.worldProgress.length
+        : null,
+  },
+  "llm-error-rate": {
+    higherIsBetter: false,
+    value: ({ metrics }) =>
+      metrics.llmDecisionCount > 0 ? metrics.llmErrorCount / metrics.llmDecisionCount : null,
+  },
+  "response-time-ms": {
+    higherIsBetter: false,
+    value: ({ metrics }) =>
+      metrics.llmDecisionCount > 0
+        ? metrics.totalLlmResponseTimeMs / metrics.llmDecisionCount
+        : null,
+  },
+  "cost-usd": {
+    higherIsBetter: false,
+    // A model without a known price accumulates $0, which is not "cheapest"
+    value: (run) =>
+      getModelPricing(run.targetLlmModel) !== null && !run.metrics.unpricedCallCount
+        ? run.metrics.totalCostUsd
+        : null,
+  },
+};
+
+/** Metric used when none is requested. */
+export const DEFAULT_LEADERBOARD_METRIC: LeaderboardMetric = "success-rate";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Whether a run counts towards a leaderboard. */
+export function isRankedRun(run: TestRun): boolean {
+  if (run.status !== "completed" && run.status !== "failed") return false;
+  return (
+    run.completionReason !== "manual-stop" &&
+    run.completionReason !== "error" &&
+    run.completionReason !== "server-restart"
+  );
+}
+
+/** Rank the models in `runs` by `rankingMetric`. */
+export function buildLeaderboard(
+  runs: TestRun[],
+  rankingMetric: LeaderboardMetric = DEFAULT_LEADERBOARD_METRIC,
+): Leaderboard {
+  const ranked = runs.filter(isRankedRun);
+
+  const runsByModel = new Map<string, TestRun[]>();
+  for (const run of ranked) {
+    const modelRuns = runsByModel.get(run.targetLlmModel) ?? [];
+    modelRuns.push(run);
+    runsByModel.set(run.targetLlmModel, modelRuns);
+  }
+
+  const models = Array.from(runsByModel, ([targetLlmModel, modelRuns]) => ({
+    targetLlmModel,
+    runCount: modelRuns.length,
+    samples: collectSamples(modelRuns),
+  }));
+
+  const { higherIsBetter } = LEADERBOARD_METRICS[rankingMetric];
+  models.sort((a, b) => {
+    const sa = a.samples[rankingMetric];
+    const sb = b.samples[rankingMetric];
+    // Models without a single value for the metric go last
+    if (sa.length === 0 || sb.length === 0) {
+      if (sa.length !== sb.length) return sa.length === 0 ? 1 : -1;
+    } else {
+      const diff = mean(sb) - mean(sa);
+      if (diff !== 0) return higherIsBetter ? diff : -diff;
+    }
+    return a.targetLlmModel.localeCompare(b.targetLlmModel);
+  });
+
+  const entries: LeaderboardEntry[] = models.map((model, i) => ({
+    rank: i + 1,
+    targetLlmModel: model.targetLlmModel,
+    runCount: model.runCount,
+    metrics: (Object.keys(LEADERBOARD_METRICS) as LeaderboardMetric[]).map((metric) =>
+      summarize(metric, model.samples[metric]),
+    ),
+    significantVsAbove:
+      i === 0
+        ? null
+        : isSignificant(models[i - 1].samples[rankingMetric], model.samples[rankingMetric]),
+  }));
+
+  return {
+    rankingMetric,
+    entries,
+    excludedRunCount: runs.length - ranked.length,
+  };
+}
+
+/** Every leaderboard metric summarised over `runs` (assumed ranked). */
+export function summarizeRuns(runs: TestRun[]): LeaderboardMetricStats[] {
+  const samples = collectSamples(runs);
+  return (Object.keys(LEADERBOARD_METRICS) as LeaderboardMetric[]).map((metric) =>
+    summarize(metric, samples[metric]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function collectSamples(runs: TestRun[]): Record<LeaderboardMetric, number[]> {
+  const samples = {} as Record<LeaderboardMetric, number[]>;
+  for (const [metric, definition] of Object.entries(LEADERBOARD_METRICS)) {
+    samples[metric as LeaderboardMetric] = runs
+      .map(definition.value)
+      .filter((value): value is number => value !== null);
+  }
+  return samples;
+}
+
+function summarize(metric: LeaderboardMetric, values: number[]): LeaderboardMetricStats {
+  const stats = calculateStatistics(values);
+  const interval = calculateConfidenceInterval(values);
+  return {
+    metric,
+    mean: stats.mean,
+    stdDev: stats.stdDev,
+    lower: interval.lower,
+    upper: interval.upper,
+    sampleSize: values.length,
+  };
+}
+
+/** Welch's t-test needs at least two samples on each side. */
+function isSignificant(above: number[], below: number[]): boolean {
+  if (above.length < 2 || below.length < 2) return false;
+  return compareDatasets(above, below).significant;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,47 @@
+/**
+ * Suite Matrix
+ *
+ * Expands a suite's models and repetition count into the runs it
+ * dispatches. Repetitions are interleaved across models (every model's
+ * first run, then every model's second run, ...) so a suite that is
+ * cancelled half-way still holds comparable samples for each model.
+ * Every run of the same repetition shares a random seed, so the models
+ * face the same testing-agent choices.
+ *
+ * An intensity-sweep suite also runs every model at each of its
+ * behavior intensities (repetition, then intensity, then model).
+ */
+
+import type { SuiteRun, TestRun } from "../types";
+import { deriveSeed } from "../../agents/orchestrator/random";
+
+/** Build the run matrix for a suite, in dispatch order; seeds derive from `seed`. */
+export function expandSuiteRuns(
+  models: string[],
+  repetitions: number,
+  seed: number,
+  behaviorIntensities: number[] | null = null,
+): SuiteRun[] {
+  const runs: SuiteRun[] = [];
+  for (let repetition = 1; repetition <= repetitions; repetition++) {
+    const randomSeed = deriveSeed(seed, `repetition-${repetition}`);
+    for (const behaviorIntensity of behaviorIntensities ?? [null]) {
+      for (const targetLlmModel of models) {
+        runs.push({
+          targetLlmModel,
+          repetition,
+          behaviorIntensity,
+          randomSeed,
+          testId: null,
+          error: null,
+        });
+      }
+    }
+  }
+  return runs;
+}
+
+/** Whether a test run has reached a terminal status. */
+export function isRunFinished(run: Pick<TestRun, "status">): boolean {
+  return run.status === "completed" || run.status === "failed" || run.status === "cancelled";
+}
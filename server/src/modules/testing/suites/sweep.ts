@@ -0,0 +1,44 @@
+/**
+ * Intensity Sweep
+ *
+ * Summarises an intensity-sweep suite: for each model, every leaderboard
+ * metric at each testing-agent intensity, so the dashboard can plot how
+ * the model degrades as the agents get more hostile. Runs are grouped
+ * by the intensity they actually ran at, and the same runs as on the
+ * leaderboard are left out (see isRankedRun).
+ */
+
+import type { IntensitySweep, TestRun, TestSuite } from "../types";
+import { isRankedRun, summarizeRuns } from "./leaderboard";
+
+/** Build the sweep report for `suite` from its runs. */
+export function buildIntensitySweep(
+  suite: Pick<TestSuite, "suiteId" | "targetLlmModels" | "behaviorIntensities">,
+  runs: TestRun[],
+): IntensitySweep {
+  const intensities = suite.behaviorIntensities ?? [];
+  const ranked = runs.filter(isRankedRun);
+
+  const series = suite.targetLlmModels.map((targetLlmModel) => ({
+    targetLlmModel,
+    points: intensities.map((behaviorIntensity) => {
+      const pointRuns = ranked.filter(
+        (run) =>
+          run.targetLlmModel === targetLlmModel &&
+          run.config.behaviorIntensity === behaviorIntensity,
+      );
+      return {
+        behaviorIntensity,
+        runCount: pointRuns.length,
+        metrics: summarizeRuns(pointRuns),
+      };
+    }),
+  }));
+
+  return {
+    suiteId: suite.suiteId,
+    behaviorIntensities: intensities,
+    series,
+    excludedRunCount: runs.length - ranked.length,
+  };
+}
@@ -6,7 +6,8 @@
  * Elysia route/WS validation models live in model.ts (TypeBox).
  */
 
-import type { BehavioralProfile } from "../agents/model";
+import type { AgentExecutorMode, BehavioralProfile } from "../agents/model";
+import type { PerceptionVerbosity } from "../minecraft/types";
 
 // ---------------------------------------------------------------------------
 // Test Run Lifecycle
@@ -15,18 +16,21 @@ import type { BehavioralProfile } from "../agents/model";
 /** Possible states of a test run. */
 export type TestRunStatus =
   | "created"
+  | "queued"
   | "initializing"
   | "coordination"
   | "executing"
+  | "paused"
   | "completing"
   | "completed"
   | "failed"
   | "cancelled";
 
-/** Available scenario types for testing. */
-export type ScenarioType =
-  | "cooperation"
-  | "resource-management";
+/**
+ * Scenario type: the kebab-case name of a scenario definition file
+ * under SCENARIO_DIR (e.g. "cooperation").
+ */
+export type ScenarioType = string;
 
 // ---------------------------------------------------------------------------
 // Test Run
@@ -58,28 +62,149 @@ export interface TestRun {
   durationSeconds: number;
   /** ISO-8601 timestamp when the test was created. */
   createdAt: string;
+  /** ISO-8601 timestamp when the run last joined the queue (FIFO order). */
+  queuedAt: string | null;
   /** ISO-8601 timestamp when execution started. */
   startedAt: string | null;
   /** ISO-8601 timestamp when execution ended. */
   endedAt: string | null;
+  /** ISO-8601 timestamp when the current pause began (null unless paused). */
+  pausedAt: string | null;
+  /** Total seconds spent paused in completed pauses; not counted against the duration. */
+  pausedSeconds: number;
   /** Completion reason if test has ended. */
   completionReason: CompletionReason | null;
   /** Configuration overrides for this test run. */
   config: TestRunConfig;
   /** Accumulated metrics during the test. */
   metrics: TestMetrics;
+  /** Outcome of applying the scenario's initial conditions (null until setup runs). */
+  worldSetup: WorldSetupReport | null;
+  /** Latest progress of the scenario's world checks (empty until first evaluated). */
+  worldProgress: WorldCheckProgress[];
+  /** Scenario phases started so far, oldest first. */
+  phaseHistory: PhaseRecord[];
+  /** Adaptive intensity decisions so far, oldest first (empty unless config.adaptiveIntensity). */
+  intensityTimeline: IntensityStep[];
+  /** ID of the run this one replays (null unless it is a replay). */
+  replayOf: string | null;
+}
+
+/** Result of the world-setup stage that applies scenario InitialConditions. */
+export interface WorldSetupReport {
+  /** Whether every setup step succeeded. */
+  applied: boolean;
+  /** ISO-8601 timestamp when setup ran. */
+  appliedAt: string;
+  /** Human-readable description of each failed step. */
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// World Checks
+// ---------------------------------------------------------------------------
+
+/** Progress of one world-state success check. */
+export interface WorldCheckProgress {
+  /** Check ID from the scenario definition. */
+  id: string;
+  description: string;
+  type: "block-count" | "enclosed-structure" | "inventory-items" | "crafted-item";
+  /** Completion from 0 to 1. */
+  progress: number;
+  /** Whether the check's success threshold is reached. */
+  met: boolean;
+  /** Human-readable detail, e.g. "41/66 wall and roof blocks placed". */
+  detail: string;
+}
+
+// ---------------------------------------------------------------------------
+// Phases
+// ---------------------------------------------------------------------------
+
+/** A scenario phase that has started during a run. */
+export interface PhaseRecord {
+  /** Phase ID from the scenario definition. */
+  id: string;
+  description: string;
+  /** ISO-8601 timestamp when the phase started. */
+  startedAt: string;
+  /** Seconds since execution began. */
+  elapsedSeconds: number;
+  /** Whether the phase replaced the target's objective. */
+  objectiveChanged: boolean;
+  /** Events that could not be applied. */
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Adaptive Intensity
+// ---------------------------------------------------------------------------
+
+/**
+ * How the target did over one difficulty window:
+ * - "coping": making progress without many failures — push harder
+ * - "stuck": no progress or failing often — ease off
+ * - "steady": neither, or too little evidence — hold
+ */
+export type TargetAssessment = "coping" | "stuck" | "steady";
+
+/** One decision of the adaptive difficulty controller. */
+export interface IntensityStep {
+  /** ISO-8601 timestamp of the decision. */
+  at: string;
+  /** Seconds since execution began. */
+  elapsedSeconds: number;
+  /** Intensity the testing agents ran at during the window. */
+  intensity: number;
+  assessment: TargetAssessment;
+  /** Human-readable evidence, e.g. "world progress +8%, 1/6 decisions failed". */
+  reason: string;
+  /** Intensity set for the next window. */
+  nextIntensity: number;
 }
 
 // ---------------------------------------------------------------------------
 // Test Run Configuration
 // ---------------------------------------------------------------------------
 
+/**
+ * How the target LLM returns its decisions:
+ * - "json": free-form JSON in the response text, parsed by the agent
+ * - "tools": native tool calls, validated against the BotAction union
+ */
+export type LlmResponseMode = "json" | "tools";
+
+/**
+ * What the target LLM remembers between decision cycles:
+ * - "stateless": every cycle is a fresh system + user prompt
+ * - "memory": a rolling window of previous decisions and action results,
+ *   summarised once `memoryTokenBudget` is exceeded
+ */
+export type MemoryStrategy = "stateless" | "memory";
+
 /** User-provided configuration for a test run. */
 export interface TestRunConfig {
   /** LLM polling interval in milliseconds (default 7000). */
   llmPollingIntervalMs: number;
-  /** Behavior intensity for testing agents (0-1, default 0.5). */
+  /** How the target LLM returns decisions (default "json"). */
+  llmResponseMode: LlmResponseMode;
+  /** Whether the target LLM keeps conversation memory (default "stateless"). */
+  memoryStrategy: MemoryStrategy;
+  /** Estimated tokens of memory kept before older cycles are summarised. */
+  memoryTokenBudget: number;
+  /** How much of the surrounding world the target LLM is told about (default "standard"). */
+  perceptionVerbosity: PerceptionVerbosity;
+  /** Behavior intensity for testing agents (0-1, default 0.5); the starting point when adaptive. */
   behaviorIntensity: number;
+  /** Whether intensity follows the target's performance during the run (default false). */
+  adaptiveIntensity: boolean;
+  /** Whether testing agents are scripted or LLM-driven (default "scripted"). */
+  testingAgentMode: AgentExecutorMode;
+  /** Model used by LLM-driven testing agents. */
+  testingAgentModel: string;
+  /** Seed for the testing agents' random choices (random unless given; replays reuse it). */
+  randomSeed: number;
   /** Whether to enable Discord voice coordination. */
   enableVoice: boolean;
   /** Whether to enable Discord text coordination. */
@@ -94,6 +219,19 @@ export interface TestRunConfig {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Target Actions
+// ---------------------------------------------------------------------------
+
+/** Outcome of one action the target LLM dispatched. */
+export interface TargetActionOutcome {
+  actionType: string;
+  status: "success" | "failure" | "cancelled";
+  /** Human-readable detail or error message. */
+  message: string;
+  durationMs: number;
+}
+
 // ---------------------------------------------------------------------------
 // Completion
 // ---------------------------------------------------------------------------
@@ -104,7 +242,8 @@ export type CompletionReason =
   | "timeout"
   | "manual-stop"
   | "error"
-  | "all-agents-failed";
+  | "all-agents-failed"
+  | "server-restart";
 
 // ---------------------------------------------------------------------------
 // Metrics
@@ -124,12 +263,39 @@ export interface TestMetrics {
   testingAgentMessageCount: number;
   /** Number of LLM errors encountered. */
   llmErrorCount: number;
+  /** Decisions whose response could not be parsed into valid actions. */
+  llmParseFailureCount: number;
   /** Total LLM response time in milliseconds (for averaging). */
   totalLlmResponseTimeMs: number;
+  /** Total prompt (input) tokens consumed by the target LLM. */
+  totalInputTokens: number;
+  /** Total completion (output) tokens produced by the target LLM. */
+  totalOutputTokens: number;
+  /** Total tokens (input + output, as reported by the provider). */
+  totalTokens: number;
+  /** Estimated total cost of target LLM calls in USD. */
+  totalCostUsd: number;
+  /** LLM calls whose model has no known price (not counted in totalCostUsd). */
+  unpricedCallCount: number;
   /** Last LLM decision timestamp. */
   lastLlmDecisionAt: string | null;
 }
 
+/** Parse-failure totals for one LLM response mode across test runs. */
+export interface ParseFailureStats {
+  /** Number of runs that used this mode. */
+  runCount: number;
+  /** Total decision cycles across those runs. */
+  decisionCount: number;
+  /** Decisions whose response could not be parsed into valid actions. */
+  parseFailureCount: number;
+  /** parseFailureCount / decisionCount (0 when there are no decisions). */
+  failureRate: number;
+}
+
+/** Parse-failure statistics reported separately per response mode. */
+export type ParseFailureReport = Record<LlmResponseMode, ParseFailureStats>;
+
 /**
  * Keys of TestMetrics that hold numeric values (safe for incrementing).
  * Excludes non-numeric fields like `lastLlmDecisionAt`.
@@ -150,10 +316,10 @@ export interface TestActionLog {
   testId: string;
   /** Which agent performed the action ("target" or testing agent ID). */
   sourceAgentId: string;
-  /** Whether this was from the target LLM or a testing agent. */
-  sourceType: "target" | "testing-agent";
+  /** Whether this was from the target LLM, a testing agent or the coordinator itself. */
+  sourceType: "target" | "testing-agent" | "system";
   /** Category of action. */
-  actionCategory: "minecraft" | "discord" | "llm-decision";
+  actionCategory: "minecraft" | "discord" | "llm-decision" | "setup" | "phase" | "difficulty";
   /** Specific action type or description. */
   actionDetail: string;
   /** ISO-8601 timestamp. */
@@ -175,6 +341,228 @@ export interface CreateTestRequest {
   config?: Partial<TestRunConfig>;
 }
 
+// ---------------------------------------------------------------------------
+// Test Suites
+// ---------------------------------------------------------------------------
+
+/** Lifecycle of a test suite. */
+export type TestSuiteStatus = "running" | "completed" | "cancelled";
+
+/** Settings shared by every run of a suite. */
+export type SuiteRunTemplate = Omit<CreateTestRequest, "scenarioType" | "targetLlmModel">;
+
+/** One cell of a suite's model x repetition (x intensity) matrix. */
+export interface SuiteRun {
+  targetLlmModel: string;
+  /** 1-based repetition number for this model. */
+  repetition: number;
+  /** Testing-agent intensity for this run (null: the template's). */
+  behaviorIntensity: number | null;
+  /** Random seed for the run; shared by every run of this repetition. */
+  randomSeed: number;
+  /** Test run created for this cell, or null until it is dispatched. */
+  testId: string | null;
+  /** Why the run could not be created or started. */
+  error: string | null;
+}
+
+/** One scenario configuration run across several models and repetitions. */
+export interface TestSuite {
+  suiteId: string;
+  name: string;
+  scenarioType: ScenarioType;
+  targetLlmModels: string[];
+  repetitions: number;
+  /** Intensity sweep: every model runs at each of these intensities (null: no sweep). */
+  behaviorIntensities: number[] | null;
+  runTemplate: SuiteRunTemplate;
+  /** Matrix cells in dispatch order (repetitions interleaved across models). */
+  runs: SuiteRun[];
+  status: TestSuiteStatus;
+  createdAt: string;
+  endedAt: string | null;
+}
+
+/** Domain-level request to create and start a test suite. */
+export interface CreateTestSuiteRequest extends SuiteRunTemplate {
+  name?: string;
+  scenarioType: ScenarioType;
+  targetLlmModels: string[];
+  repetitions: number;
+  behaviorIntensities?: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Leaderboard
+// ---------------------------------------------------------------------------
+
+/** Per-run metrics a leaderboard can rank models by. */
+export type LeaderboardMetric =
+  | "success-rate"
+  | "world-progress"
+  | "llm-error-rate"
+  | "response-time-ms"
+  | "cost-usd";
+
+/** Summary of one metric over a model's runs. */
+export interface LeaderboardMetricStats {
+  metric: LeaderboardMetric;
+  mean: number;
+  stdDev: number;
+  /** 95% confidence interval of the mean. */
+  lower: number;
+  upper: number;
+  /** Runs that produced a value for this metric. */
+  sampleSize: number;
+}
+
+/** A model's position on a leaderboard. */
+export interface LeaderboardEntry {
+  rank: number;
+  targetLlmModel: string;
+  /** Finished runs counted for this model. */
+  runCount: number;
+  metrics: LeaderboardMetricStats[];
+  /**
+   * Whether the gap to the model ranked directly above is significant
+   * (Welch's t-test on the ranking metric). Null for the top model.
+   */
+  significantVsAbove: boolean | null;
+}
+
+/** Models ranked by one metric over a set of finished runs. */
+export interface Leaderboard {
+  rankingMetric: LeaderboardMetric;
+  entries: LeaderboardEntry[];
+  /** Runs not counted: still active, stopped manually or ended by an error. */
+  excludedRunCount: number;
+}
+
+/** A model's metrics at one intensity of a sweep. */
+export interface IntensitySweepPoint {
+  behaviorIntensity: number;
+  /** Finished runs counted at this intensity. */
+  runCount: number;
+  metrics: LeaderboardMetricStats[];
+}
+
+/** How one model's metrics change with testing-agent intensity. */
+export interface IntensitySweepSeries {
+  targetLlmModel: string;
+  /** Ordered by increasing intensity. */
+  points: IntensitySweepPoint[];
+}
+
+/** An intensity-sweep suite's results, per model. */
+export interface IntensitySweep {
+  suiteId: string;
+  behaviorIntensities: number[];
+  series: IntensitySweepSeries[];
+  /** Runs not counted: still active, stopped manually or ended by an error. */
+  excludedRunCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+/** When a scheduled run counts as a regression. */
+export interface RegressionPolicy {
+  /** Metrics compared against the baseline. */
+  metrics: LeaderboardMetric[];
+  /** How many of the most recent previous runs form the baseline. */
+  baselineSize: number;
+  /**
+   * Largest tolerated worsening: absolute points for rates (0-1),
+   * relative to the baseline for response time and cost.
+   */
+  threshold: number;
+}
+
+/** One metric of a run compared to its baseline. */
+export interface MetricComparison {
+  metric: LeaderboardMetric;
+  /** Mean over the baseline runs. */
+  baseline: number;
+  value: number;
+  /** Worsening versus the baseline in threshold units (negative if better). */
+  change: number;
+  regressed: boolean;
+}
+
+/** Outcome of comparing a scheduled run to its rolling baseline. */
+export interface RegressionReport {
+  baselineTestIds: string[];
+  comparisons: MetricComparison[];
+  /** Whether any compared metric regressed. */
+  regressed: boolean;
+  evaluatedAt: string;
+}
+
+/** A test run started by a schedule. */
+export interface ScheduledRun {
+  testId: string;
+  triggeredAt: string;
+  /** Null until the run finishes, or if it could not be compared. */
+  report: RegressionReport | null;
+}
+
+/** A recurring test run. */
+export interface TestSchedule {
+  scheduleId: string;
+  name: string;
+  /** Five-field cron expression, evaluated in UTC. */
+  cron: string;
+  enabled: boolean;
+  /** Request used to create every run. */
+  runTemplate: CreateTestRequest;
+  regressionPolicy: RegressionPolicy;
+  /** Runs started by this schedule, oldest first (most recent only). */
+  runs: ScheduledRun[];
+  /** ISO-8601 time of the next run (null while disabled). */
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+/** Domain-level request to create a schedule. */
+export interface CreateTestScheduleRequest {
+  name?: string;
+  cron: string;
+  enabled?: boolean;
+  runTemplate: CreateTestRequest;
+  regressionPolicy?: Partial<RegressionPolicy>;
+}
+
+/** Domain-level request to change a schedule. */
+export type UpdateTestScheduleRequest = Partial<
+  Omit<CreateTestScheduleRequest, "runTemplate">
+>;
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/** The first target decision a replay resolved differently from its original. */
+export interface ReplayDivergence {
+  /** 1-based index of the decision in both runs. */
+  decision: number;
+  originalTimestamp: string;
+  replayTimestamp: string;
+  originalResults: TargetActionOutcome[];
+  replayResults: TargetActionOutcome[];
+}
+
+/** How closely a replay followed the run it replays. */
+export interface ReplayComparison {
+  sourceTestId: string;
+  replayTestId: string;
+  originalDecisions: number;
+  replayedDecisions: number;
+  /** Null while every replayed decision matched the original. */
+  firstDivergence: ReplayDivergence | null;
+}
+
 // ---------------------------------------------------------------------------
 // Service Result (reuse pattern from discord/types.ts)
 // ---------------------------------------------------------------------------
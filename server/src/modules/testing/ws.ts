@@ -79,9 +79,14 @@ function forwardTestEvent<K extends keyof TestEventMap>(event: K): void {
 forwardTestEvent("test-status-changed");
 forwardTestEvent("target-llm-decision");
 forwardTestEvent("agent-action");
+forwardTestEvent("agent-tree-tick");
 forwardTestEvent("test-chat-message");
 forwardTestEvent("test-metrics-updated");
+forwardTestEvent("test-world-progress");
+forwardTestEvent("test-phase-changed");
+forwardTestEvent("test-intensity-step");
 forwardTestEvent("test-completed");
+forwardTestEvent("test-regression");
 forwardTestEvent("test-error");
 
 // ---------------------------------------------------------------------------